@@ -1,14 +1,41 @@
-import { useState } from 'react'
+import { useEffect, type ReactNode } from 'react'
+import { Link, NavLink, Navigate, Outlet, Route, Routes, useNavigate } from 'react-router-dom'
 import ShuttleRequest from './components/ShuttleRequest'
 import OwnerDashboard from './components/OwnerDashboard'
+import DriverRoster from './components/DriverRoster'
+import CapacitySettings from './components/CapacitySettings'
+import NotificationOutbox from './components/NotificationOutbox'
+import Analytics from './components/Analytics'
+import RequestRules from './components/RequestRules'
+import DriverView from './components/DriverView'
+import MyRequests from './components/MyRequests'
+import RequestPage from './components/RequestPage'
+import InspectionReportPage from './components/InspectionReportPage'
+import TrackRequest from './components/TrackRequest'
+import RequireAuth from './components/RequireAuth'
+import SignIn from './components/SignIn'
+import { useAuth } from './hooks/useAuth'
+import { ROLE_LABELS, type UserRole } from './lib/auth'
+import { ruleRunner } from './lib/rules'
+import { ROUTES } from './lib/routes'
 
-type ViewType = 'customer' | 'owner';
+const navLinkClass = ({ isActive }: { isActive: boolean }) =>
+  `px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+    isActive ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+  }`
 
-function App() {
-  const [currentView, setCurrentView] = useState<ViewType>('customer')
+// Navigation bar around the customer-facing pages; renders the matched child route unless given children
+function Layout({ children }: { children?: ReactNode }) {
+  const { user, isStaff, signOut } = useAuth()
+  const navigate = useNavigate()
 
-  if (currentView === 'owner') {
-    return <OwnerDashboard onBack={() => setCurrentView('customer')} />
+  const handleSignOut = async () => {
+    try {
+      await signOut()
+      navigate(ROUTES.book)
+    } catch (err) {
+      console.error('Failed to sign out:', err)
+    }
   }
 
   return (
@@ -17,42 +44,147 @@ function App() {
       <nav className="bg-white shadow-sm border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
-            <div className="flex items-center gap-3">
+            <Link to={ROUTES.book} className="flex items-center gap-3">
               <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
                 <span className="text-white font-bold text-lg">S</span>
               </div>
               <span className="text-xl font-bold text-gray-900">Shuttle Forge</span>
-            </div>
-            
+            </Link>
+
             <div className="flex items-center gap-4">
-              <button
-                onClick={() => setCurrentView('customer')}
-                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                  currentView === 'customer'
-                    ? 'bg-blue-100 text-blue-700'
-                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
-                }`}
-              >
+              <NavLink to={ROUTES.book} className={navLinkClass}>
                 Customer View
-              </button>
-              <button
-                onClick={() => setCurrentView('owner')}
-                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                  currentView === ('owner' as ViewType)
-                    ? 'bg-blue-100 text-blue-700'
-                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
-                }`}
-              >
-                Owner Dashboard
-              </button>
+              </NavLink>
+              {user ? (
+                <NavLink to={ROUTES.myRequests} className={navLinkClass}>
+                  My Requests
+                </NavLink>
+              ) : (
+                <NavLink to={ROUTES.track} className={navLinkClass}>
+                  Track a Request
+                </NavLink>
+              )}
+              {(isStaff || !user) && (
+                <NavLink to={ROUTES.owner} className={navLinkClass}>
+                  Owner Dashboard
+                </NavLink>
+              )}
+              {user?.role === 'driver' && (
+                <NavLink to={ROUTES.driver} className={navLinkClass}>
+                  Today&apos;s Jobs
+                </NavLink>
+              )}
+              {user ? (
+                <div className="flex items-center gap-3 pl-4 border-l border-gray-200 text-sm">
+                  <span className="text-gray-600">
+                    {user.fullName || user.email}
+                    {user.role !== 'customer' && <span className="text-gray-400"> · {ROLE_LABELS[user.role]}</span>}
+                  </span>
+                  <button onClick={handleSignOut} className="font-medium text-gray-600 hover:text-gray-900">
+                    Sign out
+                  </button>
+                </div>
+              ) : (
+                <NavLink to={ROUTES.signIn} className={navLinkClass}>
+                  Sign in
+                </NavLink>
+              )}
             </div>
           </div>
         </div>
       </nav>
 
-      <ShuttleRequest />
+      {children ?? <Outlet />}
+    </div>
+  )
+}
+
+// Where each role lands after signing in
+const homeFor = (role: UserRole) =>
+  role === 'customer' ? ROUTES.myRequests : role === 'driver' ? ROUTES.driver : ROUTES.owner
+
+function NotFound() {
+  return (
+    <div className="max-w-md mx-auto px-4 py-12 text-center">
+      <h1 className="text-2xl font-bold text-gray-900">Page not found</h1>
+      <p className="mt-2 text-gray-600">That link doesn&apos;t match any page.</p>
+      <Link to={ROUTES.book} className="mt-6 inline-block text-sm font-medium text-blue-600 hover:text-blue-700">
+        Book a shuttle
+      </Link>
     </div>
   )
 }
 
+function App() {
+  const { user, loading, isStaff } = useAuth()
+  const navigate = useNavigate()
+
+  // The request rules need a staff session to change statuses from the browser; with Supabase and
+  // pg_cron they also run on the server when nobody is signed in (lib/rules/runner.ts)
+  useEffect(() => (isStaff ? ruleRunner.start() : undefined), [isStaff])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <Routes>
+      <Route
+        path={ROUTES.drivers}
+        element={isStaff ? <DriverRoster /> : <Layout><RequireAuth staff /></Layout>}
+      />
+      <Route
+        path={ROUTES.capacity}
+        element={isStaff ? <CapacitySettings /> : <Layout><RequireAuth staff /></Layout>}
+      />
+      <Route
+        path={ROUTES.notifications}
+        element={isStaff ? <NotificationOutbox /> : <Layout><RequireAuth staff /></Layout>}
+      />
+      <Route
+        path={ROUTES.analytics}
+        element={isStaff ? <Analytics /> : <Layout><RequireAuth staff /></Layout>}
+      />
+      <Route
+        path={ROUTES.rules}
+        element={isStaff ? <RequestRules /> : <Layout><RequireAuth staff /></Layout>}
+      />
+      <Route
+        path={ROUTES.driver}
+        element={isStaff || user?.role === 'driver' ? <DriverView /> : <Layout><RequireAuth driver /></Layout>}
+      />
+      {/* Printable, so no navigation bar; customers open their own, staff any */}
+      <Route
+        path={ROUTES.inspectionReport}
+        element={user ? <InspectionReportPage /> : <Layout><RequireAuth /></Layout>}
+      />
+      {/* The dashboard brings its own header; anyone else gets the staff sign-in prompt inside the usual nav */}
+      <Route
+        path={`${ROUTES.owner}/*`}
+        element={isStaff ? <OwnerDashboard /> : <Layout><RequireAuth staff /></Layout>}
+      />
+
+      <Route element={<Layout />}>
+        <Route index element={<Navigate to={ROUTES.book} replace />} />
+        {/* Remount when the account changes so contact details are prefilled for the new user */}
+        <Route path={ROUTES.book} element={<ShuttleRequest key={user?.id ?? 'guest'} />} />
+        <Route
+          path={ROUTES.signIn}
+          element={user
+            ? <Navigate to={homeFor(user.role)} replace />
+            : <SignIn onSignedIn={(signedIn) => navigate(homeFor(signedIn.role))} />}
+        />
+        <Route path={ROUTES.track} element={<TrackRequest />} />
+        <Route path={ROUTES.myRequests} element={<RequireAuth><MyRequests /></RequireAuth>} />
+        <Route path={ROUTES.request} element={<RequireAuth><RequestPage /></RequireAuth>} />
+        <Route path="*" element={<NotFound />} />
+      </Route>
+    </Routes>
+  )
+}
+
 export default App
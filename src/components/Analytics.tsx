@@ -0,0 +1,227 @@
+import React from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useShuttleRequestSearch } from '../hooks/useShuttleRequestSearch';
+import { addDays, combineDateTime, startOfWeek, toDateInputValue } from '../lib/dates';
+import { analyzeRequests } from '../lib/domain';
+import { formatMoney } from '../lib/format';
+import { ROUTES } from '../lib/routes';
+import BarChart from './charts/BarChart';
+
+// Enough for several seasons; past it the figures say they are partial
+const ANALYTICS_LIMIT = 5000;
+
+interface RangePreset {
+  label: string;
+  range: (today: string) => { from: string; to: string };
+}
+
+const PRESETS: RangePreset[] = [
+  { label: 'Last 4 weeks', range: today => ({ from: startOfWeek(addDays(today, -21)), to: today }) },
+  { label: 'Last 12 weeks', range: today => ({ from: startOfWeek(addDays(today, -77)), to: today }) },
+  { label: 'Year to date', range: today => ({ from: `${today.slice(0, 4)}-01-01`, to: today }) },
+  { label: 'Next 4 weeks', range: today => ({ from: today, to: addDays(today, 27) }) }
+];
+
+const parseDate = (value: string | null) => (value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null);
+
+const weekLabel = (day: string) =>
+  combineDateTime(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatDays = (days: number | null) =>
+  days === null ? '—' : `${Math.round(days * 10) / 10} day${days === 1 ? '' : 's'}`;
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+const StatCard: React.FC<StatCardProps> = ({ label, value, detail }) => (
+  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+    <p className="text-sm font-medium text-gray-600">{label}</p>
+    <p className="mt-1 text-2xl font-semibold text-gray-900">{value}</p>
+    {detail && <p className="mt-1 text-xs text-gray-500">{detail}</p>}
+  </div>
+);
+
+const ChartCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+    <h2 className="text-md font-medium text-gray-900 mb-3">{title}</h2>
+    {children}
+  </div>
+);
+
+/**
+ * Analytics - Requests, vehicles and revenue per week, the busiest routes,
+ * how far ahead customers book and how many cancel (/owner/analytics)
+ *
+ * Covers requests dropping off in the chosen range, kept in the query string
+ * (`?from=2024-01-01&to=2024-03-31`) like the dashboard's filters. The last 12
+ * weeks are shown by default.
+ */
+const Analytics: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const today = toDateInputValue(new Date());
+  const fallback = PRESETS[1].range(today);
+  const from = parseDate(searchParams.get('from')) ?? fallback.from;
+  const to = parseDate(searchParams.get('to')) ?? fallback.to;
+
+  const { requests, total, loading, error } = useShuttleRequestSearch({
+    from,
+    to,
+    sort: 'dropoff_day',
+    ascending: true,
+    limit: ANALYTICS_LIMIT
+  });
+  const stats = analyzeRequests(requests, { from, to });
+  const money = (cents: number) => formatMoney(cents, stats.currency);
+
+  const setRange = (range: { from: string; to: string }) => setSearchParams({ from: range.from, to: range.to });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <Link to={ROUTES.owner} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+            ← Shuttle Requests
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">Analytics</h1>
+          <p className="mt-2 text-gray-600">How the business is doing, by drop-off day</p>
+        </div>
+
+        {/* Date Range */}
+        <div className="mb-6 flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="analyticsFrom" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              id="analyticsFrom"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => e.target.value && setRange({ from: e.target.value, to })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="analyticsTo" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              id="analyticsTo"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && setRange({ from, to: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {PRESETS.map(preset => {
+              const range = preset.range(today);
+              const active = range.from === from && range.to === to;
+              return (
+                <button
+                  key={preset.label}
+                  onClick={() => setRange(range)}
+                  aria-pressed={active}
+                  className={`px-3 py-2 border rounded-md text-sm font-medium ${
+                    active ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+        {total > requests.length && (
+          <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+            Only the first {requests.length} of {total} requests are counted. Pick a shorter range for full figures.
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-600">Loading analytics...</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <StatCard label="Requests" value={String(stats.requests)} />
+              <StatCard label="Vehicles" value={String(stats.vehicles)} />
+              <StatCard label="Revenue" value={money(stats.revenueCents)} detail={`${money(stats.bookedCents)} booked`} />
+              <StatCard
+                label="Lead time"
+                value={formatDays(stats.averageLeadDays)}
+                detail={stats.medianLeadDays === null ? undefined : `Median ${formatDays(stats.medianLeadDays)}`}
+              />
+              <StatCard
+                label="Cancellation rate"
+                value={stats.cancellationRate === null ? '—' : `${Math.round(stats.cancellationRate * 100)}%`}
+                detail={`${stats.cancelled} cancelled · ${stats.rejected} declined`}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ChartCard title="Requests per week">
+                <BarChart
+                  title="Requests per week"
+                  data={stats.weeks.map(week => ({ label: weekLabel(week.weekStart), value: week.requests }))}
+                />
+              </ChartCard>
+              <ChartCard title="Vehicles per week">
+                <BarChart
+                  title="Vehicles per week"
+                  data={stats.weeks.map(week => ({ label: weekLabel(week.weekStart), value: week.vehicles }))}
+                  barClassName="fill-indigo-500"
+                />
+              </ChartCard>
+              <ChartCard title="Revenue per week">
+                <BarChart
+                  title="Revenue per week"
+                  data={stats.weeks.map(week => ({ label: weekLabel(week.weekStart), value: week.revenueCents }))}
+                  formatValue={money}
+                  barClassName="fill-green-500"
+                />
+              </ChartCard>
+              <ChartCard title="Booked how far ahead">
+                <BarChart
+                  title="Requests by days between booking and drop-off"
+                  data={stats.leadTimes.map(bucket => ({ label: bucket.label, value: bucket.requests }))}
+                  barClassName="fill-yellow-500"
+                />
+              </ChartCard>
+            </div>
+
+            <ChartCard title="Top routes">
+              {stats.topRoutes.length === 0 ? (
+                <p className="text-sm text-gray-500">No requests in this range.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {stats.topRoutes.map(route => (
+                    <li key={`${route.parking}→${route.dropoff}`}>
+                      <div className="flex items-baseline justify-between gap-4 text-sm">
+                        <span className="text-gray-900">{route.parking} → {route.dropoff}</span>
+                        <span className="text-gray-500 whitespace-nowrap">
+                          {route.requests} request{route.requests === 1 ? '' : 's'} · {route.vehicles} vehicle{route.vehicles === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                      <div className="mt-1 h-2 rounded-full bg-gray-100">
+                        <div
+                          className="h-2 rounded-full bg-blue-500"
+                          style={{ width: `${(route.requests / stats.topRoutes[0].requests) * 100}%` }}
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </ChartCard>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,66 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  AuthContext,
+  authProvider as defaultProvider,
+  isStaffRole,
+  type AuthContextValue,
+  type AuthProvider as AuthBackend,
+  type SessionUser
+} from '../lib/auth';
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+  // Swap in a fake provider for tests or demos
+  provider?: AuthBackend;
+}
+
+/**
+ * Auth Provider - Restores the session on load and shares the signed-in user
+ */
+const AuthProvider: React.FC<AuthProviderProps> = ({ children, provider = defaultProvider }) => {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    provider.getSessionUser()
+      .then(restored => {
+        if (!cancelled) setUser(restored);
+      })
+      .catch(err => console.error('Failed to restore session:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const unsubscribe = provider.onChange(setUser);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [provider]);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    user,
+    loading,
+    isStaff: isStaffRole(user?.role),
+    signIn: async (credentials) => {
+      const signedIn = await provider.signIn(credentials);
+      setUser(signedIn);
+      return signedIn;
+    },
+    signUp: async (input) => {
+      const result = await provider.signUp(input);
+      if (result.status === 'signed_in') setUser(result.user);
+      return result;
+    },
+    signOut: async () => {
+      await provider.signOut();
+      setUser(null);
+    }
+  }), [provider, user, loading]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { WEEKDAY_LABELS, remainingCapacity, type DayAvailability } from '../lib/domain';
+import { addDays, combineDateTime } from '../lib/dates';
+
+type DayState = 'out_of_range' | 'closed' | 'full' | 'open';
+
+interface AvailabilityCalendarProps {
+  // Id of the element that labels the calendar
+  labelledBy?: string;
+  value: string;
+  min: string;
+  max: string;
+  availability: DayAvailability[];
+  // What the request being booked needs; days with less room left show as full
+  load: number;
+  onChange: (day: string) => void;
+  onBlur?: () => void;
+  invalid?: boolean;
+}
+
+const DAY_CLASSES: Record<DayState, string> = {
+  out_of_range: 'text-gray-300 cursor-not-allowed',
+  closed: 'text-gray-300 line-through cursor-not-allowed',
+  full: 'bg-gray-100 text-gray-400 hover:bg-gray-200',
+  open: 'text-gray-900 hover:bg-blue-50'
+};
+
+const DAY_TITLES: Record<DayState, string> = {
+  out_of_range: 'Not bookable',
+  closed: 'No shuttles this day',
+  full: 'Fully booked - waitlist only',
+  open: 'Available'
+};
+
+const monthOf = (day: string) => day.slice(0, 7);
+
+const shiftMonth = (month: string, by: number) => {
+  const date = combineDateTime(`${month}-01`);
+  date.setMonth(date.getMonth() + by);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Availability Calendar - Month view date picker that shows which days can
+ * still be booked
+ *
+ * Closed (blackout) days can't be picked. Full days are greyed out but stay
+ * selectable so the customer can join that day's waitlist. Days without
+ * availability data (still loading, or it failed) are treated as open; the
+ * data layer has the final say when the request is saved.
+ */
+const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({
+  labelledBy,
+  value,
+  min,
+  max,
+  availability,
+  load,
+  onChange,
+  onBlur,
+  invalid = false
+}) => {
+  const [month, setMonth] = useState(() => monthOf(value || min));
+
+  const byDay = new Map(availability.map(day => [day.day, day]));
+
+  const stateOf = (day: string): DayState => {
+    if (day < min || day > max) return 'out_of_range';
+    const dayAvailability = byDay.get(day);
+    if (!dayAvailability) return 'open';
+    if (dayAvailability.blackout) return 'closed';
+    const remaining = remainingCapacity(dayAvailability);
+    return remaining <= 0 || remaining < load ? 'full' : 'open';
+  };
+
+  const first = `${month}-01`;
+  const leadingBlanks = combineDateTime(first).getDay();
+  const days: string[] = [];
+  for (let day = first; monthOf(day) === month; day = addDays(day, 1)) days.push(day);
+
+  const monthLabel = combineDateTime(first).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+  return (
+    <div
+      role="group"
+      aria-labelledby={labelledBy}
+      onBlur={(e) => {
+        // Only count it as leaving the field once focus moves outside the whole calendar
+        if (!e.currentTarget.contains(e.relatedTarget)) onBlur?.();
+      }}
+      className={`rounded-md border p-3 ${invalid ? 'border-red-400' : 'border-gray-300'}`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <button
+          type="button"
+          onClick={() => setMonth(prev => shiftMonth(prev, -1))}
+          disabled={month <= monthOf(min)}
+          aria-label="Previous month"
+          className="px-2 py-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+        >
+          ‹
+        </button>
+        <span className="text-sm font-medium text-gray-900">{monthLabel}</span>
+        <button
+          type="button"
+          onClick={() => setMonth(prev => shiftMonth(prev, 1))}
+          disabled={month >= monthOf(max)}
+          aria-label="Next month"
+          className="px-2 py-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAY_LABELS.map(label => (
+          <span key={label} className="text-xs font-medium text-gray-500 py-1">{label}</span>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, index) => <span key={`blank-${index}`} />)}
+        {days.map(day => {
+          const state = stateOf(day);
+          const selected = day === value;
+          const reason = byDay.get(day)?.reason;
+          return (
+            <button
+              key={day}
+              type="button"
+              onClick={() => onChange(day)}
+              disabled={state === 'out_of_range' || state === 'closed'}
+              aria-pressed={selected}
+              aria-label={`${day}: ${DAY_TITLES[state]}`}
+              title={state === 'closed' && reason ? `${DAY_TITLES[state]} (${reason})` : DAY_TITLES[state]}
+              className={`py-1.5 rounded text-sm ${selected ? 'bg-blue-600 text-white hover:bg-blue-600' : DAY_CLASSES[state]}`}
+            >
+              {Number(day.slice(8))}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border border-gray-300 bg-white" />Available</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-gray-200" />Full (waitlist)</span>
+        <span className="flex items-center gap-1"><span className="text-gray-400 line-through">15</span>Closed</span>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityCalendar;
@@ -0,0 +1,153 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { TRANSMISSION_LABELS, type Invoice, type ShuttleRequest } from '../lib/domain';
+import { formatMoney } from '../lib/format';
+import PaymentSummary from './PaymentSummary';
+import QuoteSummary from './QuoteSummary';
+import StatusBadge from './StatusBadge';
+
+interface BookingConfirmationProps {
+  request: ShuttleRequest;
+  // Issued when the customer paid at checkout
+  invoice?: Invoice | null;
+  onBookAnother: () => void;
+  // Where the customer can follow the request: their request page, or the tracking page for guests
+  detailsPath?: string;
+}
+
+/**
+ * Booking Confirmation - Shown to the customer once a request has been saved
+ *
+ * Leads with the reference number the customer should quote, then repeats the
+ * booking back to them so they can spot mistakes, along with anything they
+ * paid at checkout.
+ */
+const BookingConfirmation: React.FC<BookingConfirmationProps> = ({ request, invoice, onBookAnother, detailsPath }) => {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <section className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 md:p-8">
+            <div className="text-center mb-8">
+              <div className="mx-auto w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mb-4">
+                <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+              </div>
+              {request.status === 'waitlisted' ? (
+                <>
+                  <h1 className="text-2xl font-bold text-gray-900">You&apos;re on the waitlist</h1>
+                  <p className="mt-2 text-gray-600">
+                    {request.dropoffDay} is fully booked. We&apos;ll contact you at {request.customer.email} if a spot opens up.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <h1 className="text-2xl font-bold text-gray-900">Shuttle requested!</h1>
+                  <p className="mt-2 text-gray-600">
+                    We&apos;ll contact you at {request.customer.email} once the shuttle owner confirms.
+                  </p>
+                </>
+              )}
+              <div className="mt-6 inline-block rounded-lg border border-gray-200 bg-gray-50 px-6 py-3">
+                <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Reference number</p>
+                <p className="mt-1 font-mono text-2xl font-semibold text-gray-900">{request.reference}</p>
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              {/* Trip */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-md font-medium text-gray-900">Trip</h2>
+                  <StatusBadge status={request.status} />
+                </div>
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="font-medium text-gray-700">From</dt>
+                    <dd className="mt-1 text-gray-900">{request.parkingLocation.name}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-700">To</dt>
+                    <dd className="mt-1 text-gray-900">{request.dropoffLocation.name}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-700">Drop-off Day</dt>
+                    <dd className="mt-1 text-gray-900">{request.dropoffDay}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-700">Arrival Time</dt>
+                    <dd className="mt-1 text-gray-900">{request.arrivalTime}</dd>
+                  </div>
+                </dl>
+              </div>
+
+              {/* Vehicles */}
+              <div>
+                <h2 className="text-md font-medium text-gray-900 mb-3">Vehicles ({request.vehicles.length})</h2>
+                <ul className="space-y-2">
+                  {request.vehicles.map((vehicle) => (
+                    <li key={vehicle.id} className="bg-gray-50 rounded-lg px-3 py-2 text-sm text-gray-900">
+                      {vehicle.year} {vehicle.make} {vehicle.model}
+                      <span className="text-gray-500"> · {TRANSMISSION_LABELS[vehicle.transmission]}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Price */}
+              {request.quote && (
+                <div>
+                  <h2 className="text-md font-medium text-gray-900 mb-3">Price Estimate</h2>
+                  <QuoteSummary quote={request.quote} />
+                </div>
+              )}
+
+              {/* Payment */}
+              {request.quote && request.status !== 'waitlisted' && (
+                <div>
+                  <h2 className="text-md font-medium text-gray-900 mb-3">Payment</h2>
+                  <PaymentSummary request={request} />
+                  {invoice && (
+                    <p className="mt-2 text-sm text-gray-600">
+                      Invoice <span className="font-mono">{invoice.number}</span>
+                      {invoice.balanceCents > 0
+                        ? ` · ${formatMoney(invoice.balanceCents, invoice.currency)} left to pay before your trip`
+                        : ' · paid in full'}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Contact */}
+              <div>
+                <h2 className="text-md font-medium text-gray-900 mb-3">Contact</h2>
+                <p className="text-sm text-gray-900">{request.customer.fullName}</p>
+                <p className="text-sm text-gray-600">{request.customer.email} · {request.customer.phone}</p>
+              </div>
+            </div>
+
+            <div className="mt-8 flex justify-end gap-3">
+              {detailsPath && (
+                <Link
+                  to={detailsPath}
+                  className="px-4 py-2 rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  View request
+                </Link>
+              )}
+              <button
+                onClick={onBookAnother}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Book another shuttle
+              </button>
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default BookingConfirmation;
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { useSupabase } from '../hooks/useSupabase';
+import { calendarFeeds } from '../lib/data';
+import { fromCalendarFeedRow, type CalendarFeed, type Driver } from '../lib/domain';
+import { formatDateTime } from '../lib/format';
+
+interface CalendarFeedsDialogProps {
+  drivers: Driver[];
+  onClose: () => void;
+}
+
+const FeedUrl: React.FC<{ url: string }> = ({ url }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy feed link:', err);
+    }
+  };
+
+  return (
+    <div className="mt-1 flex items-center gap-2">
+      <input
+        type="text"
+        readOnly
+        value={url}
+        onFocus={(e) => e.target.select()}
+        aria-label="Feed link"
+        className="flex-1 px-2 py-1 border border-gray-300 rounded-md font-mono text-xs text-gray-700 bg-gray-50"
+      />
+      <button
+        onClick={handleCopy}
+        className="px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 hover:bg-gray-50"
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Calendar Feeds Dialog - Manage the secret links calendar apps subscribe to
+ *
+ * A feed covers every confirmed job, or one driver's. Anyone with the link can
+ * read the feed, so removing it is the way to revoke access.
+ */
+const CalendarFeedsDialog: React.FC<CalendarFeedsDialogProps> = ({ drivers, onClose }) => {
+  const { backend } = useSupabase();
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [label, setLabel] = useState('');
+  const [driverId, setDriverId] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    calendarFeeds.list()
+      .then(rows => setFeeds(rows.map(row => fromCalendarFeedRow(row, calendarFeeds.feedUrl(row)))))
+      .catch(err => {
+        console.error('Failed to load calendar feeds:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load calendar feeds');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Failed to update calendar feeds:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update calendar feeds');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const row = await calendarFeeds.create({ label, driver_id: driverId || null });
+      setFeeds(prev => [...prev, fromCalendarFeedRow(row, calendarFeeds.feedUrl(row))]);
+      setLabel('');
+      setDriverId('');
+    });
+  };
+
+  const handleRemove = (id: string) => run(async () => {
+    await calendarFeeds.remove(id);
+    setFeeds(prev => prev.filter(feed => feed.id !== id));
+  });
+
+  const driverName = (id: string | null) =>
+    id ? drivers.find(driver => driver.id === id)?.fullName ?? 'Unknown driver' : 'All drivers';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 lg:w-1/2 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Calendar Feeds</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600">
+              Subscribe to a feed in Google Calendar, Apple Calendar or Outlook to see confirmed jobs
+              alongside everything else. Calendar apps refresh feeds on their own schedule, usually every few hours.
+            </p>
+
+            {backend === 'local' && (
+              <div className="rounded-md border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+                Feeds need the Supabase backend to serve them. With the local data store, use Export .ics
+                on the dashboard instead.
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-md font-medium text-gray-900 mb-3">Feeds</h4>
+              {loading ? (
+                <p className="text-sm text-gray-500">Loading feeds...</p>
+              ) : feeds.length === 0 ? (
+                <p className="text-sm text-gray-500">No feeds yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {feeds.map(feed => (
+                    <li key={feed.id} className="py-3">
+                      <div className="flex items-center justify-between gap-3">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{feed.label}</p>
+                          <p className="text-xs text-gray-500">
+                            {driverName(feed.driverId)} · created {formatDateTime(feed.createdAt)}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleRemove(feed.id)}
+                          disabled={working}
+                          className="text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      {feed.url && <FeedUrl url={feed.url} />}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+              <div className="flex-1 min-w-[12rem]">
+                <label htmlFor="feedLabel" className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+                <input
+                  id="feedLabel"
+                  type="text"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="e.g. Office calendar"
+                  className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="feedDriver" className="block text-sm font-medium text-gray-700 mb-1">Jobs for</label>
+                <select
+                  id="feedDriver"
+                  value={driverId}
+                  onChange={(e) => setDriverId(e.target.value)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">All drivers</option>
+                  {drivers.map(driver => (
+                    <option key={driver.id} value={driver.id}>{driver.fullName}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="submit"
+                disabled={working || !label.trim()}
+                className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                Create feed
+              </button>
+            </form>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeedsDialog;
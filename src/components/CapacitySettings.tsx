@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { SCHEDULING_CONFIG } from '../config/scheduling';
+import { useAvailability } from '../hooks/useAvailability';
+import { capacity } from '../lib/data';
+import {
+  CAPACITY_UNIT_LABELS,
+  capacitySettingsSchema,
+  fromBlackoutDateRow,
+  remainingCapacity,
+  toCapacitySettingsUpdate,
+  type BlackoutDate,
+  type CapacitySettings as CapacitySettingsValues,
+  type CapacityUnit
+} from '../lib/domain';
+import { addDays, toDateInputValue } from '../lib/dates';
+import { ROUTES } from '../lib/routes';
+import { isValid } from '../lib/schema';
+import FieldError from './FieldError';
+
+// How many days the "coming up" overview covers
+const OVERVIEW_DAYS = 14;
+
+const SettingsForm: React.FC<{ initial: CapacitySettingsValues; onSaved: () => void }> = ({ initial, onSaved }) => {
+  const [draft, setDraft] = useState<CapacitySettingsValues>(initial);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const errors = capacitySettingsSchema.validate(draft, undefined);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid(errors)) return;
+
+    setSaving(true);
+    setSaveError(null);
+    setSaved(false);
+    try {
+      await capacity.updateSettings(toCapacitySettingsUpdate(draft));
+      setSaved(true);
+      onSaved();
+    } catch (err) {
+      console.error('Failed to save capacity settings:', err);
+      setSaveError(err instanceof Error ? err.message : 'Failed to save capacity settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="capacityUnit" className="block text-sm font-medium text-gray-700 mb-2">Measure capacity in</label>
+          <select
+            id="capacityUnit"
+            value={draft.unit}
+            onChange={(e) => setDraft(prev => ({ ...prev, unit: e.target.value as CapacityUnit }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(CAPACITY_UNIT_LABELS).map(([unit, label]) => (
+              <option key={unit} value={unit}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="dailyLimit" className="block text-sm font-medium text-gray-700 mb-2">Limit per day</label>
+          <input
+            id="dailyLimit"
+            type="number"
+            min={1}
+            step={draft.unit === 'vehicles' ? 1 : 0.5}
+            value={Number.isNaN(draft.dailyLimit) ? '' : draft.dailyLimit}
+            onChange={(e) => setDraft(prev => ({ ...prev, dailyLimit: e.target.valueAsNumber }))}
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              errors.dailyLimit ? 'border-red-400' : 'border-gray-300'
+            }`}
+          />
+          <FieldError message={errors.dailyLimit} />
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        {draft.unit === 'vehicles'
+          ? 'Each vehicle on a pending, confirmed or in-progress request counts once.'
+          : `Each vehicle counts for its driver's round trip plus ${SCHEDULING_CONFIG.turnaroundMinutes} minutes turnaround.`}
+        {' '}Lowering the limit never cancels existing bookings; it only stops new ones.
+      </p>
+
+      {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+      <div className="flex items-center justify-end gap-3">
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+        <button
+          type="submit"
+          disabled={saving || !isValid(errors)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const BlackoutEditor: React.FC<{ onChange: () => void }> = ({ onChange }) => {
+  const [blackouts, setBlackouts] = useState<BlackoutDate[]>([]);
+  const [day, setDay] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const today = toDateInputValue(new Date());
+
+  useEffect(() => {
+    capacity.listBlackouts(today)
+      .then(rows => setBlackouts(rows.map(fromBlackoutDateRow)))
+      .catch(err => {
+        console.error('Failed to load blackout dates:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load blackout dates');
+      });
+  }, [today]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      onChange();
+    } catch (err) {
+      console.error('Failed to update blackout dates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update blackout dates');
+    }
+  };
+
+  const handleAdd = () => run(async () => {
+    const added = fromBlackoutDateRow(await capacity.addBlackout(day, reason));
+    setBlackouts(prev => [...prev, added].sort((a, b) => a.day.localeCompare(b.day)));
+    setDay('');
+    setReason('');
+  });
+
+  const handleRemove = (removed: string) => run(async () => {
+    await capacity.removeBlackout(removed);
+    setBlackouts(prev => prev.filter(blackout => blackout.day !== removed));
+  });
+
+  return (
+    <div>
+      {blackouts.length === 0 ? (
+        <p className="text-sm text-gray-500">No upcoming blackout dates.</p>
+      ) : (
+        <ul className="space-y-1">
+          {blackouts.map(blackout => (
+            <li key={blackout.day} className="flex items-center gap-3 text-sm text-gray-900">
+              <span>{blackout.day}</span>
+              {blackout.reason && <span className="text-gray-500">{blackout.reason}</span>}
+              <button
+                onClick={() => handleRemove(blackout.day)}
+                className="text-xs font-medium text-red-600 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          min={today}
+          value={day}
+          onChange={(e) => setDay(e.target.value)}
+          aria-label="Blackout date"
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (optional)"
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          disabled={!day}
+          onClick={handleAdd}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Add blackout date
+        </button>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Capacity Settings - How much work the owner takes on per day (/owner/capacity)
+ *
+ * Sets the daily limit in vehicles or driver-hours, closes days with blackout
+ * dates, and shows how full the next two weeks are. Customers see full days
+ * greyed out in the booking calendar and can join a waitlist for them.
+ */
+const CapacitySettings: React.FC = () => {
+  const [today] = useState(() => toDateInputValue(new Date()));
+  const availability = useAvailability(today, addDays(today, OVERVIEW_DAYS - 1));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <Link to={ROUTES.owner} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+            ← Shuttle Requests
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">Capacity</h1>
+          <p className="mt-2 text-gray-600">How much you can take on each day, and the days you&apos;re closed</p>
+        </div>
+
+        {availability.error && (
+          <div className="mb-6 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {availability.error}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Daily limit</h2>
+            {availability.settings ? (
+              <SettingsForm initial={availability.settings} onSaved={availability.refresh} />
+            ) : (
+              <p className="text-sm text-gray-500">{availability.loading ? 'Loading settings...' : 'Settings unavailable.'}</p>
+            )}
+          </section>
+
+          <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Blackout dates</h2>
+            <BlackoutEditor onChange={availability.refresh} />
+          </section>
+
+          <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Next {OVERVIEW_DAYS} days</h2>
+            {availability.loading && availability.days.length === 0 ? (
+              <p className="text-sm text-gray-500">Loading availability...</p>
+            ) : (
+              <ul className="space-y-2">
+                {availability.days.map(day => {
+                  const used = day.limit > 0 ? Math.min(100, (day.booked / day.limit) * 100) : 100;
+                  return (
+                    <li key={day.day} className="flex items-center gap-4 text-sm">
+                      <span className="w-24 text-gray-900">{day.day}</span>
+                      {day.blackout ? (
+                        <span className="text-gray-500">Closed{day.reason && ` · ${day.reason}`}</span>
+                      ) : (
+                        <>
+                          <div className="flex-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+                            <div
+                              className={`h-full ${remainingCapacity(day) <= 0 ? 'bg-red-500' : used >= 75 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                              style={{ width: `${used}%` }}
+                            />
+                          </div>
+                          <span className="w-28 text-right text-gray-600">{day.booked} / {day.limit}</span>
+                        </>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CapacitySettings;
@@ -0,0 +1,153 @@
+import React, { useId, useState } from 'react';
+
+interface ComboboxProps {
+  id: string;
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+  // Tidies the typed text when the field is left, e.g. to the catalog's spelling
+  normalize?: (value: string) => string;
+  onBlur?: () => void;
+  // What a value outside the options is, e.g. "make"; offers it as "Other make".
+  // Without one, free text is still kept but not suggested
+  otherLabel?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+interface Suggestion {
+  value: string;
+  other: boolean;
+}
+
+const MAX_SUGGESTIONS = 100;
+
+// Matches at the start of the option first, then anywhere in it
+const suggestionsFor = (options: string[], query: string): Suggestion[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle || options.some(option => option.toLowerCase() === needle)) {
+    return options.slice(0, MAX_SUGGESTIONS).map(value => ({ value, other: false }));
+  }
+
+  const starts = options.filter(option => option.toLowerCase().startsWith(needle));
+  const contains = options.filter(option => !starts.includes(option) && option.toLowerCase().includes(needle));
+  return [
+    ...[...starts, ...contains].slice(0, MAX_SUGGESTIONS).map(value => ({ value, other: false })),
+    { value: query.trim(), other: true }
+  ];
+};
+
+/**
+ * Combobox - Text input that suggests from a list but also takes free text
+ *
+ * Typing filters the options; anything not in the list can be kept as an
+ * "other" value, offered as the last suggestion.
+ */
+const Combobox: React.FC<ComboboxProps> = ({
+  id,
+  value,
+  options,
+  onChange,
+  normalize = (text) => text.trim(),
+  onBlur,
+  otherLabel,
+  placeholder,
+  disabled,
+  className
+}) => {
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = suggestionsFor(options, value).filter(suggestion => otherLabel || !suggestion.other);
+  const showList = open && !disabled && suggestions.length > 0;
+
+  const pick = (suggestion: Suggestion) => {
+    if (suggestion.value !== value) onChange(suggestion.value);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showList) {
+      if (e.key === 'ArrowDown') setOpen(true);
+      return;
+    }
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((index) => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      pick(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        autoComplete="off"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          setOpen(false);
+          const tidied = normalize(value);
+          if (tidied !== value) onChange(tidied);
+          onBlur?.();
+        }}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={className}
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-64 overflow-auto rounded-md border border-gray-200 bg-white shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.other ? `other:${suggestion.value}` : suggestion.value}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(suggestion);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`cursor-pointer px-3 py-2 text-sm ${index === highlighted ? 'bg-blue-50' : ''}`}
+            >
+              {suggestion.other ? (
+                <span className="text-gray-600">
+                  Other {otherLabel}: <span className="font-medium text-gray-900">&ldquo;{suggestion.value}&rdquo;</span>
+                </span>
+              ) : (
+                <span className="text-gray-900">{suggestion.value}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Combobox;
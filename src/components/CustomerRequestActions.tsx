@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { shuttleRequests, type TrackingLookup, type UpdateTrackedInput } from '../lib/data';
+import { fromShuttleRequestRecord, isCustomerEditable, type ShuttleRequest } from '../lib/domain';
+import RequestEditForm from './RequestEditForm';
+
+interface CustomerRequestActionsProps {
+  request: ShuttleRequest;
+  lookup: TrackingLookup;
+  onChange: (request: ShuttleRequest) => void;
+}
+
+type Mode = 'idle' | 'editing' | 'cancelling';
+
+/**
+ * Customer Request Actions - Lets the customer change or cancel their request
+ * while it is still pending
+ *
+ * Once the owner has acted on it, the customer is pointed at getting in touch
+ * instead. Changes are saved through the tracked-request methods, so they work
+ * for guests as well as signed-in customers.
+ */
+const CustomerRequestActions: React.FC<CustomerRequestActionsProps> = ({ request, lookup, onChange }) => {
+  const [mode, setMode] = useState<Mode>('idle');
+  const [reason, setReason] = useState('');
+  const [working, setWorking] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  if (!isCustomerEditable(request.status)) {
+    return (
+      <p className="text-sm text-gray-500">
+        This request can no longer be changed online. Get in touch quoting {request.reference} if anything needs to change.
+      </p>
+    );
+  }
+
+  const handleSave = async (input: UpdateTrackedInput) => {
+    const record = await shuttleRequests.updateTracked(lookup, input);
+    onChange(fromShuttleRequestRecord(record));
+    setMode('idle');
+  };
+
+  const handleCancelRequest = async () => {
+    setWorking(true);
+    setActionError(null);
+    try {
+      const record = await shuttleRequests.cancelTracked(lookup, { from: request.status, note: reason });
+      onChange(fromShuttleRequestRecord(record));
+      setMode('idle');
+      setReason('');
+    } catch (err) {
+      console.error('Failed to cancel shuttle request:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to cancel request');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (mode === 'editing') {
+    return (
+      <div>
+        <h2 className="text-md font-medium text-gray-900 mb-3">Change Your Request</h2>
+        <RequestEditForm request={request} onSave={handleSave} onCancel={() => setMode('idle')} />
+      </div>
+    );
+  }
+
+  if (mode === 'cancelling') {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-4">
+        <label htmlFor="cancelReason" className="block text-sm font-medium text-red-800 mb-2">
+          Why are you cancelling?
+        </label>
+        <textarea
+          id="cancelReason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-red-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+          placeholder="e.g., Trip postponed"
+        />
+        {actionError && <p className="mt-2 text-sm text-red-700">{actionError}</p>}
+        <div className="mt-3 flex justify-end gap-3">
+          <button
+            onClick={() => { setMode('idle'); setActionError(null); }}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Keep request
+          </button>
+          <button
+            onClick={handleCancelRequest}
+            disabled={working || !reason.trim()}
+            className="px-4 py-2 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+          >
+            {working ? 'Cancelling...' : 'Cancel request'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <p className="text-sm text-gray-600">You can change or cancel this request until it is confirmed.</p>
+      <div className="flex gap-3">
+        <button
+          onClick={() => setMode('cancelling')}
+          className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50"
+        >
+          Cancel request
+        </button>
+        <button
+          onClick={() => setMode('editing')}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          Change request
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerRequestActions;
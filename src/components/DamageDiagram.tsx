@@ -0,0 +1,56 @@
+import React from 'react';
+import { DAMAGE_KIND_LABELS, type DamageMark } from '../lib/domain';
+
+interface DamageDiagramProps {
+  marks: DamageMark[];
+  // Tapping the diagram adds a mark there; leave out for a read-only diagram
+  onAdd?: (x: number, y: number) => void;
+  className?: string;
+}
+
+/**
+ * Damage Diagram - Top-down outline of a vehicle, front at the top, with a
+ * numbered marker for each piece of damage. Numbers match the order of
+ * `marks`, so a list next to it can describe each one.
+ */
+const DamageDiagram: React.FC<DamageDiagramProps> = ({ marks, onAdd, className = '' }) => {
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onAdd) return;
+    const box = e.currentTarget.getBoundingClientRect();
+    const x = Math.round(((e.clientX - box.left) / box.width) * 100);
+    const y = Math.round(((e.clientY - box.top) / box.height) * 100);
+    onAdd(Math.min(100, Math.max(0, x)), Math.min(100, Math.max(0, y)));
+  };
+
+  return (
+    <svg
+      viewBox="0 0 100 200"
+      onClick={handleClick}
+      role={onAdd ? 'button' : 'img'}
+      aria-label={onAdd ? 'Tap where the damage is' : `Vehicle diagram with ${marks.length} damage marks`}
+      className={`w-full max-w-[10rem] select-none ${onAdd ? 'cursor-crosshair' : ''} ${className}`}
+    >
+      {/* Body, windscreen, rear window and wheels */}
+      <rect x="18" y="8" width="64" height="184" rx="22" className="fill-gray-50 stroke-gray-400" strokeWidth="1.5" />
+      <path d="M26 58 Q50 46 74 58 L70 78 Q50 72 30 78 Z" className="fill-blue-50 stroke-gray-400" strokeWidth="1" />
+      <path d="M30 150 Q50 156 70 150 L74 166 Q50 176 26 166 Z" className="fill-blue-50 stroke-gray-400" strokeWidth="1" />
+      <rect x="30" y="82" width="40" height="64" rx="4" className="fill-none stroke-gray-300" strokeWidth="1" />
+      {[[12, 34], [82, 34], [12, 146], [82, 146]].map(([x, y]) => (
+        <rect key={`${x}-${y}`} x={x} y={y} width="6" height="22" rx="2" className="fill-gray-400" />
+      ))}
+      <text x="50" y="6" textAnchor="middle" className="fill-gray-400" fontSize="5">FRONT</text>
+
+      {marks.map((mark, index) => (
+        <g key={index}>
+          <title>{`${index + 1}. ${DAMAGE_KIND_LABELS[mark.kind]}${mark.note ? `: ${mark.note}` : ''}`}</title>
+          <circle cx={mark.x} cy={mark.y * 2} r="5" className="fill-red-600" />
+          <text x={mark.x} y={mark.y * 2 + 2} textAnchor="middle" fontSize="6" className="fill-white font-bold">
+            {index + 1}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default DamageDiagram;
@@ -0,0 +1,393 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { drivers as driverRepository, type DriverRecord } from '../lib/data';
+import {
+  WEEKDAY_LABELS,
+  driverDraftSchema,
+  emptyDriverDraft,
+  fromDriverRecord,
+  toDriverInsert,
+  type Driver,
+  type DriverDraft
+} from '../lib/domain';
+import { toDateInputValue } from '../lib/dates';
+import { isValid } from '../lib/schema';
+import { ROUTES } from '../lib/routes';
+import FieldError from './FieldError';
+
+const fieldClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+const toDraft = (driver: Driver): DriverDraft => ({
+  fullName: driver.fullName,
+  phone: driver.phone,
+  email: driver.email,
+  canDriveManual: driver.canDriveManual,
+  active: driver.active,
+  workingDays: driver.workingDays,
+  notes: driver.notes
+});
+
+interface DriverFormProps {
+  initial: DriverDraft;
+  submitLabel: string;
+  onSubmit: (draft: DriverDraft) => Promise<void>;
+  onCancel: () => void;
+}
+
+const DriverForm: React.FC<DriverFormProps> = ({ initial, submitLabel, onSubmit, onCancel }) => {
+  const [draft, setDraft] = useState<DriverDraft>(initial);
+  const [submitted, setSubmitted] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const errors = driverDraftSchema.validate(draft, undefined);
+  const errorFor = (path: keyof DriverDraft) => (submitted ? errors[path] : undefined);
+
+  const toggleDay = (day: number) => {
+    setDraft(prev => ({
+      ...prev,
+      workingDays: prev.workingDays.includes(day)
+        ? prev.workingDays.filter(d => d !== day)
+        : [...prev.workingDays, day]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitted(true);
+    if (!isValid(errors)) return;
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSubmit(draft);
+    } catch (err) {
+      console.error('Failed to save driver:', err);
+      setSaveError(err instanceof Error ? err.message : 'Failed to save driver');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="driverName" className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+          <input
+            id="driverName"
+            type="text"
+            value={draft.fullName}
+            onChange={(e) => setDraft(prev => ({ ...prev, fullName: e.target.value }))}
+            className={fieldClass(errorFor('fullName'))}
+          />
+          <FieldError message={errorFor('fullName')} />
+        </div>
+        <div>
+          <label htmlFor="driverPhone" className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
+          <input
+            id="driverPhone"
+            type="tel"
+            value={draft.phone}
+            onChange={(e) => setDraft(prev => ({ ...prev, phone: e.target.value }))}
+            className={fieldClass(errorFor('phone'))}
+          />
+          <FieldError message={errorFor('phone')} />
+        </div>
+        <div>
+          <label htmlFor="driverEmail" className="block text-sm font-medium text-gray-700 mb-2">Email (optional)</label>
+          <input
+            id="driverEmail"
+            type="email"
+            value={draft.email ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value || null }))}
+            className={fieldClass(errorFor('email'))}
+          />
+          <FieldError message={errorFor('email')} />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">Working days</span>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              aria-pressed={draft.workingDays.includes(day)}
+              className={`px-3 py-1 rounded-md border text-sm font-medium ${
+                draft.workingDays.includes(day)
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <FieldError message={errorFor('workingDays')} />
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={draft.canDriveManual}
+            onChange={(e) => setDraft(prev => ({ ...prev, canDriveManual: e.target.checked }))}
+            className="rounded border-gray-300"
+          />
+          Can drive manual
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={draft.active}
+            onChange={(e) => setDraft(prev => ({ ...prev, active: e.target.checked }))}
+            className="rounded border-gray-300"
+          />
+          Active
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="driverNotes" className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+        <textarea
+          id="driverNotes"
+          rows={2}
+          value={draft.notes ?? ''}
+          onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value || null }))}
+          className={fieldClass()}
+        />
+      </div>
+
+      {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const TimeOffEditor: React.FC<{ driver: Driver; onChange: (driver: Driver) => void }> = ({ driver, onChange }) => {
+  const [day, setDay] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<DriverRecord>) => {
+    setError(null);
+    try {
+      onChange(fromDriverRecord(await action()));
+    } catch (err) {
+      console.error('Failed to update time off:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update time off');
+    }
+  };
+
+  const today = toDateInputValue(new Date());
+  const upcoming = driver.timeOff.filter(off => off.day >= today);
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Time off</h4>
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-gray-500">No upcoming time off.</p>
+      ) : (
+        <ul className="space-y-1">
+          {upcoming.map(off => (
+            <li key={off.id} className="flex items-center gap-3 text-sm text-gray-900">
+              <span>{off.day}</span>
+              {off.reason && <span className="text-gray-500">{off.reason}</span>}
+              <button
+                onClick={() => run(() => driverRepository.removeTimeOff(driver.id, off.id))}
+                className="text-xs font-medium text-red-600 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          min={today}
+          value={day}
+          onChange={(e) => setDay(e.target.value)}
+          aria-label="Day off"
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (optional)"
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          disabled={!day}
+          onClick={() => run(async () => {
+            const record = await driverRepository.addTimeOff(driver.id, day, reason);
+            setDay('');
+            setReason('');
+            return record;
+          })}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Add day off
+        </button>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Driver Roster - The owner's list of drivers (/owner/drivers)
+ *
+ * Add and edit drivers, their working days and manual qualification, and
+ * record days off. Assignment itself happens per vehicle in the request modal.
+ */
+const DriverRoster: React.FC = () => {
+  const [roster, setRoster] = useState<Driver[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // 'new' while adding, a driver id while editing
+  const [editing, setEditing] = useState<string | null>(null);
+
+  useEffect(() => {
+    driverRepository.list()
+      .then(records => setRoster(records.map(fromDriverRecord)))
+      .catch(err => {
+        console.error('Failed to load drivers:', err);
+        setLoadError(err instanceof Error ? err.message : 'Failed to load drivers');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const replace = (driver: Driver) => {
+    setRoster(prev => prev.some(d => d.id === driver.id)
+      ? prev.map(d => d.id === driver.id ? driver : d)
+      : [...prev, driver].sort((a, b) => a.fullName.localeCompare(b.fullName)));
+  };
+
+  const handleCreate = async (draft: DriverDraft) => {
+    replace(fromDriverRecord(await driverRepository.create(toDriverInsert(draft))));
+    setEditing(null);
+  };
+
+  const handleUpdate = async (id: string, draft: DriverDraft) => {
+    replace(fromDriverRecord(await driverRepository.update(id, toDriverInsert(draft))));
+    setEditing(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <Link to={ROUTES.owner} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+              ← Shuttle Requests
+            </Link>
+            <h1 className="mt-2 text-3xl font-bold text-gray-900">Drivers</h1>
+            <p className="mt-2 text-gray-600">Who can drive, on which days, and who is qualified for manual vehicles</p>
+          </div>
+          {editing !== 'new' && (
+            <button
+              onClick={() => setEditing('new')}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+            >
+              Add driver
+            </button>
+          )}
+        </div>
+
+        {loadError && (
+          <div className="mb-6 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {loadError}
+          </div>
+        )}
+
+        {editing === 'new' && (
+          <section className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">New driver</h2>
+            <DriverForm
+              initial={emptyDriverDraft()}
+              submitLabel="Add driver"
+              onSubmit={handleCreate}
+              onCancel={() => setEditing(null)}
+            />
+          </section>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          {loading ? (
+            <div className="p-8 text-center text-gray-500">Loading drivers...</div>
+          ) : roster.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">No drivers yet. Add one to start assigning vehicles.</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {roster.map(driver => (
+                <li key={driver.id} className="p-6">
+                  {editing === driver.id ? (
+                    <DriverForm
+                      initial={toDraft(driver)}
+                      submitLabel="Save"
+                      onSubmit={(draft) => handleUpdate(driver.id, draft)}
+                      onCancel={() => setEditing(null)}
+                    />
+                  ) : (
+                    <div className="space-y-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <h3 className="text-lg font-medium text-gray-900">{driver.fullName}</h3>
+                            {driver.canDriveManual && (
+                              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">Manual</span>
+                            )}
+                            {!driver.active && (
+                              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Inactive</span>
+                            )}
+                          </div>
+                          <p className="mt-1 text-sm text-gray-500">
+                            {driver.phone}{driver.email && ` · ${driver.email}`}
+                          </p>
+                          <p className="mt-1 text-sm text-gray-600">
+                            Works {driver.workingDays.map(day => WEEKDAY_LABELS[day]).join(', ')}
+                          </p>
+                          {driver.notes && <p className="mt-1 text-sm text-gray-500">{driver.notes}</p>}
+                        </div>
+                        <button
+                          onClick={() => setEditing(driver.id)}
+                          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                        >
+                          Edit
+                        </button>
+                      </div>
+                      <TimeOffEditor driver={driver} onChange={replace} />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DriverRoster;
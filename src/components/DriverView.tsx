@@ -0,0 +1,340 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { useInspections } from '../hooks/useInspections';
+import { useShuttleRequestSearch } from '../hooks/useShuttleRequestSearch';
+import { drivers as driverRepository, shuttleRequests } from '../lib/data';
+import {
+  CHECK_IN_ACTION_LABELS,
+  CHECK_IN_LABELS,
+  DRIVETRAIN_LABELS,
+  INSPECTABLE_STATUSES,
+  INSPECTION_STAGES,
+  INSPECTION_STAGE_LABELS,
+  KEY_HANDOFF_ACTION_LABELS,
+  KEY_HANDOFF_LABELS,
+  TRANSMISSION_LABELS,
+  driverJobsFor,
+  findCheckInProblem,
+  fromDriverRecord,
+  fromShuttleRequestRecord,
+  inspectionFor,
+  nextCheckInStep,
+  nextKeyHandoffStep,
+  type CheckIn,
+  type CheckInStep,
+  type Driver,
+  type InspectionStage,
+  type KeyHandoffStep,
+  type ShuttleRequest,
+  type Vehicle
+} from '../lib/domain';
+import { toDateInputValue } from '../lib/dates';
+import { directionsUrl, getDevicePosition } from '../lib/geo';
+import { ROUTES } from '../lib/routes';
+import InspectionForm from './InspectionForm';
+import StatusBadge from './StatusBadge';
+
+const timeOf = (at: string) => new Date(at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const CheckInLine: React.FC<{ step: CheckInStep; checkIn: CheckIn | null }> = ({ step, checkIn }) => {
+  if (!checkIn) return null;
+  return (
+    <p className="text-sm text-green-700">
+      {CHECK_IN_LABELS[step]} {timeOf(checkIn.at)} by {checkIn.by}
+      {!checkIn.position && <span className="text-gray-500"> (no location)</span>}
+    </p>
+  );
+};
+
+interface JobCardProps {
+  request: ShuttleRequest;
+  driver: Driver;
+  onChange: (request: ShuttleRequest) => void;
+}
+
+const JobCard: React.FC<JobCardProps> = ({ request, driver, onChange }) => {
+  const [working, setWorking] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [lockboxCodes, setLockboxCodes] = useState<Record<string, string> | null>(null);
+  const [inspecting, setInspecting] = useState<{ vehicle: Vehicle; stage: InspectionStage } | null>(null);
+  const inspections = useInspections(request.id);
+
+  const step = nextCheckInStep(request);
+  const problem = step ? findCheckInProblem(request, step) : null;
+  // Other drivers' vehicles on the same job are shown, but only for context
+  const vehicles = [...request.vehicles].sort((a, b) => Number(b.driverId === driver.id) - Number(a.driverId === driver.id));
+
+  const run = async (key: string, action: () => Promise<ShuttleRequest>, failure: string) => {
+    setWorking(key);
+    setActionError(null);
+    try {
+      onChange(await action());
+    } catch (err) {
+      console.error(`Failed to ${failure}:`, err);
+      setActionError(err instanceof Error ? err.message : `Failed to ${failure}`);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleCheckIn = (checkInStep: CheckInStep) => run('check-in', async () => {
+    const position = await getDevicePosition();
+    const record = await shuttleRequests.checkIn(request.id, {
+      step: checkInStep,
+      from: request.status,
+      driverId: driver.id,
+      position
+    });
+    return fromShuttleRequestRecord(record);
+  }, 'check in');
+
+  const handleKeyHandoff = (vehicleId: string, keyStep: KeyHandoffStep) => run(vehicleId, async () => {
+    const record = await shuttleRequests.confirmKeyHandoff(request.id, { vehicleId, step: keyStep, actor: driver.fullName });
+    return fromShuttleRequestRecord(record);
+  }, 'confirm key handoff');
+
+  const handleShowLockboxCodes = async () => {
+    try {
+      setLockboxCodes(await shuttleRequests.lockboxCodes(request.id));
+    } catch (err) {
+      console.error('Failed to load lockbox codes:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to load lockbox codes');
+    }
+  };
+
+  return (
+    <li className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-2xl font-bold text-gray-900">{request.arrivalTime}</p>
+          <p className="font-mono text-sm text-gray-500">{request.reference}</p>
+        </div>
+        <StatusBadge status={request.status} />
+      </div>
+
+      <div className="text-sm">
+        <p className="font-medium text-gray-900">{request.customer.fullName}</p>
+        {request.customer.phone && (
+          <a href={`tel:${request.customer.phone}`} className="text-blue-600">{request.customer.phone}</a>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-2">
+        {([['From', request.parkingLocation], ['To', request.dropoffLocation]] as const).map(([label, place]) => (
+          <a
+            key={label}
+            href={directionsUrl(place)}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 px-3 py-3 text-sm hover:bg-gray-50"
+          >
+            <span>
+              <span className="block text-xs font-medium uppercase tracking-wide text-gray-500">{label}</span>
+              <span className="text-gray-900">{place.name}</span>
+            </span>
+            <span className="text-blue-600 font-medium">Directions</span>
+          </a>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-900">Vehicles ({request.vehicles.length})</h3>
+          {!lockboxCodes && request.vehicles.some(vehicle => vehicle.driverId === driver.id) && (
+            <button onClick={handleShowLockboxCodes} className="text-sm font-medium text-blue-600">
+              Show lockbox codes
+            </button>
+          )}
+        </div>
+        <ul className="space-y-2">
+          {vehicles.map(vehicle => {
+            const mine = vehicle.driverId === driver.id;
+            const keyStep = nextKeyHandoffStep(vehicle);
+            return (
+              <li key={vehicle.id} className={`rounded-lg px-3 py-2 text-sm ${mine ? 'bg-blue-50' : 'bg-gray-50 text-gray-500'}`}>
+                <p className="font-medium text-gray-900">
+                  {vehicle.year} {vehicle.color} {vehicle.make} {vehicle.model}
+                  {vehicle.licensePlate && <span className="ml-2 font-mono text-gray-600">{vehicle.licensePlate}</span>}
+                </p>
+                <p>{TRANSMISSION_LABELS[vehicle.transmission]} · {DRIVETRAIN_LABELS[vehicle.drivetrain]}{!mine && ' · another driver'}</p>
+                {vehicle.equipmentNotes && <p className="mt-1">{vehicle.equipmentNotes}</p>}
+                {mine && (
+                  <>
+                    <p className="mt-1">Keys: {vehicle.keyLocation || 'not given'} → {vehicle.keyReturnLocation || 'not given'}</p>
+                    {lockboxCodes && <p className="mt-1 font-mono">Lockbox: {lockboxCodes[vehicle.id] ?? 'None'}</p>}
+                    {vehicle.keyPickedUp && <p className="mt-1 text-green-700">{KEY_HANDOFF_LABELS.pickup} {timeOf(vehicle.keyPickedUp.at)}</p>}
+                    {vehicle.keyDroppedOff && <p className="text-green-700">{KEY_HANDOFF_LABELS.dropoff} {timeOf(vehicle.keyDroppedOff.at)}</p>}
+                    {INSPECTION_STAGES.map(stage => {
+                      const inspection = inspectionFor(inspections.inspections, vehicle.id, stage);
+                      if (inspection) {
+                        return (
+                          <p key={stage} className="text-green-700">
+                            {INSPECTION_STAGE_LABELS[stage]} inspection {timeOf(inspection.at)}
+                          </p>
+                        );
+                      }
+                      // Delivery waits for pickup; the first missing stage is the one to do
+                      const due = stage === 'pickup' || inspectionFor(inspections.inspections, vehicle.id, 'pickup') !== null;
+                      return due && !inspections.loading && INSPECTABLE_STATUSES.includes(request.status) && (
+                        <button
+                          key={stage}
+                          onClick={() => setInspecting({ vehicle, stage })}
+                          className="mt-2 w-full px-3 py-2 border border-blue-300 rounded-md text-sm font-medium text-blue-700 bg-white hover:bg-blue-50"
+                        >
+                          {INSPECTION_STAGE_LABELS[stage]} inspection
+                        </button>
+                      );
+                    })}
+                    {keyStep && request.status !== 'completed' && (
+                      <button
+                        onClick={() => handleKeyHandoff(vehicle.id, keyStep)}
+                        disabled={working !== null}
+                        className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {working === vehicle.id ? 'Saving...' : KEY_HANDOFF_ACTION_LABELS[keyStep]}
+                      </button>
+                    )}
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {request.notes && <p className="text-sm text-gray-700 bg-gray-50 rounded-lg p-3">{request.notes}</p>}
+
+      <div className="space-y-1">
+        <CheckInLine step="picked_up" checkIn={request.pickedUp} />
+        <CheckInLine step="delivered" checkIn={request.delivered} />
+      </div>
+
+      {actionError && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{actionError}</div>
+      )}
+
+      {inspections.error && <p className="text-sm text-red-600">{inspections.error}</p>}
+
+      {step && (
+        <button
+          onClick={() => handleCheckIn(step)}
+          disabled={working !== null || problem !== null}
+          title={problem?.message}
+          className={`w-full py-4 rounded-lg text-lg font-semibold text-white disabled:opacity-50 ${
+            step === 'picked_up' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-green-600 hover:bg-green-700'
+          }`}
+        >
+          {working === 'check-in' ? 'Getting your location...' : CHECK_IN_ACTION_LABELS[step]}
+        </button>
+      )}
+
+      {inspecting && (
+        <InspectionForm
+          requestId={request.id}
+          vehicle={inspecting.vehicle}
+          stage={inspecting.stage}
+          pickup={inspectionFor(inspections.inspections, inspecting.vehicle.id, 'pickup')}
+          inspector={driver.fullName}
+          onSaved={(inspection) => {
+            inspections.add(inspection);
+            setInspecting(null);
+          }}
+          onClose={() => setInspecting(null)}
+        />
+      )}
+    </li>
+  );
+};
+
+/**
+ * Driver View - A driver's jobs for today, made for a phone (/driver)
+ *
+ * Shows each job's pickup and drop-off with directions, the customer's number
+ * and the vehicles, and lets the driver confirm key handoffs, inspect each
+ * vehicle at pickup and delivery, and mark the job picked up (in progress)
+ * and then delivered (completed). Check-ins record where the phone was, when
+ * it will say. Drivers sign in with the account an owner linked to their
+ * driver record, and only ever see their own jobs.
+ */
+const DriverView: React.FC = () => {
+  const { user, isStaff } = useAuth();
+  // undefined while loading; null when the account isn't linked to a driver
+  const [driver, setDriver] = useState<Driver | null | undefined>(undefined);
+  const [driverError, setDriverError] = useState<string | null>(null);
+  const [today] = useState(() => toDateInputValue(new Date()));
+
+  const search = useShuttleRequestSearch({
+    from: today,
+    to: today,
+    status: ['confirmed', 'in_progress', 'completed'],
+    sort: 'dropoff_day',
+    ascending: true,
+    limit: 500
+  });
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    driverRepository.forUser(user.id)
+      .then(record => {
+        if (!cancelled) setDriver(record ? fromDriverRecord(record) : null);
+      })
+      .catch(err => {
+        console.error('Failed to load driver:', err);
+        if (!cancelled) setDriverError(err instanceof Error ? err.message : 'Failed to load driver');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const jobs = driver ? driverJobsFor(search.requests, driver, today) : [];
+  const remaining = jobs.filter(job => !job.delivered).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-md mx-auto px-4 py-6">
+        <div className="mb-6">
+          {isStaff && (
+            <Link to={ROUTES.owner} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+              ← Owner Dashboard
+            </Link>
+          )}
+          <h1 className="mt-2 text-2xl font-bold text-gray-900">Today&apos;s jobs</h1>
+          {driver === null && (
+            <p className="mt-2 text-sm text-gray-600">
+              {user?.email} isn&apos;t linked to a driver. Ask the owner to link your account to your driver record.
+            </p>
+          )}
+          {driver && (
+            <p className="mt-2 text-sm text-gray-600">
+              {driver.fullName} ·{' '}
+              {jobs.length === 0
+                ? 'Nothing assigned to you today.'
+                : remaining === 0 ? 'All done for today.' : `${remaining} of ${jobs.length} still to deliver`}
+            </p>
+          )}
+        </div>
+
+        {(driverError || search.error) && (
+          <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {driverError ?? search.error}
+          </div>
+        )}
+
+        {driver && search.loading && jobs.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading jobs...</p>
+        ) : driver && (
+          <ul className="space-y-4">
+            {jobs.map(job => (
+              <JobCard key={job.id} request={job} driver={driver} onChange={search.replace} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DriverView;
@@ -0,0 +1,11 @@
+import React from 'react';
+
+/**
+ * Field Error - Inline validation message shown under a form control
+ */
+const FieldError: React.FC<{ message?: string }> = ({ message }) => {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600">{message}</p>;
+};
+
+export default FieldError;
@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { inspections } from '../lib/data';
+import {
+  DAMAGE_KIND_LABELS,
+  INSPECTION_STAGE_LABELS,
+  MAX_INSPECTION_PHOTOS,
+  emptyInspectionDraft,
+  fromVehicleInspectionRow,
+  fuelLevelLabel,
+  inspectionDraftSchema,
+  toRecordInspectionInput,
+  type DamageKind,
+  type DamageMark,
+  type InspectionDraft,
+  type InspectionStage,
+  type Vehicle,
+  type VehicleInspection
+} from '../lib/domain';
+import { shrinkImage } from '../lib/images';
+import { isValid } from '../lib/schema';
+import DamageDiagram from './DamageDiagram';
+import FieldError from './FieldError';
+
+interface InspectionFormProps {
+  requestId: string;
+  vehicle: Vehicle;
+  stage: InspectionStage;
+  // The vehicle's pickup inspection, when recording delivery
+  pickup: VehicleInspection | null;
+  inspector: string;
+  onSaved: (inspection: VehicleInspection) => void;
+  onClose: () => void;
+}
+
+const fieldClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+interface PendingPhoto {
+  file: File;
+  preview: string;
+}
+
+/**
+ * Inspection Form - The driver's condition check on one vehicle, at pickup or
+ * at delivery
+ *
+ * Records the odometer and fuel, marks damage on the vehicle diagram (a
+ * delivery check starts with what was found at pickup) and takes photos with
+ * the phone's camera. Photos are shrunk before they're saved.
+ */
+const InspectionForm: React.FC<InspectionFormProps> = ({ requestId, vehicle, stage, pickup, inspector, onSaved, onClose }) => {
+  const [draft, setDraft] = useState<InspectionDraft>(() => emptyInspectionDraft(stage === 'delivery' ? pickup : null));
+  const [photos, setPhotos] = useState<PendingPhoto[]>([]);
+  const [submitted, setSubmitted] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const errors = inspectionDraftSchema.validate(draft, { pickup: stage === 'delivery' ? pickup : null });
+  const errorFor = (key: string) => (submitted ? errors[key] : undefined);
+
+  // Previews hold object URLs, released when a photo is removed or the form goes away
+  const latestPhotos = useRef(photos);
+  useEffect(() => {
+    latestPhotos.current = photos;
+  });
+  useEffect(() => () => latestPhotos.current.forEach(photo => URL.revokeObjectURL(photo.preview)), []);
+
+  const update = (changes: Partial<InspectionDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setSaveError(null);
+  };
+
+  const updateMark = (index: number, changes: Partial<DamageMark>) =>
+    update({ damage: draft.damage.map((mark, i) => (i === index ? { ...mark, ...changes } : mark)) });
+
+  const handleAddPhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_INSPECTION_PHOTOS - photos.length);
+    setPhotos(prev => [...prev, ...files.map(file => ({ file, preview: URL.createObjectURL(file) }))]);
+    e.target.value = '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitted(true);
+    if (!isValid(errors)) return;
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const blobs = await Promise.all(photos.map(photo => shrinkImage(photo.file)));
+      const row = await inspections.record(
+        toRecordInspectionInput(draft, { requestId, vehicleId: vehicle.id, stage, inspector }),
+        blobs
+      );
+      onSaved(fromVehicleInspectionRow(row));
+    } catch (err) {
+      console.error('Failed to save inspection:', err);
+      setSaveError(err instanceof Error ? err.message : 'Failed to save inspection');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-4 mx-auto mb-4 p-5 border w-11/12 max-w-md shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{INSPECTION_STAGE_LABELS[stage]} inspection</h3>
+            <p className="text-sm text-gray-600">
+              {vehicle.year} {vehicle.color} {vehicle.make} {vehicle.model}
+              {vehicle.licensePlate && <span className="ml-2 font-mono">{vehicle.licensePlate}</span>}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} noValidate className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="odometer" className="block text-sm font-medium text-gray-700 mb-2">Odometer</label>
+              <input
+                id="odometer"
+                inputMode="numeric"
+                value={draft.odometer}
+                onChange={(e) => update({ odometer: e.target.value.replace(/[^\d]/g, '') })}
+                className={fieldClass(errorFor('odometer'))}
+                placeholder={pickup && stage === 'delivery' ? `At least ${pickup.odometer}` : 'Reading'}
+              />
+              <FieldError message={errorFor('odometer')} />
+            </div>
+            <div>
+              <label htmlFor="fuel" className="block text-sm font-medium text-gray-700 mb-2">
+                Fuel: {fuelLevelLabel(draft.fuelEighths)}
+              </label>
+              <input
+                id="fuel"
+                type="range"
+                min={0}
+                max={8}
+                step={1}
+                value={draft.fuelEighths}
+                onChange={(e) => update({ fuelEighths: Number(e.target.value) })}
+                className="w-full mt-2"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Damage</p>
+            <div className="flex gap-4">
+              <DamageDiagram
+                marks={draft.damage}
+                onAdd={(x, y) => update({ damage: [...draft.damage, { x, y, kind: 'scratch', note: '' }] })}
+              />
+              <div className="flex-1 space-y-2">
+                {draft.damage.length === 0 && (
+                  <p className="text-sm text-gray-500">Tap the diagram where there&apos;s a scratch, dent or chip.</p>
+                )}
+                {draft.damage.map((mark, index) => (
+                  <div key={index} className="rounded-md border border-gray-200 p-2 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-semibold text-red-600">{index + 1}.</span>
+                      <select
+                        value={mark.kind}
+                        onChange={(e) => updateMark(index, { kind: e.target.value as DamageKind })}
+                        aria-label={`Damage ${index + 1} kind`}
+                        className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+                      >
+                        {(Object.keys(DAMAGE_KIND_LABELS) as DamageKind[]).map(kind => (
+                          <option key={kind} value={kind}>{DAMAGE_KIND_LABELS[kind]}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => update({ damage: draft.damage.filter((_, i) => i !== index) })}
+                        className="text-sm text-red-600 hover:text-red-700"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <input
+                      value={mark.note}
+                      onChange={(e) => updateMark(index, { note: e.target.value })}
+                      aria-label={`Damage ${index + 1} note`}
+                      placeholder="Note (optional)"
+                      className={`text-sm ${fieldClass(errorFor(`damage.${index}.note`))}`}
+                    />
+                    <FieldError message={errorFor(`damage.${index}.note`)} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">
+              Photos ({photos.length}/{MAX_INSPECTION_PHOTOS})
+            </p>
+            {photos.length > 0 && (
+              <ul className="grid grid-cols-3 gap-2 mb-2">
+                {photos.map((photo, index) => (
+                  <li key={photo.preview} className="relative">
+                    <img src={photo.preview} alt={`Photo ${index + 1}`} className="h-20 w-full rounded-md object-cover" />
+                    <button
+                      type="button"
+                      onClick={() => {
+                        URL.revokeObjectURL(photo.preview);
+                        setPhotos(prev => prev.filter(other => other !== photo));
+                      }}
+                      className="absolute top-1 right-1 rounded bg-white/90 px-1 text-xs text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {photos.length < MAX_INSPECTION_PHOTOS && (
+              <label className="block w-full text-center px-3 py-3 border border-dashed border-gray-300 rounded-md text-sm font-medium text-blue-600 cursor-pointer hover:bg-gray-50">
+                Take or add photos
+                <input type="file" accept="image/*" capture="environment" multiple onChange={handleAddPhotos} className="sr-only" />
+              </label>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="inspectionNotes" className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+            <textarea
+              id="inspectionNotes"
+              rows={2}
+              value={draft.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+              className={fieldClass()}
+              placeholder="Warning lights, smells, anything else worth recording"
+            />
+          </div>
+
+          {saveError && (
+            <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{saveError}</div>
+          )}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full py-3 rounded-lg text-base font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : `Save ${INSPECTION_STAGE_LABELS[stage].toLowerCase()} inspection`}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default InspectionForm;
@@ -0,0 +1,120 @@
+import React from 'react';
+import {
+  DAMAGE_KIND_LABELS,
+  INSPECTION_STAGES,
+  INSPECTION_STAGE_LABELS,
+  distanceDriven,
+  fuelLevelLabel,
+  inspectionFor,
+  type InspectionStage,
+  type Vehicle,
+  type VehicleInspection
+} from '../lib/domain';
+import { formatDateTime } from '../lib/format';
+import DamageDiagram from './DamageDiagram';
+
+interface InspectionReportProps {
+  vehicles: Vehicle[];
+  inspections: VehicleInspection[];
+  // Photo addresses by storage path (see useInspections)
+  photoUrls: Record<string, string>;
+}
+
+const StageReport: React.FC<{ stage: InspectionStage; inspection: VehicleInspection | null; photoUrls: Record<string, string> }> = ({
+  stage,
+  inspection,
+  photoUrls
+}) => (
+  <div className="rounded-lg border border-gray-200 p-3 text-sm break-inside-avoid">
+    <p className="font-medium text-gray-900">{INSPECTION_STAGE_LABELS[stage]}</p>
+    {!inspection ? (
+      <p className="mt-1 text-gray-500">Not inspected yet</p>
+    ) : (
+      <div className="mt-1 space-y-3">
+        <p className="text-gray-600">{formatDateTime(inspection.at)} by {inspection.inspector}</p>
+        <dl className="grid grid-cols-2 gap-2">
+          <div>
+            <dt className="text-xs uppercase tracking-wide text-gray-500">Odometer</dt>
+            <dd className="text-gray-900">{inspection.odometer.toLocaleString()}</dd>
+          </div>
+          <div>
+            <dt className="text-xs uppercase tracking-wide text-gray-500">Fuel</dt>
+            <dd className="text-gray-900">{fuelLevelLabel(inspection.fuelEighths)}</dd>
+          </div>
+        </dl>
+        <div className="flex gap-3">
+          <DamageDiagram marks={inspection.damage} className="max-w-[6rem]" />
+          {inspection.damage.length === 0 ? (
+            <p className="text-gray-600">No damage noted</p>
+          ) : (
+            <ol className="space-y-1 text-gray-700">
+              {inspection.damage.map((mark, index) => (
+                <li key={index}>
+                  <span className="font-semibold text-red-600">{index + 1}.</span> {DAMAGE_KIND_LABELS[mark.kind]}
+                  {mark.note && ` - ${mark.note}`}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+        {inspection.notes && <p className="text-gray-700 bg-gray-50 rounded-md p-2">{inspection.notes}</p>}
+        {inspection.photos.length > 0 && (
+          <ul className="grid grid-cols-3 gap-2">
+            {inspection.photos.map((path, index) => (
+              <li key={path}>
+                {photoUrls[path] ? (
+                  <a href={photoUrls[path]} target="_blank" rel="noreferrer">
+                    <img
+                      src={photoUrls[path]}
+                      alt={`${INSPECTION_STAGE_LABELS[stage]} photo ${index + 1}`}
+                      className="h-20 w-full rounded-md object-cover"
+                    />
+                  </a>
+                ) : (
+                  <div className="h-20 rounded-md bg-gray-100" />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Inspection Report - Each vehicle's pickup and delivery condition side by
+ * side: odometer, fuel, marked damage, notes and photos
+ *
+ * Shared by the request detail modal and the printable report page.
+ */
+const InspectionReport: React.FC<InspectionReportProps> = ({ vehicles, inspections, photoUrls }) => (
+  <div className="space-y-4">
+    {vehicles.map(vehicle => {
+      const pickup = inspectionFor(inspections, vehicle.id, 'pickup');
+      const delivery = inspectionFor(inspections, vehicle.id, 'delivery');
+      const driven = distanceDriven(pickup, delivery);
+      return (
+        <div key={vehicle.id} className="break-inside-avoid">
+          <p className="text-sm font-medium text-gray-900 mb-2">
+            {vehicle.year} {vehicle.color} {vehicle.make} {vehicle.model}
+            {vehicle.licensePlate && <span className="ml-2 font-mono text-gray-600">{vehicle.licensePlate}</span>}
+            {driven !== null && <span className="ml-2 font-normal text-gray-600">· driven {driven.toLocaleString()}</span>}
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {INSPECTION_STAGES.map(stage => (
+              <StageReport
+                key={stage}
+                stage={stage}
+                inspection={stage === 'pickup' ? pickup : delivery}
+                photoUrls={photoUrls}
+              />
+            ))}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default InspectionReport;
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { useInspections } from '../hooks/useInspections';
+import { shuttleRequests } from '../lib/data';
+import { fromShuttleRequestRecord, type ShuttleRequest } from '../lib/domain';
+import { ownerRequestPath, requestPath } from '../lib/routes';
+import InspectionReport from './InspectionReport';
+
+/**
+ * Inspection Report Page - Printable condition report for one request
+ * (/requests/:id/inspections)
+ *
+ * Laid out for paper: the browser's print dialog prints it or saves it as a
+ * PDF to send to the customer. Customers can open their own; like the request
+ * page, anyone else's is reported as not found.
+ */
+const InspectionReportPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isStaff } = useAuth();
+  const [request, setRequest] = useState<ShuttleRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const report = useInspections(request?.id);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!id) return;
+
+    setLoading(true);
+    setLoadError(null);
+    shuttleRequests.get(id)
+      .then(record => {
+        const visible = record && (isStaff || record.user_id === userId);
+        setRequest(visible ? fromShuttleRequestRecord(record) : null);
+      })
+      .catch(err => {
+        console.error('Failed to load shuttle request:', err);
+        setLoadError(err instanceof Error ? err.message : 'Failed to load request');
+      })
+      .finally(() => setLoading(false));
+  }, [id, userId, isStaff]);
+
+  const error = loadError ?? report.error;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 print:bg-white print:py-0">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 print:px-0">
+        {id && (
+          <div className="flex items-center justify-between mb-6 print:hidden">
+            <Link to={isStaff ? ownerRequestPath(id) : requestPath(id)} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+              ← Back to request
+            </Link>
+            {request && (
+              <button
+                onClick={() => window.print()}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Print / Save as PDF
+              </button>
+            )}
+          </div>
+        )}
+
+        {loading || (request && report.loading) ? (
+          <div className="p-8 text-center text-gray-500">Loading report...</div>
+        ) : error ? (
+          <div className="rounded-md bg-red-50 border border-red-200 px-4 py-3 text-sm text-red-700">{error}</div>
+        ) : !request ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center">
+            <h1 className="text-xl font-semibold text-gray-900">Request not found</h1>
+            <p className="mt-2 text-sm text-gray-600">It may have been booked with a different account.</p>
+          </div>
+        ) : (
+          <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 md:p-8 space-y-6 print:border-0 print:shadow-none print:p-0">
+            <div className="border-b border-gray-200 pb-4">
+              <h1 className="text-2xl font-bold text-gray-900">Vehicle Inspection Report</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                <span className="font-mono font-medium text-gray-900">{request.reference}</span>
+                {' · '}{request.customer.fullName}
+                {' · '}{request.dropoffDay} at {request.arrivalTime}
+              </p>
+              <p className="mt-1 text-sm text-gray-600">
+                {request.parkingLocation.name} → {request.dropoffLocation.name}
+              </p>
+            </div>
+
+            {report.inspections.length === 0 ? (
+              <p className="text-sm text-gray-600">No inspections have been recorded for this request yet.</p>
+            ) : (
+              <InspectionReport vehicles={request.vehicles} inspections={report.inspections} photoUrls={report.photoUrls} />
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InspectionReportPage;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { useShuttleRequestChanges } from '../hooks/useShuttleRequestChanges';
+import { shuttleRequests } from '../lib/data';
+import { fromShuttleRequestRecord, type ShuttleRequest } from '../lib/domain';
+import { formatDateTime } from '../lib/format';
+import { ROUTES, requestPath } from '../lib/routes';
+import StatusBadge from './StatusBadge';
+
+/**
+ * My Requests - The signed-in customer's own bookings
+ *
+ * Lists by user id; with Supabase, row level security enforces the same
+ * restriction server-side.
+ */
+const MyRequests: React.FC = () => {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<ShuttleRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    shuttleRequests.list({ userId })
+      .then(records => setRequests(records.map(fromShuttleRequestRecord)))
+      .catch(err => {
+        console.error('Failed to load your requests:', err);
+        setLoadError(err instanceof Error ? err.message : 'Failed to load requests');
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  // Status changes made by the owner show up without a reload
+  useShuttleRequestChanges(change => {
+    shuttleRequests.get(change.id)
+      .then(record => {
+        if (!record || record.user_id !== userId) return;
+        const changed = fromShuttleRequestRecord(record);
+        setRequests(prev => prev.some(req => req.id === changed.id)
+          ? prev.map(req => req.id === changed.id ? changed : req)
+          : [changed, ...prev]);
+      })
+      .catch(err => console.error('Failed to refresh shuttle request:', err));
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">My Requests</h1>
+            <p className="mt-2 text-gray-600">Shuttles booked with {user?.email}</p>
+          </div>
+          <Link
+            to={ROUTES.book}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Book a shuttle
+          </Link>
+        </div>
+
+        {loadError && (
+          <div className="mb-6 rounded-md bg-red-50 border border-red-200 px-4 py-3 text-sm text-red-700">
+            {loadError}
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          {loading ? (
+            <div className="p-8 text-center text-gray-500">Loading requests...</div>
+          ) : requests.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">You haven&apos;t booked any shuttles yet.</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {requests.map(request => (
+                <li key={request.id}>
+                  <Link to={requestPath(request.id)} className="flex items-start justify-between gap-4 p-6 hover:bg-gray-50">
+                    <div>
+                      <p className="font-mono text-sm font-semibold text-gray-900">{request.reference}</p>
+                      <p className="mt-1 text-sm text-gray-900">
+                        {request.parkingLocation.name} → {request.dropoffLocation.name}
+                      </p>
+                      <p className="mt-1 text-sm text-gray-600">
+                        {request.dropoffDay} at {request.arrivalTime} · {request.vehicles.length} vehicle
+                        {request.vehicles.length === 1 ? '' : 's'}
+                      </p>
+                      <p className="mt-1 text-xs text-gray-500">Booked {formatDateTime(request.createdAt)}</p>
+                    </div>
+                    <StatusBadge status={request.status} />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MyRequests;
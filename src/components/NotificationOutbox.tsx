@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { dataBackend } from '../lib/data';
+import { formatDateTime } from '../lib/format';
+import { CHANNEL_LABELS, NOTIFICATION_KIND_LABELS, outbox, type NotificationChannel, type OutboxEntry } from '../lib/notifications';
+import { ROUTES, ownerRequestPath } from '../lib/routes';
+
+const CHANNEL_BADGE_CLASSES: Record<NotificationChannel, string> = {
+  email: 'bg-blue-100 text-blue-800',
+  sms: 'bg-purple-100 text-purple-800'
+};
+
+/**
+ * Notification Outbox - Every email and SMS the app has "sent" with the local
+ * backend (/owner/notifications)
+ *
+ * Newest first, updating live as requests are booked and change status. With
+ * Supabase the database has messages delivered for real and they don't
+ * appear here.
+ */
+const NotificationOutbox: React.FC = () => {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => outbox.list());
+
+  useEffect(() => outbox.subscribe(() => setEntries(outbox.list())), []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <Link to={ROUTES.owner} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+              ← Shuttle Requests
+            </Link>
+            <h1 className="mt-2 text-3xl font-bold text-gray-900">Notifications</h1>
+            <p className="mt-2 text-gray-600">Emails and texts sent to customers and to you</p>
+          </div>
+          <button
+            onClick={() => outbox.clear()}
+            disabled={entries.length === 0}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            Clear outbox
+          </button>
+        </div>
+
+        {dataBackend === 'supabase' && (
+          <div className="mb-6 rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-800">
+            Emails and texts are sent by the notification relay as requests change and aren&apos;t listed here.
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+            Nothing sent yet. Messages appear here as requests are booked and change status.
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {entries.map(entry => (
+              <li key={entry.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHANNEL_BADGE_CLASSES[entry.channel]}`}>
+                    {CHANNEL_LABELS[entry.channel]}
+                  </span>
+                  <span className="font-medium text-gray-900">{NOTIFICATION_KIND_LABELS[entry.kind]}</span>
+                  <span className="text-gray-500">to {entry.to}</span>
+                  <span className="ml-auto text-gray-500">{formatDateTime(entry.sentAt)}</span>
+                </div>
+                {entry.subject && <p className="mt-3 font-medium text-gray-900">{entry.subject}</p>}
+                <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">{entry.body}</p>
+                <Link
+                  to={ownerRequestPath(entry.requestId)}
+                  className="mt-3 inline-block text-sm font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {entry.reference} →
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationOutbox;
@@ -0,0 +1,74 @@
+import React, { useEffect } from 'react';
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  message: string;
+  // Optional action, e.g. open the request the notification is about
+  actionLabel?: string;
+  onAction?: () => void;
+}
+
+interface NotificationToastsProps {
+  notifications: AppNotification[];
+  onDismiss: (id: string) => void;
+}
+
+const AUTO_DISMISS_MS = 10000;
+
+const Toast: React.FC<{ notification: AppNotification; onDismiss: (id: string) => void }> = ({ notification, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(notification.id), AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [notification.id, onDismiss]);
+
+  return (
+    <div role="status" className="w-80 rounded-lg border border-gray-200 bg-white p-4 shadow-lg">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+          <p className="mt-1 text-sm text-gray-600">{notification.message}</p>
+        </div>
+        <button
+          onClick={() => onDismiss(notification.id)}
+          className="text-gray-400 hover:text-gray-600"
+          aria-label="Dismiss notification"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      {notification.onAction && (
+        <button
+          onClick={() => {
+            notification.onAction?.();
+            onDismiss(notification.id);
+          }}
+          className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          {notification.actionLabel ?? 'View'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Notification Toasts - Stack of in-app notifications in the corner of the screen
+ *
+ * Each toast dismisses itself after a few seconds.
+ */
+const NotificationToasts: React.FC<NotificationToastsProps> = ({ notifications, onDismiss }) => {
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 right-4 z-[60] space-y-3" aria-live="polite">
+      {notifications.map(notification => (
+        <Toast key={notification.id} notification={notification} onDismiss={onDismiss} />
+      ))}
+    </div>
+  );
+};
+
+export default NotificationToasts;
@@ -1,199 +1,394 @@
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useState, useEffect, useRef } from 'react';
+import { useLocation, useMatch, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { useRuleRun } from '../hooks/useRuleRun';
+import { useShuttleRequestChanges } from '../hooks/useShuttleRequestChanges';
+import { useShuttleRequestSearch } from '../hooks/useShuttleRequestSearch';
 import { useSupabase } from '../hooks/useSupabase';
+import {
+  drivers as driverRepository,
+  shuttleRequests,
+  type SearchShuttleRequestsOptions,
+  type ShuttleRequestSort
+} from '../lib/data';
+import {
+  ACTIVE_STATUSES,
+  REQUEST_STATUSES,
+  SCHEDULED_STATUSES,
+  fromDriverRecord,
+  fromShuttleRequestRecord,
+  isTerminalStatus,
+  paymentStatusOf,
+  type Driver,
+  type KeyHandoffStep,
+  type RequestStatus,
+  type ShuttleRequest
+} from '../lib/domain';
+import { addDays, startOfWeek, toDateInputValue } from '../lib/dates';
+import { downloadFile } from '../lib/download';
+import { formatDateTime } from '../lib/format';
+import { CALENDAR_EXPORT_STATUSES, toICalendar } from '../lib/ical';
+import { requestsToCsv, requestsToJson } from '../lib/requestExport';
+import { ROUTES, ownerRequestPath } from '../lib/routes';
+import CalendarFeedsDialog from './CalendarFeedsDialog';
+import NotificationToasts, { type AppNotification } from './NotificationToasts';
+import PaymentBadge from './PaymentBadge';
+import RequestDetailModal from './RequestDetailModal';
+import RequestImportDialog from './RequestImportDialog';
+import ScheduleCalendar, { type ScheduleView } from './ScheduleCalendar';
+import StatusBadge from './StatusBadge';
 
 /**
  * Owner Dashboard - Shuttle owner's request management interface
  * 
  * Features:
- * - List of all shuttle requests with status
+ * - List of all shuttle requests with status, searched, filtered, sorted and paged on the backend
  * - Click to view request details
  * - Accept/reject requests
- * - Real-time updates with Supabase
+ * - Assign drivers to each vehicle, and confirm their key pickups and drop-offs
+ * - Offer waitlisted requests a spot when the day frees up
+ * - Day and week schedule views, color-coded by status
+ * - Export confirmed jobs as an .ics file, or share them as calendar feeds
+ * - Export the filtered list as CSV or JSON, and import bookings from CSV
+ * - Weekly volume, revenue, routes, lead time and cancellations (see Analytics)
+ * - Finished jobs completed and stale requests expired automatically, with
+ *   upcoming jobs that lack a driver flagged (see Rules)
+ * - Live updates as requests are created or change, with a notification for new ones
+ * - Customers are emailed/texted as their request moves along (see Notifications)
+ * - Whether each request's deposit or full payment has been made
+ * - Drivers' pickup and delivery check-ins as they happen (see Driver View)
+ * - Pickup and delivery vehicle inspections, with a printable report for the customer
  */
 
-interface ShuttleRequest {
-  id: string;
-  customerName: string;
-  customerPhone: string;
-  customerEmail: string;
-  parkingLocation: {
-    name: string;
-    lat: number;
-    lng: number;
-  };
-  dropoffLocation: {
-    name: string;
-    lat: number;
-    lng: number;
-  };
-  vehicleCount: number;
-  vehicles: Array<{
-    make: string;
-    model: string;
-    year: string;
-    transmission: 'manual' | 'auto';
-  }>;
-  dropoffDay: string;
-  arrivalTime: string;
-  status: 'pending' | 'active' | 'completed';
-  createdAt: string;
-  notes?: string;
-}
-
-interface OwnerDashboardProps {
-  onBack?: () => void;
-}
-
-const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
-  const { isConnected, error } = useSupabase();
-  const [requests, setRequests] = useState<ShuttleRequest[]>([]);
-  const [selectedRequest, setSelectedRequest] = useState<ShuttleRequest | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'active' | 'completed'>('all');
-
-  // Mock data for development
-  const mockRequests: ShuttleRequest[] = [
-    {
-      id: '1',
-      customerName: 'John Smith',
-      customerPhone: '+1 (555) 123-4567',
-      customerEmail: 'john@example.com',
-      parkingLocation: {
-        name: 'Downtown Parking Garage',
-        lat: 40.7128,
-        lng: -74.0060
-      },
-      dropoffLocation: {
-        name: 'Mountain Resort',
-        lat: 40.7589,
-        lng: -73.9851
-      },
-      vehicleCount: 1,
-      vehicles: [{
-        make: 'Toyota',
-        model: '4Runner',
-        year: '2020',
-        transmission: 'auto'
-      }],
-      dropoffDay: '2024-01-15',
-      arrivalTime: '08:00',
-      status: 'pending',
-      createdAt: '2024-01-10T10:30:00Z',
-      notes: 'Customer prefers early morning pickup'
-    },
-    {
-      id: '2',
-      customerName: 'Sarah Johnson',
-      customerPhone: '+1 (555) 987-6543',
-      customerEmail: 'sarah@example.com',
-      parkingLocation: {
-        name: 'Airport Terminal A',
-        lat: 40.6892,
-        lng: -74.1745
-      },
-      dropoffLocation: {
-        name: 'River Access Point',
-        lat: 40.7505,
-        lng: -73.9934
-      },
-      vehicleCount: 2,
-      vehicles: [
-        {
-          make: 'Ford',
-          model: 'F-150',
-          year: '2022',
-          transmission: 'auto'
-        },
-        {
-          make: 'Chevrolet',
-          model: 'Silverado',
-          year: '2021',
-          transmission: 'manual'
-        }
-      ],
-      dropoffDay: '2024-01-18',
-      arrivalTime: '09:30',
-      status: 'active',
-      createdAt: '2024-01-09T14:20:00Z',
-      notes: 'Group of 4 people, need extra space'
-    },
-    {
-      id: '3',
-      customerName: 'Mike Wilson',
-      customerPhone: '+1 (555) 456-7890',
-      customerEmail: 'mike@example.com',
-      parkingLocation: {
-        name: 'Hotel Plaza',
-        lat: 40.7614,
-        lng: -73.9776
-      },
-      dropoffLocation: {
-        name: 'Canyon Viewpoint',
-        lat: 40.7505,
-        lng: -73.9934
-      },
-      vehicleCount: 1,
-      vehicles: [{
-        make: 'Honda',
-        model: 'CR-V',
-        year: '2019',
-        transmission: 'auto'
-      }],
-      dropoffDay: '2024-01-12',
-      arrivalTime: '07:00',
-      status: 'completed',
-      createdAt: '2024-01-08T16:45:00Z',
-      notes: 'Successfully completed shuttle service'
+type RequestFilter = 'all' | 'pending' | 'waitlisted' | 'active' | 'completed' | 'cancelled' | 'rejected';
+
+const FILTER_TABS: { key: RequestFilter; label: string }[] = [
+  { key: 'all', label: 'All Requests' },
+  { key: 'pending', label: 'Pending' },
+  { key: 'waitlisted', label: 'Waitlisted' },
+  { key: 'active', label: 'Active' },
+  { key: 'completed', label: 'Completed' },
+  { key: 'cancelled', label: 'Cancelled' },
+  { key: 'rejected', label: 'Rejected' }
+];
+
+const parseFilter = (value: string | null): RequestFilter =>
+  FILTER_TABS.find(tab => tab.key === value)?.key ?? 'all';
+
+type DashboardView = 'list' | ScheduleView;
+
+const VIEW_TABS: { key: DashboardView; label: string }[] = [
+  { key: 'list', label: 'List' },
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' }
+];
+
+const parseView = (value: string | null): DashboardView =>
+  VIEW_TABS.find(tab => tab.key === value)?.key ?? 'list';
+
+const parseDate = (value: string | null) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : toDateInputValue(new Date());
+
+// Jobs in start order, so calendar apps that import them as a list read sensibly
+const byStart = (a: ShuttleRequest, b: ShuttleRequest) =>
+  a.dropoffDay.localeCompare(b.dropoffDay) || a.arrivalTime.localeCompare(b.arrivalTime);
+
+// Undefined means every status
+const statusesFor = (filter: RequestFilter): RequestStatus[] | undefined => {
+  if (filter === 'all') return undefined;
+  if (filter === 'active') return [...ACTIVE_STATUSES];
+  return [filter];
+};
+
+type SortKey = 'created' | 'dropoff' | 'vehicles';
+
+const SORT_OPTIONS: { key: SortKey; label: string; sort: ShuttleRequestSort }[] = [
+  { key: 'created', label: 'Booked', sort: 'created_at' },
+  { key: 'dropoff', label: 'Drop-off day', sort: 'dropoff_day' },
+  { key: 'vehicles', label: 'Vehicles', sort: 'vehicle_count' }
+];
+
+const parseSort = (value: string | null) =>
+  SORT_OPTIONS.find(option => option.key === value) ?? SORT_OPTIONS[0];
+
+const parseOptionalDate = (value: string | null) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+
+const PAGE_SIZE = 20;
+// The schedule shows a day or a week at once, so it isn't paged
+const SCHEDULE_LIMIT = 500;
+
+// The filters are remembered in the browser and put back when the owner returns
+// to a bare /owner. The page and schedule day are left out; they go stale.
+const REMEMBERED_FILTERS_KEY = 'shuttle-forge:owner-filters';
+const REMEMBERED_PARAMS = ['filter', 'view', 'q', 'from', 'to', 'sort', 'dir'];
+
+const readRememberedFilters = () => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(REMEMBERED_FILTERS_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const rememberFilters = (params: URLSearchParams) => {
+  const kept = new URLSearchParams([...params].filter(([key]) => REMEMBERED_PARAMS.includes(key)));
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(REMEMBERED_FILTERS_KEY, kept.toString());
+  } catch (err) {
+    console.error('Failed to remember dashboard filters:', err);
+  }
+};
+
+/**
+ * The filter tab, search, drop-off range, sort, page, view and schedule day live
+ * in the query string (`?filter=pending&q=smith&from=2024-06-01&sort=dropoff&dir=asc&page=2`)
+ * and the open request in the path (`/owner/requests/:id`), so both survive a
+ * refresh, can be shared, and follow the browser's back/forward buttons.
+ */
+const OwnerDashboard: React.FC = () => {
+  const { isConnected, error, backend } = useSupabase();
+  const { user, signOut } = useAuth();
+  const ruleRun = useRuleRun();
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filter = parseFilter(searchParams.get('filter'));
+  const view = parseView(searchParams.get('view'));
+  const scheduleDate = parseDate(searchParams.get('date'));
+  const query = searchParams.get('q')?.trim() ?? '';
+  const from = parseOptionalDate(searchParams.get('from'));
+  const to = parseOptionalDate(searchParams.get('to'));
+  const sortOption = parseSort(searchParams.get('sort'));
+  const ascending = searchParams.get('dir') === 'asc';
+  const page = Math.max(1, Number.parseInt(searchParams.get('page') ?? '', 10) || 1);
+  const selectedId = useMatch(ROUTES.ownerRequest)?.params.id;
+
+  // The schedule shows its whole day or week, leaving out turned-down and
+  // called-off requests under "All" as they would only crowd it
+  const scheduleFrom = view === 'week' ? startOfWeek(scheduleDate) : scheduleDate;
+  const searchOptions: SearchShuttleRequestsOptions = view === 'list'
+    ? {
+      query,
+      status: statusesFor(filter),
+      from,
+      to,
+      sort: sortOption.sort,
+      ascending,
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE
     }
-  ];
+    : {
+      query,
+      status: statusesFor(filter) ?? REQUEST_STATUSES.filter(status => status !== 'cancelled' && status !== 'rejected'),
+      from: scheduleFrom,
+      to: view === 'week' ? addDays(scheduleFrom, 6) : scheduleDate,
+      sort: 'dropoff_day',
+      ascending: true,
+      limit: SCHEDULE_LIMIT
+    };
+  const { requests, total, statusCounts, loading, error: loadError, replace } = useShuttleRequestSearch(searchOptions);
+
+  // The open request may be on another page, so it is fetched by itself
+  const [selectedRequest, setSelectedRequest] = useState<ShuttleRequest | null>(null);
+  const [selectedMissing, setSelectedMissing] = useState(false);
+  // Everything the open request's drivers could clash with; a job can run past midnight
+  const { requests: nearbyRequests } = useShuttleRequestSearch(selectedRequest && {
+    status: [...SCHEDULED_STATUSES],
+    from: addDays(selectedRequest.dropoffDay, -1),
+    to: addDays(selectedRequest.dropoffDay, 1),
+    limit: SCHEDULE_LIMIT
+  });
+
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [showFeeds, setShowFeeds] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   useEffect(() => {
-    // Simulate loading
-    setTimeout(() => {
-      setRequests(mockRequests);
-      setLoading(false);
-    }, 1000);
+    // The roster only feeds the driver pickers, so a failure here doesn't block the list
+    driverRepository.list()
+      .then(records => setDrivers(records.map(fromDriverRecord)))
+      .catch(err => console.error('Failed to load drivers:', err));
   }, []);
 
-  const filteredRequests = requests.filter(request => 
-    filter === 'all' || request.status === filter
-  );
+  // Once per visit, and only when the link carries no filters of its own
+  const restoredFilters = useRef(false);
+  useEffect(() => {
+    if (restoredFilters.current) return;
+    restoredFilters.current = true;
+    const remembered = readRememberedFilters();
+    if (!location.search && remembered) setSearchParams(new URLSearchParams(remembered), { replace: true });
+  }, [location.search, setSearchParams]);
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'active': return 'bg-green-100 text-green-800 border-green-200';
-      case 'completed': return 'bg-blue-100 text-blue-800 border-blue-200';
-      default: return 'bg-gray-100 text-gray-800 border-gray-200';
+  useEffect(() => {
+    setSelectedMissing(false);
+    if (!selectedId) {
+      setSelectedRequest(null);
+      return;
     }
+
+    let cancelled = false;
+    shuttleRequests.get(selectedId)
+      .then(record => {
+        if (cancelled) return;
+        setSelectedRequest(record ? fromShuttleRequestRecord(record) : null);
+        setSelectedMissing(!record);
+      })
+      .catch(err => console.error('Failed to load shuttle request:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const showUpdated = (updated: ShuttleRequest) => {
+    replace(updated);
+    if (updated.id === selectedId) setSelectedRequest(updated);
   };
 
-  const handleAcceptRequest = (requestId: string) => {
-    setRequests(prev => prev.map(req => 
-      req.id === requestId ? { ...req, status: 'active' as const } : req
-    ));
-    setSelectedRequest(null);
+  // The search refetches its page by itself; this keeps the open modal current
+  // and announces new bookings
+  useShuttleRequestChanges(change => {
+    shuttleRequests.get(change.id)
+      .then(record => {
+        if (!record) return;
+        const changed = fromShuttleRequestRecord(record);
+        if (changed.id === selectedId) setSelectedRequest(changed);
+
+        if (change.type === 'created' && (changed.status === 'pending' || changed.status === 'waitlisted')) {
+          const id = `${changed.id}:created`;
+          setNotifications(prev => prev.some(notification => notification.id === id) ? prev : [...prev, {
+            id,
+            title: changed.status === 'waitlisted' ? 'New waitlist request' : 'New shuttle request',
+            message: `${changed.customer.fullName} · ${changed.dropoffDay} · ${changed.vehicles.length} vehicle${changed.vehicles.length > 1 ? 's' : ''}`,
+            actionLabel: 'View request',
+            onAction: () => openRequest(changed.id)
+          }]);
+        }
+      })
+      .catch(err => console.error('Failed to refresh shuttle request:', err));
+  });
+
+  const dismissNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(notification => notification.id !== id));
+  }, []);
+
+  // Defaults are left out of the URL; null removes a param
+  const updateParams = (changes: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null) next.delete(key);
+        else next.set(key, value);
+      });
+      rememberFilters(next);
+      return next;
+    });
   };
 
-  const handleCompleteRequest = (requestId: string) => {
-    // TODO: In production, this could be automatic based on dropoffDay + 1 day
-    // or manual completion by the owner
-    setRequests(prev => prev.map(req => 
-      req.id === requestId ? { ...req, status: 'completed' as const } : req
-    ));
-    setSelectedRequest(null);
+  // A different set of results starts again from the first page
+  const updateFilters = (changes: Record<string, string | null>) => updateParams({ ...changes, page: null });
+
+  const setFilter = (next: RequestFilter) => updateFilters({ filter: next === 'all' ? null : next });
+  const setPage = (next: number) => updateParams({ page: next === 1 ? null : String(next) });
+  const hasSearchFilters = Boolean(query || from || to);
+
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const text = String(new FormData(e.currentTarget).get('q') ?? '').trim();
+    updateFilters({ q: text || null });
   };
+  const setView = (next: DashboardView) => updateParams({ view: next === 'list' ? null : next });
+  // Today is the default schedule day
+  const dateParam = (day: string) => day === toDateInputValue(new Date()) ? null : day;
+  const setScheduleDate = (next: string) => updateParams({ date: dateParam(next) });
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
+  // Opening and closing keep the current filter
+  const openRequest = (id: string) => navigate({ pathname: ownerRequestPath(id), search: location.search });
+  const closeRequest = () => navigate({ pathname: ROUTES.owner, search: location.search });
+
+  // Errors propagate to the detail modal, which shows them next to the actions
+  const handleTransition = async (request: ShuttleRequest, to: RequestStatus, note: string | null) => {
+    const record = await shuttleRequests.transitionStatus(request.id, {
+      from: request.status,
+      to,
+      actor: user?.email ?? 'owner',
+      note
     });
+    const updated = fromShuttleRequestRecord(record);
+    showUpdated(updated);
+    if (isTerminalStatus(updated.status)) closeRequest();
+  };
+
+  const handleAssignDriver = async (request: ShuttleRequest, vehicleId: string, driverId: string | null) => {
+    const record = await shuttleRequests.assignDriver(request.id, { vehicleId, driverId });
+    showUpdated(fromShuttleRequestRecord(record));
   };
 
+  // Recorded against the vehicle's driver when it has one, as drivers can't sign in yet
+  const handleConfirmKeyHandoff = async (request: ShuttleRequest, vehicleId: string, step: KeyHandoffStep) => {
+    const vehicle = request.vehicles.find(v => v.id === vehicleId);
+    const driver = drivers.find(d => d.id === vehicle?.driverId);
+    const record = await shuttleRequests.confirmKeyHandoff(request.id, {
+      vehicleId,
+      step,
+      actor: driver?.fullName ?? user?.email ?? 'owner'
+    });
+    showUpdated(fromShuttleRequestRecord(record));
+  };
+
+  // Every job, not just the ones on screen
+  const handleExportCalendar = async () => {
+    setExportError(null);
+    try {
+      const records = await shuttleRequests.list({ status: [...CALENDAR_EXPORT_STATUSES] });
+      const jobs = records.map(fromShuttleRequestRecord).sort(byStart);
+      const calendar = toICalendar(jobs, {
+        name: 'Shuttle Forge jobs',
+        drivers,
+        urlFor: request => window.location.origin + ownerRequestPath(request.id)
+      });
+      downloadFile('shuttle-forge-jobs.ics', calendar, 'text/calendar');
+    } catch (err) {
+      console.error('Failed to export calendar:', err);
+      setExportError(err instanceof Error ? err.message : 'Failed to export calendar');
+    }
+  };
+
+  // Every page of the current search, not just the one on screen
+  const handleExportList = async (format: 'csv' | 'json') => {
+    setExportError(null);
+    try {
+      const { records } = await shuttleRequests.search({ ...searchOptions, offset: 0, limit: Math.max(total, 1) });
+      const matching = records.map(fromShuttleRequestRecord);
+      const stamp = toDateInputValue(new Date());
+      if (format === 'csv') {
+        downloadFile(`shuttle-requests-${stamp}.csv`, requestsToCsv(matching, { drivers }), 'text/csv');
+      } else {
+        downloadFile(`shuttle-requests-${stamp}.json`, requestsToJson(matching, { drivers }), 'application/json');
+      }
+    } catch (err) {
+      console.error('Failed to export requests:', err);
+      setExportError(err instanceof Error ? err.message : 'Failed to export requests');
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate(ROUTES.book);
+    } catch (err) {
+      console.error('Failed to sign out:', err);
+    }
+  };
+
+  // Counts follow the search and drop-off range (on the schedule, the days shown), not the tab
+  const countFor = (key: RequestFilter) =>
+    (statusesFor(key) ?? REQUEST_STATUSES).reduce((sum, status) => sum + statusCounts[status], 0);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -226,7 +421,7 @@ const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
                 {isConnected === true && (
                   <div className="flex items-center gap-2 text-sm text-green-600">
                     <div className="w-2 h-2 bg-green-400 rounded-full"></div>
-                    Connected to database
+                    {backend === 'supabase' ? 'Connected to database' : 'Using local data store'}
                   </div>
                 )}
                 {isConnected === false && (
@@ -241,7 +436,61 @@ const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
             
             <div className="flex items-center gap-4">
               <button
-                onClick={onBack}
+                onClick={handleExportCalendar}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Export .ics
+              </button>
+              <button
+                onClick={() => setShowImport(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Import
+              </button>
+              <button
+                onClick={() => setShowFeeds(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Calendar Feeds
+              </button>
+              <button
+                onClick={() => navigate(ROUTES.analytics)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Analytics
+              </button>
+              <button
+                onClick={() => navigate(ROUTES.rules)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Rules
+              </button>
+              <button
+                onClick={() => navigate(ROUTES.driver)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Driver View
+              </button>
+              <button
+                onClick={() => navigate(ROUTES.notifications)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Notifications
+              </button>
+              <button
+                onClick={() => navigate(ROUTES.capacity)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Capacity
+              </button>
+              <button
+                onClick={() => navigate(ROUTES.drivers)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Drivers
+              </button>
+              <button
+                onClick={() => navigate(ROUTES.book)}
                 className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -249,6 +498,17 @@ const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
                 </svg>
                 Customer View
               </button>
+              {user && (
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="text-gray-600">{user.fullName || user.email}</span>
+                  <button
+                    onClick={handleSignOut}
+                    className="font-medium text-gray-600 hover:text-gray-900"
+                  >
+                    Sign out
+                  </button>
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
                   <span className="text-white font-bold text-lg">S</span>
@@ -259,6 +519,35 @@ const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
           </div>
         </div>
 
+        {(loadError || exportError) && (
+          <div className="mb-6 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {loadError ?? exportError}
+          </div>
+        )}
+
+        {ruleRun && ruleRun.flagged.length > 0 && (
+          <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+            {ruleRun.flagged.length} upcoming job{ruleRun.flagged.length === 1 ? '' : 's'} still need
+            {ruleRun.flagged.length === 1 ? 's' : ''} a driver:{' '}
+            {ruleRun.flagged.map((flag, index) => (
+              <React.Fragment key={flag.request.id}>
+                {index > 0 && ', '}
+                <button onClick={() => openRequest(flag.request.id)} className="font-mono font-medium underline">
+                  {flag.request.reference}
+                </button>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+
+        {/* Deep link to a request that doesn't exist */}
+        {selectedId && selectedMissing && (
+          <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+            No request with id {selectedId} was found.{' '}
+            <button onClick={closeRequest} className="font-medium underline">Dismiss</button>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -271,7 +560,7 @@ const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Pending</p>
                 <p className="text-2xl font-semibold text-gray-900">
-                  {requests.filter(r => r.status === 'pending').length}
+                  {countFor('pending')}
                 </p>
               </div>
             </div>
@@ -287,7 +576,7 @@ const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Active</p>
                 <p className="text-2xl font-semibold text-gray-900">
-                  {requests.filter(r => r.status === 'active').length}
+                  {countFor('active')}
                 </p>
               </div>
             </div>
@@ -303,7 +592,7 @@ const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Completed</p>
                 <p className="text-2xl font-semibold text-gray-900">
-                  {requests.filter(r => r.status === 'completed').length}
+                  {countFor('completed')}
                 </p>
               </div>
             </div>
@@ -312,17 +601,12 @@ const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
 
         {/* Filter Tabs */}
         <div className="mb-6">
-          <div className="border-b border-gray-200">
+          <div className="border-b border-gray-200 flex items-end justify-between gap-4">
             <nav className="-mb-px flex space-x-8">
-              {[
-                { key: 'all', label: 'All Requests', count: requests.length },
-                { key: 'pending', label: 'Pending', count: requests.filter(r => r.status === 'pending').length },
-                { key: 'active', label: 'Active', count: requests.filter(r => r.status === 'active').length },
-                { key: 'completed', label: 'Completed', count: requests.filter(r => r.status === 'completed').length }
-              ].map((tab) => (
+              {FILTER_TABS.map((tab) => (
                 <button
                   key={tab.key}
-                  onClick={() => setFilter(tab.key as any)}
+                  onClick={() => setFilter(tab.key)}
                   className={`py-2 px-1 border-b-2 font-medium text-sm ${
                     filter === tab.key
                       ? 'border-blue-500 text-blue-600'
@@ -333,204 +617,251 @@ const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ onBack }) => {
                   <span className={`ml-2 py-0.5 px-2 rounded-full text-xs ${
                     filter === tab.key ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-600'
                   }`}>
-                    {tab.count}
+                    {countFor(tab.key)}
                   </span>
                 </button>
               ))}
             </nav>
+            <div className="mb-2 inline-flex rounded-md shadow-sm" role="group" aria-label="View">
+              {VIEW_TABS.map((tab, index) => (
+                <button
+                  key={tab.key}
+                  onClick={() => setView(tab.key)}
+                  aria-pressed={view === tab.key}
+                  className={`px-3 py-1.5 text-sm font-medium border border-gray-300 ${
+                    index === 0 ? 'rounded-l-md' : '-ml-px'
+                  } ${index === VIEW_TABS.length - 1 ? 'rounded-r-md' : ''} ${
+                    view === tab.key ? 'bg-blue-50 text-blue-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
           </div>
         </div>
 
-        {/* Requests List */}
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-          <div className="px-6 py-4 border-b border-gray-200">
-            <h3 className="text-lg font-medium text-gray-900">
-              {filter === 'all' ? 'All Requests' : `${filter.charAt(0).toUpperCase() + filter.slice(1)} Requests`}
-            </h3>
-          </div>
-          
-          <div className="divide-y divide-gray-200">
-            {filteredRequests.length === 0 ? (
-              <div className="px-6 py-12 text-center">
-                <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-                </svg>
-                <h3 className="mt-2 text-sm font-medium text-gray-900">No requests found</h3>
-                <p className="mt-1 text-sm text-gray-500">
-                  {filter === 'all' ? 'No shuttle requests have been submitted yet.' : `No ${filter} requests found.`}
-                </p>
+        {/* Search and Sort */}
+        <div className="mb-6 flex flex-wrap items-end gap-4">
+          <form onSubmit={handleSearch} className="flex-1 min-w-[16rem]">
+            <label htmlFor="requestSearch" className="block text-sm font-medium text-gray-700 mb-1">Search</label>
+            <div className="flex gap-2">
+              <input
+                key={query}
+                id="requestSearch"
+                name="q"
+                type="search"
+                defaultValue={query}
+                placeholder="Name, email, phone, location or reference"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Search
+              </button>
+            </div>
+          </form>
+          {view === 'list' && (
+            <>
+              <div>
+                <label htmlFor="dropoffFrom" className="block text-sm font-medium text-gray-700 mb-1">Drop-off from</label>
+                <input
+                  id="dropoffFrom"
+                  type="date"
+                  value={from ?? ''}
+                  max={to}
+                  onChange={(e) => updateFilters({ from: e.target.value || null })}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
               </div>
-            ) : (
-              filteredRequests.map((request) => (
-                <div
-                  key={request.id}
-                  className="px-6 py-4 hover:bg-gray-50 cursor-pointer"
-                  onClick={() => setSelectedRequest(request)}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-3">
-                        <h4 className="text-lg font-medium text-gray-900">{request.customerName}</h4>
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(request.status)}`}>
-                          {request.status}
-                        </span>
-                      </div>
-                      <div className="mt-1 flex items-center gap-4 text-sm text-gray-500">
-                        <span>{request.customerPhone}</span>
-                        <span>{request.customerEmail}</span>
-                        <span>{request.vehicleCount} vehicle{request.vehicleCount > 1 ? 's' : ''}</span>
-                      </div>
-                      <div className="mt-2 flex items-center gap-4 text-sm text-gray-600">
-                        <span>Drop-off: {request.dropoffDay} at {request.arrivalTime}</span>
-                        <span>From: {request.parkingLocation.name}</span>
-                        <span>To: {request.dropoffLocation.name}</span>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm text-gray-500">
-                        {formatDate(request.createdAt)}
-                      </span>
-                      <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                      </svg>
-                    </div>
-                  </div>
+              <div>
+                <label htmlFor="dropoffTo" className="block text-sm font-medium text-gray-700 mb-1">to</label>
+                <input
+                  id="dropoffTo"
+                  type="date"
+                  value={to ?? ''}
+                  min={from}
+                  onChange={(e) => updateFilters({ to: e.target.value || null })}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="requestSort" className="block text-sm font-medium text-gray-700 mb-1">Sort by</label>
+                <div className="flex gap-2">
+                  <select
+                    id="requestSort"
+                    value={sortOption.key}
+                    onChange={(e) => updateFilters({ sort: e.target.value === SORT_OPTIONS[0].key ? null : e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {SORT_OPTIONS.map(option => (
+                      <option key={option.key} value={option.key}>{option.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => updateFilters({ dir: ascending ? null : 'asc' })}
+                    aria-label={ascending ? 'Sort descending' : 'Sort ascending'}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    {ascending ? '↑ Ascending' : '↓ Descending'}
+                  </button>
                 </div>
-              ))
-            )}
-          </div>
+              </div>
+            </>
+          )}
+          {hasSearchFilters && (
+            <button
+              onClick={() => updateFilters({ q: null, from: null, to: null })}
+              className="py-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              Clear search
+            </button>
+          )}
         </div>
 
-        {/* Request Detail Modal */}
-        {selectedRequest && (
-          <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-            <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 lg:w-1/2 shadow-lg rounded-md bg-white">
-              <div className="mt-3">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-medium text-gray-900">Request Details</h3>
+        {/* Schedule or Requests List */}
+        {view !== 'list' ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <ScheduleCalendar
+              requests={requests}
+              view={view}
+              date={scheduleDate}
+              onDateChange={setScheduleDate}
+              onOpenDay={day => updateParams({ view: 'day', date: dateParam(day) })}
+              onSelect={openRequest}
+            />
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900">
+                {filter === 'all' ? 'All Requests' : `${filter.charAt(0).toUpperCase() + filter.slice(1)} Requests`}
+              </h3>
+              {total > 0 && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-500">Export {total}:</span>
+                  <button
+                    onClick={() => handleExportList('csv')}
+                    className="px-3 py-1 border border-gray-300 rounded-md font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    CSV
+                  </button>
                   <button
-                    onClick={() => setSelectedRequest(null)}
-                    className="text-gray-400 hover:text-gray-600"
+                    onClick={() => handleExportList('json')}
+                    className="px-3 py-1 border border-gray-300 rounded-md font-medium text-gray-700 hover:bg-gray-50"
                   >
-                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                    </svg>
+                    JSON
                   </button>
                 </div>
-
-                <div className="space-y-6">
-                  {/* Customer Info */}
-                  <div>
-                    <h4 className="text-md font-medium text-gray-900 mb-3">Customer Information</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Name</label>
-                        <p className="mt-1 text-sm text-gray-900">{selectedRequest.customerName}</p>
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Phone</label>
-                        <p className="mt-1 text-sm text-gray-900">{selectedRequest.customerPhone}</p>
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Email</label>
-                        <p className="mt-1 text-sm text-gray-900">{selectedRequest.customerEmail}</p>
+              )}
+            </div>
+            
+            <div className="divide-y divide-gray-200">
+              {requests.length === 0 ? (
+                <div className="px-6 py-12 text-center">
+                  <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                  </svg>
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No requests found</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {hasSearchFilters
+                      ? 'No requests match your search and dates.'
+                      : filter === 'all' ? 'No shuttle requests have been submitted yet.' : `No ${filter} requests found.`}
+                  </p>
+                </div>
+              ) : (
+                requests.map((request) => (
+                  <div
+                    key={request.id}
+                    className="px-6 py-4 hover:bg-gray-50 cursor-pointer"
+                    onClick={() => openRequest(request.id)}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-3">
+                          <h4 className="text-lg font-medium text-gray-900">{request.customer.fullName}</h4>
+                          <StatusBadge status={request.status} />
+                          <PaymentBadge status={paymentStatusOf(request)} />
+                        </div>
+                        <div className="mt-1 flex items-center gap-4 text-sm text-gray-500">
+                          <span>{request.customer.phone}</span>
+                          <span>{request.customer.email}</span>
+                          <span>{request.vehicles.length} vehicle{request.vehicles.length > 1 ? 's' : ''}</span>
+                        </div>
+                        <div className="mt-2 flex items-center gap-4 text-sm text-gray-600">
+                          <span>Drop-off: {request.dropoffDay} at {request.arrivalTime}</span>
+                          <span>From: {request.parkingLocation.name}</span>
+                          <span>To: {request.dropoffLocation.name}</span>
+                        </div>
+                        {(request.pickedUp || request.delivered) && (
+                          <div className="mt-2 flex items-center gap-4 text-sm text-indigo-700">
+                            {request.pickedUp && <span>Picked up {formatDateTime(request.pickedUp.at)} by {request.pickedUp.by}</span>}
+                            {request.delivered && <span>Delivered {formatDateTime(request.delivered.at)}</span>}
+                          </div>
+                        )}
                       </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Status</label>
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(selectedRequest.status)}`}>
-                          {selectedRequest.status}
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-gray-500">
+                          {formatDateTime(request.createdAt)}
                         </span>
+                        <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                        </svg>
                       </div>
                     </div>
                   </div>
+                ))
+              )}
+            </div>
 
-                  {/* Trip Details */}
-                  <div>
-                    <h4 className="text-md font-medium text-gray-900 mb-3">Trip Details</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Drop-off Day</label>
-                        <p className="mt-1 text-sm text-gray-900">{selectedRequest.dropoffDay}</p>
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Arrival Time</label>
-                        <p className="mt-1 text-sm text-gray-900">{selectedRequest.arrivalTime}</p>
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Pickup Location</label>
-                        <p className="mt-1 text-sm text-gray-900">{selectedRequest.parkingLocation.name}</p>
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Drop-off Location</label>
-                        <p className="mt-1 text-sm text-gray-900">{selectedRequest.dropoffLocation.name}</p>
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Vehicles */}
-                  <div>
-                    <h4 className="text-md font-medium text-gray-900 mb-3">Vehicles ({selectedRequest.vehicleCount})</h4>
-                    <div className="space-y-3">
-                      {selectedRequest.vehicles.map((vehicle, index) => (
-                        <div key={index} className="bg-gray-50 rounded-lg p-3">
-                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                            <div>
-                              <label className="block text-sm font-medium text-gray-700">Make</label>
-                              <p className="mt-1 text-sm text-gray-900">{vehicle.make}</p>
-                            </div>
-                            <div>
-                              <label className="block text-sm font-medium text-gray-700">Model</label>
-                              <p className="mt-1 text-sm text-gray-900">{vehicle.model}</p>
-                            </div>
-                            <div>
-                              <label className="block text-sm font-medium text-gray-700">Year</label>
-                              <p className="mt-1 text-sm text-gray-900">{vehicle.year}</p>
-                            </div>
-                            <div>
-                              <label className="block text-sm font-medium text-gray-700">Transmission</label>
-                              <p className="mt-1 text-sm text-gray-900 capitalize">{vehicle.transmission}</p>
-                            </div>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-
-                  {/* Notes */}
-                  {selectedRequest.notes && (
-                    <div>
-                      <h4 className="text-md font-medium text-gray-900 mb-3">Notes</h4>
-                      <p className="text-sm text-gray-900 bg-gray-50 rounded-lg p-3">{selectedRequest.notes}</p>
-                    </div>
-                  )}
-
-                  {/* Action Buttons */}
-                  {selectedRequest.status === 'pending' && (
-                    <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
-                      <button
-                        onClick={() => handleAcceptRequest(selectedRequest.id)}
-                        className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500"
-                      >
-                        Accept Request
-                      </button>
-                    </div>
-                  )}
-                  
-                  {selectedRequest.status === 'active' && (
-                    <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
-                      <button
-                        onClick={() => handleCompleteRequest(selectedRequest.id)}
-                        className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      >
-                        Mark as Completed
-                      </button>
-                    </div>
-                  )}
+            {total > 0 && (
+              <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  Showing {Math.min((page - 1) * PAGE_SIZE + 1, total)}–{Math.min(page * PAGE_SIZE, total)} of {total}
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="px-3 py-1 border border-gray-300 rounded-md font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <span>Page {page} of {pageCount}</span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pageCount}
+                    className="px-3 py-1 border border-gray-300 rounded-md font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
                 </div>
               </div>
-            </div>
+            )}
           </div>
         )}
+
+        <NotificationToasts notifications={notifications} onDismiss={dismissNotification} />
+
+        {/* Request Detail Modal */}
+        {selectedRequest && (
+          <RequestDetailModal
+            key={selectedRequest.id}
+            request={selectedRequest}
+            drivers={drivers}
+            requests={nearbyRequests}
+            onClose={closeRequest}
+            onTransition={(to, note) => handleTransition(selectedRequest, to, note)}
+            onAssignDriver={(vehicleId, driverId) => handleAssignDriver(selectedRequest, vehicleId, driverId)}
+            onConfirmKeyHandoff={(vehicleId, step) => handleConfirmKeyHandoff(selectedRequest, vehicleId, step)}
+            onLoadLockboxCodes={() => shuttleRequests.lockboxCodes(selectedRequest.id)}
+          />
+        )}
+
+        {showFeeds && <CalendarFeedsDialog drivers={drivers} onClose={() => setShowFeeds(false)} />}
+        {showImport && <RequestImportDialog onClose={() => setShowImport(false)} />}
       </div>
     </div>
   );
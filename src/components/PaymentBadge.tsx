@@ -0,0 +1,17 @@
+import React from 'react';
+import { REQUEST_PAYMENT_STATUS_LABELS, type RequestPaymentStatus } from '../lib/domain';
+
+const PAYMENT_BADGE_CLASSES: Record<RequestPaymentStatus, string> = {
+  unpaid: 'bg-gray-100 text-gray-800 border-gray-200',
+  deposit_paid: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  paid: 'bg-green-100 text-green-800 border-green-200'
+};
+
+// Nothing for requests without a quote, which aren't paid online
+const PaymentBadge: React.FC<{ status: RequestPaymentStatus | null }> = ({ status }) => status && (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${PAYMENT_BADGE_CLASSES[status]}`}>
+    {REQUEST_PAYMENT_STATUS_LABELS[status]}
+  </span>
+);
+
+export default PaymentBadge;
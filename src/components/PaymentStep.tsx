@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { PAYMENT_KIND_LABELS, amountDue, type PaymentKind, type ShuttleRequest } from '../lib/domain';
+import { formatMoney } from '../lib/format';
+import {
+  FAKE_DECLINED_CARD,
+  PaymentError,
+  cardDetailsSchema,
+  checkout,
+  testCards,
+  type CardDetails,
+  type CheckoutResult
+} from '../lib/payments';
+import FieldError from './FieldError';
+
+interface PaymentStepProps {
+  request: ShuttleRequest;
+  onPaid: (result: CheckoutResult) => void;
+  // The customer can always book now and settle up later
+  onSkip: () => void;
+}
+
+const fieldClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+const emptyCard = (): CardDetails => ({ number: '', expiry: '', cvc: '' });
+
+/**
+ * Payment Step - Checkout shown right after a request is booked
+ *
+ * The customer pays the deposit to hold their spot, pays the whole quote up
+ * front, or skips ahead and pays later. Declined cards can be retried. The
+ * card form is the fake provider's, so this is only shown in test mode (see
+ * canPayOnline).
+ */
+const PaymentStep: React.FC<PaymentStepProps> = ({ request, onPaid, onSkip }) => {
+  const [kind, setKind] = useState<PaymentKind>('deposit');
+  const [card, setCard] = useState<CardDetails>(emptyCard);
+  const [touched, setTouched] = useState<Set<keyof CardDetails>>(() => new Set());
+  const [paying, setPaying] = useState(false);
+  const [payError, setPayError] = useState<string | null>(null);
+
+  const errors = cardDetailsSchema.validate(card, { now: new Date() });
+  const errorFor = (key: keyof CardDetails) => (touched.has(key) ? errors[key] : undefined);
+  const touch = (key: keyof CardDetails) => setTouched(prev => (prev.has(key) ? prev : new Set(prev).add(key)));
+  const currency = request.quote?.currency;
+  const options = (['deposit', 'full'] as const).filter(option => amountDue(request, option) > 0);
+
+  const handleCardChange = (key: keyof CardDetails, value: string) => {
+    setCard(prev => ({ ...prev, [key]: value }));
+    setPayError(null);
+  };
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setTouched(new Set(['number', 'expiry', 'cvc']));
+    if (errors.number || errors.expiry || errors.cvc) return;
+
+    setPaying(true);
+    setPayError(null);
+    try {
+      const paymentMethodId = await testCards!.createPaymentMethod(card);
+      onPaid(await checkout.pay({ request, kind, paymentMethodId }));
+    } catch (err) {
+      console.error('Failed to take payment:', err);
+      setPayError(err instanceof Error ? err.message : 'Failed to take payment');
+      // A declined card shouldn't be charged again by accident
+      if (err instanceof PaymentError && err.code === 'declined') setCard(prev => ({ ...prev, cvc: '' }));
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-lg mx-auto px-4 sm:px-6 lg:px-8">
+        <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 md:p-8">
+          <h1 className="text-2xl font-bold text-gray-900">Pay for your shuttle</h1>
+          <p className="mt-2 text-gray-600">
+            Request <span className="font-mono font-medium text-gray-900">{request.reference}</span> is saved.
+            Pay a deposit to hold your spot, or the whole amount now.
+          </p>
+
+          <form onSubmit={handlePay} noValidate className="mt-6 space-y-6">
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-2">Amount</legend>
+              <div className="space-y-2">
+                {options.map(option => (
+                  <label
+                    key={option}
+                    className={`flex items-center justify-between rounded-lg border px-4 py-3 cursor-pointer ${
+                      kind === option ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <span className="flex items-center gap-3 text-sm text-gray-900">
+                      <input
+                        type="radio"
+                        name="paymentKind"
+                        value={option}
+                        checked={kind === option}
+                        onChange={() => setKind(option)}
+                      />
+                      {PAYMENT_KIND_LABELS[option]}
+                    </span>
+                    <span className="text-sm font-semibold text-gray-900">
+                      {formatMoney(amountDue(request, option), currency)}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="cardNumber" className="block text-sm font-medium text-gray-700 mb-2">Card number</label>
+                <input
+                  id="cardNumber"
+                  inputMode="numeric"
+                  autoComplete="cc-number"
+                  value={card.number}
+                  onChange={(e) => handleCardChange('number', e.target.value)}
+                  onBlur={() => touch('number')}
+                  className={fieldClass(errorFor('number'))}
+                  placeholder="1234 5678 9012 3456"
+                />
+                <FieldError message={errorFor('number')} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="cardExpiry" className="block text-sm font-medium text-gray-700 mb-2">Expiry</label>
+                  <input
+                    id="cardExpiry"
+                    autoComplete="cc-exp"
+                    value={card.expiry}
+                    onChange={(e) => handleCardChange('expiry', e.target.value)}
+                    onBlur={() => touch('expiry')}
+                    className={fieldClass(errorFor('expiry'))}
+                    placeholder="MM/YY"
+                  />
+                  <FieldError message={errorFor('expiry')} />
+                </div>
+                <div>
+                  <label htmlFor="cardCvc" className="block text-sm font-medium text-gray-700 mb-2">Security code</label>
+                  <input
+                    id="cardCvc"
+                    inputMode="numeric"
+                    autoComplete="cc-csc"
+                    value={card.cvc}
+                    onChange={(e) => handleCardChange('cvc', e.target.value)}
+                    onBlur={() => touch('cvc')}
+                    className={fieldClass(errorFor('cvc'))}
+                    placeholder="123"
+                  />
+                  <FieldError message={errorFor('cvc')} />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Test mode: no money is taken. Any valid card number works, e.g. 4242 4242 4242 4242;
+                {' '}{FAKE_DECLINED_CARD} is declined.
+              </p>
+            </div>
+
+            {payError && (
+              <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{payError}</div>
+            )}
+
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                onClick={onSkip}
+                disabled={paying}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Pay later
+              </button>
+              <button
+                type="submit"
+                disabled={paying}
+                className="px-4 py-2 rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {paying ? 'Paying...' : `Pay ${formatMoney(amountDue(request, kind), currency)}`}
+              </button>
+            </div>
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentStep;
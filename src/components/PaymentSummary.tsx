@@ -0,0 +1,65 @@
+import React from 'react';
+import { PAYMENT_KIND_LABELS, paidCents, paymentStatusOf, type PaymentStatus, type ShuttleRequest } from '../lib/domain';
+import { formatDateTime, formatMoney } from '../lib/format';
+import PaymentBadge from './PaymentBadge';
+
+// Staff see every attempt; pending ones are being charged, or were abandoned part way
+const STATUS_NOTES: Record<PaymentStatus, string> = {
+  pending: ' pending',
+  succeeded: '',
+  failed: ' declined',
+  voided: ' voided'
+};
+
+interface PaymentSummaryProps {
+  request: ShuttleRequest;
+  // Staff also see declined attempts and the provider's references
+  detailed?: boolean;
+}
+
+/**
+ * Payment Summary - How much of a request's quote has been paid, and the
+ * payments that paid it
+ */
+const PaymentSummary: React.FC<PaymentSummaryProps> = ({ request, detailed = false }) => {
+  const status = paymentStatusOf(request);
+  if (!request.quote || !status) return null;
+
+  const currency = request.quote.currency;
+  const paid = paidCents(request.payments);
+  const payments = detailed ? request.payments : request.payments.filter(payment => payment.status === 'succeeded');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-700">
+          {formatMoney(paid, currency)} of {formatMoney(request.quote.totalCents, currency)} paid
+          {paid > 0 && paid < request.quote.totalCents && (
+            <span className="text-gray-500"> · {formatMoney(request.quote.totalCents - paid, currency)} due</span>
+          )}
+        </span>
+        <PaymentBadge status={status} />
+      </div>
+      {payments.length > 0 && (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {payments.map(payment => (
+            <li key={payment.id} className="py-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+              <span className={payment.status === 'failed' ? 'text-red-700' : payment.status === 'succeeded' ? 'text-gray-900' : 'text-gray-500'}>
+                {PAYMENT_KIND_LABELS[payment.kind]} {formatMoney(payment.amountCents, payment.currency)}
+                {STATUS_NOTES[payment.status]}
+              </span>
+              {payment.cardLast4 && <span className="text-gray-500">card ending {payment.cardLast4}</span>}
+              {detailed && payment.failureMessage && <span className="text-gray-500">{payment.failureMessage}</span>}
+              {detailed && payment.providerReference && (
+                <span className="font-mono text-xs text-gray-500">{payment.provider}: {payment.providerReference}</span>
+              )}
+              <span className="ml-auto text-gray-500">{formatDateTime(payment.createdAt)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PaymentSummary;
@@ -0,0 +1,145 @@
+import React, { useEffect, useId, useState } from 'react';
+import type { GeoPoint } from '../lib/domain';
+import { PLACE_CATEGORY_LABELS, geocoder as defaultGeocoder, toGeoPoint, type Geocoder, type PlaceResult } from '../lib/geocoding';
+
+interface PlaceAutocompleteProps {
+  id: string;
+  value: GeoPoint;
+  // Typing only changes the name; picking a suggestion replaces the whole point
+  onChange: (point: GeoPoint) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+  className?: string;
+  geocoder?: Geocoder;
+}
+
+const SEARCH_DELAY_MS = 200;
+
+/**
+ * Place Autocomplete - Location text input with suggestions from the geocoder
+ */
+const PlaceAutocomplete: React.FC<PlaceAutocompleteProps> = ({
+  id,
+  value,
+  onChange,
+  onBlur,
+  placeholder,
+  className,
+  geocoder = defaultGeocoder
+}) => {
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PlaceResult[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // Search whatever the customer last typed (not names filled in by a pick)
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      geocoder.search(query, { signal: controller.signal })
+        .then((places) => {
+          setResults(places);
+          setHighlighted(0);
+        })
+        .catch((err) => {
+          if (!controller.signal.aborted) console.error('Place search failed:', err);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, geocoder]);
+
+  const pick = (place: PlaceResult) => {
+    onChange(toGeoPoint(place));
+    setQuery('');
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || results.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((index) => (index + 1) % results.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => (index - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      pick(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && results.length > 0;
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        autoComplete="off"
+        value={value.name}
+        onChange={(e) => {
+          onChange({ ...value, name: e.target.value });
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          setOpen(false);
+          onBlur?.();
+        }}
+        className={className}
+        placeholder={placeholder}
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-64 overflow-auto rounded-md border border-gray-200 bg-white shadow-lg"
+        >
+          {results.map((place, index) => (
+            <li
+              key={place.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(place);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`cursor-pointer px-3 py-2 text-sm ${index === highlighted ? 'bg-blue-50' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-900">{place.name}</span>
+                <span className="text-xs text-gray-500">{PLACE_CATEGORY_LABELS[place.category]}</span>
+              </div>
+              {place.description && (
+                <p className="truncate text-xs text-gray-500">{place.description}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PlaceAutocomplete;
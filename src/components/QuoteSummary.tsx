@@ -0,0 +1,45 @@
+import React from 'react';
+import type { Quote } from '../lib/domain';
+import { formatDuration, formatMoney } from '../lib/format';
+
+interface QuoteSummaryProps {
+  quote: Quote | null;
+  // Shown in place of the breakdown when there is no quote
+  emptyMessage?: string;
+}
+
+/**
+ * Quote Summary - Distance, drive time and itemized price for a shuttle
+ */
+const QuoteSummary: React.FC<QuoteSummaryProps> = ({ quote, emptyMessage = 'No quote available.' }) => {
+  if (!quote) {
+    return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+      <div className="flex items-center gap-4 text-sm text-gray-600 mb-3">
+        <span>{quote.distanceMiles} mi</span>
+        <span>≈ {formatDuration(quote.durationMinutes)} drive</span>
+      </div>
+      <table className="w-full text-sm">
+        <tbody>
+          {quote.lines.map((line) => (
+            <tr key={line.code}>
+              <td className="py-1 text-gray-700">{line.label}</td>
+              <td className="py-1 text-right text-gray-900">{formatMoney(line.amountCents, quote.currency)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-gray-200">
+            <td className="pt-2 font-semibold text-gray-900">Estimated total</td>
+            <td className="pt-2 text-right font-semibold text-gray-900">{formatMoney(quote.totalCents, quote.currency)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default QuoteSummary;
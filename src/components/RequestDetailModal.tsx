@@ -0,0 +1,508 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useInspections } from '../hooks/useInspections';
+import {
+  CHECK_IN_LABELS,
+  ASSIGNMENT_PROBLEM_LABELS,
+  DRIVETRAIN_LABELS,
+  KEY_HANDOFF_ACTION_LABELS,
+  KEY_HANDOFF_LABELS,
+  SCHEDULED_STATUSES,
+  STATUS_LABELS,
+  TRANSITION_ACTION_LABELS,
+  TRANSMISSION_LABELS,
+  availableTransitions,
+  findAssignmentProblem,
+  findKeyHandoffProblem,
+  nextKeyHandoffStep,
+  requiresReason,
+  type Driver,
+  type KeyHandoffStep,
+  type RequestStatus,
+  type ShuttleRequest,
+  type Vehicle
+} from '../lib/domain';
+import { formatDateTime } from '../lib/format';
+import { pointUrl } from '../lib/geo';
+import { inspectionReportPath } from '../lib/routes';
+import InspectionReport from './InspectionReport';
+import StatusBadge from './StatusBadge';
+import PaymentSummary from './PaymentSummary';
+import QuoteSummary from './QuoteSummary';
+import StatusTimeline from './StatusTimeline';
+import RouteMap from './map/RouteMap';
+
+const ACTION_BUTTON_CLASSES: Record<RequestStatus, string> = {
+  pending: 'border-transparent text-white bg-yellow-500 hover:bg-yellow-600 focus:ring-yellow-400',
+  waitlisted: 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50 focus:ring-blue-500',
+  confirmed: 'border-transparent text-white bg-green-600 hover:bg-green-700 focus:ring-green-500',
+  in_progress: 'border-transparent text-white bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500',
+  completed: 'border-transparent text-white bg-blue-600 hover:bg-blue-700 focus:ring-blue-500',
+  cancelled: 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50 focus:ring-gray-500',
+  rejected: 'border-red-300 text-red-700 bg-white hover:bg-red-50 focus:ring-red-500'
+};
+
+interface RequestDetailModalProps {
+  request: ShuttleRequest;
+  // The roster, and every request a driver might already be booked on
+  drivers: Driver[];
+  requests: ShuttleRequest[];
+  onClose: () => void;
+  onTransition: (to: RequestStatus, note: string | null) => Promise<void>;
+  onAssignDriver: (vehicleId: string, driverId: string | null) => Promise<void>;
+  onConfirmKeyHandoff: (vehicleId: string, step: KeyHandoffStep) => Promise<void>;
+  // Lockbox codes by vehicle id; only fetched when asked for
+  onLoadLockboxCodes: () => Promise<Record<string, string>>;
+}
+
+interface DriverSelectProps {
+  vehicle: Vehicle;
+  request: ShuttleRequest;
+  drivers: Driver[];
+  requests: ShuttleRequest[];
+  onAssign: (driverId: string | null) => Promise<void>;
+}
+
+// Drivers who can't take the vehicle stay listed, disabled, with the reason
+const DriverSelect: React.FC<DriverSelectProps> = ({ vehicle, request, drivers, requests, onAssign }) => {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = async (driverId: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onAssign(driverId || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign driver');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <select
+        id={`driver-${vehicle.id}`}
+        value={vehicle.driverId ?? ''}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={saving}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        <option value="">Unassigned</option>
+        {drivers.map(driver => {
+          const problem = driver.id === vehicle.driverId
+            ? null
+            : findAssignmentProblem(driver, vehicle, request, requests);
+          return (
+            <option key={driver.id} value={driver.id} disabled={!!problem}>
+              {driver.fullName}{problem ? ` (${ASSIGNMENT_PROBLEM_LABELS[problem.code]})` : ''}
+            </option>
+          );
+        })}
+      </select>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+interface KeyHandoffProps {
+  vehicle: Vehicle;
+  request: ShuttleRequest;
+  onConfirm: (step: KeyHandoffStep) => Promise<void>;
+}
+
+// Each step once done, then the button for the next one while the job is on
+const KeyHandoff: React.FC<KeyHandoffProps> = ({ vehicle, request, onConfirm }) => {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const next = nextKeyHandoffStep(vehicle);
+  const canConfirm = next !== null && !findKeyHandoffProblem(request, vehicle, next);
+  const done = ([['pickup', vehicle.keyPickedUp], ['dropoff', vehicle.keyDroppedOff]] as const)
+    .flatMap(([step, handoff]) => handoff ? [{ step, handoff }] : []);
+
+  const handleConfirm = async (step: KeyHandoffStep) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onConfirm(step);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to confirm key handoff');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      {done.length === 0 && !canConfirm && <p className="text-sm text-gray-500">Not handed over</p>}
+      {done.map(({ step, handoff }) => (
+        <p key={step} className="text-sm text-gray-900">
+          {KEY_HANDOFF_LABELS[step]} <span className="text-gray-500">· {formatDateTime(handoff.at)} by {handoff.by}</span>
+        </p>
+      ))}
+      {canConfirm && (
+        <button
+          onClick={() => handleConfirm(next)}
+          disabled={saving}
+          className="mt-1 px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          {KEY_HANDOFF_ACTION_LABELS[next]}
+        </button>
+      )}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Request Detail Modal - Full view of one shuttle request for the owner
+ *
+ * Shows customer, trip and vehicle details plus the status timeline, and offers
+ * only the lifecycle actions that are legal from the request's current status.
+ * Lockbox codes stay hidden until asked for. Drivers' pickup and delivery
+ * inspections appear once recorded, with a link to the printable report.
+ */
+const RequestDetailModal: React.FC<RequestDetailModalProps> = ({
+  request,
+  drivers,
+  requests,
+  onClose,
+  onTransition,
+  onAssignDriver,
+  onConfirmKeyHandoff,
+  onLoadLockboxCodes
+}) => {
+  // Target status waiting on a reason before it can be applied
+  const [reasonFor, setReasonFor] = useState<RequestStatus | null>(null);
+  const [note, setNote] = useState('');
+  const [working, setWorking] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [lockboxCodes, setLockboxCodes] = useState<Record<string, string> | null>(null);
+  const [lockboxError, setLockboxError] = useState<string | null>(null);
+  const inspections = useInspections(request.id);
+
+  const transitions = availableTransitions(request.status);
+  // Finished requests keep their drivers for the record but can't be reassigned
+  const canAssignDrivers = SCHEDULED_STATUSES.includes(request.status);
+  const driverName = (id: string | null) => drivers.find(driver => driver.id === id)?.fullName ?? 'Unassigned';
+
+  const handleShowLockboxCodes = async () => {
+    setLockboxError(null);
+    try {
+      setLockboxCodes(await onLoadLockboxCodes());
+    } catch (err) {
+      console.error('Failed to load lockbox codes:', err);
+      setLockboxError(err instanceof Error ? err.message : 'Failed to load lockbox codes');
+    }
+  };
+
+  const handleTransition = async (to: RequestStatus) => {
+    if (requiresReason(to) && reasonFor !== to) {
+      setReasonFor(to);
+      setNote('');
+      return;
+    }
+
+    setWorking(true);
+    setActionError(null);
+    try {
+      await onTransition(to, reasonFor === to ? note : null);
+      setReasonFor(null);
+      setNote('');
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update request');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 lg:w-1/2 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">
+              Request Details <span className="ml-2 font-mono text-sm text-gray-500">{request.reference}</span>
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {/* Customer Info */}
+            <div>
+              <h4 className="text-md font-medium text-gray-900 mb-3">Customer Information</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Name</label>
+                  <p className="mt-1 text-sm text-gray-900">{request.customer.fullName}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Phone</label>
+                  <p className="mt-1 text-sm text-gray-900">{request.customer.phone}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Email</label>
+                  <p className="mt-1 text-sm text-gray-900">{request.customer.email}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Status</label>
+                  <div className="mt-1">
+                    <StatusBadge status={request.status} />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Trip Details */}
+            <div>
+              <h4 className="text-md font-medium text-gray-900 mb-3">Trip Details</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Drop-off Day</label>
+                  <p className="mt-1 text-sm text-gray-900">{request.dropoffDay}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Arrival Time</label>
+                  <p className="mt-1 text-sm text-gray-900">{request.arrivalTime}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Pickup Location</label>
+                  <p className="mt-1 text-sm text-gray-900">{request.parkingLocation.name}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Drop-off Location</label>
+                  <p className="mt-1 text-sm text-gray-900">{request.dropoffLocation.name}</p>
+                </div>
+              </div>
+              <div className="mt-4">
+                <RouteMap parking={request.parkingLocation} dropoff={request.dropoffLocation} />
+              </div>
+            </div>
+
+            {/* Vehicles */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-md font-medium text-gray-900">Vehicles ({request.vehicles.length})</h4>
+                <button
+                  onClick={() => lockboxCodes ? setLockboxCodes(null) : handleShowLockboxCodes()}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  {lockboxCodes ? 'Hide lockbox codes' : 'Show lockbox codes'}
+                </button>
+              </div>
+              {lockboxError && <p className="mb-3 text-sm text-red-600">{lockboxError}</p>}
+              <div className="space-y-3">
+                {request.vehicles.map((vehicle) => (
+                  <div key={vehicle.id} className="bg-gray-50 rounded-lg p-3">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Make</label>
+                        <p className="mt-1 text-sm text-gray-900">{vehicle.make}</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Model</label>
+                        <p className="mt-1 text-sm text-gray-900">{vehicle.model}</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Year</label>
+                        <p className="mt-1 text-sm text-gray-900">{vehicle.year}</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Transmission</label>
+                        <p className="mt-1 text-sm text-gray-900">{TRANSMISSION_LABELS[vehicle.transmission]}</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">License Plate</label>
+                        <p className="mt-1 text-sm font-mono text-gray-900">{vehicle.licensePlate || '—'}</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Color</label>
+                        <p className="mt-1 text-sm text-gray-900">{vehicle.color || '—'}</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Drivetrain</label>
+                        <p className="mt-1 text-sm text-gray-900">{DRIVETRAIN_LABELS[vehicle.drivetrain]}</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Trailer / Racks</label>
+                        <p className="mt-1 text-sm text-gray-900">{vehicle.equipmentNotes || 'None'}</p>
+                      </div>
+                    </div>
+                    <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Keys</label>
+                        <p className="mt-1 text-sm text-gray-900">{vehicle.keyLocation || 'Not given'}</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Lockbox Code</label>
+                        <p className="mt-1 text-sm font-mono text-gray-900">
+                          {lockboxCodes ? lockboxCodes[vehicle.id] ?? 'None' : '••••'}
+                        </p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Return Keys To</label>
+                        <p className="mt-1 text-sm text-gray-900">{vehicle.keyReturnLocation || 'Not given'}</p>
+                      </div>
+                    </div>
+                    <div className="mt-3">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Key Handoff</label>
+                      <KeyHandoff
+                        vehicle={vehicle}
+                        request={request}
+                        onConfirm={(step) => onConfirmKeyHandoff(vehicle.id, step)}
+                      />
+                    </div>
+                    <div className="mt-3">
+                      <label htmlFor={`driver-${vehicle.id}`} className="block text-sm font-medium text-gray-700 mb-1">Driver</label>
+                      {canAssignDrivers ? (
+                        <DriverSelect
+                          vehicle={vehicle}
+                          request={request}
+                          drivers={drivers}
+                          requests={requests}
+                          onAssign={(driverId) => onAssignDriver(vehicle.id, driverId)}
+                        />
+                      ) : (
+                        <p className="text-sm text-gray-900">{driverName(vehicle.driverId)}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Notes */}
+            {request.notes && (
+              <div>
+                <h4 className="text-md font-medium text-gray-900 mb-3">Notes</h4>
+                <p className="text-sm text-gray-900 bg-gray-50 rounded-lg p-3">{request.notes}</p>
+              </div>
+            )}
+
+            {/* Driver Check-ins */}
+            {(request.pickedUp || request.delivered) && (
+              <div>
+                <h4 className="text-md font-medium text-gray-900 mb-3">Driver Check-ins</h4>
+                <ul className="space-y-2 text-sm">
+                  {([['picked_up', request.pickedUp], ['delivered', request.delivered]] as const).map(([step, checkIn]) => checkIn && (
+                    <li key={step} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                      <span className="font-medium text-gray-900">{CHECK_IN_LABELS[step]}</span>
+                      <span className="text-gray-700">{formatDateTime(checkIn.at)} by {checkIn.by}</span>
+                      {checkIn.position ? (
+                        <a
+                          href={pointUrl(checkIn.position)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-blue-600 hover:text-blue-700"
+                        >
+                          View location{checkIn.position.accuracyMeters !== null && ` (±${checkIn.position.accuracyMeters} m)`}
+                        </a>
+                      ) : (
+                        <span className="text-gray-500">No location shared</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Inspections */}
+            {inspections.inspections.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-md font-medium text-gray-900">Inspections</h4>
+                  <Link to={inspectionReportPath(request.id)} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+                    Printable report
+                  </Link>
+                </div>
+                <InspectionReport
+                  vehicles={request.vehicles}
+                  inspections={inspections.inspections}
+                  photoUrls={inspections.photoUrls}
+                />
+              </div>
+            )}
+            {inspections.error && <p className="text-sm text-red-600">{inspections.error}</p>}
+
+            {/* Quote */}
+            <div>
+              <h4 className="text-md font-medium text-gray-900 mb-3">Quote</h4>
+              <QuoteSummary quote={request.quote} emptyMessage="This request was booked without a quote." />
+            </div>
+
+            {/* Payments */}
+            {request.quote && (
+              <div>
+                <h4 className="text-md font-medium text-gray-900 mb-3">Payments</h4>
+                <PaymentSummary request={request} detailed />
+              </div>
+            )}
+
+            {/* Status History */}
+            <div>
+              <h4 className="text-md font-medium text-gray-900 mb-3">Status History</h4>
+              <StatusTimeline history={request.history} />
+            </div>
+
+            {/* Action Buttons */}
+            {transitions.length > 0 && (
+              <div className="pt-4 border-t border-gray-200">
+                {reasonFor && (
+                  <div className="mb-3">
+                    <label htmlFor="transitionReason" className="block text-sm font-medium text-gray-700 mb-2">
+                      Reason ({STATUS_LABELS[reasonFor].toLowerCase()})
+                    </label>
+                    <textarea
+                      id="transitionReason"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Recorded in the request's status history"
+                    />
+                  </div>
+                )}
+                {actionError && (
+                  <p className="mb-3 text-sm text-red-600">{actionError}</p>
+                )}
+                <div className="flex justify-end gap-3">
+                  {reasonFor && (
+                    <button
+                      onClick={() => { setReasonFor(null); setNote(''); }}
+                      className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900"
+                    >
+                      Back
+                    </button>
+                  )}
+                  {transitions
+                    .filter(to => !reasonFor || to === reasonFor)
+                    .map(to => (
+                      <button
+                        key={to}
+                        onClick={() => handleTransition(to)}
+                        disabled={working || (to === reasonFor && !note.trim())}
+                        className={`px-4 py-2 border rounded-md shadow-sm text-sm font-medium focus:outline-none focus:ring-2 disabled:opacity-50 ${ACTION_BUTTON_CLASSES[to]}`}
+                      >
+                        {to === reasonFor ? `Confirm: ${TRANSITION_ACTION_LABELS[to]}` : TRANSITION_ACTION_LABELS[to]}
+                      </button>
+                    ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequestDetailModal;
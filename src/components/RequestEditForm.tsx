@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { SCHEDULING_CONFIG } from '../config/scheduling';
+import { useAvailability } from '../hooks/useAvailability';
+import { DataError, MAX_VEHICLES_PER_REQUEST, type UpdateTrackedInput } from '../lib/data';
+import {
+  calculateQuote,
+  emptyVehicle,
+  findCapacityProblem,
+  requestLoad,
+  toUpdateShuttleRequestInput,
+  validateShuttleRequestDraft,
+  type GeoPoint,
+  type ShuttleRequest,
+  type ShuttleRequestDraft,
+  type Vehicle
+} from '../lib/domain';
+import { addDays, toDateInputValue } from '../lib/dates';
+import { isValid } from '../lib/schema';
+import { findMake, getModelYears } from '../lib/vehicleCatalog';
+import AvailabilityCalendar from './AvailabilityCalendar';
+import FieldError from './FieldError';
+import PlaceAutocomplete from './PlaceAutocomplete';
+import QuoteSummary from './QuoteSummary';
+import VehicleFields from './VehicleFields';
+import LocationPicker from './map/LocationPicker';
+
+interface RequestEditFormProps {
+  request: ShuttleRequest;
+  // Errors propagate back here and are shown above the buttons
+  onSave: (input: UpdateTrackedInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const fieldClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+/**
+ * Request Edit Form - A customer's changes to the trip on a pending request
+ *
+ * Covers the locations, vehicles, day and arrival time; contact details stay
+ * as booked. The estimate follows the changes, and the job is re-quoted when
+ * they're saved. Unlike a new booking, a change can't join the waitlist, so a
+ * full day has to be avoided.
+ */
+const RequestEditForm: React.FC<RequestEditFormProps> = ({ request, onSave, onCancel }) => {
+  const [parkingLocation, setParkingLocation] = useState<GeoPoint>(request.parkingLocation);
+  const [dropoffLocation, setDropoffLocation] = useState<GeoPoint>(request.dropoffLocation);
+  const [vehicles, setVehicles] = useState<Vehicle[]>(request.vehicles);
+  const [dropoffDay, setDropoffDay] = useState(request.dropoffDay);
+  const [arrivalTime, setArrivalTime] = useState(request.arrivalTime);
+
+  const [firstBookableDay] = useState(() => toDateInputValue(new Date()));
+  const lastBookableDay = addDays(firstBookableDay, SCHEDULING_CONFIG.bookingHorizonDays);
+  const availability = useAvailability(firstBookableDay, lastBookableDay);
+
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [touched, setTouched] = useState<Set<string>>(() => new Set());
+
+  const quote = calculateQuote(parkingLocation, dropoffLocation, vehicles);
+
+  const draft: ShuttleRequestDraft = {
+    customer: request.customer,
+    parkingLocation,
+    dropoffLocation,
+    vehicles,
+    dropoffDay,
+    arrivalTime,
+    quote
+  };
+  const errors = validateShuttleRequestDraft(draft, { now: new Date(), modelYears: getModelYears });
+
+  // The request already counts towards its booked day, so leave it out there
+  const unit = availability.settings?.unit;
+  const ownLoad = unit ? requestLoad(request, unit) : 0;
+  const days = availability.days.map(day =>
+    day.day === request.dropoffDay ? { ...day, booked: Math.max(0, day.booked - ownLoad) } : day
+  );
+  const load = unit ? requestLoad(draft, unit) : 0;
+  const dayAvailability = days.find(day => day.day === dropoffDay);
+  const capacityProblem = dayAvailability && unit ? findCapacityProblem(dayAvailability, load, unit) : null;
+  const canSave = isValid(errors) && !capacityProblem && !saving;
+
+  const touch = (path: string) => {
+    setTouched(prev => (prev.has(path) ? prev : new Set(prev).add(path)));
+  };
+
+  const errorFor = (path: string) => (touched.has(path) ? errors[path] : undefined);
+
+  const handleVehicleChange = (index: number, field: keyof Vehicle, value: string) => {
+    setVehicles(prev => {
+      const next = [...prev];
+      next[index] = { ...next[index], [field]: value };
+      // A different make invalidates the chosen model (retyping the same one doesn't)
+      if (field === 'make' && findMake(value) !== findMake(prev[index].make)) next[index].model = '';
+      return next;
+    });
+  };
+
+  const addVehicle = () => {
+    setVehicles(prev => [...prev, emptyVehicle(`new-${Date.now()}`)]);
+  };
+
+  const removeVehicle = (index: number) => {
+    setVehicles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const { request: changes, vehicles: newVehicles } = toUpdateShuttleRequestInput({
+        parkingLocation,
+        dropoffLocation,
+        vehicles,
+        dropoffDay,
+        arrivalTime
+      });
+      await onSave({ request: changes, vehicles: newVehicles });
+    } catch (err) {
+      console.error('Failed to save request changes:', err);
+      if (err instanceof DataError && err.code === 'capacity') availability.refresh();
+      setSaveError(err instanceof Error ? err.message : 'Failed to save changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-6">
+      {/* Locations */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="editParkingLocation" className="block text-sm font-medium text-gray-700 mb-2">
+            Where did you park your car?
+          </label>
+          <PlaceAutocomplete
+            id="editParkingLocation"
+            value={parkingLocation}
+            onChange={setParkingLocation}
+            onBlur={() => touch('parkingLocation.name')}
+            className={fieldClass(errorFor('parkingLocation.name'))}
+          />
+          <FieldError message={errorFor('parkingLocation.name')} />
+          <LocationPicker
+            kind="parking"
+            point={parkingLocation}
+            onPick={(lat, lng) => setParkingLocation(prev => ({ ...prev, lat, lng }))}
+          />
+        </div>
+        <div>
+          <label htmlFor="editDropoffLocation" className="block text-sm font-medium text-gray-700 mb-2">
+            Where do you need your car shuttled to?
+          </label>
+          <PlaceAutocomplete
+            id="editDropoffLocation"
+            value={dropoffLocation}
+            onChange={setDropoffLocation}
+            onBlur={() => touch('dropoffLocation.name')}
+            className={fieldClass(errorFor('dropoffLocation.name'))}
+          />
+          <FieldError message={errorFor('dropoffLocation.name')} />
+          <LocationPicker
+            kind="dropoff"
+            point={dropoffLocation}
+            onPick={(lat, lng) => setDropoffLocation(prev => ({ ...prev, lat, lng }))}
+          />
+        </div>
+      </div>
+
+      {/* Vehicles */}
+      <div>
+        <h3 className="text-md font-medium text-gray-900 mb-3">Vehicles</h3>
+        <div className="space-y-4">
+          {vehicles.map((vehicle, index) => (
+            <div key={vehicle.id} className="bg-gray-50 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-medium text-gray-900">Vehicle {index + 1}</h4>
+                {vehicles.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => removeVehicle(index)}
+                    className="text-xs font-medium text-red-600 hover:text-red-700"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <VehicleFields
+                vehicle={vehicle}
+                index={index}
+                onChange={(field, value) => handleVehicleChange(index, field, value)}
+                touch={touch}
+                errorFor={errorFor}
+              />
+            </div>
+          ))}
+        </div>
+        {vehicles.length < MAX_VEHICLES_PER_REQUEST && (
+          <button
+            type="button"
+            onClick={addVehicle}
+            className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            + Add a vehicle
+          </button>
+        )}
+      </div>
+
+      {/* Scheduling */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <span id="editDropoffDayLabel" className="block text-sm font-medium text-gray-700 mb-2">
+            Drop-off day
+          </span>
+          <AvailabilityCalendar
+            labelledBy="editDropoffDayLabel"
+            value={dropoffDay}
+            min={firstBookableDay}
+            max={lastBookableDay}
+            availability={days}
+            load={load}
+            onChange={(day) => {
+              setDropoffDay(day);
+              touch('dropoffDay');
+            }}
+            onBlur={() => touch('dropoffDay')}
+            invalid={Boolean(errorFor('dropoffDay')) || Boolean(capacityProblem)}
+          />
+          <FieldError message={errorFor('dropoffDay') ?? capacityProblem?.message} />
+        </div>
+        <div>
+          <label htmlFor="editArrivalTime" className="block text-sm font-medium text-gray-700 mb-2">
+            Arrival time
+          </label>
+          <input
+            id="editArrivalTime"
+            type="time"
+            value={arrivalTime}
+            onChange={(e) => setArrivalTime(e.target.value)}
+            onBlur={() => touch('arrivalTime')}
+            className={fieldClass(errorFor('arrivalTime'))}
+          />
+          <FieldError message={errorFor('arrivalTime')} />
+        </div>
+      </div>
+
+      {/* Price */}
+      <div>
+        <h3 className="text-md font-medium text-gray-900 mb-3">Updated Price Estimate</h3>
+        <QuoteSummary
+          quote={quote}
+          emptyMessage="Set both locations (search or drop pins on the maps) to see your price."
+        />
+      </div>
+
+      {saveError && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {saveError}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Discard changes
+        </button>
+        <button
+          type="submit"
+          disabled={!canSave}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save changes'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RequestEditForm;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { DataError, shuttleRequests } from '../lib/data';
+import { toCreateShuttleRequestInput } from '../lib/domain';
+import { downloadFile } from '../lib/download';
+import { parseRequestImport, requestImportTemplate, type RequestImport } from '../lib/requestImport';
+
+interface RequestImportDialogProps {
+  onClose: () => void;
+}
+
+// What became of one request once saving was attempted
+type ImportOutcome = { reference: string; waitlisted: boolean } | { error: string };
+
+/**
+ * Request Import Dialog - Load bookings from a CSV file
+ *
+ * Every request in the file is checked first and listed with its problems by
+ * line and column; only the ones without any are saved, each on its own, so a
+ * full day or a clash doesn't stop the rest.
+ */
+const RequestImportDialog: React.FC<RequestImportDialogProps> = ({ onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<RequestImport | null>(null);
+  const [outcomes, setOutcomes] = useState<Record<number, ImportOutcome>>({});
+  const [waitlist, setWaitlist] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ready = parsed?.requests.filter(request => request.issues.length === 0) ?? [];
+  const imported = Object.keys(outcomes).length > 0;
+
+  const handleFile = async (file: File | undefined) => {
+    setParsed(null);
+    setOutcomes({});
+    setError(null);
+    setFileName(file?.name ?? null);
+    if (!file) return;
+
+    try {
+      setParsed(parseRequestImport(await file.text()));
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    setWorking(true);
+    const results: Record<number, ImportOutcome> = {};
+    for (const [index, request] of parsed.requests.entries()) {
+      if (request.issues.length > 0) continue;
+      try {
+        const record = await shuttleRequests.create(toCreateShuttleRequestInput(request.draft, { waitlist }));
+        results[index] = { reference: record.reference, waitlisted: record.status === 'waitlisted' };
+      } catch (err) {
+        console.error('Failed to import shuttle request:', err);
+        results[index] = {
+          error: err instanceof DataError && err.code === 'capacity'
+            ? `${err.message}. Import again with the waitlist on to keep it.`
+            : err instanceof Error ? err.message : 'Failed to save request'
+        };
+      }
+      setOutcomes({ ...results });
+    }
+    setWorking(false);
+  };
+
+  const savedCount = Object.values(outcomes).filter(outcome => 'reference' in outcome).length;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 lg:w-2/3 shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Import Requests</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          One line per vehicle, with the same columns as the CSV export. Lines sharing a reference become one
+          request. Imported requests get new references and start out pending.{' '}
+          <button
+            onClick={() => downloadFile('shuttle-forge-import.csv', requestImportTemplate(), 'text/csv')}
+            className="font-medium text-blue-600 hover:text-blue-800"
+          >
+            Download a template
+          </button>
+        </p>
+
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <label className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+            Choose CSV file
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="sr-only"
+              disabled={working}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={waitlist}
+              onChange={(e) => setWaitlist(e.target.checked)}
+              disabled={working}
+              className="rounded border-gray-300"
+            />
+            Waitlist requests for days that are full
+          </label>
+        </div>
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        {parsed && parsed.fileIssues.length > 0 && (
+          <div className="mt-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {parsed.fileIssues.map(issue => <p key={issue}>{issue}</p>)}
+          </div>
+        )}
+
+        {parsed && parsed.requests.length > 0 && (
+          <>
+            <p className="mt-4 text-sm text-gray-700">
+              {parsed.requests.length} request{parsed.requests.length === 1 ? '' : 's'}: {ready.length} ready
+              {parsed.requests.length > ready.length && `, ${parsed.requests.length - ready.length} with problems`}
+              {imported && ` · ${savedCount} imported`}
+            </p>
+            <div className="mt-2 max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Lines</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Customer</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Drop-off</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Vehicles</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {parsed.requests.map((request, index) => {
+                    const outcome = outcomes[index];
+                    const lines = request.lines.length > 1
+                      ? `${request.lines[0]}–${request.lines[request.lines.length - 1]}`
+                      : String(request.lines[0]);
+                    return (
+                      <tr key={request.lines[0]} className="align-top">
+                        <td className="px-3 py-2 text-gray-500">{lines}</td>
+                        <td className="px-3 py-2 text-gray-900">{request.draft.customer.fullName || '—'}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {request.draft.dropoffDay || '—'} {request.draft.arrivalTime}
+                        </td>
+                        <td className="px-3 py-2 text-gray-900">{request.draft.vehicles.length}</td>
+                        <td className="px-3 py-2">
+                          {request.issues.length > 0 ? (
+                            <ul className="space-y-0.5 text-red-700">
+                              {request.issues.map(issue => (
+                                <li key={`${issue.line}:${issue.column}:${issue.message}`}>
+                                  Line {issue.line}{issue.column && <span className="font-mono text-xs"> {issue.column}</span>}: {issue.message}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : !outcome ? (
+                            <span className="text-gray-600">Ready</span>
+                          ) : 'error' in outcome ? (
+                            <span className="text-red-700">{outcome.error}</span>
+                          ) : (
+                            <span className="text-green-700">
+                              Imported as <span className="font-mono">{outcome.reference}</span>
+                              {outcome.waitlisted && ' (waitlisted)'}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900"
+          >
+            {imported ? 'Done' : 'Cancel'}
+          </button>
+          {!imported && (
+            <button
+              onClick={handleImport}
+              disabled={working || ready.length === 0}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {working ? 'Importing...' : `Import ${ready.length} request${ready.length === 1 ? '' : 's'}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequestImportDialog;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { shuttleRequests } from '../lib/data';
+import { fromShuttleRequestRecord, type ShuttleRequest } from '../lib/domain';
+import { ROUTES, inspectionReportPath } from '../lib/routes';
+import CustomerRequestActions from './CustomerRequestActions';
+import RequestSummary from './RequestSummary';
+
+/**
+ * Request Page - A customer's view of one of their own requests (/requests/:id)
+ *
+ * Requests belonging to someone else are reported as not found rather than
+ * forbidden, so ids can't be probed. Pending requests can be changed or
+ * cancelled here, the same way guests do on the tracking page.
+ */
+const RequestPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isStaff } = useAuth();
+  const [request, setRequest] = useState<ShuttleRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!id) return;
+
+    setLoading(true);
+    setLoadError(null);
+    shuttleRequests.get(id)
+      .then(record => {
+        const visible = record && (isStaff || record.user_id === userId);
+        setRequest(visible ? fromShuttleRequestRecord(record) : null);
+      })
+      .catch(err => {
+        console.error('Failed to load shuttle request:', err);
+        setLoadError(err instanceof Error ? err.message : 'Failed to load request');
+      })
+      .finally(() => setLoading(false));
+  }, [id, userId, isStaff]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link to={ROUTES.myRequests} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+          ← My Requests
+        </Link>
+
+        {loading ? (
+          <div className="mt-6 p-8 text-center text-gray-500">Loading request...</div>
+        ) : loadError ? (
+          <div className="mt-6 rounded-md bg-red-50 border border-red-200 px-4 py-3 text-sm text-red-700">
+            {loadError}
+          </div>
+        ) : !request ? (
+          <div className="mt-6 bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center">
+            <h1 className="text-xl font-semibold text-gray-900">Request not found</h1>
+            <p className="mt-2 text-sm text-gray-600">It may have been booked with a different account.</p>
+          </div>
+        ) : (
+          <section className="mt-6 bg-white rounded-xl shadow-sm border border-gray-200 p-6 md:p-8 space-y-6">
+            <RequestSummary request={request} />
+            {/* Drivers inspect each vehicle before they set off */}
+            {request.pickedUp && (
+              <Link to={inspectionReportPath(request.id)} className="inline-block text-sm font-medium text-blue-600 hover:text-blue-700">
+                View vehicle inspection report
+              </Link>
+            )}
+            {/* Staff change requests from the dashboard */}
+            {!isStaff && (
+              <div className="pt-6 border-t border-gray-200">
+                <CustomerRequestActions
+                  request={request}
+                  lookup={{ reference: request.reference, email: request.customer.email }}
+                  onChange={setRequest}
+                />
+              </div>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequestPage;
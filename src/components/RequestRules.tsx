@@ -0,0 +1,313 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useRuleRun } from '../hooks/useRuleRun';
+import { requestRules } from '../lib/data';
+import {
+  MAX_RULE_DAYS,
+  REQUEST_RULE_LABELS,
+  fromRequestRuleActionRow,
+  fromRequestRuleSettingsRow,
+  requestRuleSettingsSchema,
+  toRequestRuleSettingsUpdate,
+  type RequestRule,
+  type RequestRuleAction,
+  type RequestRuleSettings
+} from '../lib/domain';
+import { formatDateTime } from '../lib/format';
+import { ruleRunner } from '../lib/rules';
+import { ROUTES, ownerRequestPath } from '../lib/routes';
+import { isValid } from '../lib/schema';
+import FieldError from './FieldError';
+
+// Log entries shown; older ones stay stored
+const LOG_LIMIT = 100;
+
+const RULE_BADGE_CLASSES: Record<RequestRule, string> = {
+  auto_complete: 'bg-green-100 text-green-800',
+  expire_pending: 'bg-gray-100 text-gray-800',
+  flag_unassigned: 'bg-yellow-100 text-yellow-800'
+};
+
+interface RuleToggleProps {
+  id: string;
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  children?: React.ReactNode;
+}
+
+const RuleToggle: React.FC<RuleToggleProps> = ({ id, label, description, checked, onChange, children }) => (
+  <div className="flex items-start gap-3">
+    <input
+      id={id}
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="mt-1 rounded border-gray-300"
+    />
+    <div className="flex-1">
+      <label htmlFor={id} className="text-sm font-medium text-gray-900">{label}</label>
+      <p className="text-sm text-gray-500">{description}</p>
+      {children}
+    </div>
+  </div>
+);
+
+const SettingsForm: React.FC<{ initial: RequestRuleSettings }> = ({ initial }) => {
+  const [draft, setDraft] = useState<RequestRuleSettings>(initial);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const errors = requestRuleSettingsSchema.validate(draft, undefined);
+  const update = (changes: Partial<RequestRuleSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid(errors)) return;
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await requestRules.updateSettings(toRequestRuleSettingsUpdate(draft));
+      setSaved(true);
+    } catch (err) {
+      console.error('Failed to save rule settings:', err);
+      setSaveError(err instanceof Error ? err.message : 'Failed to save rule settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dayInput = (id: string, value: number, min: number, onChange: (days: number) => void, error?: string) => (
+    <input
+      id={id}
+      type="number"
+      min={min}
+      max={MAX_RULE_DAYS}
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(e) => onChange(e.target.valueAsNumber)}
+      className={`w-20 px-2 py-1 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+        error ? 'border-red-400' : 'border-gray-300'
+      }`}
+    />
+  );
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      <RuleToggle
+        id="ruleAutoComplete"
+        label={REQUEST_RULE_LABELS.auto_complete}
+        description="Confirmed and in-progress jobs are marked completed once their drop-off day is behind them."
+        checked={draft.autoComplete}
+        onChange={(autoComplete) => update({ autoComplete })}
+      >
+        <div className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+          {dayInput('autoCompleteGraceDays', draft.autoCompleteGraceDays, 1,
+            (autoCompleteGraceDays) => update({ autoCompleteGraceDays }), errors.autoCompleteGraceDays)}
+          <label htmlFor="autoCompleteGraceDays">days after the drop-off day</label>
+        </div>
+        <FieldError message={errors.autoCompleteGraceDays} />
+      </RuleToggle>
+
+      <RuleToggle
+        id="ruleExpirePending"
+        label={REQUEST_RULE_LABELS.expire_pending}
+        description="Pending and waitlisted requests are cancelled, with the customer told, once their drop-off day has passed."
+        checked={draft.expirePending}
+        onChange={(expirePending) => update({ expirePending })}
+      />
+
+      <RuleToggle
+        id="ruleFlagUnassigned"
+        label={REQUEST_RULE_LABELS.flag_unassigned}
+        description="Confirmed jobs with a vehicle that has no driver are flagged on the dashboard."
+        checked={draft.flagUnassigned}
+        onChange={(flagUnassigned) => update({ flagUnassigned })}
+      >
+        <div className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+          <label htmlFor="flagUnassignedDays">Up to</label>
+          {dayInput('flagUnassignedDays', draft.flagUnassignedDays, 0,
+            (flagUnassignedDays) => update({ flagUnassignedDays }), errors.flagUnassignedDays)}
+          <span>days ahead</span>
+        </div>
+        <FieldError message={errors.flagUnassignedDays} />
+      </RuleToggle>
+
+      {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+      <div className="flex items-center justify-end gap-3">
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+        <button
+          type="submit"
+          disabled={saving || !isValid(errors)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Request Rules - Automatic completion, expiry and driver checks (/owner/rules)
+ *
+ * Turns each rule on or off, runs them on demand, lists the jobs currently
+ * flagged and logs every action the rules have taken, or failed to. The rules
+ * also run on their own: on the server when pg_cron is set up (see
+ * supabase/migrations/0018_server_request_rules.sql), and otherwise while any
+ * staff member has the app open.
+ */
+const RequestRules: React.FC = () => {
+  const lastRun = useRuleRun();
+  const [settings, setSettings] = useState<RequestRuleSettings | null>(null);
+  const [actions, setActions] = useState<RequestRuleAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const loadActions = useCallback(async () => {
+    try {
+      const rows = await requestRules.listActions({ limit: LOG_LIMIT });
+      setActions(rows.map(fromRequestRuleActionRow));
+    } catch (err) {
+      console.error('Failed to load rule log:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load rule log');
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    requestRules.getSettings()
+      .then(row => {
+        if (!cancelled) setSettings(fromRequestRuleSettingsRow(row));
+      })
+      .catch(err => {
+        console.error('Failed to load rule settings:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load rule settings');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // The log grows with every run, whether started here or on the timer
+  useEffect(() => {
+    loadActions();
+  }, [loadActions, lastRun]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      await ruleRunner.run();
+    } catch (err) {
+      console.error('Failed to run request rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run request rules');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <Link to={ROUTES.owner} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+              ← Shuttle Requests
+            </Link>
+            <h1 className="mt-2 text-3xl font-bold text-gray-900">Rules</h1>
+            <p className="mt-2 text-gray-600">Housekeeping that happens on its own</p>
+          </div>
+          <div className="text-right">
+            <button
+              onClick={handleRun}
+              disabled={running}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {running ? 'Running...' : 'Run now'}
+            </button>
+            {lastRun && <p className="mt-1 text-xs text-gray-500">Last run {formatDateTime(lastRun.ranAt)}</p>}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+        {lastRun && lastRun.errors.length > 0 && (
+          <div className="mb-6 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            <p className="font-medium">Some requests couldn&apos;t be updated:</p>
+            {lastRun.errors.map(message => <p key={message}>{message}</p>)}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Rules</h2>
+            {settings ? (
+              <SettingsForm initial={settings} />
+            ) : (
+              <p className="text-sm text-gray-500">{loading ? 'Loading settings...' : 'Settings unavailable.'}</p>
+            )}
+          </section>
+
+          {lastRun && lastRun.flagged.length > 0 && (
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Needs a driver</h2>
+              <ul className="space-y-2">
+                {lastRun.flagged.map(flag => (
+                  <li key={flag.request.id} className="flex flex-wrap items-center gap-3 text-sm">
+                    <Link
+                      to={ownerRequestPath(flag.request.id)}
+                      className="font-mono font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      {flag.request.reference}
+                    </Link>
+                    <span className="text-gray-900">{flag.request.customer.fullName}</span>
+                    <span className="text-gray-600">{flag.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Log</h2>
+            {actions.length === 0 ? (
+              <p className="text-sm text-gray-500">The rules haven&apos;t done anything yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {actions.map(action => (
+                  <li key={action.id} className="py-3 flex flex-wrap items-center gap-3 text-sm">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${RULE_BADGE_CLASSES[action.rule]}`}>
+                      {REQUEST_RULE_LABELS[action.rule]}
+                    </span>
+                    <Link
+                      to={ownerRequestPath(action.requestId)}
+                      className="font-mono font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      {action.reference}
+                    </Link>
+                    <span className={action.failed ? 'text-red-700' : 'text-gray-700'}>{action.message}</span>
+                    <span className="ml-auto text-gray-500">{formatDateTime(action.createdAt)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequestRules;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { DRIVETRAIN_LABELS, TRANSMISSION_LABELS, type ShuttleRequest } from '../lib/domain';
+import { formatDateTime } from '../lib/format';
+import PaymentSummary from './PaymentSummary';
+import QuoteSummary from './QuoteSummary';
+import StatusBadge from './StatusBadge';
+import StatusTimeline from './StatusTimeline';
+import RouteMap from './map/RouteMap';
+
+interface RequestSummaryProps {
+  request: ShuttleRequest;
+}
+
+/**
+ * Request Summary - What a customer sees of one of their requests: reference,
+ * status, trip, vehicles, price, payments and status history
+ */
+const RequestSummary: React.FC<RequestSummaryProps> = ({ request }) => {
+  return (
+    <>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Reference number</p>
+          <h1 className="mt-1 font-mono text-2xl font-semibold text-gray-900">{request.reference}</h1>
+        </div>
+        <StatusBadge status={request.status} />
+      </div>
+
+      {/* Trip */}
+      <div>
+        <h2 className="text-md font-medium text-gray-900 mb-3">Trip</h2>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div>
+            <dt className="font-medium text-gray-700">From</dt>
+            <dd className="mt-1 text-gray-900">{request.parkingLocation.name}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-gray-700">To</dt>
+            <dd className="mt-1 text-gray-900">{request.dropoffLocation.name}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-gray-700">Drop-off Day</dt>
+            <dd className="mt-1 text-gray-900">{request.dropoffDay}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-gray-700">Arrival Time</dt>
+            <dd className="mt-1 text-gray-900">{request.arrivalTime}</dd>
+          </div>
+        </dl>
+        <div className="mt-4">
+          <RouteMap parking={request.parkingLocation} dropoff={request.dropoffLocation} />
+        </div>
+      </div>
+
+      {/* Vehicles */}
+      <div>
+        <h2 className="text-md font-medium text-gray-900 mb-3">Vehicles ({request.vehicles.length})</h2>
+        <ul className="space-y-2">
+          {request.vehicles.map((vehicle) => (
+            <li key={vehicle.id} className="bg-gray-50 rounded-lg px-3 py-2 text-sm text-gray-900">
+              {vehicle.year} {vehicle.color} {vehicle.make} {vehicle.model}
+              <span className="text-gray-500"> · {TRANSMISSION_LABELS[vehicle.transmission]} · {DRIVETRAIN_LABELS[vehicle.drivetrain]}</span>
+              {vehicle.licensePlate && <span className="ml-2 font-mono text-gray-600">{vehicle.licensePlate}</span>}
+              {vehicle.equipmentNotes && <p className="mt-1 text-gray-600">{vehicle.equipmentNotes}</p>}
+              {(vehicle.keyLocation || vehicle.keyReturnLocation) && (
+                <p className="mt-1 text-gray-600">
+                  Keys: {vehicle.keyLocation || 'not given'} → {vehicle.keyReturnLocation || 'not given'}
+                </p>
+              )}
+              {vehicle.keyDroppedOff ? (
+                <p className="mt-1 text-green-700">Keys dropped off {formatDateTime(vehicle.keyDroppedOff.at)}</p>
+              ) : vehicle.keyPickedUp && (
+                <p className="mt-1 text-blue-700">Keys picked up {formatDateTime(vehicle.keyPickedUp.at)}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Price */}
+      {request.quote && (
+        <div>
+          <h2 className="text-md font-medium text-gray-900 mb-3">Price Estimate</h2>
+          <QuoteSummary quote={request.quote} />
+        </div>
+      )}
+
+      {/* Payments */}
+      {request.quote && (
+        <div>
+          <h2 className="text-md font-medium text-gray-900 mb-3">Payments</h2>
+          <PaymentSummary request={request} />
+        </div>
+      )}
+
+      {/* Status History */}
+      <div>
+        <h2 className="text-md font-medium text-gray-900 mb-3">Status History</h2>
+        <StatusTimeline history={request.history} />
+      </div>
+    </>
+  );
+};
+
+export default RequestSummary;
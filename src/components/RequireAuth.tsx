@@ -0,0 +1,39 @@
+import React from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { ROLE_LABELS } from '../lib/auth';
+import SignIn from './SignIn';
+
+interface RequireAuthProps {
+  children?: React.ReactNode;
+  // Owners and staff only
+  staff?: boolean;
+  // Drivers, owners and staff
+  driver?: boolean;
+}
+
+/**
+ * Require Auth - Renders its children only for a permitted user
+ *
+ * Anyone else gets the sign-in form in place, so the URL is kept and the page
+ * appears as soon as the right account signs in.
+ */
+const RequireAuth: React.FC<RequireAuthProps> = ({ children, staff = false, driver = false }) => {
+  const { user, isStaff } = useAuth();
+  const wanted = driver
+    ? 'Sign in with your driver account to see your jobs.'
+    : 'Sign in with an owner or staff account to manage requests.';
+
+  if (!user) {
+    return <SignIn notice={staff || driver ? wanted : 'Sign in to see your requests.'} />;
+  }
+
+  if ((staff || driver) && !isStaff && !(driver && user.role === 'driver')) {
+    return (
+      <SignIn notice={`${user.email} is a ${ROLE_LABELS[user.role].toLowerCase()} account. ${wanted}`} />
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
@@ -0,0 +1,229 @@
+import React from 'react';
+import { SCHEDULING_CONFIG } from '../config/scheduling';
+import { STATUS_LABELS, WEEKDAY_LABELS, type RequestStatus, type ShuttleRequest } from '../lib/domain';
+import { addDays, combineDateTime, startOfWeek, toDateInputValue } from '../lib/dates';
+
+export type ScheduleView = 'day' | 'week';
+
+interface ScheduleCalendarProps {
+  requests: ShuttleRequest[];
+  view: ScheduleView;
+  // Any day in the range to show
+  date: string;
+  onDateChange: (date: string) => void;
+  // Week view only: a day heading was clicked
+  onOpenDay: (date: string) => void;
+  onSelect: (id: string) => void;
+}
+
+const STATUS_BLOCK_CLASSES: Record<RequestStatus, string> = {
+  pending: 'bg-yellow-50 border-yellow-400 text-yellow-900',
+  waitlisted: 'bg-orange-50 border-orange-400 text-orange-900',
+  confirmed: 'bg-green-50 border-green-500 text-green-900',
+  in_progress: 'bg-indigo-50 border-indigo-500 text-indigo-900',
+  completed: 'bg-blue-50 border-blue-400 text-blue-900',
+  cancelled: 'bg-gray-50 border-gray-400 text-gray-500',
+  rejected: 'bg-red-50 border-red-400 text-red-900'
+};
+
+const HOUR_HEIGHT = 48;
+// Shown even when empty; widened to fit earlier or later jobs
+const DEFAULT_FIRST_HOUR = 6;
+const DEFAULT_LAST_HOUR = 22;
+// Short jobs still get a block tall enough to read
+const MIN_BLOCK_MINUTES = 30;
+
+interface PlacedRequest {
+  request: ShuttleRequest;
+  // Minutes since midnight
+  start: number;
+  end: number;
+  lane: number;
+  lanes: number;
+}
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Lays a day's requests out side by side where they overlap: each one takes
+ * the first free lane, and every request in a run of overlaps shares its
+ * width with the others in that run.
+ */
+function placeRequests(requests: ShuttleRequest[]): PlacedRequest[] {
+  const sorted = requests
+    .map(request => {
+      const start = minutesOf(request.arrivalTime);
+      const duration = request.quote?.durationMinutes ?? SCHEDULING_CONFIG.defaultTripMinutes;
+      return { request, start, end: start + Math.max(duration, MIN_BLOCK_MINUTES), lane: 0, lanes: 1 };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  let run: PlacedRequest[] = [];
+  let laneEnds: number[] = [];
+  let runEnd = -1;
+  const closeRun = () => {
+    run.forEach(placed => { placed.lanes = laneEnds.length; });
+    run = [];
+    laneEnds = [];
+  };
+
+  for (const placed of sorted) {
+    if (placed.start >= runEnd) closeRun();
+    const free = laneEnds.findIndex(end => end <= placed.start);
+    placed.lane = free === -1 ? laneEnds.length : free;
+    laneEnds[placed.lane] = placed.end;
+    run.push(placed);
+    runEnd = Math.max(runEnd, placed.end);
+  }
+  closeRun();
+
+  return sorted;
+}
+
+const formatDay = (day: string, options: Intl.DateTimeFormatOptions) =>
+  combineDateTime(day).toLocaleDateString('en-US', options);
+
+const formatHour = (hour: number) =>
+  `${hour % 12 === 0 ? 12 : hour % 12} ${hour < 12 || hour === 24 ? 'AM' : 'PM'}`;
+
+/**
+ * Schedule Calendar - Day and week views of requests placed at their arrival
+ * time, color-coded by status
+ *
+ * Each block runs from the customer's arrival for the expected drive time, so
+ * overlapping jobs are easy to spot. Clicking a block opens the request.
+ */
+const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({ requests, view, date, onDateChange, onOpenDay, onSelect }) => {
+  const days = view === 'day'
+    ? [date]
+    : Array.from({ length: 7 }, (_, index) => addDays(startOfWeek(date), index));
+  const today = toDateInputValue(new Date());
+
+  const placedByDay = new Map(days.map(day => [
+    day,
+    placeRequests(requests.filter(request => request.dropoffDay === day))
+  ]));
+  const allPlaced = [...placedByDay.values()].flat();
+
+  const firstHour = Math.min(DEFAULT_FIRST_HOUR, ...allPlaced.map(placed => Math.floor(placed.start / 60)));
+  const lastHour = Math.min(24, Math.max(DEFAULT_LAST_HOUR, ...allPlaced.map(placed => Math.ceil(placed.end / 60))));
+  const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index);
+
+  const step = view === 'day' ? 1 : 7;
+  const rangeLabel = view === 'day'
+    ? formatDay(date, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+    : `${formatDay(days[0], { month: 'short', day: 'numeric' })} – ${formatDay(days[6], { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  const shownStatuses = [...new Set(allPlaced.map(placed => placed.request.status))];
+
+  return (
+    <div>
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onDateChange(addDays(date, -step))}
+            aria-label={view === 'day' ? 'Previous day' : 'Previous week'}
+            className="px-2 py-1 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
+          >
+            ‹
+          </button>
+          <button
+            onClick={() => onDateChange(today)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => onDateChange(addDays(date, step))}
+            aria-label={view === 'day' ? 'Next day' : 'Next week'}
+            className="px-2 py-1 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
+          >
+            ›
+          </button>
+          <h3 className="ml-2 text-lg font-medium text-gray-900">{rangeLabel}</h3>
+        </div>
+        {shownStatuses.length > 0 && (
+          <div className="flex flex-wrap gap-3 text-xs">
+            {shownStatuses.map(status => (
+              <span key={status} className={`px-2 py-0.5 rounded border-l-4 ${STATUS_BLOCK_CLASSES[status]}`}>
+                {STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[640px]">
+          {/* Day headings */}
+          <div className="flex border-b border-gray-200">
+            <div className="w-16 shrink-0" />
+            {days.map(day => {
+              const headingClass = `flex-1 py-2 text-center text-sm ${day === today ? 'font-semibold text-blue-600' : 'text-gray-700'}`;
+              return view === 'week' ? (
+                <button key={day} onClick={() => onOpenDay(day)} className={`${headingClass} hover:bg-gray-50`}>
+                  {WEEKDAY_LABELS[combineDateTime(day).getDay()]} {Number(day.slice(8))}
+                </button>
+              ) : (
+                <div key={day} className={headingClass}>{formatDay(day, { weekday: 'short' })}</div>
+              );
+            })}
+          </div>
+
+          <div className="flex">
+            {/* Hour labels */}
+            <div className="w-16 shrink-0">
+              {hours.map(hour => (
+                <div key={hour} style={{ height: HOUR_HEIGHT }} className="pr-2 text-right text-xs text-gray-400 -translate-y-2">
+                  {formatHour(hour)}
+                </div>
+              ))}
+            </div>
+
+            {days.map(day => (
+              <div
+                key={day}
+                className={`relative flex-1 border-l border-gray-200 ${day === today ? 'bg-blue-50/30' : ''}`}
+                style={{ height: hours.length * HOUR_HEIGHT }}
+              >
+                {hours.map(hour => (
+                  <div key={hour} style={{ height: HOUR_HEIGHT }} className="border-b border-gray-100" />
+                ))}
+                {placedByDay.get(day)!.map(({ request, start, end, lane, lanes }) => (
+                  <button
+                    key={request.id}
+                    onClick={() => onSelect(request.id)}
+                    title={`${request.reference} · ${STATUS_LABELS[request.status]}`}
+                    className={`absolute overflow-hidden rounded border-l-4 px-1.5 py-1 text-left text-xs shadow-sm hover:shadow ${STATUS_BLOCK_CLASSES[request.status]}`}
+                    style={{
+                      top: ((start - firstHour * 60) / 60) * HOUR_HEIGHT,
+                      height: Math.min(end - start, lastHour * 60 - start) / 60 * HOUR_HEIGHT - 2,
+                      left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                      width: `calc(${100 / lanes}% - 4px)`
+                    }}
+                  >
+                    <span className="block font-semibold">{request.arrivalTime} {request.customer.fullName}</span>
+                    <span className="block truncate">
+                      {request.vehicles.length} vehicle{request.vehicles.length > 1 ? 's' : ''} · {request.dropoffLocation.name}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {allPlaced.length === 0 && (
+        <p className="px-6 py-4 border-t border-gray-200 text-sm text-gray-500 text-center">
+          No requests {view === 'day' ? 'on this day' : 'this week'}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleCalendar;
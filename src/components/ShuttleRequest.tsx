@@ -1,34 +1,73 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { SCHEDULING_CONFIG } from '../config/scheduling';
+import { useAuth } from '../hooks/useAuth';
+import { useAvailability } from '../hooks/useAvailability';
+import { useQueuedBookings } from '../hooks/useQueuedBookings';
 import { useSupabase } from '../hooks/useSupabase';
+import { DataError, shuttleRequests, type ShuttleRequestRecord } from '../lib/data';
+import {
+  emptyGeoPoint,
+  calculateQuote,
+  emptyVehicle,
+  findCapacityProblem,
+  fromShuttleRequestRecord,
+  isPayable,
+  requestLoad,
+  toCreateShuttleRequestInput,
+  validateShuttleRequestDraft,
+  type GeoPoint,
+  type Invoice,
+  type ShuttleRequest as BookedRequest,
+  type ShuttleRequestDraft,
+  type Vehicle
+} from '../lib/domain';
+import type { SessionUser } from '../lib/auth';
+import { addDays, toDateInputValue } from '../lib/dates';
+import { formatDateTime } from '../lib/format';
+import { isConnectionProblem, offlineBookings, type BookingFormDraft } from '../lib/offlineBookings';
+import { requestPath, trackPath } from '../lib/routes';
+import { isValid } from '../lib/schema';
+import { canPayOnline, type CheckoutResult } from '../lib/payments';
+import { findMake, getModelYears } from '../lib/vehicleCatalog';
+import AvailabilityCalendar from './AvailabilityCalendar';
+import BookingConfirmation from './BookingConfirmation';
+import FieldError from './FieldError';
+import PlaceAutocomplete from './PlaceAutocomplete';
+import QuoteSummary from './QuoteSummary';
+import VehicleFields from './VehicleFields';
+import PaymentStep from './PaymentStep';
+import LocationPicker from './map/LocationPicker';
 
-interface GeoPoint {
-  lat: number;
-  lng: number;
-  name: string;
-}
+type ContactDetails = ShuttleRequestDraft['customer'];
 
-interface Vehicle {
-  id: number;
-  transmission: 'manual' | 'automatic';
-  make: string;
-  model: string;
-  year: string;
-}
+const emptyContact = (): ContactDetails => ({ fullName: '', email: '', phone: '' });
+
+const contactFor = (user: SessionUser | null): ContactDetails =>
+  user ? { fullName: user.fullName, email: user.email, phone: user.phone } : emptyContact();
 
-// Sample data for dropdowns
-const SAMPLE_MAKES: string[] = [
-  'Toyota', 'Honda', 'Ford', 'Chevrolet', 'BMW', 'Mercedes-Benz', 
-  'Audi', 'Nissan', 'Hyundai', 'Kia', 'Subaru', 'Mazda'
-];
-
-const SAMPLE_MODELS: { [key: string]: string[] } = {
-  Toyota: ['Camry', 'Corolla', 'RAV4', 'Highlander', '4Runner', 'Prius'],
-  Honda: ['Civic', 'Accord', 'CR-V', 'Pilot', 'Odyssey', 'Fit'],
-  Ford: ['F-150', 'Explorer', 'Escape', 'Mustang', 'Edge', 'Expedition'],
-  Chevrolet: ['Silverado', 'Tahoe', 'Equinox', 'Trailblazer'],
+// Saved this long after the customer stops typing
+const DRAFT_SAVE_DELAY_MS = 500;
+
+const blankForm = (user: SessionUser | null): BookingFormDraft => ({
+  customer: contactFor(user),
+  parkingLocation: emptyGeoPoint(),
+  dropoffLocation: emptyGeoPoint(),
+  vehicles: [emptyVehicle('1')],
+  dropoffDay: '',
+  arrivalTime: ''
+});
+
+// A draft from another account (or a guest) on this device isn't restored into a signed-in form
+const restoredForm = (user: SessionUser | null): BookingFormDraft | null => {
+  const saved = offlineBookings.draft();
+  if (!saved || (user && saved.form.customer.email !== user.email)) return null;
+  return saved.form;
 };
 
-const SAMPLE_YEARS: string[] = Array.from({ length: 31 }, (_, i) => String(2025 - i));
+const fieldClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? 'border-red-400' : 'border-gray-300'
+  }`;
 
 /**
  * Shuttle Request - Customer-facing shuttle booking interface
@@ -36,8 +75,12 @@ const SAMPLE_YEARS: string[] = Array.from({ length: 31 }, (_, i) => String(2025
  * Features:
  * - Interactive map pickers for parking and drop-off locations
  * - Vehicle management with make/model/year and transmission
- * - Date/time scheduling for shuttle coordination
+ * - Date/time scheduling for shuttle coordination, with full and closed days
+ *   marked and a waitlist for full ones
+ * - Deposit or full payment checkout once the request is booked
  * - Real-time database integration with Supabase
+ * - The form is saved on the device as it is filled in and restored after a
+ *   reload; bookings made offline are queued and sent once back online
  */
 interface ShuttleRequestProps {
   onBack?: () => void;
@@ -45,17 +88,105 @@ interface ShuttleRequestProps {
 
 const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
   // Supabase connection status
-  const { isConnected, error } = useSupabase();
-  
+  const { isConnected, error, backend } = useSupabase();
+  const { user } = useAuth();
+
+  // A draft left on this device, picked up where the customer left off
+  const [restored, setRestored] = useState(() => restoredForm(user));
+  const initial = restored ?? blankForm(user);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(() => (restored ? offlineBookings.draft()?.savedAt ?? null : null));
+
+  // Customer contact details (stored on the users row), prefilled for signed-in customers
+  const [contact, setContact] = useState<ContactDetails>(initial.customer);
+
   // Shuttle Request (Uber-like) State
-  const [parkingLocation, setParkingLocation] = useState<GeoPoint>({ lat: 0, lng: 0, name: '' });
-  const [dropoffLocation, setDropoffLocation] = useState<GeoPoint>({ lat: 0, lng: 0, name: '' });
-  const [vehicleCount, setVehicleCount] = useState<number>(1);
-  const [vehicles, setVehicles] = useState<Vehicle[]>([
-    { id: 1, transmission: 'automatic', make: '', model: '', year: '' }
-  ]);
-  const [dropoffDay, setDropoffDay] = useState<string>('');
-  const [arrivalTime, setArrivalTime] = useState<string>('');
+  const [parkingLocation, setParkingLocation] = useState<GeoPoint>(initial.parkingLocation);
+  const [dropoffLocation, setDropoffLocation] = useState<GeoPoint>(initial.dropoffLocation);
+  const [vehicleCount, setVehicleCount] = useState<number>(initial.vehicles.length);
+  const [vehicles, setVehicles] = useState<Vehicle[]>(initial.vehicles);
+  const [dropoffDay, setDropoffDay] = useState<string>(initial.dropoffDay);
+  const [arrivalTime, setArrivalTime] = useState<string>(initial.arrivalTime);
+
+  // Bookable days, from today to the end of the booking horizon
+  const [firstBookableDay] = useState(() => toDateInputValue(new Date()));
+  const lastBookableDay = addDays(firstBookableDay, SCHEDULING_CONFIG.bookingHorizonDays);
+  const availability = useAvailability(firstBookableDay, lastBookableDay);
+
+  // Submission state
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [booked, setBooked] = useState<BookedRequest | null>(null);
+
+  // Checkout comes between booking and the confirmation, for requests that can be paid now
+  const [checkingOut, setCheckingOut] = useState(false);
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+
+  // Queued bookings that went through while the customer was busy with another
+  const [sentWhileBusy, setSentWhileBusy] = useState<string[]>([]);
+
+  // Validation: errors are computed on every render but only shown once a field is touched
+  const [touched, setTouched] = useState<Set<string>>(() => new Set());
+
+  // Live price; recalculated as pins and vehicles change and saved with the request
+  const quote = calculateQuote(parkingLocation, dropoffLocation, vehicles);
+
+  const draft: ShuttleRequestDraft = {
+    customer: contact,
+    parkingLocation,
+    dropoffLocation,
+    vehicles,
+    dropoffDay,
+    arrivalTime,
+    quote
+  };
+  const errors = validateShuttleRequestDraft(draft, { now: new Date(), modelYears: getModelYears });
+
+  // Keep the form on the device, or drop the draft once it's back to blank
+  const form: BookingFormDraft = { customer: contact, parkingLocation, dropoffLocation, vehicles, dropoffDay, arrivalTime };
+  const formJson = JSON.stringify(form);
+  const isBlank = formJson === JSON.stringify(blankForm(user));
+  const isBooked = booked !== null;
+  useEffect(() => {
+    if (isBooked) return;
+    if (isBlank) {
+      offlineBookings.clearDraft();
+      setDraftSavedAt(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      offlineBookings.saveDraft(JSON.parse(formJson));
+      setDraftSavedAt(new Date().toISOString());
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [formJson, isBlank, isBooked]);
+
+  // Without a connection the booking waits on the device; there's no day to check it against,
+  // so it joins the waitlist if the day has filled up by the time it's sent
+  const offline = backend === 'supabase' && isConnected === false;
+  const { queued, sending } = useQueuedBookings(isConnected, (record: ShuttleRequestRecord) => {
+    if (booked || !isBlank) {
+      setSentWhileBusy(prev => [...prev, record.reference]);
+      return;
+    }
+    const request = fromShuttleRequestRecord(record);
+    setBooked(request);
+    setCheckingOut(canPayOnline && request.status === 'pending' && isPayable(request));
+  });
+
+  // Closed days block the booking; full ones turn it into a waitlist request
+  const load = availability.settings ? requestLoad(draft, availability.settings.unit) : 0;
+  const dayAvailability = availability.days.find(day => day.day === dropoffDay);
+  const capacityProblem = dayAvailability && availability.settings
+    ? findCapacityProblem(dayAvailability, load, availability.settings.unit)
+    : null;
+  const waitlist = capacityProblem?.code === 'full';
+  const canSubmit = isValid(errors) && capacityProblem?.code !== 'blackout' && !submitting;
+
+  const touch = (path: string) => {
+    setTouched(prev => (prev.has(path) ? prev : new Set(prev).add(path)));
+  };
+
+  const errorFor = (path: string) => (touched.has(path) ? errors[path] : undefined);
 
   // Vehicle management handlers
   const handleVehicleCountChange = (count: number) => {
@@ -65,7 +196,7 @@ const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
       const next = [...prev];
       if (safeCount > next.length) {
         for (let i = next.length; i < safeCount; i += 1) {
-          next.push({ id: i + 1, transmission: 'automatic', make: '', model: '', year: '' });
+          next.push(emptyVehicle(String(i + 1)));
         }
       } else if (safeCount < next.length) {
         next.length = safeCount;
@@ -78,34 +209,101 @@ const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
     setVehicles((prev) => {
       const next = [...prev];
       next[index] = { ...next[index], [field]: value };
+      // A different make invalidates the chosen model (retyping the same one doesn't)
+      if (field === 'make' && findMake(value) !== findMake(prev[index].make)) next[index].model = '';
       return next;
     });
   };
 
-  const handleLocationChange = (type: 'parking' | 'dropoff', field: keyof GeoPoint, value: string | number) => {
-    if (type === 'parking') {
-      setParkingLocation(prev => ({ ...prev, [field]: value }));
-    } else {
-      setDropoffLocation(prev => ({ ...prev, [field]: value }));
-    }
+  const handleLocationPick = (type: 'parking' | 'dropoff', lat: number, lng: number) => {
+    const setLocation = type === 'parking' ? setParkingLocation : setDropoffLocation;
+    setLocation(prev => ({ ...prev, lat, lng }));
   };
 
-  const getAvailableModels = (make: string): string[] => {
-    return SAMPLE_MODELS[make] || [];
+  const handleContactChange = (field: keyof ContactDetails, value: string) => {
+    setContact(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleSubmit = () => {
-    // TODO: Submit to Supabase
-    console.log('Submitting shuttle request:', {
-      parkingLocation,
-      dropoffLocation,
-      vehicleCount,
-      vehicles,
-      dropoffDay,
-      arrivalTime
-    });
+  const resetForm = () => {
+    setContact(contactFor(user));
+    setParkingLocation(emptyGeoPoint());
+    setDropoffLocation(emptyGeoPoint());
+    setVehicleCount(1);
+    setVehicles([emptyVehicle('1')]);
+    setDropoffDay('');
+    setArrivalTime('');
+    setTouched(new Set());
+    setSubmitError(null);
+    setBooked(null);
+    setCheckingOut(false);
+    setInvoice(null);
+    offlineBookings.clearDraft();
+    setRestored(null);
+  };
+
+  // A booking that didn't go through is queued with the id it was sent with, so
+  // if it did reach the backend, sending it again returns that booking
+  const queueBooking = (input = toCreateShuttleRequestInput(draft)) => {
+    offlineBookings.enqueue({ ...input, waitlist: true });
+    resetForm();
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    if (offline) {
+      queueBooking();
+      return;
+    }
+
+    setSubmitting(true);
+    setSubmitError(null);
+    const input = toCreateShuttleRequestInput(draft, { waitlist });
+    input.request.id = crypto.randomUUID();
+    try {
+      const record = await shuttleRequests.create(input);
+      const request = fromShuttleRequestRecord(record);
+      offlineBookings.clearDraft();
+      setBooked(request);
+      setCheckingOut(canPayOnline && request.status === 'pending' && isPayable(request));
+    } catch (err) {
+      console.error('Failed to submit shuttle request:', err);
+      if (backend === 'supabase' && isConnectionProblem(err)) {
+        // The connection failed while sending, whatever the browser thinks; keep it for when it's back
+        queueBooking(input);
+      } else if (err instanceof DataError && err.code === 'capacity') {
+        // Someone else took the last spot; refreshing flips the form over to the waitlist
+        availability.refresh();
+        setSubmitError(`${err.message}. Pick another day or join the waitlist.`);
+      } else {
+        setSubmitError(err instanceof Error ? err.message : 'Failed to submit request');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePaid = ({ payment, invoice: issued }: CheckoutResult) => {
+    setBooked(prev => (prev ? { ...prev, payments: [...prev.payments, payment] } : prev));
+    setInvoice(issued);
+    setCheckingOut(false);
   };
 
+  if (booked && checkingOut) {
+    return <PaymentStep request={booked} onPaid={handlePaid} onSkip={() => setCheckingOut(false)} />;
+  }
+
+  if (booked) {
+    return (
+      <BookingConfirmation
+        request={booked}
+        invoice={invoice}
+        onBookAnother={resetForm}
+        detailsPath={user ? requestPath(booked.id) : trackPath(booked.reference)}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -126,13 +324,13 @@ const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
               {isConnected === true && (
                 <div className="flex items-center gap-2 text-sm text-green-600">
                   <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                  Connected to Supabase
+                  {backend === 'supabase' ? 'Connected to Supabase' : 'Using local data store'}
                 </div>
               )}
               {isConnected === false && (
                 <div className="flex items-center gap-2 text-sm text-red-600">
                   <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                  Database connection failed
+                  {offline ? 'Offline: your booking will be saved on this device and sent when you\'re back online' : 'Database connection failed'}
                   {error && <span className="text-xs">({error})</span>}
                 </div>
               )}
@@ -140,12 +338,119 @@ const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
           </div>
         </div>
 
+        {/* Bookings saved on this device */}
+        {(queued.length > 0 || sentWhileBusy.length > 0) && (
+          <section className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Saved on this device</h2>
+            <ul className="space-y-3">
+              {queued.map(booking => (
+                <li key={booking.id} className="flex flex-wrap items-center gap-3 text-sm">
+                  {booking.error ? (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Not sent</span>
+                  ) : (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                      {sending ? 'Sending...' : 'Pending upload'}
+                    </span>
+                  )}
+                  <span className="text-gray-900">
+                    {booking.summary.dropoffDay}: {booking.summary.parkingLocation} → {booking.summary.dropoffLocation}
+                  </span>
+                  <span className="text-gray-500">saved {formatDateTime(booking.queuedAt)}</span>
+                  {booking.error && <span className="w-full text-red-700">{booking.error}</span>}
+                  {booking.error && (
+                    <button
+                      onClick={() => offlineBookings.discard(booking.id)}
+                      className="text-sm font-medium text-gray-600 hover:text-gray-900"
+                    >
+                      Discard
+                    </button>
+                  )}
+                </li>
+              ))}
+              {sentWhileBusy.map(reference => (
+                <li key={reference} className="flex items-center gap-3 text-sm">
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Sent</span>
+                  <span className="text-gray-900">
+                    Reference <span className="font-mono font-medium">{reference}</span>; we&apos;ll be in touch by email.
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {queued.some(booking => !booking.error) && (
+              <p className="mt-3 text-sm text-gray-500">
+                These will be sent automatically once you&apos;re back online. Keep this page open or come back to it later.
+                Lockbox codes aren&apos;t saved on this device, so add them from the tracking page once a booking is sent.
+              </p>
+            )}
+          </section>
+        )}
+
         {/* Shuttle Request Form */}
         <section className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="p-6 md:p-8">
             <h2 className="text-2xl font-bold text-gray-900 mb-2">Request a Shuttle</h2>
             <p className="text-gray-600 mb-6">Ultra‑modern, Uber‑style flow to move your vehicle(s) from parking to your take‑out.</p>
 
+            {restored && (
+              <div className="mb-6 flex flex-wrap items-center justify-between gap-3 rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-800">
+                <span>We&apos;ve restored the booking you started on this device. Lockbox codes aren&apos;t saved, so enter them again.</span>
+                <button onClick={resetForm} className="font-medium text-blue-700 hover:text-blue-900">
+                  Start over
+                </button>
+              </div>
+            )}
+
+            {/* Contact Details */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <div>
+                <label htmlFor="contactName" className="block text-sm font-medium text-gray-700 mb-2">
+                  Your name
+                </label>
+                <input
+                  id="contactName"
+                  type="text"
+                  value={contact.fullName}
+                  onChange={(e) => handleContactChange('fullName', e.target.value)}
+                  onBlur={() => touch('customer.fullName')}
+                  className={fieldClass(errorFor('customer.fullName'))}
+                  placeholder="e.g., Jane Doe"
+                />
+                <FieldError message={errorFor('customer.fullName')} />
+              </div>
+              <div>
+                <label htmlFor="contactEmail" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email
+                </label>
+                <input
+                  id="contactEmail"
+                  type="email"
+                  value={contact.email}
+                  // Signed-in bookings belong to the account
+                  readOnly={!!user}
+                  onChange={(e) => handleContactChange('email', e.target.value)}
+                  onBlur={() => touch('customer.email')}
+                  className={fieldClass(errorFor('customer.email'))}
+                  placeholder="you@example.com"
+                />
+                <FieldError message={errorFor('customer.email')} />
+              </div>
+              <div>
+                <label htmlFor="contactPhone" className="block text-sm font-medium text-gray-700 mb-2">
+                  Phone
+                </label>
+                <input
+                  id="contactPhone"
+                  type="tel"
+                  value={contact.phone}
+                  onChange={(e) => handleContactChange('phone', e.target.value)}
+                  onBlur={() => touch('customer.phone')}
+                  className={fieldClass(errorFor('customer.phone'))}
+                  placeholder="+1 (555) 123-4567"
+                />
+                <FieldError message={errorFor('customer.phone')} />
+              </div>
+            </div>
+
             {/* Locations */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
               {/* Parking Location */}
@@ -153,17 +458,20 @@ const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
                 <label htmlFor="parkingLocation" className="block text-sm font-medium text-gray-700 mb-2">
                   Where did you park your car?
                 </label>
-                <input
+                <PlaceAutocomplete
                   id="parkingLocation"
-                  type="text"
-                  value={parkingLocation.name}
-                  onChange={(e) => handleLocationChange('parking', 'name', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  value={parkingLocation}
+                  onChange={setParkingLocation}
+                  onBlur={() => touch('parkingLocation.name')}
+                  className={fieldClass(errorFor('parkingLocation.name'))}
                   placeholder="e.g., Downtown Parking Garage"
                 />
-                <div className="mt-2 h-32 bg-gray-100 rounded-md flex items-center justify-center">
-                  <p className="text-gray-500 text-sm">Map placeholder - Parking Location</p>
-                </div>
+                <FieldError message={errorFor('parkingLocation.name')} />
+                <LocationPicker
+                  kind="parking"
+                  point={parkingLocation}
+                  onPick={(lat, lng) => handleLocationPick('parking', lat, lng)}
+                />
               </div>
 
               {/* Drop-off Location */}
@@ -171,17 +479,20 @@ const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
                 <label htmlFor="dropoffLocation" className="block text-sm font-medium text-gray-700 mb-2">
                   Where do you need your car shuttled to?
                 </label>
-                <input
+                <PlaceAutocomplete
                   id="dropoffLocation"
-                  type="text"
-                  value={dropoffLocation.name}
-                  onChange={(e) => handleLocationChange('dropoff', 'name', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  value={dropoffLocation}
+                  onChange={setDropoffLocation}
+                  onBlur={() => touch('dropoffLocation.name')}
+                  className={fieldClass(errorFor('dropoffLocation.name'))}
                   placeholder="e.g., Mountain Resort"
                 />
-                <div className="mt-2 h-32 bg-gray-100 rounded-md flex items-center justify-center">
-                  <p className="text-gray-500 text-sm">Map placeholder - Drop-off Location</p>
-                </div>
+                <FieldError message={errorFor('dropoffLocation.name')} />
+                <LocationPicker
+                  kind="dropoff"
+                  point={dropoffLocation}
+                  onPick={(lat, lng) => handleLocationPick('dropoff', lat, lng)}
+                />
               </div>
             </div>
 
@@ -211,66 +522,13 @@ const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
                 {vehicles.map((vehicle, index) => (
                   <div key={vehicle.id} className="bg-gray-50 rounded-lg p-4">
                     <h4 className="text-md font-medium text-gray-900 mb-4">Vehicle {index + 1}</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                      {/* Transmission */}
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">Transmission</label>
-                        <select
-                          value={vehicle.transmission}
-                          onChange={(e) => handleVehicleChange(index, 'transmission', e.target.value as 'manual' | 'automatic')}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        >
-                          <option value="automatic">Automatic</option>
-                          <option value="manual">Manual</option>
-                        </select>
-                      </div>
-
-                      {/* Make */}
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">Make</label>
-                        <select
-                          value={vehicle.make}
-                          onChange={(e) => handleVehicleChange(index, 'make', e.target.value)}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        >
-                          <option value="">Select Make</option>
-                          {SAMPLE_MAKES.map(make => (
-                            <option key={make} value={make}>{make}</option>
-                          ))}
-                        </select>
-                      </div>
-
-                      {/* Model */}
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">Model</label>
-                        <select
-                          value={vehicle.model}
-                          onChange={(e) => handleVehicleChange(index, 'model', e.target.value)}
-                          disabled={!vehicle.make}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
-                        >
-                          <option value="">Select Model</option>
-                          {getAvailableModels(vehicle.make).map(model => (
-                            <option key={model} value={model}>{model}</option>
-                          ))}
-                        </select>
-                      </div>
-
-                      {/* Year */}
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">Year</label>
-                        <select
-                          value={vehicle.year}
-                          onChange={(e) => handleVehicleChange(index, 'year', e.target.value)}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        >
-                          <option value="">Select Year</option>
-                          {SAMPLE_YEARS.map(year => (
-                            <option key={year} value={year}>{year}</option>
-                          ))}
-                        </select>
-                      </div>
-                    </div>
+                    <VehicleFields
+                      vehicle={vehicle}
+                      index={index}
+                      onChange={(field, value) => handleVehicleChange(index, field, value)}
+                      touch={touch}
+                      errorFor={errorFor}
+                    />
                   </div>
                 ))}
               </div>
@@ -280,16 +538,32 @@ const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
               {/* Drop-off Day */}
               <div>
-                <label htmlFor="dropoffDay" className="block text-sm font-medium text-gray-700 mb-2">
+                <span id="dropoffDayLabel" className="block text-sm font-medium text-gray-700 mb-2">
                   What day will you drop off your car?
-                </label>
-                <input
-                  id="dropoffDay"
-                  type="date"
+                </span>
+                <AvailabilityCalendar
+                  labelledBy="dropoffDayLabel"
                   value={dropoffDay}
-                  onChange={(e) => setDropoffDay(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  min={firstBookableDay}
+                  max={lastBookableDay}
+                  availability={availability.days}
+                  load={load}
+                  onChange={(day) => {
+                    setDropoffDay(day);
+                    touch('dropoffDay');
+                  }}
+                  onBlur={() => touch('dropoffDay')}
+                  invalid={Boolean(errorFor('dropoffDay')) || capacityProblem?.code === 'blackout'}
                 />
+                <FieldError message={errorFor('dropoffDay') ?? (capacityProblem?.code === 'blackout' ? capacityProblem.message : undefined)} />
+                {waitlist && capacityProblem && (
+                  <p className="mt-2 rounded-md border border-orange-200 bg-orange-50 px-3 py-2 text-sm text-orange-800">
+                    {capacityProblem.message}. You can still join the waitlist and we&apos;ll be in touch if a spot opens up.
+                  </p>
+                )}
+                {availability.error && (
+                  <p className="mt-2 text-sm text-gray-500">Couldn&apos;t check which days are full; we&apos;ll confirm when you submit.</p>
+                )}
               </div>
 
               {/* Arrival Time */}
@@ -302,18 +576,43 @@ const ShuttleRequest: React.FC<ShuttleRequestProps> = () => {
                   type="time"
                   value={arrivalTime}
                   onChange={(e) => setArrivalTime(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  onBlur={() => touch('arrivalTime')}
+                  className={fieldClass(errorFor('arrivalTime'))}
                 />
+                <FieldError message={errorFor('arrivalTime')} />
               </div>
             </div>
 
+            {/* Price Estimate */}
+            <div className="mb-8">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Price Estimate</h3>
+              <QuoteSummary
+                quote={quote}
+                emptyMessage="Set both locations (search or drop pins on the maps) to see your price."
+              />
+            </div>
+
+            {/* Submission Feedback */}
+            {submitError && (
+              <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                {submitError}
+              </div>
+            )}
+
             {/* Submit Button */}
-            <div className="flex justify-end">
+            <div className="flex flex-wrap items-center justify-end gap-4">
+              {draftSavedAt && (
+                <p className="mr-auto text-sm text-gray-500">Draft saved on this device {formatDateTime(draftSavedAt)}</p>
+              )}
+              {!isValid(errors) && (
+                <p className="text-sm text-gray-500">Complete all fields to request your shuttle</p>
+              )}
               <button
                 onClick={handleSubmit}
-                className="bg-blue-600 text-white py-3 px-8 rounded-lg text-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+                disabled={!canSubmit}
+                className="bg-blue-600 text-white py-3 px-8 rounded-lg text-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Request Shuttle
+                {submitting ? 'Submitting...' : offline ? 'Save and Send Later' : waitlist ? 'Join Waitlist' : 'Request Shuttle'}
               </button>
             </div>
           </div>
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { dataBackend } from '../lib/data';
+import type { SessionUser, SignUpInput } from '../lib/auth';
+import { credentialsSchema, signUpSchema } from '../lib/auth/validation';
+import FieldError from './FieldError';
+
+type Mode = 'sign_in' | 'sign_up';
+
+const emptyForm = (): SignUpInput => ({ email: '', password: '', fullName: '', phone: '' });
+
+const fieldClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+interface SignInProps {
+  // Explains why sign-in is needed, e.g. when a customer opens the owner dashboard
+  notice?: string;
+  onSignedIn?: (user: SessionUser) => void;
+}
+
+/**
+ * Sign In - Sign-in and account creation for customers and staff
+ *
+ * Staff accounts are ordinary accounts whose role was raised by an owner, so
+ * there is no separate staff sign-up.
+ */
+const SignIn: React.FC<SignInProps> = ({ notice, onSignedIn }) => {
+  const { signIn, signUp } = useAuth();
+  const [mode, setMode] = useState<Mode>('sign_in');
+  const [form, setForm] = useState<SignUpInput>(emptyForm);
+  const [submitted, setSubmitted] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [confirmationSent, setConfirmationSent] = useState(false);
+
+  const errors = mode === 'sign_in'
+    ? credentialsSchema.validate(form, undefined)
+    : signUpSchema.validate(form, undefined);
+  const errorFor = (path: keyof SignUpInput) => (submitted ? errors[path] : undefined);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setSubmitted(false);
+    setSubmitError(null);
+  };
+
+  const handleChange = (field: keyof SignUpInput, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitted(true);
+    if (Object.keys(errors).length > 0) return;
+
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      if (mode === 'sign_in') {
+        onSignedIn?.(await signIn(form));
+      } else {
+        const result = await signUp(form);
+        if (result.status === 'signed_in') onSignedIn?.(result.user);
+        else setConfirmationSent(true);
+      }
+    } catch (err) {
+      console.error(`Failed to ${mode === 'sign_in' ? 'sign in' : 'sign up'}:`, err);
+      setSubmitError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (confirmationSent) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center">
+          <h1 className="text-2xl font-bold text-gray-900">Check your email</h1>
+          <p className="mt-2 text-gray-600">
+            We sent a confirmation link to {form.email}. Follow it, then sign in.
+          </p>
+          <button
+            onClick={() => {
+              setConfirmationSent(false);
+              switchMode('sign_in');
+            }}
+            className="mt-6 px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Back to sign in
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-12">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+        <h1 className="text-2xl font-bold text-gray-900">
+          {mode === 'sign_in' ? 'Sign in' : 'Create an account'}
+        </h1>
+        {notice && <p className="mt-2 text-sm text-gray-600">{notice}</p>}
+
+        <form onSubmit={handleSubmit} noValidate className="mt-6 space-y-4">
+          {mode === 'sign_up' && (
+            <>
+              <div>
+                <label htmlFor="authName" className="block text-sm font-medium text-gray-700 mb-2">Your name</label>
+                <input
+                  id="authName"
+                  type="text"
+                  autoComplete="name"
+                  value={form.fullName}
+                  onChange={(e) => handleChange('fullName', e.target.value)}
+                  className={fieldClass(errorFor('fullName'))}
+                />
+                <FieldError message={errorFor('fullName')} />
+              </div>
+              <div>
+                <label htmlFor="authPhone" className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
+                <input
+                  id="authPhone"
+                  type="tel"
+                  autoComplete="tel"
+                  value={form.phone}
+                  onChange={(e) => handleChange('phone', e.target.value)}
+                  className={fieldClass(errorFor('phone'))}
+                />
+                <FieldError message={errorFor('phone')} />
+              </div>
+            </>
+          )}
+          <div>
+            <label htmlFor="authEmail" className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+            <input
+              id="authEmail"
+              type="email"
+              autoComplete="email"
+              value={form.email}
+              onChange={(e) => handleChange('email', e.target.value)}
+              className={fieldClass(errorFor('email'))}
+            />
+            <FieldError message={errorFor('email')} />
+          </div>
+          <div>
+            <label htmlFor="authPassword" className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+            <input
+              id="authPassword"
+              type="password"
+              autoComplete={mode === 'sign_in' ? 'current-password' : 'new-password'}
+              value={form.password}
+              onChange={(e) => handleChange('password', e.target.value)}
+              className={fieldClass(errorFor('password'))}
+            />
+            <FieldError message={errorFor('password')} />
+          </div>
+
+          {submitError && (
+            <div className="rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-700">
+              {submitError}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {submitting ? 'Please wait...' : mode === 'sign_in' ? 'Sign in' : 'Create account'}
+          </button>
+        </form>
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          {mode === 'sign_in' ? (
+            <>
+              New here?{' '}
+              <button onClick={() => switchMode('sign_up')} className="font-medium text-blue-600 hover:text-blue-700">
+                Create an account
+              </button>
+            </>
+          ) : (
+            <>
+              Already have an account?{' '}
+              <button onClick={() => switchMode('sign_in')} className="font-medium text-blue-600 hover:text-blue-700">
+                Sign in
+              </button>
+            </>
+          )}
+        </p>
+
+        {dataBackend === 'local' && mode === 'sign_in' && (
+          <p className="mt-4 rounded-md bg-gray-50 px-3 py-2 text-xs text-gray-500">
+            Local data store: sign in as owner@example.com or john@example.com with password <code>shuttleforge</code>.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SignIn;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { STATUS_LABELS, type RequestStatus } from '../lib/domain';
+
+const STATUS_BADGE_CLASSES: Record<RequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  waitlisted: 'bg-orange-100 text-orange-800 border-orange-200',
+  confirmed: 'bg-green-100 text-green-800 border-green-200',
+  in_progress: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  completed: 'bg-blue-100 text-blue-800 border-blue-200',
+  cancelled: 'bg-gray-100 text-gray-800 border-gray-200',
+  rejected: 'bg-red-100 text-red-800 border-red-200'
+};
+
+const StatusBadge: React.FC<{ status: RequestStatus }> = ({ status }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${STATUS_BADGE_CLASSES[status]}`}>
+    {STATUS_LABELS[status]}
+  </span>
+);
+
+export default StatusBadge;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { STATUS_LABELS, type StatusChange } from '../lib/domain';
+import { formatDateTime } from '../lib/format';
+
+interface StatusTimelineProps {
+  history: StatusChange[];
+}
+
+/**
+ * Status Timeline - Chronological list of a request's status changes
+ */
+const StatusTimeline: React.FC<StatusTimelineProps> = ({ history }) => {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {history.map((change) => (
+        <li key={change.id} className="mb-4 ml-4 last:mb-0">
+          <div className="absolute w-3 h-3 bg-blue-500 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+          <p className="text-sm font-medium text-gray-900">
+            {change.from ? `${STATUS_LABELS[change.from]} → ${STATUS_LABELS[change.to]}` : `Submitted as ${STATUS_LABELS[change.to]}`}
+          </p>
+          <p className="text-xs text-gray-500">
+            {formatDateTime(change.at)} · by {change.actor}
+          </p>
+          {change.note && (
+            <p className="mt-1 text-sm text-gray-700 bg-gray-50 rounded p-2">{change.note}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default StatusTimeline;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useShuttleRequestChanges } from '../hooks/useShuttleRequestChanges';
+import { shuttleRequests, type TrackingLookup } from '../lib/data';
+import { fromShuttleRequestRecord, type ShuttleRequest } from '../lib/domain';
+import CustomerRequestActions from './CustomerRequestActions';
+import RequestSummary from './RequestSummary';
+
+/**
+ * Track Request - Lets a customer look up a request without an account
+ * (/track, optionally ?reference=SF-XXXXXX)
+ *
+ * The reference number and the email it was booked with must both match;
+ * either one being wrong gets the same "not found" so references can't be
+ * probed. While the request is pending it can be changed or cancelled here.
+ */
+const TrackRequest: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [reference, setReference] = useState(() => searchParams.get('reference') ?? '');
+  const [email, setEmail] = useState('');
+  const [lookup, setLookup] = useState<TrackingLookup | null>(null);
+  const [request, setRequest] = useState<ShuttleRequest | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = { reference: reference.trim(), email: email.trim() };
+    if (!next.reference || !next.email) return;
+
+    setSearching(true);
+    setSearchError(null);
+    try {
+      const record = await shuttleRequests.track(next);
+      if (record) {
+        setLookup(next);
+        setRequest(fromShuttleRequestRecord(record));
+      } else {
+        setSearchError('No request matches that reference number and email.');
+      }
+    } catch (err) {
+      console.error('Failed to look up shuttle request:', err);
+      setSearchError(err instanceof Error ? err.message : 'Failed to look up request');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // The owner's decisions show up while the page is open (where the backend tells guests about them)
+  useShuttleRequestChanges(change => {
+    if (!lookup || change.id !== request?.id) return;
+    shuttleRequests.track(lookup)
+      .then(record => {
+        if (record) setRequest(fromShuttleRequestRecord(record));
+      })
+      .catch(err => console.error('Failed to refresh shuttle request:', err));
+  });
+
+  const startOver = () => {
+    setLookup(null);
+    setRequest(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        {request && lookup ? (
+          <>
+            <button onClick={startOver} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+              ← Track another request
+            </button>
+            <section className="mt-6 bg-white rounded-xl shadow-sm border border-gray-200 p-6 md:p-8 space-y-6">
+              <RequestSummary request={request} />
+              <div className="pt-6 border-t border-gray-200">
+                <CustomerRequestActions request={request} lookup={lookup} onChange={setRequest} />
+              </div>
+            </section>
+          </>
+        ) : (
+          <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 md:p-8">
+            <h1 className="text-2xl font-bold text-gray-900">Track a Request</h1>
+            <p className="mt-2 text-gray-600">
+              Enter the reference number from your confirmation and the email you booked with.
+            </p>
+            <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+              <div>
+                <label htmlFor="trackReference" className="block text-sm font-medium text-gray-700 mb-2">
+                  Reference number
+                </label>
+                <input
+                  id="trackReference"
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="SF-4K7QX2"
+                  autoComplete="off"
+                />
+              </div>
+              <div>
+                <label htmlFor="trackEmail" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email
+                </label>
+                <input
+                  id="trackEmail"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="you@example.com"
+                  autoComplete="email"
+                />
+              </div>
+              {searchError && (
+                <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                  {searchError}
+                </div>
+              )}
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={searching || !reference.trim() || !email.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {searching ? 'Looking up...' : 'Find request'}
+                </button>
+              </div>
+            </form>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrackRequest;
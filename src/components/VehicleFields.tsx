@@ -0,0 +1,208 @@
+import React from 'react';
+import { DRIVETRAIN_LABELS, type Drivetrain, type Transmission, type Vehicle } from '../lib/domain';
+import { VEHICLE_MAKES, canonicalMake, canonicalModel, getModels, getYears } from '../lib/vehicleCatalog';
+import Combobox from './Combobox';
+import FieldError from './FieldError';
+
+interface VehicleFieldsProps {
+  vehicle: Vehicle;
+  index: number;
+  onChange: (field: keyof Vehicle, value: string) => void;
+  // Paths are relative to the draft, e.g. `vehicles.0.make`
+  touch: (path: string) => void;
+  errorFor: (path: string) => string | undefined;
+}
+
+const fieldClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+/**
+ * Vehicle Fields - The inputs for one vehicle on a booking or a customer's
+ * change to it: what it is, how the driver spots it, and the key handoff
+ *
+ * Make, model and year are searched from the vehicle catalog; a vehicle it
+ * doesn't list can be typed in as "other". Years are limited to the ones the
+ * chosen model was sold. A saved lockbox code is never shown again, so on a
+ * saved vehicle the field starts empty and only a new entry replaces it.
+ */
+const VehicleFields: React.FC<VehicleFieldsProps> = ({ vehicle, index, onChange, touch, errorFor }) => {
+  const pathOf = (field: keyof Vehicle) => `vehicles.${index}.${field}`;
+  const idOf = (field: keyof Vehicle) => `vehicle-${vehicle.id}-${field}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {/* Transmission */}
+        <div>
+          <label htmlFor={idOf('transmission')} className="block text-sm font-medium text-gray-700 mb-2">Transmission</label>
+          <select
+            id={idOf('transmission')}
+            value={vehicle.transmission}
+            onChange={(e) => onChange('transmission', e.target.value as Transmission)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="automatic">Automatic</option>
+            <option value="manual">Manual</option>
+          </select>
+        </div>
+
+        {/* Make */}
+        <div>
+          <label htmlFor={idOf('make')} className="block text-sm font-medium text-gray-700 mb-2">Make</label>
+          <Combobox
+            id={idOf('make')}
+            value={vehicle.make}
+            options={VEHICLE_MAKES}
+            onChange={(value) => onChange('make', value)}
+            normalize={canonicalMake}
+            onBlur={() => touch(pathOf('make'))}
+            otherLabel="make"
+            placeholder="Search makes"
+            className={fieldClass(errorFor(pathOf('make')))}
+          />
+          <FieldError message={errorFor(pathOf('make'))} />
+        </div>
+
+        {/* Model */}
+        <div>
+          <label htmlFor={idOf('model')} className="block text-sm font-medium text-gray-700 mb-2">Model</label>
+          <Combobox
+            id={idOf('model')}
+            value={vehicle.model}
+            options={getModels(vehicle.make)}
+            onChange={(value) => onChange('model', value)}
+            normalize={(value) => canonicalModel(vehicle.make, value)}
+            onBlur={() => touch(pathOf('model'))}
+            otherLabel="model"
+            placeholder={vehicle.make ? 'Search models' : 'Enter a make first'}
+            disabled={!vehicle.make}
+            className={`${fieldClass(errorFor(pathOf('model')))} disabled:bg-gray-100`}
+          />
+          <FieldError message={errorFor(pathOf('model'))} />
+        </div>
+
+        {/* Year */}
+        <div>
+          <label htmlFor={idOf('year')} className="block text-sm font-medium text-gray-700 mb-2">Year</label>
+          <Combobox
+            id={idOf('year')}
+            value={vehicle.year}
+            options={getYears(vehicle.make, vehicle.model)}
+            onChange={(value) => onChange('year', value)}
+            onBlur={() => touch(pathOf('year'))}
+            placeholder="Search years"
+            className={fieldClass(errorFor(pathOf('year')))}
+          />
+          <FieldError message={errorFor(pathOf('year'))} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* License plate */}
+        <div>
+          <label htmlFor={idOf('licensePlate')} className="block text-sm font-medium text-gray-700 mb-2">License plate</label>
+          <input
+            id={idOf('licensePlate')}
+            type="text"
+            value={vehicle.licensePlate}
+            onChange={(e) => onChange('licensePlate', e.target.value)}
+            onBlur={() => touch(pathOf('licensePlate'))}
+            className={`${fieldClass(errorFor(pathOf('licensePlate')))} uppercase`}
+            autoComplete="off"
+          />
+          <FieldError message={errorFor(pathOf('licensePlate'))} />
+        </div>
+
+        {/* Color */}
+        <div>
+          <label htmlFor={idOf('color')} className="block text-sm font-medium text-gray-700 mb-2">Color</label>
+          <input
+            id={idOf('color')}
+            type="text"
+            value={vehicle.color}
+            onChange={(e) => onChange('color', e.target.value)}
+            className={fieldClass()}
+            placeholder="e.g., Silver"
+          />
+        </div>
+
+        {/* Drivetrain */}
+        <div>
+          <label htmlFor={idOf('drivetrain')} className="block text-sm font-medium text-gray-700 mb-2">Drivetrain</label>
+          <select
+            id={idOf('drivetrain')}
+            value={vehicle.drivetrain}
+            onChange={(e) => onChange('drivetrain', e.target.value as Drivetrain)}
+            className={fieldClass()}
+          >
+            {Object.entries(DRIVETRAIN_LABELS).map(([drivetrain, label]) => (
+              <option key={drivetrain} value={drivetrain}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Trailer / rack */}
+      <div>
+        <label htmlFor={idOf('equipmentNotes')} className="block text-sm font-medium text-gray-700 mb-2">
+          Trailer, racks or anything attached
+        </label>
+        <input
+          id={idOf('equipmentNotes')}
+          type="text"
+          value={vehicle.equipmentNotes}
+          onChange={(e) => onChange('equipmentNotes', e.target.value)}
+          className={fieldClass()}
+          placeholder="e.g., Two bikes on a hitch rack"
+        />
+      </div>
+
+      {/* Key handoff */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor={idOf('keyLocation')} className="block text-sm font-medium text-gray-700 mb-2">Where are the keys?</label>
+          <input
+            id={idOf('keyLocation')}
+            type="text"
+            value={vehicle.keyLocation}
+            onChange={(e) => onChange('keyLocation', e.target.value)}
+            className={fieldClass()}
+            placeholder="e.g., Magnetic box behind the rear bumper"
+          />
+        </div>
+        <div>
+          <label htmlFor={idOf('lockboxCode')} className="block text-sm font-medium text-gray-700 mb-2">Lockbox code</label>
+          <input
+            id={idOf('lockboxCode')}
+            type="text"
+            value={vehicle.lockboxCode ?? ''}
+            onChange={(e) => onChange('lockboxCode', e.target.value)}
+            onBlur={() => touch(pathOf('lockboxCode'))}
+            className={`${fieldClass(errorFor(pathOf('lockboxCode')))} font-mono`}
+            placeholder={vehicle.lockboxCode === undefined ? 'Leave blank to keep the saved code' : 'If there is one'}
+            autoComplete="off"
+          />
+          <FieldError message={errorFor(pathOf('lockboxCode'))} />
+          <p className="mt-1 text-xs text-gray-500">Only the owner and your driver can see it.</p>
+        </div>
+        <div>
+          <label htmlFor={idOf('keyReturnLocation')} className="block text-sm font-medium text-gray-700 mb-2">
+            Where should we leave them?
+          </label>
+          <input
+            id={idOf('keyReturnLocation')}
+            type="text"
+            value={vehicle.keyReturnLocation}
+            onChange={(e) => onChange('keyReturnLocation', e.target.value)}
+            className={fieldClass()}
+            placeholder="e.g., Hotel front desk"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VehicleFields;
@@ -0,0 +1,81 @@
+import React from 'react';
+
+export interface BarDatum {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarDatum[];
+  // Describes the chart for screen readers
+  title: string;
+  formatValue?: (value: number) => string;
+  // Tailwind fill class for the bars
+  barClassName?: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 8, bottom: 28, left: 56 };
+// Beyond this many bars only every few labels fit under them
+const MAX_LABELS = 12;
+
+// 1, 2 or 5 times a power of ten, so gridlines land on round numbers
+const niceCeiling = (value: number) => {
+  if (value <= 0) return 1;
+  const power = 10 ** Math.floor(Math.log10(value));
+  return [1, 2, 5, 10].map(step => step * power).find(step => step >= value)!;
+};
+
+/**
+ * Bar Chart - One bar per labelled value, drawn as SVG that scales to its container
+ *
+ * Hovering a bar shows its exact value. The axis starts at zero with gridlines
+ * at the top, the middle and the bottom.
+ */
+const BarChart: React.FC<BarChartProps> = ({ data, title, formatValue = String, barClassName = 'fill-blue-500' }) => {
+  const max = niceCeiling(Math.max(0, ...data.map(datum => datum.value)));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / Math.max(data.length, 1);
+  const barWidth = Math.max(1, slot * 0.7);
+  const labelEvery = Math.ceil(data.length / MAX_LABELS);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+      {[0, max / 2, max].map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} className="stroke-gray-200" />
+          <text x={PADDING.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[11px]">
+            {formatValue(tick)}
+          </text>
+        </g>
+      ))}
+      {data.map((datum, index) => {
+        const x = PADDING.left + index * slot + (slot - barWidth) / 2;
+        return (
+          <g key={datum.label}>
+            <rect
+              x={x}
+              y={y(datum.value)}
+              width={barWidth}
+              height={Math.max(0, y(0) - y(datum.value))}
+              rx={2}
+              className={barClassName}
+            >
+              <title>{`${datum.label}: ${formatValue(datum.value)}`}</title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-500 text-[11px]">
+                {datum.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,77 @@
+import React, { useEffect } from 'react';
+import { MapContainer, Marker, useMap, useMapEvents } from 'react-leaflet';
+import type { LeafletMouseEvent, Marker as LeafletMarker } from 'leaflet';
+import { MAP_CONFIG } from '../../config/map';
+import type { GeoPoint } from '../../lib/domain';
+import MapTiles from './MapTiles';
+import { pinIcon, type PinKind } from './mapIcons';
+
+interface LocationPickerProps {
+  kind: PinKind;
+  point: GeoPoint;
+  onPick: (lat: number, lng: number) => void;
+}
+
+// Six decimal places is ~10cm, plenty for finding a car
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const ClickToPlace: React.FC<{ onPick: LocationPickerProps['onPick'] }> = ({ onPick }) => {
+  useMapEvents({
+    click: (event: LeafletMouseEvent) => onPick(round(event.latlng.lat), round(event.latlng.lng))
+  });
+  return null;
+};
+
+// Brings the pin into view when its coordinates are set from outside the map
+const FollowPin: React.FC<{ lat: number; lng: number }> = ({ lat, lng }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (!map.getBounds().contains([lat, lng])) {
+      map.setView([lat, lng], Math.max(map.getZoom(), MAP_CONFIG.pinZoom));
+    }
+  }, [map, lat, lng]);
+  return null;
+};
+
+/**
+ * Location Picker - Click the map (or drag the pin) to set a GeoPoint's coordinates
+ */
+const LocationPicker: React.FC<LocationPickerProps> = ({ kind, point, onPick }) => {
+  const hasPin = point.lat !== null && point.lng !== null;
+  const center: [number, number] = hasPin ? [point.lat!, point.lng!] : MAP_CONFIG.defaultCenter;
+
+  return (
+    <div className="mt-2">
+      <MapContainer
+        center={center}
+        zoom={hasPin ? MAP_CONFIG.pinZoom : MAP_CONFIG.defaultZoom}
+        scrollWheelZoom={false}
+        className="h-48 rounded-md border border-gray-200 z-0"
+      >
+        <MapTiles />
+        <ClickToPlace onPick={onPick} />
+        {hasPin && <FollowPin lat={point.lat!} lng={point.lng!} />}
+        {hasPin && (
+          <Marker
+            position={[point.lat!, point.lng!]}
+            icon={pinIcon(kind)}
+            draggable
+            eventHandlers={{
+              dragend: (event) => {
+                const { lat, lng } = (event.target as LeafletMarker).getLatLng();
+                onPick(round(lat), round(lng));
+              }
+            }}
+          />
+        )}
+      </MapContainer>
+      <p className="mt-1 text-xs text-gray-500">
+        {hasPin
+          ? `Pin at ${point.lat!.toFixed(5)}, ${point.lng!.toFixed(5)} — drag to adjust`
+          : 'Click the map to drop a pin'}
+      </p>
+    </div>
+  );
+};
+
+export default LocationPicker;
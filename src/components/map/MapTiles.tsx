@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { TileLayer } from 'react-leaflet';
+import { MAP_CONFIG } from '../../config/map';
+
+/**
+ * Map Tiles - Base layer from the configured tile source
+ *
+ * If tiles can't be fetched (offline, tile server down) the map stays usable:
+ * pins and routes still render over a plain grid, with a small notice.
+ */
+const MapTiles: React.FC = () => {
+  const [unavailable, setUnavailable] = useState(false);
+
+  return (
+    <>
+      <TileLayer
+        url={MAP_CONFIG.tileUrl}
+        attribution={MAP_CONFIG.attribution}
+        maxZoom={MAP_CONFIG.maxZoom}
+        eventHandlers={{
+          tileerror: () => setUnavailable(true),
+          tileload: () => setUnavailable(false)
+        }}
+      />
+      {unavailable && (
+        <div className="leaflet-top leaflet-right">
+          <div className="leaflet-control m-2 rounded bg-white/90 px-2 py-1 text-xs text-gray-600 shadow">
+            Map tiles unavailable offline — pins still work
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MapTiles;
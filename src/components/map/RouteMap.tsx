@@ -0,0 +1,57 @@
+import React from 'react';
+import { MapContainer, Marker, Polyline, Tooltip } from 'react-leaflet';
+import type { LatLngTuple } from 'leaflet';
+import { MAP_CONFIG } from '../../config/map';
+import type { GeoPoint } from '../../lib/domain';
+import MapTiles from './MapTiles';
+import { PIN_COLORS, pinIcon } from './mapIcons';
+
+interface RouteMapProps {
+  parking: GeoPoint;
+  dropoff: GeoPoint;
+}
+
+const toLatLng = (point: GeoPoint): LatLngTuple | null =>
+  point.lat !== null && point.lng !== null ? [point.lat, point.lng] : null;
+
+/**
+ * Route Map - Read-only view of a request's parking and drop-off points and the line between them
+ */
+const RouteMap: React.FC<RouteMapProps> = ({ parking, dropoff }) => {
+  const from = toLatLng(parking);
+  const to = toLatLng(dropoff);
+
+  if (!from && !to) {
+    return <p className="text-sm text-gray-500">No map pins were set for this request.</p>;
+  }
+
+  const points = [from, to].filter((point): point is LatLngTuple => point !== null);
+
+  return (
+    <MapContainer
+      // A single point has no extent, so fall back to centering on it
+      {...(points.length === 2
+        ? { bounds: points, boundsOptions: { padding: [32, 32] as [number, number] } }
+        : { center: points[0], zoom: MAP_CONFIG.pinZoom })}
+      scrollWheelZoom={false}
+      className="h-64 rounded-lg border border-gray-200 z-0"
+    >
+      <MapTiles />
+      {from && (
+        <Marker position={from} icon={pinIcon('parking')}>
+          <Tooltip>{parking.name}</Tooltip>
+        </Marker>
+      )}
+      {to && (
+        <Marker position={to} icon={pinIcon('dropoff')}>
+          <Tooltip>{dropoff.name}</Tooltip>
+        </Marker>
+      )}
+      {from && to && (
+        <Polyline positions={[from, to]} pathOptions={{ color: PIN_COLORS.parking, dashArray: '6 6', weight: 3 }} />
+      )}
+    </MapContainer>
+  );
+};
+
+export default RouteMap;
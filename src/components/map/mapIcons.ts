@@ -0,0 +1,24 @@
+import L from 'leaflet'
+
+export type PinKind = 'parking' | 'dropoff'
+
+const PIN_STYLES: Record<PinKind, { label: string; color: string }> = {
+  parking: { label: 'P', color: '#2563eb' },
+  dropoff: { label: 'D', color: '#16a34a' }
+}
+
+// Leaflet's default marker images don't survive bundling, so pins are plain HTML
+export const pinIcon = (kind: PinKind) => {
+  const { label, color } = PIN_STYLES[kind]
+  return L.divIcon({
+    className: '',
+    html: `<div style="width:28px;height:28px;border-radius:9999px 9999px 9999px 0;transform:rotate(-45deg);background:${color};border:2px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.4);display:flex;align-items:center;justify-content:center"><span style="transform:rotate(45deg);color:#fff;font:600 12px sans-serif">${label}</span></div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 28]
+  })
+}
+
+export const PIN_COLORS: Record<PinKind, string> = {
+  parking: PIN_STYLES.parking.color,
+  dropoff: PIN_STYLES.dropoff.color
+}
@@ -0,0 +1,19 @@
+// Map Configuration
+// The tile source is configurable so maps can run from a self-hosted tile
+// server (or static tiles under public/tiles for fully offline use).
+
+export const MAP_CONFIG = {
+  // Any XYZ tile URL template. For offline use, export tiles for your area
+  // (e.g. with a tool like `mbutil`) into public/tiles and set:
+  //    VITE_MAP_TILE_URL=/tiles/{z}/{x}/{y}.png
+  tileUrl: import.meta.env.VITE_MAP_TILE_URL ?? 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: import.meta.env.VITE_MAP_TILE_ATTRIBUTION
+    ?? '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 18,
+
+  // Where the pickers open before a point is chosen
+  defaultCenter: [40.7128, -74.0060] as [number, number],
+  defaultZoom: 11,
+  // Zoom used once a pin has been dropped
+  pinZoom: 14
+}
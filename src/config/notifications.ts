@@ -0,0 +1,29 @@
+// Notification Configuration
+// Who hears about bookings and how messages are worded. With the local
+// backend every message lands in the local outbox (Owner Dashboard →
+// Notifications), which is what development and tests want. With Supabase the
+// database queues them and a relay holding the email/SMS credentials sends
+// them (see supabase/migrations/0024_notification_events.sql).
+
+export interface NotificationConfig {
+  // Signs off every message
+  businessName: string
+  // Told about new bookings and customer cancellations; an empty value skips that channel
+  owner: { email: string; phone: string }
+  // Links in messages point here
+  siteUrl: string
+  // Messages kept in the local outbox; older ones are dropped
+  outboxLimit: number
+}
+
+export const NOTIFICATION_CONFIG: NotificationConfig = {
+  businessName: 'Shuttle Forge',
+  owner: {
+    email: import.meta.env.VITE_OWNER_EMAIL ?? 'owner@example.com',
+    phone: import.meta.env.VITE_OWNER_PHONE ?? ''
+  },
+  // Defaults to wherever the app is running
+  siteUrl: import.meta.env.VITE_SITE_URL ?? (typeof window === 'undefined' ? '' : window.location.origin),
+
+  outboxLimit: 200
+}
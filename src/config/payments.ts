@@ -0,0 +1,24 @@
+// Payment Configuration
+// What customers pay when they book, and who takes the money. Without a relay
+// URL the fake provider stands in, so nothing is really charged.
+
+export interface PaymentConfig {
+  // Share of the quote taken as a deposit, with a floor, never more than the quote
+  depositPercent: number
+  minimumDepositCents: number
+  // Endpoint that takes POST { paymentId, lookup, amountCents, currency, description, paymentMethodId },
+  // charges it with the real provider and records the outcome with the service
+  // role (see lib/payments/relay.ts); empty means use the fake provider, which
+  // only the local backend lets record payments
+  relayUrl: string
+}
+
+export const PAYMENT_CONFIG: PaymentConfig = {
+  depositPercent: 25,
+  minimumDepositCents: 2500,
+
+  // The relay holds the provider's secret key, which must never ship to the
+  // browser, e.g. a Supabase Edge Function in front of Stripe:
+  //    VITE_PAYMENT_RELAY_URL=https://your-project.supabase.co/functions/v1/charge
+  relayUrl: import.meta.env.VITE_PAYMENT_RELAY_URL ?? ''
+}
@@ -0,0 +1,28 @@
+// Pricing Configuration
+// All amounts are in cents so quotes add up exactly.
+
+export interface PricingConfig {
+  currency: string
+  baseFareCents: number
+  // Charged per mile for every vehicle, since each one is driven separately
+  perMileCents: number
+  perVehicleCents: number
+  // Extra per manual-transmission vehicle (fewer drivers can take them)
+  manualSurchargeCents: number
+  // Straight-line distance is multiplied by this to approximate road distance
+  roadDistanceFactor: number
+  averageSpeedMph: number
+  // Every quote is at least this much
+  minimumFareCents: number
+}
+
+export const PRICING_CONFIG: PricingConfig = {
+  currency: 'USD',
+  baseFareCents: 2500,
+  perMileCents: 150,
+  perVehicleCents: 2000,
+  manualSurchargeCents: 1500,
+  roadDistanceFactor: 1.3,
+  averageSpeedMph: 40,
+  minimumFareCents: 5000
+}
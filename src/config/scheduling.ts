@@ -0,0 +1,41 @@
+// Scheduling Configuration
+// How long a driver is tied up by one vehicle, and how much work fits in a day.
+// The SQL functions in supabase/migrations/0007_drivers.sql and
+// 0008_capacity.sql use the same numbers, and the rule defaults match
+// 0013_request_rules.sql.
+
+export interface SchedulingConfig {
+  // Used when a request has no quote to take the drive time from
+  defaultTripMinutes: number
+  // After delivering, the driver still has to get back to the next pickup
+  turnaroundMinutes: number
+  // Used until the owner saves their own limit (the SQL column defaults match)
+  defaultCapacity: { unit: 'vehicles' | 'driver_hours'; dailyLimit: number }
+  // How far ahead the customer date picker offers days
+  bookingHorizonDays: number
+  // Used until the owner saves their own (Owner Dashboard → Rules)
+  defaultRules: {
+    autoComplete: boolean
+    autoCompleteGraceDays: number
+    expirePending: boolean
+    flagUnassigned: boolean
+    flagUnassignedDays: number
+  }
+  // How often the rules run while staff have the app open
+  rulesIntervalMinutes: number
+}
+
+export const SCHEDULING_CONFIG: SchedulingConfig = {
+  defaultTripMinutes: 60,
+  turnaroundMinutes: 30,
+  defaultCapacity: { unit: 'vehicles', dailyLimit: 8 },
+  bookingHorizonDays: 180,
+  defaultRules: {
+    autoComplete: true,
+    autoCompleteGraceDays: 1,
+    expirePending: true,
+    flagUnassigned: true,
+    flagUnassignedDays: 2
+  },
+  rulesIntervalMinutes: 15
+}
@@ -1,20 +1,23 @@
 // Supabase Configuration
-// Replace these with your actual Supabase project values
+// Values come from Vite env vars so no credentials live in the repo.
 
-// TODO: Re-enable when Supabase is properly installed
 export const SUPABASE_CONFIG = {
   // Get these from your Supabase project settings:
   // 1. Go to your Supabase project dashboard
   // 2. Click on "Settings" → "API"
   // 3. Copy the "Project URL" and "anon public" key
-  
-  url: 'your_supabase_project_url_here',
-  anonKey: 'your_supabase_anon_key_here'
+
+  url: import.meta.env.VITE_SUPABASE_URL ?? '',
+  anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY ?? ''
 }
 
+// Without credentials the app runs against the local (browser storage) data store
+export const isSupabaseConfigured = Boolean(SUPABASE_CONFIG.url && SUPABASE_CONFIG.anonKey)
+
 // Instructions for setup:
 // 1. Create a .env.local file in your project root
 // 2. Add your Supabase credentials:
 //    VITE_SUPABASE_URL=https://your-project.supabase.co
 //    VITE_SUPABASE_ANON_KEY=your-anon-key-here
-// 3. Restart your development server
+// 3. Apply the SQL in supabase/migrations to your project
+// 4. Restart your development server
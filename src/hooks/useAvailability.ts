@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react'
+import { capacity } from '../lib/data'
+import {
+  fromCapacitySettingsRow,
+  fromDayAvailabilityRow,
+  type CapacitySettings,
+  type DayAvailability
+} from '../lib/domain'
+import { useShuttleRequestChanges } from './useShuttleRequestChanges'
+
+/**
+ * Capacity settings plus per-day availability from `from` to `to` inclusive.
+ * Refetches when a request changes, so days fill up while the page is open;
+ * call `refresh` after anything else that could have changed them.
+ */
+export function useAvailability(from: string, to: string) {
+  const [settings, setSettings] = useState<CapacitySettings | null>(null)
+  const [days, setDays] = useState<DayAvailability[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    Promise.all([capacity.getSettings(), capacity.availability(from, to)])
+      .then(([settingsRow, rows]) => {
+        if (cancelled) return
+        setSettings(fromCapacitySettingsRow(settingsRow))
+        setDays(rows.map(fromDayAvailabilityRow))
+        setError(null)
+      })
+      .catch((err) => {
+        console.error('Failed to load availability:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load availability')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [from, to, version])
+
+  const refresh = useCallback(() => setVersion((value) => value + 1), [])
+
+  useShuttleRequestChanges(refresh)
+
+  return { settings, days, loading, error, refresh }
+}
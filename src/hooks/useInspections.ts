@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react'
+import { inspections as inspectionRepository } from '../lib/data'
+import { fromVehicleInspectionRow, type VehicleInspection } from '../lib/domain'
+
+/**
+ * The inspections of a request's vehicles, with an address for each photo
+ * (keyed by its storage path). `add` takes one just recorded.
+ */
+export function useInspections(requestId: string | undefined) {
+  const [inspections, setInspections] = useState<VehicleInspection[]>([])
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPhotos = useCallback(async (loaded: VehicleInspection[]) => {
+    const paths = loaded.flatMap((inspection) => inspection.photos)
+    const urls = await inspectionRepository.photoUrls(paths)
+    setPhotoUrls((current) => ({ ...current, ...Object.fromEntries(paths.map((path, index) => [path, urls[index]])) }))
+  }, [])
+
+  useEffect(() => {
+    if (!requestId) return
+    let cancelled = false
+
+    setLoading(true)
+    setError(null)
+    inspectionRepository.listForRequest(requestId)
+      .then(async (rows) => {
+        const loaded = rows.map(fromVehicleInspectionRow)
+        if (cancelled) return
+        setInspections(loaded)
+        await loadPhotos(loaded)
+      })
+      .catch((err) => {
+        console.error('Failed to load inspections:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load inspections')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [requestId, loadPhotos])
+
+  const add = useCallback((inspection: VehicleInspection) => {
+    setInspections((current) => [...current, inspection])
+    loadPhotos([inspection]).catch((err) => console.error('Failed to load inspection photos:', err))
+  }, [loadPhotos])
+
+  return { inspections, photoUrls, loading, error, add }
+}
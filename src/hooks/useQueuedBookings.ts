@@ -0,0 +1,52 @@
+import { useEffect, useRef, useState } from 'react'
+import { shuttleRequests, type ShuttleRequestRecord } from '../lib/data'
+import { offlineBookings, resendDelayMs, sendQueuedBookings, type QueuedBooking } from '../lib/offlineBookings'
+
+/**
+ * The bookings waiting on this device, sent as soon as `isConnected` is true
+ * (see useSupabase). A send that leaves bookings behind, because the
+ * connection failed anyway or another tab is sending, is tried again with
+ * backoff (see resendDelayMs) for as long as the app thinks it's connected.
+ * `onSent` is called with each one the backend accepts; the latest callback
+ * is always used.
+ */
+export function useQueuedBookings(isConnected: boolean | null, onSent: (record: ShuttleRequestRecord) => void) {
+  const [queued, setQueued] = useState<QueuedBooking[]>(() => offlineBookings.queued())
+  const [sending, setSending] = useState(false)
+  // Sends in a row that left bookings behind, and a counter bumped to send again
+  const [failures, setFailures] = useState(0)
+  const [attempt, setAttempt] = useState(0)
+  const callback = useRef(onSent)
+  const inFlight = useRef(false)
+
+  useEffect(() => {
+    callback.current = onSent
+  })
+
+  useEffect(() => offlineBookings.subscribe(() => setQueued(offlineBookings.queued())), [])
+
+  const waiting = queued.filter((booking) => !booking.error).length
+
+  useEffect(() => {
+    if (!isConnected || waiting === 0 || inFlight.current) return
+    inFlight.current = true
+    setSending(true)
+    sendQueuedBookings(offlineBookings, shuttleRequests)
+      .then(({ sent, remaining }) => {
+        sent.forEach((record) => callback.current(record))
+        setFailures((count) => (remaining > 0 ? count + 1 : 0))
+      })
+      .finally(() => {
+        inFlight.current = false
+        setSending(false)
+      })
+  }, [isConnected, waiting, attempt])
+
+  useEffect(() => {
+    if (!isConnected || failures === 0) return
+    const timer = setTimeout(() => setAttempt((count) => count + 1), resendDelayMs(failures))
+    return () => clearTimeout(timer)
+  }, [isConnected, failures])
+
+  return { queued, sending }
+}
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react'
+import { ruleRunner, type RuleRun } from '../lib/rules'
+
+/** The request rules' latest run in this tab, or null before the first one finishes. */
+export function useRuleRun(): RuleRun | null {
+  const [run, setRun] = useState<RuleRun | null>(() => ruleRunner.lastRun())
+
+  useEffect(() => ruleRunner.subscribe(setRun), [])
+
+  return run
+}
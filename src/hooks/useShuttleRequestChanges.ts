@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react'
+import { shuttleRequests, type ShuttleRequestChange } from '../lib/data'
+
+/**
+ * Calls `onChange` whenever a shuttle request is created or updated. The
+ * subscription lives as long as the component; the latest callback is always
+ * used, so it can close over fresh state without resubscribing.
+ */
+export function useShuttleRequestChanges(onChange: (change: ShuttleRequestChange) => void) {
+  const callback = useRef(onChange)
+
+  useEffect(() => {
+    callback.current = onChange
+  })
+
+  useEffect(() => shuttleRequests.subscribe((change) => callback.current(change)), [])
+}
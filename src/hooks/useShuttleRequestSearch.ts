@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react'
+import { shuttleRequests, type SearchShuttleRequestsOptions } from '../lib/data'
+import { REQUEST_STATUSES, fromShuttleRequestRecord, type RequestStatus, type ShuttleRequest } from '../lib/domain'
+import { useShuttleRequestChanges } from './useShuttleRequestChanges'
+
+const noCounts = () => Object.fromEntries(REQUEST_STATUSES.map((status) => [status, 0])) as Record<RequestStatus, number>
+
+/**
+ * One page of requests from the backend's search. Refetches when the options
+ * change and when any request changes, so the page stays current while open;
+ * `replace` swaps in a request the caller has just saved without waiting.
+ * `options` is compared by value, so it can be built inline.
+ */
+export function useShuttleRequestSearch(options: SearchShuttleRequestsOptions | null) {
+  const [requests, setRequests] = useState<ShuttleRequest[]>([])
+  const [total, setTotal] = useState(0)
+  const [statusCounts, setStatusCounts] = useState(noCounts)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [version, setVersion] = useState(0)
+
+  // Null skips the search, e.g. while another view is showing
+  const key = options && JSON.stringify(options)
+
+  useEffect(() => {
+    if (!key) return
+    let cancelled = false
+
+    shuttleRequests.search(JSON.parse(key) as SearchShuttleRequestsOptions)
+      .then((page) => {
+        if (cancelled) return
+        setRequests(page.records.map(fromShuttleRequestRecord))
+        setTotal(page.total)
+        setStatusCounts(page.statusCounts)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error('Failed to search shuttle requests:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load requests')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [key, version])
+
+  const refresh = useCallback(() => setVersion((value) => value + 1), [])
+
+  useShuttleRequestChanges(refresh)
+
+  const replace = useCallback((updated: ShuttleRequest) => {
+    setRequests((prev) => prev.map((request) => request.id === updated.id ? updated : request))
+  }, [])
+
+  return { requests, total, statusCounts, loading, error, refresh, replace }
+}
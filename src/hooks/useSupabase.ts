@@ -1,31 +1,61 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '../lib/supabase'
+import { dataBackend } from '../lib/data'
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false
 
 export function useSupabase() {
   const [isConnected, setIsConnected] = useState<boolean | null>(null)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
+    let cancelled = false
+
     const testConnection = async () => {
+      // Local data store: nothing to connect to
+      if (!supabase) {
+        setIsConnected(true)
+        setError(null)
+        return
+      }
+
+      // No network at all, so don't wait for the request to time out
+      if (isOffline()) {
+        setError('You are offline')
+        setIsConnected(false)
+        return
+      }
+
       try {
         // Test the connection by getting the current user
         const { error } = await supabase.auth.getUser()
-        
+
         if (error && error.message !== 'Auth session missing!') {
           throw error
         }
-        
+
+        if (cancelled) return
         setIsConnected(true)
         setError(null)
       } catch (err) {
         console.error('Supabase connection error:', err)
+        if (cancelled) return
         setError(err instanceof Error ? err.message : 'Connection failed')
         setIsConnected(false)
       }
     }
 
     testConnection()
+
+    // Check again whenever the browser's network comes or goes
+    window.addEventListener('online', testConnection)
+    window.addEventListener('offline', testConnection)
+    return () => {
+      cancelled = true
+      window.removeEventListener('online', testConnection)
+      window.removeEventListener('offline', testConnection)
+    }
   }, [])
 
-  return { isConnected, error }
+  return { isConnected, error, backend: dataBackend }
 }
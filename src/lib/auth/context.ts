@@ -0,0 +1,15 @@
+import { createContext } from 'react'
+import type { Credentials, SessionUser, SignUpInput, SignUpResult } from './types'
+
+export interface AuthContextValue {
+  user: SessionUser | null
+  // True until the session from a previous visit has been restored
+  loading: boolean
+  isStaff: boolean
+  signIn(credentials: Credentials): Promise<SessionUser>
+  signUp(input: SignUpInput): Promise<SignUpResult>
+  signOut(): Promise<void>
+}
+
+// Provided by components/AuthProvider; read it with hooks/useAuth
+export const AuthContext = createContext<AuthContextValue | null>(null)
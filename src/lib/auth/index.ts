@@ -0,0 +1,17 @@
+import { supabase } from '../supabase'
+import { localDatabase } from '../data'
+import { createLocalAuthProvider } from './local'
+import { createSupabaseAuthProvider } from './supabase'
+import type { AuthProvider } from './types'
+
+export * from './types'
+export { createLocalAuthProvider } from './local'
+export { createSupabaseAuthProvider } from './supabase'
+export { AuthContext, type AuthContextValue } from './context'
+
+// Follows the data backend: Supabase Auth when a project is configured, local accounts otherwise
+export const authProvider: AuthProvider = supabase
+  ? createSupabaseAuthProvider(supabase)
+  : createLocalAuthProvider(localDatabase!, {
+      storage: typeof localStorage === 'undefined' ? null : localStorage
+    })
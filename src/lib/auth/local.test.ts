@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { createLocalDatabase } from '../data/localDb'
+import { createLocalAuthProvider } from './local'
+import type { AuthProvider } from './types'
+
+const memoryStorage = () => {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value)
+    },
+    removeItem: (key: string) => {
+      items.delete(key)
+    }
+  }
+}
+
+const signUp = { email: 'Jo@Example.com ', password: 'correct horse', fullName: 'Jo Rider', phone: '555-0100' }
+
+// The local provider never asks for the address to be confirmed
+const signedUp = async (auth: AuthProvider) => {
+  const result = await auth.signUp(signUp)
+  if (result.status !== 'signed_in') throw new Error(`Expected to be signed in, got ${result.status}`)
+  return result.user
+}
+
+describe('local auth provider', () => {
+  it('signs up a customer and keeps them signed in', async () => {
+    const db = createLocalDatabase()
+    const storage = memoryStorage()
+    const auth = createLocalAuthProvider(db, { storage })
+
+    const user = await signedUp(auth)
+    expect(user).toMatchObject({ email: 'jo@example.com', role: 'customer' })
+    expect(db.read().auth_accounts[0].password_hash).not.toContain('correct horse')
+
+    // A new provider on the same storage, as after a reload
+    expect(await createLocalAuthProvider(db, { storage }).getSessionUser()).toEqual(user)
+  })
+
+  it('claims the profile left by earlier guest bookings', async () => {
+    const db = createLocalDatabase({
+      seed: {
+        users: [{
+          id: 'guest',
+          email: 'jo@example.com',
+          full_name: 'J Rider',
+          phone: '555-0000',
+          role: 'customer',
+          created_at: '2026-03-01T12:00:00.000Z',
+          updated_at: '2026-03-01T12:00:00.000Z'
+        }]
+      }
+    })
+
+    const user = await signedUp(createLocalAuthProvider(db))
+    expect(user.id).toBe('guest')
+    expect(db.read().users).toHaveLength(1)
+  })
+
+  it('refuses a second account for the same email and short passwords', async () => {
+    const auth = createLocalAuthProvider(createLocalDatabase())
+    await auth.signUp(signUp)
+
+    await expect(auth.signUp(signUp)).rejects.toMatchObject({ code: 'email_taken' })
+    await expect(auth.signUp({ ...signUp, email: 'sam@example.com', password: 'short' })).rejects.toMatchObject({ code: 'weak_password' })
+  })
+
+  it('signs in with the right password only', async () => {
+    const storage = memoryStorage()
+    const auth = createLocalAuthProvider(createLocalDatabase(), { storage })
+    await auth.signUp(signUp)
+    await auth.signOut()
+    expect(await auth.getSessionUser()).toBeNull()
+
+    await expect(auth.signIn({ email: 'jo@example.com', password: 'wrong horse' })).rejects.toMatchObject({ code: 'invalid_credentials' })
+    await expect(auth.signIn({ email: ' JO@example.com', password: 'correct horse' })).resolves.toMatchObject({ email: 'jo@example.com' })
+  })
+})
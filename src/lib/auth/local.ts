@@ -0,0 +1,132 @@
+import { newId, nowIso, type LocalDatabase } from '../data/localDb'
+import {
+  AuthError,
+  MIN_PASSWORD_LENGTH,
+  toSessionUser,
+  type AuthProvider,
+  type SessionUser
+} from './types'
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+interface LocalAuthOptions {
+  storage?: KeyValueStorage | null
+  key?: string
+}
+
+const DEFAULT_SESSION_KEY = 'shuttle-forge:session'
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+const hashPassword = async (salt: string, password: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${password}`)))
+
+/**
+ * Auth provider backed by the local database, for development without a
+ * Supabase project. Passwords are salted and hashed, but everything lives in
+ * the browser, so this is not a security boundary.
+ *
+ * The session is just the signed-in user's id, kept in storage so it survives
+ * reloads.
+ */
+export function createLocalAuthProvider(db: LocalDatabase, options: LocalAuthOptions = {}): AuthProvider {
+  const { storage = null, key = DEFAULT_SESSION_KEY } = options
+  const listeners = new Set<(user: SessionUser | null) => void>()
+
+  const userFor = (id: string | null | undefined): SessionUser | null => {
+    if (!id) return null
+    const row = db.read().users.find((user) => user.id === id)
+    return row ? toSessionUser(row) : null
+  }
+
+  const setSession = (user: SessionUser | null) => {
+    if (user) storage?.setItem(key, user.id)
+    else storage?.removeItem(key)
+    listeners.forEach((listener) => listener(user))
+  }
+
+  // Keep other tabs in step
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+      if (event.key === key) listeners.forEach((listener) => listener(userFor(event.newValue)))
+    })
+  }
+
+  return {
+    async getSessionUser() {
+      return userFor(storage?.getItem(key))
+    },
+
+    async signIn({ email, password }) {
+      const normalized = email.trim().toLowerCase()
+      const account = db.read().auth_accounts.find((candidate) => candidate.email === normalized)
+      const user = account && (await hashPassword(account.salt, password)) === account.password_hash
+        ? userFor(account.user_id)
+        : null
+
+      if (!user) throw new AuthError('Email or password is incorrect', 'invalid_credentials')
+
+      setSession(user)
+      return user
+    },
+
+    async signUp({ email, password, fullName, phone }) {
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError(`Use at least ${MIN_PASSWORD_LENGTH} characters`, 'weak_password')
+      }
+
+      const normalized = email.trim().toLowerCase()
+      const salt = newId()
+      const passwordHash = await hashPassword(salt, password)
+
+      const userId = db.transaction((tables) => {
+        if (tables.auth_accounts.some((account) => account.email === normalized)) {
+          throw new AuthError('An account with this email already exists', 'email_taken')
+        }
+
+        const timestamp = nowIso()
+        // Claim the profile left by earlier guest bookings so they show up under the account
+        let userRow = tables.users.find((row) => row.email === normalized)
+        if (userRow) {
+          Object.assign(userRow, { full_name: fullName, phone, updated_at: timestamp })
+        } else {
+          userRow = {
+            id: newId(),
+            email: normalized,
+            full_name: fullName,
+            phone,
+            role: 'customer',
+            created_at: timestamp,
+            updated_at: timestamp
+          }
+          tables.users.push(userRow)
+        }
+
+        tables.auth_accounts.push({
+          user_id: userRow.id,
+          email: normalized,
+          password_hash: passwordHash,
+          salt,
+          created_at: timestamp
+        })
+        return userRow.id
+      })
+
+      const user = userFor(userId)!
+      setSession(user)
+      return { status: 'signed_in', user }
+    },
+
+    async signOut() {
+      setSession(null)
+    },
+
+    onChange(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    }
+  }
+}
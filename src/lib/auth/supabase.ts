@@ -0,0 +1,84 @@
+import type { AuthError as SupabaseAuthError } from '@supabase/supabase-js'
+import type { TypedSupabaseClient } from '../supabase'
+import {
+  AuthError,
+  MIN_PASSWORD_LENGTH,
+  toSessionUser,
+  type AuthProvider,
+  type SessionUser
+} from './types'
+
+const toAuthError = (error: SupabaseAuthError): AuthError => {
+  if (error.code === 'invalid_credentials') return new AuthError('Email or password is incorrect', 'invalid_credentials')
+  if (error.code === 'user_already_exists' || error.code === 'email_exists') {
+    return new AuthError('An account with this email already exists', 'email_taken')
+  }
+  if (error.code === 'weak_password') return new AuthError(error.message, 'weak_password')
+  return new AuthError(error.message, 'backend')
+}
+
+/**
+ * Auth provider backed by Supabase Auth. The matching `users` row is created
+ * by the `handle_new_auth_user` trigger (supabase/migrations/0005_auth_roles.sql),
+ * which copies the name and phone from the sign-up metadata.
+ */
+export function createSupabaseAuthProvider(client: TypedSupabaseClient): AuthProvider {
+  const loadProfile = async (id: string): Promise<SessionUser> => {
+    const { data, error } = await client.from('users').select('*').eq('id', id).maybeSingle()
+    if (error) throw new AuthError(error.message, 'backend')
+    if (!data) throw new AuthError('No profile found for this account', 'backend')
+    return toSessionUser(data)
+  }
+
+  return {
+    async getSessionUser() {
+      const { data, error } = await client.auth.getSession()
+      if (error) throw toAuthError(error)
+      return data.session ? loadProfile(data.session.user.id) : null
+    },
+
+    async signIn({ email, password }) {
+      const { data, error } = await client.auth.signInWithPassword({ email: email.trim().toLowerCase(), password })
+      if (error) throw toAuthError(error)
+      return loadProfile(data.user.id)
+    },
+
+    async signUp({ email, password, fullName, phone }) {
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError(`Use at least ${MIN_PASSWORD_LENGTH} characters`, 'weak_password')
+      }
+
+      const { data, error } = await client.auth.signUp({
+        email: email.trim().toLowerCase(),
+        password,
+        options: { data: { full_name: fullName, phone } }
+      })
+      if (error) throw toAuthError(error)
+
+      // No session means the project requires email confirmation first
+      if (!data.session || !data.user) return { status: 'confirmation_required' }
+      return { status: 'signed_in', user: await loadProfile(data.user.id) }
+    },
+
+    async signOut() {
+      const { error } = await client.auth.signOut()
+      if (error) throw toAuthError(error)
+    },
+
+    onChange(listener) {
+      const { data } = client.auth.onAuthStateChange((event, session) => {
+        if (event === 'SIGNED_OUT' || !session) {
+          listener(null)
+        } else if (event === 'SIGNED_IN' || event === 'USER_UPDATED') {
+          // Supabase runs this callback while holding its auth lock; query after it returns
+          setTimeout(() => {
+            loadProfile(session.user.id)
+              .then(listener)
+              .catch((err) => console.error('Failed to load profile:', err))
+          }, 0)
+        }
+      })
+      return () => data.subscription.unsubscribe()
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import type { UserRole, UserRow } from '../data/types'
+
+/**
+ * Auth - Who is signed in and what they may do
+ *
+ * An `AuthProvider` hides where accounts live (Supabase Auth, or the local
+ * database during development). Either way the signed-in user is described by
+ * their row in the `users` table.
+ */
+
+export type { UserRole }
+
+export interface SessionUser {
+  id: string
+  email: string
+  fullName: string
+  phone: string
+  role: UserRole
+}
+
+export interface Credentials {
+  email: string
+  password: string
+}
+
+export interface SignUpInput extends Credentials {
+  fullName: string
+  phone: string
+}
+
+export type SignUpResult =
+  | { status: 'signed_in'; user: SessionUser }
+  // The backend wants the address confirmed before the first sign-in
+  | { status: 'confirmation_required' }
+
+export interface AuthProvider {
+  /** The user restored from a previous visit, if any. */
+  getSessionUser(): Promise<SessionUser | null>
+  signIn(credentials: Credentials): Promise<SessionUser>
+  signUp(input: SignUpInput): Promise<SignUpResult>
+  signOut(): Promise<void>
+  /** Notifies on sign-in and sign-out, including from other tabs. Returns an unsubscribe function. */
+  onChange(listener: (user: SessionUser | null) => void): () => void
+}
+
+export type AuthErrorCode = 'invalid_credentials' | 'email_taken' | 'weak_password' | 'backend'
+
+export class AuthError extends Error {
+  readonly code: AuthErrorCode
+
+  constructor(message: string, code: AuthErrorCode) {
+    super(message)
+    this.name = 'AuthError'
+    this.code = code
+  }
+}
+
+export const MIN_PASSWORD_LENGTH = 8
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  customer: 'Customer',
+  owner: 'Owner',
+  staff: 'Staff',
+  driver: 'Driver'
+}
+
+/** Owners and staff run the business; everyone else is a customer. */
+export const isStaffRole = (role: UserRole | null | undefined) => role === 'owner' || role === 'staff'
+
+export const toSessionUser = (row: UserRow): SessionUser => ({
+  id: row.id,
+  email: row.email,
+  fullName: row.full_name,
+  phone: row.phone,
+  // Rows stored before roles existed belong to customers
+  role: row.role ?? 'customer'
+})
@@ -0,0 +1,24 @@
+import { EMAIL_PATTERN, PHONE_PATTERN, field, matches, object, required } from '../schema'
+import { MIN_PASSWORD_LENGTH, type Credentials, type SignUpInput } from './types'
+
+/**
+ * Sign-in and sign-up form rules. The provider checks the same things again;
+ * these just let the form explain problems before a round trip.
+ */
+
+const email = field(required('Enter your email'), matches(EMAIL_PATTERN, 'Enter a valid email address'))
+
+export const credentialsSchema = object<Credentials>({
+  email,
+  password: field(required('Enter your password'))
+})
+
+export const signUpSchema = object<SignUpInput>({
+  fullName: field(required('Enter your name')),
+  email,
+  phone: field(required('Enter your phone number'), matches(PHONE_PATTERN, 'Enter a valid phone number')),
+  password: field<string>(
+    required('Choose a password'),
+    (password) => (password.length >= MIN_PASSWORD_LENGTH ? null : `Use at least ${MIN_PASSWORD_LENGTH} characters`)
+  )
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsv, toCsv, unguardFormula } from './csv'
+
+describe('csv', () => {
+  it('quotes only the fields that need it', () => {
+    expect(toCsv([['name', 'notes'], ['Jo', 'Gate code "42", then left'], ['Ana', null]])).toBe(
+      'name,notes\r\nJo,"Gate code ""42"", then left"\r\nAna,\r\n'
+    )
+  })
+
+  it('reads back what it writes', () => {
+    const rows = [['a', 'b,c'], ['line\nbreak', '"quoted"']]
+    expect(parseCsv(toCsv(rows))).toEqual(rows)
+  })
+
+  it('accepts LF endings and a byte order mark, dropping blank lines', () => {
+    expect(parseCsv('﻿a,b\n\n1,\n')).toEqual([['a', 'b'], ['1', '']])
+  })
+
+  it('keeps a file without a final line break', () => {
+    expect(parseCsv('a,b\r\n1,2')).toEqual([['a', 'b'], ['1', '2']])
+  })
+
+  it('refuses a quote that is never closed', () => {
+    expect(() => parseCsv('a,"b\r\n')).toThrow('The file ends inside a quoted field')
+  })
+
+  it('writes text a spreadsheet would run as a formula with a leading apostrophe', () => {
+    expect(toCsv([['=SUM(A1:A9)', '+1 555 0100', '-5', -5, '@cmd', 'a=b']])).toBe(
+      "'=SUM(A1:A9),'+1 555 0100,'-5,-5,'@cmd,a=b\r\n"
+    )
+    expect(toCsv([['=1,2']])).toBe(`"'=1,2"\r\n`)
+  })
+
+  it('takes the apostrophe off again when reading the text back', () => {
+    const texts = ['=SUM(A1:A9)', '+1 555 0100', "'=already quoted", "''@twice", "'plain", 'plain']
+    const [row] = parseCsv(toCsv([texts]))
+
+    expect(row.map(unguardFormula)).toEqual(texts)
+  })
+})
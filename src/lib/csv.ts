@@ -0,0 +1,77 @@
+/**
+ * CSV (RFC 4180) reading and writing for spreadsheets. Fields holding a comma,
+ * quote or line break are quoted, with quotes doubled; lines end in CRLF.
+ * Text that a spreadsheet would run as a formula is written with a leading
+ * apostrophe, so it shows as typed.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined
+
+// What spreadsheets treat as the start of a formula (tab and CR included, as some strip them first).
+// Text that only looks guarded already is guarded again, so unguardFormula gives back what was written.
+const NEEDS_GUARD = /^'*[=+\-@\t\r]/
+
+const FORMULA_GUARD = "'"
+
+const quote = (value: CsvValue) => {
+  const raw = value === null || value === undefined ? '' : String(value)
+  // Numbers are written as numbers; only text can smuggle in a formula
+  const text = typeof value === 'string' && NEEDS_GUARD.test(raw) ? FORMULA_GUARD + raw : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** One line per row, the first usually being the column names. */
+export const toCsv = (rows: readonly (readonly CsvValue[])[]) =>
+  rows.map((row) => row.map(quote).join(',')).join('\r\n') + '\r\n'
+
+/** Removes the apostrophe `toCsv` puts in front of formula-like text, for reading a file back in. */
+export const unguardFormula = (text: string) =>
+  text.startsWith(FORMULA_GUARD) && NEEDS_GUARD.test(text.slice(1)) ? text.slice(1) : text
+
+/**
+ * The rows of a CSV file as arrays of field text. Accepts LF or CRLF line
+ * endings and a leading byte order mark, as spreadsheets save; blank lines
+ * are dropped. Throws on a quote that is never closed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) throw new Error('The file ends inside a quoted field')
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
@@ -0,0 +1,42 @@
+import type { LocalDatabase } from './localDb'
+import { newId, newToken, nowIso } from './localDb'
+import { DataError, type CalendarFeedRepository } from './types'
+
+/**
+ * Calendar feed repository backed by the local database. Feeds can be managed
+ * but not subscribed to: there is no server to answer calendar apps, so
+ * `feedUrl` is always null and owners export .ics files instead.
+ */
+export function createLocalCalendarFeedRepository(db: LocalDatabase): CalendarFeedRepository {
+  return {
+    async list() {
+      return db.read().calendar_feeds.sort((a, b) => a.created_at.localeCompare(b.created_at))
+    },
+
+    async create(input) {
+      return db.transaction((tables) => {
+        if (input.driver_id && !tables.drivers.some((driver) => driver.id === input.driver_id)) {
+          throw new DataError(`Driver ${input.driver_id} not found`, 'not_found')
+        }
+
+        const row = {
+          id: input.id ?? newId(),
+          token: newToken(),
+          label: input.label.trim(),
+          driver_id: input.driver_id ?? null,
+          created_at: input.created_at ?? nowIso()
+        }
+        tables.calendar_feeds.push(row)
+        return row
+      })
+    },
+
+    async remove(id) {
+      db.transaction((tables) => {
+        tables.calendar_feeds = tables.calendar_feeds.filter((feed) => feed.id !== id)
+      })
+    },
+
+    feedUrl: () => null
+  }
+}
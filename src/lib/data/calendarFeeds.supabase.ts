@@ -0,0 +1,53 @@
+import type { TypedSupabaseClient } from '../supabase'
+import { toDataError } from './shuttleRequests.supabase'
+import type { CalendarFeedRepository } from './types'
+
+interface FeedEndpoint {
+  url: string
+  anonKey: string
+}
+
+/**
+ * Calendar feed repository backed by Supabase. Only owners and staff can list
+ * or change feeds. Calendar apps fetch a feed straight from the
+ * `calendar_feed` database function, which checks the token itself (see
+ * supabase/migrations/0009_calendar_feeds.sql).
+ */
+export function createSupabaseCalendarFeedRepository(
+  client: TypedSupabaseClient,
+  endpoint: FeedEndpoint
+): CalendarFeedRepository {
+  return {
+    async list() {
+      const { data, error } = await client
+        .from('calendar_feeds')
+        .select('*')
+        .order('created_at')
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async create(input) {
+      const { data, error } = await client
+        .from('calendar_feeds')
+        .insert({ ...input, label: input.label.trim() })
+        .select('*')
+        .single()
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async remove(id) {
+      const { error } = await client.from('calendar_feeds').delete().eq('id', id)
+      if (error) throw toDataError(error)
+    },
+
+    // Calendar apps can't send headers, so the anon key rides along in the query string
+    feedUrl(feed) {
+      const params = new URLSearchParams({ token: feed.token, apikey: endpoint.anonKey })
+      return `${endpoint.url}/rest/v1/rpc/calendar_feed?${params}`
+    }
+  }
+}
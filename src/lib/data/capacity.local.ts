@@ -0,0 +1,93 @@
+import { addDays } from '../dates'
+import { defaultCapacitySettings } from '../domain/capacity'
+import type { LocalDatabase, LocalTables } from './localDb'
+import { nowIso } from './localDb'
+import { dayAvailabilityOf } from './shuttleRequests.local'
+import { DataError, type CapacityRepository, type CapacitySettingsRow } from './types'
+
+// Longest range availability() will answer for in one call
+const MAX_AVAILABILITY_DAYS = 400
+
+const settingsRow = (tables: LocalTables): CapacitySettingsRow => {
+  const defaults = defaultCapacitySettings()
+  return tables.capacity_settings[0] ?? {
+    id: 1,
+    unit: defaults.unit,
+    daily_limit: defaults.dailyLimit,
+    updated_at: nowIso()
+  }
+}
+
+// Every `YYYY-MM-DD` from `from` to `to` inclusive
+function daysBetween(from: string, to: string): string[] {
+  const days: string[] = []
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    days.push(day)
+    if (days.length > MAX_AVAILABILITY_DAYS) {
+      throw new DataError(`Availability is limited to ${MAX_AVAILABILITY_DAYS} days at a time`, 'invalid')
+    }
+  }
+  return days
+}
+
+/**
+ * Capacity repository backed by the local database.
+ */
+export function createLocalCapacityRepository(db: LocalDatabase): CapacityRepository {
+  return {
+    async getSettings() {
+      return settingsRow(db.read())
+    },
+
+    async updateSettings(input) {
+      if (input.daily_limit !== undefined && !(input.daily_limit > 0)) {
+        throw new DataError('The daily limit must be above zero', 'invalid')
+      }
+
+      return db.transaction((tables) => {
+        const row = { ...settingsRow(tables), ...input, id: 1, updated_at: input.updated_at ?? nowIso() }
+        tables.capacity_settings = [row]
+        return row
+      })
+    },
+
+    async listBlackouts(from) {
+      return db.read().blackout_dates
+        .filter((row) => !from || row.day >= from)
+        .sort((a, b) => a.day.localeCompare(b.day))
+    },
+
+    async addBlackout(day, reason = null) {
+      return db.transaction((tables) => {
+        if (tables.blackout_dates.some((row) => row.day === day)) {
+          throw new DataError(`${day} is already a blackout date`, 'conflict')
+        }
+
+        const row = { day, reason: reason?.trim() || null, created_at: nowIso() }
+        tables.blackout_dates.push(row)
+        return row
+      })
+    },
+
+    async removeBlackout(day) {
+      db.transaction((tables) => {
+        tables.blackout_dates = tables.blackout_dates.filter((row) => row.day !== day)
+      })
+    },
+
+    async availability(from, to) {
+      const tables = db.read()
+
+      return daysBetween(from, to).map((day) => {
+        const availability = dayAvailabilityOf(tables, day)
+        return {
+          day,
+          booked: availability.booked,
+          daily_limit: availability.limit,
+          blackout: availability.blackout,
+          reason: availability.reason
+        }
+      })
+    }
+  }
+}
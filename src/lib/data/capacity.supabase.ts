@@ -0,0 +1,75 @@
+import { defaultCapacitySettings } from '../domain/capacity'
+import type { TypedSupabaseClient } from '../supabase'
+import { toDataError } from './shuttleRequests.supabase'
+import type { CapacityRepository } from './types'
+
+/**
+ * Capacity repository backed by Supabase. Anyone can read the settings and
+ * blackout dates; only owners and staff can change them. Day totals come from
+ * the `day_availability` function so guests never see other people's requests
+ * (see supabase/migrations/0008_capacity.sql).
+ */
+export function createSupabaseCapacityRepository(client: TypedSupabaseClient): CapacityRepository {
+  return {
+    async getSettings() {
+      const { data, error } = await client
+        .from('capacity_settings')
+        .select('*')
+        .eq('id', 1)
+        .maybeSingle()
+
+      if (error) throw toDataError(error)
+      if (data) return data
+
+      // The migration inserts the row, but fall back rather than fail if it has been removed
+      const defaults = defaultCapacitySettings()
+      return { id: 1, unit: defaults.unit, daily_limit: defaults.dailyLimit, updated_at: new Date().toISOString() }
+    },
+
+    async updateSettings(input) {
+      const { data, error } = await client
+        .from('capacity_settings')
+        .upsert({ ...input, id: 1, updated_at: new Date().toISOString() })
+        .select('*')
+        .single()
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async listBlackouts(from) {
+      let query = client
+        .from('blackout_dates')
+        .select('*')
+        .order('day')
+
+      if (from) query = query.gte('day', from)
+
+      const { data, error } = await query
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async addBlackout(day, reason = null) {
+      const { data, error } = await client
+        .from('blackout_dates')
+        .insert({ day, reason: reason?.trim() || null })
+        .select('*')
+        .single()
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async removeBlackout(day) {
+      const { error } = await client.from('blackout_dates').delete().eq('day', day)
+      if (error) throw toDataError(error)
+    },
+
+    async availability(from, to) {
+      const { data, error } = await client.rpc('day_availability', { p_from: from, p_to: to })
+      if (error) throw toDataError(error)
+      return data
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import type { LocalDatabase, LocalTables } from './localDb'
+import { newId, nowIso } from './localDb'
+import { joinDriverRecord } from './shuttleRequests.local'
+import { DataError, type DriverRepository } from './types'
+
+/**
+ * Driver repository backed by the local database.
+ */
+export function createLocalDriverRepository(db: LocalDatabase): DriverRepository {
+  const requireDriver = (tables: LocalTables, id: string) => {
+    const driver = tables.drivers.find((row) => row.id === id)
+    if (!driver) throw new DataError(`Driver ${id} not found`, 'not_found')
+    return driver
+  }
+
+  return {
+    async list(options = {}) {
+      const tables = db.read()
+
+      return tables.drivers
+        .filter((row) => !options.activeOnly || row.active)
+        .sort((a, b) => a.full_name.localeCompare(b.full_name))
+        .map((row) => joinDriverRecord(tables, row.id)!)
+    },
+
+    async get(id) {
+      return joinDriverRecord(db.read(), id)
+    },
+
+    async forUser(userId) {
+      const tables = db.read()
+      const driver = tables.drivers.find((row) => row.user_id === userId && row.active)
+      return driver ? joinDriverRecord(tables, driver.id) : null
+    },
+
+    async create(input) {
+      return db.transaction((tables) => {
+        const timestamp = nowIso()
+        const id = input.id ?? newId()
+        tables.drivers.push({
+          id,
+          full_name: input.full_name,
+          phone: input.phone,
+          email: input.email ?? null,
+          can_drive_manual: input.can_drive_manual ?? false,
+          active: input.active ?? true,
+          working_days: input.working_days ?? [1, 2, 3, 4, 5],
+          notes: input.notes ?? null,
+          user_id: input.user_id ?? null,
+          created_at: input.created_at ?? timestamp,
+          updated_at: input.updated_at ?? timestamp
+        })
+        return joinDriverRecord(tables, id)!
+      })
+    },
+
+    async update(id, input) {
+      return db.transaction((tables) => {
+        const driver = requireDriver(tables, id)
+        Object.assign(driver, input, { id, updated_at: input.updated_at ?? nowIso() })
+        return joinDriverRecord(tables, id)!
+      })
+    },
+
+    async addTimeOff(driverId, day, reason = null) {
+      return db.transaction((tables) => {
+        requireDriver(tables, driverId)
+        if (tables.driver_time_off.some((off) => off.driver_id === driverId && off.day === day)) {
+          throw new DataError(`Driver ${driverId} is already off on ${day}`, 'conflict')
+        }
+
+        tables.driver_time_off.push({
+          id: newId(),
+          driver_id: driverId,
+          day,
+          reason: reason?.trim() || null,
+          created_at: nowIso()
+        })
+        return joinDriverRecord(tables, driverId)!
+      })
+    },
+
+    async removeTimeOff(driverId, timeOffId) {
+      return db.transaction((tables) => {
+        requireDriver(tables, driverId)
+        tables.driver_time_off = tables.driver_time_off.filter(
+          (off) => !(off.id === timeOffId && off.driver_id === driverId)
+        )
+        return joinDriverRecord(tables, driverId)!
+      })
+    }
+  }
+}
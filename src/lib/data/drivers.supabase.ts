@@ -0,0 +1,95 @@
+import type { TypedSupabaseClient } from '../supabase'
+import { toDataError } from './shuttleRequests.supabase'
+import { DataError, type DriverRecord, type DriverRepository } from './types'
+
+const DRIVER_SELECT = '*, time_off:driver_time_off(*)'
+
+/**
+ * Driver repository backed by Supabase. Only owners and staff can read or
+ * change drivers (see supabase/migrations/0007_drivers.sql); a driver can
+ * read their own record (0026_driver_accounts.sql).
+ */
+export function createSupabaseDriverRepository(client: TypedSupabaseClient): DriverRepository {
+  const get = async (id: string): Promise<DriverRecord | null> => {
+    const { data, error } = await client
+      .from('drivers')
+      .select(DRIVER_SELECT)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw toDataError(error)
+    return data
+  }
+
+  const getOrThrow = async (id: string): Promise<DriverRecord> => {
+    const record = await get(id)
+    if (!record) throw new DataError(`Driver ${id} not found`, 'not_found')
+    return record
+  }
+
+  return {
+    async list(options = {}) {
+      let query = client
+        .from('drivers')
+        .select(DRIVER_SELECT)
+        .order('full_name')
+
+      if (options.activeOnly) query = query.eq('active', true)
+
+      const { data, error } = await query
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    get,
+
+    // Row level security lets a driver read their own record
+    async forUser(userId) {
+      const { data, error } = await client
+        .from('drivers')
+        .select(DRIVER_SELECT)
+        .eq('user_id', userId)
+        .eq('active', true)
+        .maybeSingle()
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async create(input) {
+      const { data, error } = await client.from('drivers').insert(input).select('id').single()
+      if (error) throw toDataError(error)
+      return getOrThrow(data.id)
+    },
+
+    async update(id, input) {
+      const { error } = await client
+        .from('drivers')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) throw toDataError(error)
+      return getOrThrow(id)
+    },
+
+    async addTimeOff(driverId, day, reason = null) {
+      const { error } = await client
+        .from('driver_time_off')
+        .insert({ driver_id: driverId, day, reason: reason?.trim() || null })
+
+      if (error) throw toDataError(error)
+      return getOrThrow(driverId)
+    },
+
+    async removeTimeOff(driverId, timeOffId) {
+      const { error } = await client
+        .from('driver_time_off')
+        .delete()
+        .eq('id', timeOffId)
+        .eq('driver_id', driverId)
+
+      if (error) throw toDataError(error)
+      return getOrThrow(driverId)
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { SUPABASE_CONFIG } from '../../config/supabase'
+import { createEventBus } from '../eventBus'
+import { notifier, withNotifications } from '../notifications'
+import { supabase } from '../supabase'
+import { createLocalCalendarFeedRepository } from './calendarFeeds.local'
+import { createSupabaseCalendarFeedRepository } from './calendarFeeds.supabase'
+import { createLocalCapacityRepository } from './capacity.local'
+import { createSupabaseCapacityRepository } from './capacity.supabase'
+import { createLocalInspectionRepository } from './inspections.local'
+import { createSupabaseInspectionRepository } from './inspections.supabase'
+import { createLocalDatabase } from './localDb'
+import { createLocalDriverRepository } from './drivers.local'
+import { createSupabaseDriverRepository } from './drivers.supabase'
+import { createLocalPaymentRepository } from './payments.local'
+import { createSupabasePaymentRepository } from './payments.supabase'
+import { createLocalRequestRuleRepository } from './requestRules.local'
+import { createSupabaseRequestRuleRepository } from './requestRules.supabase'
+import { DEVELOPMENT_SEED } from './seed'
+import { createLocalShuttleRequestRepository } from './shuttleRequests.local'
+import { createSupabaseShuttleRequestRepository } from './shuttleRequests.supabase'
+import type {
+  CalendarFeedRepository,
+  CapacityRepository,
+  DriverRepository,
+  InspectionRepository,
+  PaymentRepository,
+  RequestRuleRepository,
+  ShuttleRequestChange,
+  ShuttleRequestRepository
+} from './types'
+
+export * from './types'
+export { createLocalDatabase } from './localDb'
+export { createLocalShuttleRequestRepository } from './shuttleRequests.local'
+export { createSupabaseShuttleRequestRepository } from './shuttleRequests.supabase'
+export { createLocalDriverRepository } from './drivers.local'
+export { createSupabaseDriverRepository } from './drivers.supabase'
+export { createLocalCapacityRepository } from './capacity.local'
+export { createSupabaseCapacityRepository } from './capacity.supabase'
+export { createLocalCalendarFeedRepository } from './calendarFeeds.local'
+export { createSupabaseCalendarFeedRepository } from './calendarFeeds.supabase'
+export { createLocalRequestRuleRepository } from './requestRules.local'
+export { createSupabaseRequestRuleRepository } from './requestRules.supabase'
+export { createLocalPaymentRepository } from './payments.local'
+export { createSupabasePaymentRepository } from './payments.supabase'
+export { createLocalInspectionRepository } from './inspections.local'
+export { createSupabaseInspectionRepository } from './inspections.supabase'
+
+export type DataBackend = 'supabase' | 'local'
+
+export const dataBackend: DataBackend = supabase ? 'supabase' : 'local'
+
+// Only created when running without Supabase; persists to localStorage so data survives reloads
+export const localDatabase = supabase
+  ? null
+  : createLocalDatabase({
+      storage: typeof localStorage === 'undefined' ? null : localStorage,
+      seed: DEVELOPMENT_SEED
+    })
+
+// Shared with other tabs; payments announce here too, as they change the request
+const localRequestChanges = createEventBus<ShuttleRequestChange>({ channel: 'shuttle-forge:shuttle-requests' })
+
+// Customers and the owner hear about bookings and status changes. Supabase
+// queues the messages itself for every change (0024_notification_events.sql);
+// locally the client that made the change sends them
+export const shuttleRequests: ShuttleRequestRepository = supabase
+  ? createSupabaseShuttleRequestRepository(supabase)
+  : withNotifications(createLocalShuttleRequestRepository(localDatabase!, localRequestChanges), notifier)
+
+export const drivers: DriverRepository = supabase
+  ? createSupabaseDriverRepository(supabase)
+  : createLocalDriverRepository(localDatabase!)
+
+export const capacity: CapacityRepository = supabase
+  ? createSupabaseCapacityRepository(supabase)
+  : createLocalCapacityRepository(localDatabase!)
+
+export const calendarFeeds: CalendarFeedRepository = supabase
+  ? createSupabaseCalendarFeedRepository(supabase, SUPABASE_CONFIG)
+  : createLocalCalendarFeedRepository(localDatabase!)
+
+export const requestRules: RequestRuleRepository = supabase
+  ? createSupabaseRequestRuleRepository(supabase)
+  : createLocalRequestRuleRepository(localDatabase!)
+
+export const payments: PaymentRepository = supabase
+  ? createSupabasePaymentRepository(supabase)
+  : createLocalPaymentRepository(localDatabase!, localRequestChanges)
+
+export const inspections: InspectionRepository = supabase
+  ? createSupabaseInspectionRepository(supabase)
+  : createLocalInspectionRepository(localDatabase!, typeof localStorage === 'undefined' ? null : localStorage)
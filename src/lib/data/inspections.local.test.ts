@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { createEventBus } from '../eventBus'
+import { createLocalInspectionRepository } from './inspections.local'
+import { createLocalDatabase } from './localDb'
+import { createLocalShuttleRequestRepository } from './shuttleRequests.local'
+import type { RecordInspectionInput, ShuttleRequestChange } from './types'
+
+const memoryStorage = () => {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value)
+    },
+    removeItem: (key: string) => {
+      items.delete(key)
+    }
+  }
+}
+
+const setup = async () => {
+  const db = createLocalDatabase()
+  const storage = memoryStorage()
+  const shuttleRequests = createLocalShuttleRequestRepository(db, createEventBus<ShuttleRequestChange>())
+  const record = await shuttleRequests.create({
+    user: { email: 'jo@example.com', full_name: 'Jo Rider', phone: '555-0100' },
+    request: { parking_location_name: 'Trailhead', dropoff_location_name: 'Takeout', dropoff_day: '2026-03-09', arrival_time: '10:00' },
+    vehicles: [{ make: 'Toyota', model: 'Tacoma', year: '2020', transmission: 'automatic' }]
+  })
+
+  const inspection = (overrides: Partial<RecordInspectionInput> = {}): RecordInspectionInput => ({
+    vehicle_id: record.vehicles[0].id,
+    shuttle_request_id: record.id,
+    stage: 'pickup',
+    odometer: 42000,
+    fuel_eighths: 6,
+    inspector: 'Sam Driver',
+    ...overrides
+  })
+
+  const confirm = () => shuttleRequests.transitionStatus(record.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+
+  return { storage, record, inspection, confirm, inspections: createLocalInspectionRepository(db, storage) }
+}
+
+const photo = () => new Blob([new Uint8Array([1, 2, 3])], { type: 'image/jpeg' })
+
+describe('local inspection repository', () => {
+  it('records pickup then delivery, keeping photos readable', async () => {
+    const { record, inspection, confirm, inspections } = await setup()
+    await confirm()
+
+    const pickup = await inspections.record(inspection(), [photo()])
+    await inspections.record(inspection({ stage: 'delivery', odometer: 42090, inspector: ' Sam Driver ' }), [])
+
+    expect((await inspections.listForRequest(record.id)).map((row) => [row.stage, row.inspector])).toEqual([
+      ['pickup', 'Sam Driver'],
+      ['delivery', 'Sam Driver']
+    ])
+    expect(await inspections.photoUrls(pickup.photos)).toEqual(['data:image/jpeg;base64,AQID'])
+  })
+
+  it('refuses a delivery before pickup, each stage twice, or a lower odometer', async () => {
+    const { inspection, confirm, inspections } = await setup()
+    await confirm()
+
+    await expect(inspections.record(inspection({ stage: 'delivery' }), [])).rejects.toMatchObject({ code: 'invalid' })
+    await inspections.record(inspection(), [])
+    await expect(inspections.record(inspection(), [])).rejects.toMatchObject({ code: 'conflict' })
+    await expect(inspections.record(inspection({ stage: 'delivery', odometer: 41000 }), [])).rejects.toMatchObject({ code: 'invalid' })
+  })
+
+  it('removes the photos of an inspection it refuses', async () => {
+    const { storage, inspection, inspections } = await setup()
+
+    // Still pending, so not inspectable yet
+    await expect(inspections.record(inspection(), [photo(), photo()])).rejects.toMatchObject({ code: 'invalid' })
+    expect(storage.items.size).toBe(0)
+  })
+})
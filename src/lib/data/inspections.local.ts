@@ -0,0 +1,116 @@
+import { INSPECTABLE_STATUSES } from '../domain/inspections'
+import type { LocalDatabase } from './localDb'
+import { newId, nowIso } from './localDb'
+import { DataError, type InspectionRepository, type VehicleInspectionRow } from './types'
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+// Photos are too big for the database document, so each gets its own key
+const PHOTO_KEY_PREFIX = 'shuttle-forge:inspection-photo:'
+const PHOTO_PATH_PREFIX = 'local:'
+
+const toDataUrl = async (photo: Blob) => {
+  const bytes = new Uint8Array(await photo.arrayBuffer())
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return `data:${photo.type || 'image/jpeg'};base64,${btoa(binary)}`
+}
+
+/**
+ * Inspection repository backed by the local database, checking the same
+ * things as the check_vehicle_inspection trigger in
+ * supabase/migrations/0016_vehicle_inspections.sql. Photos go to `storage`
+ * as data URLs, or are kept in memory without one.
+ */
+export function createLocalInspectionRepository(
+  db: LocalDatabase,
+  storage: KeyValueStorage | null = null
+): InspectionRepository {
+  const memory = new Map<string, string>()
+
+  const savePhoto = (id: string, dataUrl: string) => {
+    if (!storage) return void memory.set(id, dataUrl)
+    try {
+      storage.setItem(PHOTO_KEY_PREFIX + id, dataUrl)
+    } catch (err) {
+      console.error('Failed to save inspection photo:', err)
+      throw new DataError('There is no room left on this device for more photos', 'backend')
+    }
+  }
+
+  const removePhoto = (id: string) => {
+    memory.delete(id)
+    storage?.removeItem(PHOTO_KEY_PREFIX + id)
+  }
+
+  return {
+    async listForRequest(requestId) {
+      return db.read().vehicle_inspections
+        .filter((inspection) => inspection.shuttle_request_id === requestId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    },
+
+    async record(input, photos) {
+      // Stored first, like the Supabase uploads, and removed again if the row is refused
+      const photoIds: string[] = []
+      try {
+        for (const photo of photos) {
+          const id = newId()
+          savePhoto(id, await toDataUrl(photo))
+          photoIds.push(id)
+        }
+
+        return db.transaction((tables) => {
+          const request = tables.shuttle_requests.find((row) => row.id === input.shuttle_request_id)
+          const vehicle = tables.vehicles.find(
+            (row) => row.id === input.vehicle_id && row.shuttle_request_id === input.shuttle_request_id
+          )
+          if (!request || !vehicle) throw new DataError(`Vehicle ${input.vehicle_id} is not on request ${input.shuttle_request_id}`, 'not_found')
+          if (!INSPECTABLE_STATUSES.includes(request.status)) {
+            throw new DataError(`A ${request.status} job can't be inspected`, 'invalid')
+          }
+
+          const earlier = tables.vehicle_inspections.filter((row) => row.vehicle_id === input.vehicle_id)
+          const done = earlier.find((row) => row.stage === input.stage)
+          if (done) throw new DataError(`This vehicle's ${input.stage} inspection was already recorded by ${done.inspector}`, 'conflict')
+
+          const pickup = earlier.find((row) => row.stage === 'pickup')
+          if (input.stage === 'delivery' && !pickup) throw new DataError('Record the pickup inspection first', 'invalid')
+          if (pickup && input.odometer < pickup.odometer) {
+            throw new DataError(`The odometer can't be lower than the ${pickup.odometer} recorded at pickup`, 'invalid')
+          }
+          if (!Number.isInteger(input.fuel_eighths) || input.fuel_eighths < 0 || input.fuel_eighths > 8) {
+            throw new DataError('Fuel level must be between 0 and 8 eighths', 'invalid')
+          }
+          if (!input.inspector.trim()) throw new DataError('Say who did the inspection', 'invalid')
+
+          const row: VehicleInspectionRow = {
+            id: newId(),
+            vehicle_id: input.vehicle_id,
+            shuttle_request_id: input.shuttle_request_id,
+            stage: input.stage,
+            odometer: input.odometer,
+            fuel_eighths: input.fuel_eighths,
+            damage: input.damage ?? [],
+            notes: input.notes ?? null,
+            photos: photoIds.map((id) => PHOTO_PATH_PREFIX + id),
+            inspector: input.inspector.trim(),
+            created_at: nowIso()
+          }
+          tables.vehicle_inspections.push(row)
+          return row
+        })
+      } catch (err) {
+        photoIds.forEach(removePhoto)
+        throw err
+      }
+    },
+
+    async photoUrls(paths) {
+      return paths.map((path) => {
+        const id = path.slice(PHOTO_PATH_PREFIX.length)
+        return memory.get(id) ?? storage?.getItem(PHOTO_KEY_PREFIX + id) ?? ''
+      })
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { TypedSupabaseClient } from '../supabase'
+import { toDataError } from './shuttleRequests.supabase'
+import { DataError, type InspectionRepository } from './types'
+
+const PHOTO_BUCKET = 'vehicle-inspections'
+
+// Long enough to read through the report, or print it
+const PHOTO_URL_SECONDS = 60 * 60
+
+/**
+ * Inspection repository backed by Supabase. Photos go to the private
+ * `vehicle-inspections` storage bucket before the row is inserted, and are
+ * removed again if the insert is refused; the check_vehicle_inspection
+ * trigger does the checking (see supabase/migrations/0016_vehicle_inspections.sql).
+ */
+export function createSupabaseInspectionRepository(client: TypedSupabaseClient): InspectionRepository {
+  const bucket = () => client.storage.from(PHOTO_BUCKET)
+
+  return {
+    async listForRequest(requestId) {
+      const { data, error } = await client
+        .from('vehicle_inspections')
+        .select('*')
+        .eq('shuttle_request_id', requestId)
+        .order('created_at')
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async record(input, photos) {
+      const paths: string[] = []
+      for (const photo of photos) {
+        const path = `${input.shuttle_request_id}/${input.vehicle_id}/${input.stage}/${crypto.randomUUID()}.jpg`
+        const { error } = await bucket().upload(path, photo, { contentType: photo.type || 'image/jpeg' })
+        if (error) {
+          if (paths.length > 0) await bucket().remove(paths)
+          throw new DataError(`Failed to upload a photo: ${error.message}`, 'backend')
+        }
+        paths.push(path)
+      }
+
+      const { data, error } = await client
+        .from('vehicle_inspections')
+        .insert({ ...input, photos: paths })
+        .select('*')
+        .single()
+
+      if (error) {
+        if (paths.length > 0) await bucket().remove(paths)
+        throw toDataError(error)
+      }
+      return data
+    },
+
+    async photoUrls(paths) {
+      if (paths.length === 0) return []
+      const { data, error } = await bucket().createSignedUrls(paths, PHOTO_URL_SECONDS)
+
+      if (error) throw new DataError(error.message, 'backend')
+      return data.map((entry) => entry.signedUrl ?? '')
+    }
+  }
+}
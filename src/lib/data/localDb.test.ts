@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { createLocalDatabase } from './localDb'
+import type { UserRow } from './types'
+
+const memoryStorage = () => {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value)
+    }
+  }
+}
+
+const user = (id: string): UserRow => ({
+  id,
+  email: `${id}@example.com`,
+  full_name: 'Jo Rider',
+  phone: '555-0100',
+  role: 'customer',
+  created_at: '2026-03-01T12:00:00.000Z',
+  updated_at: '2026-03-01T12:00:00.000Z'
+})
+
+describe('createLocalDatabase', () => {
+  it('commits a transaction and mirrors it to storage', () => {
+    const storage = memoryStorage()
+    const db = createLocalDatabase({ storage, key: 'test' })
+
+    db.transaction((tables) => {
+      tables.users.push(user('user-1'))
+    })
+
+    expect(db.read().users.map((row) => row.id)).toEqual(['user-1'])
+    expect(JSON.parse(storage.items.get('test')!).users).toHaveLength(1)
+  })
+
+  it('rolls back every table when the transaction throws', () => {
+    const storage = memoryStorage()
+    const db = createLocalDatabase({ storage, key: 'test', seed: { users: [user('user-1')] } })
+
+    expect(() => db.transaction((tables) => {
+      tables.users.push(user('user-2'))
+      tables.shuttle_requests = []
+      throw new Error('Nope')
+    })).toThrow('Nope')
+
+    expect(db.read().users.map((row) => row.id)).toEqual(['user-1'])
+    expect(storage.items.has('test')).toBe(false)
+  })
+
+  it('hands out snapshots that do not write through', () => {
+    const db = createLocalDatabase({ seed: { users: [user('user-1')] } })
+
+    db.read().users.pop()
+    expect(db.read().users).toHaveLength(1)
+  })
+
+  it('picks up what another tab wrote before reading or writing', () => {
+    const storage = memoryStorage()
+    const first = createLocalDatabase({ storage, key: 'test' })
+    const second = createLocalDatabase({ storage, key: 'test' })
+
+    first.transaction((tables) => {
+      tables.users.push(user('user-1'))
+    })
+    second.transaction((tables) => {
+      tables.users.push(user('user-2'))
+    })
+
+    expect(first.read().users.map((row) => row.id)).toEqual(['user-1', 'user-2'])
+  })
+
+  it('loads what storage holds in preference to the seed', () => {
+    const storage = memoryStorage()
+    storage.setItem('test', JSON.stringify({ users: [user('stored')] }))
+
+    const db = createLocalDatabase({ storage, key: 'test', seed: { users: [user('seeded')] } })
+    expect(db.read().users.map((row) => row.id)).toEqual(['stored'])
+    // Tables missing from the stored document come back empty
+    expect(db.read().vehicles).toEqual([])
+  })
+})
@@ -0,0 +1,169 @@
+import type {
+  BlackoutDateRow,
+  CalendarFeedRow,
+  CapacitySettingsRow,
+  DriverRow,
+  DriverTimeOffRow,
+  InvoiceRow,
+  JobCheckInRow,
+  PaymentRow,
+  RequestRuleActionRow,
+  RequestRuleSettingsRow,
+  ShuttleRequestRow,
+  StatusEventRow,
+  UserRow,
+  VehicleInspectionRow,
+  VehicleLockboxCodeRow,
+  VehicleRow
+} from './types'
+
+/**
+ * Local Database - Browser-side stand-in for the Supabase tables
+ *
+ * Rows live in memory and, when a Storage is supplied, are mirrored to it as a
+ * single JSON document. Writes go through `transaction`, which works on a copy
+ * of the tables and only commits if the callback returns without throwing, so
+ * multi-table writes are all-or-nothing.
+ *
+ * Other tabs write to the same storage key, so reads and transactions first
+ * pick up the stored document if it has changed since this tab last saw it.
+ */
+
+// Stands in for Supabase Auth's own (private) accounts table
+export interface LocalAuthAccount {
+  user_id: string
+  email: string
+  // SHA-256 of `${salt}:${password}`, hex encoded
+  password_hash: string
+  salt: string
+  created_at: string
+}
+
+export interface LocalTables {
+  users: UserRow[]
+  shuttle_requests: ShuttleRequestRow[]
+  vehicles: VehicleRow[]
+  vehicle_lockbox_codes: VehicleLockboxCodeRow[]
+  request_status_events: StatusEventRow[]
+  auth_accounts: LocalAuthAccount[]
+  drivers: DriverRow[]
+  driver_time_off: DriverTimeOffRow[]
+  // At most one row, as in Supabase
+  capacity_settings: CapacitySettingsRow[]
+  blackout_dates: BlackoutDateRow[]
+  calendar_feeds: CalendarFeedRow[]
+  // At most one row, as in Supabase
+  request_rule_settings: RequestRuleSettingsRow[]
+  request_rule_actions: RequestRuleActionRow[]
+  payments: PaymentRow[]
+  invoices: InvoiceRow[]
+  job_check_ins: JobCheckInRow[]
+  vehicle_inspections: VehicleInspectionRow[]
+}
+
+export interface LocalDatabase {
+  /** Returns a snapshot; mutating it does not affect stored data. */
+  read(): LocalTables
+  transaction<T>(fn: (tables: LocalTables) => T): T
+  reset(tables?: Partial<LocalTables>): void
+}
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+interface LocalDatabaseOptions {
+  storage?: KeyValueStorage | null
+  key?: string
+  // Used when storage holds nothing yet
+  seed?: Partial<LocalTables>
+}
+
+const DEFAULT_STORAGE_KEY = 'shuttle-forge:db'
+
+const emptyTables = (): LocalTables => ({
+  users: [],
+  shuttle_requests: [],
+  vehicles: [],
+  vehicle_lockbox_codes: [],
+  request_status_events: [],
+  auth_accounts: [],
+  drivers: [],
+  driver_time_off: [],
+  capacity_settings: [],
+  blackout_dates: [],
+  calendar_feeds: [],
+  request_rule_settings: [],
+  request_rule_actions: [],
+  payments: [],
+  invoices: [],
+  job_check_ins: [],
+  vehicle_inspections: []
+})
+
+// Tables added after data was first stored come back empty rather than undefined
+const withAllTables = (tables: Partial<LocalTables>): LocalTables => ({
+  ...emptyTables(),
+  ...structuredClone(tables)
+})
+
+export function createLocalDatabase(options: LocalDatabaseOptions = {}): LocalDatabase {
+  const { storage = null, key = DEFAULT_STORAGE_KEY, seed } = options
+
+  // The stored document this tab last read or wrote
+  let lastRaw: string | null = null
+
+  const load = (): LocalTables => {
+    const raw = storage?.getItem(key) ?? null
+    lastRaw = raw
+    if (raw) {
+      try {
+        return withAllTables(JSON.parse(raw))
+      } catch (err) {
+        console.error('Ignoring unreadable local database:', err)
+      }
+    }
+    return withAllTables(seed ?? {})
+  }
+
+  let tables = load()
+
+  const sync = () => {
+    const raw = storage?.getItem(key) ?? null
+    if (raw && raw !== lastRaw) tables = load()
+  }
+
+  const commit = (next: LocalTables) => {
+    tables = next
+    lastRaw = JSON.stringify(tables)
+    storage?.setItem(key, lastRaw)
+  }
+
+  return {
+    read: () => {
+      sync()
+      return structuredClone(tables)
+    },
+    transaction: (fn) => {
+      sync()
+      const draft = structuredClone(tables)
+      const result = fn(draft)
+      commit(draft)
+      return result
+    },
+    reset: (next = {}) => commit(withAllTables(next))
+  }
+}
+
+export const nowIso = () => new Date().toISOString()
+
+export const newId = () => crypto.randomUUID()
+
+// Like the calendar_feeds.token default: 64 hex characters, unguessable
+export const newToken = () => `${newId()}${newId()}`.replace(/-/g, '')
+
+// Same alphabet as the generate_request_reference() SQL function: no 0/O or 1/I/L
+const REFERENCE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ'
+
+export const newReference = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(6))
+  return `SF-${Array.from(bytes, (byte) => REFERENCE_ALPHABET[byte % REFERENCE_ALPHABET.length]).join('')}`
+}
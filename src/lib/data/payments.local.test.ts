@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { PAYMENT_HOLD_MINUTES } from '../domain/payments'
+import { createEventBus } from '../eventBus'
+import { createLocalDatabase } from './localDb'
+import { createLocalPaymentRepository } from './payments.local'
+import { createLocalShuttleRequestRepository } from './shuttleRequests.local'
+import type { ReservePaymentInput, ShuttleRequestChange } from './types'
+
+const setup = async ({ waitlist = false } = {}) => {
+  const db = createLocalDatabase({
+    seed: {
+      capacity_settings: [{ id: 1, unit: 'vehicles', daily_limit: waitlist ? 0 : 8, updated_at: '2026-03-01T12:00:00.000Z' }]
+    }
+  })
+  const changes = createEventBus<ShuttleRequestChange>()
+  const shuttleRequests = createLocalShuttleRequestRepository(db, changes)
+  const record = await shuttleRequests.create({
+    user: { email: 'jo@example.com', full_name: 'Jo Rider', phone: '555-0100' },
+    request: {
+      parking_location_name: 'Trailhead',
+      parking_lat: 40,
+      parking_lng: -105,
+      dropoff_location_name: 'Takeout',
+      dropoff_lat: 41,
+      dropoff_lng: -105,
+      dropoff_day: '2026-03-09',
+      arrival_time: '10:00'
+    },
+    vehicles: [{ make: 'Toyota', model: 'Tacoma', year: '2020', transmission: 'automatic' }],
+    waitlist
+  })
+
+  return {
+    db,
+    changes,
+    payments: createLocalPaymentRepository(db, changes),
+    lookup: { reference: record.reference, email: 'jo@example.com' },
+    totalCents: (record.quote as { totalCents: number }).totalCents
+  }
+}
+
+const charge = (amountCents: number, kind: ReservePaymentInput['kind'] = 'deposit'): ReservePaymentInput => ({
+  kind,
+  amount_cents: amountCents,
+  currency: 'USD',
+  provider: 'fake'
+})
+
+describe('local payment repository', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('records a reserved payment and issues an invoice for it', async () => {
+    const { payments, changes, lookup, totalCents } = await setup()
+    const announced = vi.fn()
+    changes.subscribe(announced)
+
+    const reserved = await payments.reserve(lookup, charge(5000))
+    expect(reserved.status).toBe('pending')
+
+    const receipt = await payments.record(lookup, reserved.id, { status: 'succeeded', provider_reference: 'fake_1', card_last4: '4242' })
+    expect(receipt.payment).toMatchObject({ status: 'succeeded', card_last4: '4242' })
+    expect(receipt.invoice).toMatchObject({ paid_cents: 5000, balance_cents: totalCents - 5000, number: 'INV-000001' })
+    expect(announced).toHaveBeenCalledWith({ type: 'updated', id: reserved.shuttle_request_id })
+  })
+
+  it('refuses more than is left once reservations are counted', async () => {
+    const { payments, lookup, totalCents } = await setup()
+    await payments.reserve(lookup, charge(totalCents, 'full'))
+
+    await expect(payments.reserve(lookup, charge(totalCents, 'full'))).rejects.toMatchObject({ code: 'invalid' })
+    await expect(payments.reserve(lookup, charge(0))).rejects.toMatchObject({ code: 'invalid' })
+  })
+
+  it('frees a declined reservation straight away', async () => {
+    const { payments, lookup, totalCents } = await setup()
+    const declined = await payments.reserve(lookup, charge(totalCents, 'full'))
+
+    const receipt = await payments.record(lookup, declined.id, { status: 'failed', failure_message: 'Card declined' })
+    expect(receipt.invoice).toBeNull()
+    await expect(payments.reserve(lookup, charge(totalCents, 'full'))).resolves.toMatchObject({ status: 'pending' })
+  })
+
+  it('lets a reservation lapse, and refuses it if the balance was paid meanwhile', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T12:00:00.000Z'), toFake: ['Date'] })
+    const { payments, lookup, totalCents } = await setup()
+    const stale = await payments.reserve(lookup, charge(totalCents, 'full'))
+
+    vi.setSystemTime(new Date(Date.now() + (PAYMENT_HOLD_MINUTES + 1) * 60_000))
+    const fresh = await payments.reserve(lookup, charge(totalCents, 'full'))
+    await payments.record(lookup, fresh.id, { status: 'succeeded' })
+
+    await expect(payments.record(lookup, stale.id, { status: 'succeeded' })).rejects.toMatchObject({ code: 'invalid' })
+    // Voiding the charge taken against it still goes through
+    await expect(payments.record(lookup, stale.id, { status: 'voided' })).resolves.toMatchObject({ invoice: null })
+  })
+
+  it('records each reservation only once', async () => {
+    const { payments, lookup } = await setup()
+    const reserved = await payments.reserve(lookup, charge(5000))
+    await payments.record(lookup, reserved.id, { status: 'succeeded' })
+
+    await expect(payments.record(lookup, reserved.id, { status: 'voided' })).rejects.toMatchObject({ code: 'conflict' })
+  })
+
+  it('checks the booking email, the currency and the request status', async () => {
+    const { payments, lookup } = await setup()
+    await expect(payments.reserve({ ...lookup, email: 'someone@example.com' }, charge(5000))).rejects.toMatchObject({ code: 'not_found' })
+    await expect(payments.reserve(lookup, { ...charge(5000), currency: 'EUR' })).rejects.toMatchObject({ code: 'invalid' })
+
+    const waitlisted = await setup({ waitlist: true })
+    await expect(waitlisted.payments.reserve(waitlisted.lookup, charge(5000))).rejects.toMatchObject({ code: 'conflict' })
+  })
+})
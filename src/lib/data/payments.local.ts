@@ -0,0 +1,143 @@
+import { PAYABLE_STATUSES, PAYMENT_HOLD_MINUTES } from '../domain/payments'
+import type { Quote } from '../domain/quote'
+import type { EventBus } from '../eventBus'
+import type { LocalDatabase, LocalTables } from './localDb'
+import { newId, nowIso } from './localDb'
+import { findTracked } from './shuttleRequests.local'
+import {
+  DataError,
+  type InvoiceRow,
+  type PaymentRepository,
+  type PaymentRow,
+  type ShuttleRequestChange,
+  type ShuttleRequestRow,
+  type TrackingLookup
+} from './types'
+
+// Same format as the invoice_number_seq default in SQL
+const nextInvoiceNumber = (tables: LocalTables) => `INV-${String(tables.invoices.length + 1).padStart(6, '0')}`
+
+// Like shuttle_request_committed_cents in SQL: paid plus still-held reservations
+const committedCents = (tables: LocalTables, requestId: string, excludeId: string | null) => {
+  const holdStart = new Date(Date.now() - PAYMENT_HOLD_MINUTES * 60_000).toISOString()
+  return tables.payments
+    .filter((payment) => payment.shuttle_request_id === requestId && payment.id !== excludeId)
+    .filter((payment) => payment.status === 'succeeded' || (payment.status === 'pending' && payment.created_at > holdStart))
+    .reduce((sum, payment) => sum + payment.amount_cents, 0)
+}
+
+const owedError = (request: ShuttleRequestRow, quote: Quote, committed: number) => {
+  const owed = (Math.max(0, quote.totalCents - committed) / 100).toFixed(2)
+  return new DataError(`Request ${request.reference} only has ${owed} ${quote.currency} left to pay`, 'invalid')
+}
+
+const findPayableOrThrow = (tables: LocalTables, lookup: TrackingLookup) => {
+  const request = findTracked(tables, lookup)
+  if (!request) throw new DataError(`No request ${lookup.reference} was booked with ${lookup.email}`, 'not_found')
+
+  const quote = request.quote as Quote | null
+  if (!quote) throw new DataError(`Request ${request.reference} has no quote to pay against`, 'invalid')
+  return { request, quote }
+}
+
+/**
+ * Payment repository backed by the local database, checking the same things as
+ * reserve_shuttle_request_payment and record_shuttle_request_payment in
+ * supabase/migrations/0020_payment_reservations.sql. Recording a payment
+ * changes the request, so it is announced on `changes` when given (the
+ * shuttle request repository's bus).
+ */
+export function createLocalPaymentRepository(
+  db: LocalDatabase,
+  changes?: EventBus<ShuttleRequestChange>
+): PaymentRepository {
+  return {
+    async reserve(lookup, input) {
+      return db.transaction((tables) => {
+        const { request, quote } = findPayableOrThrow(tables, lookup)
+        if (!PAYABLE_STATUSES.includes(request.status)) {
+          throw new DataError(`Request ${request.reference} is ${request.status} and can't take payments`, 'conflict')
+        }
+        if (input.currency !== quote.currency) {
+          throw new DataError(`Request ${request.reference} is paid in ${quote.currency}`, 'invalid')
+        }
+
+        const committed = committedCents(tables, request.id, null)
+        if (input.amount_cents <= 0 || input.amount_cents > quote.totalCents - committed) {
+          throw owedError(request, quote, committed)
+        }
+
+        const payment: PaymentRow = {
+          id: newId(),
+          shuttle_request_id: request.id,
+          kind: input.kind,
+          status: 'pending',
+          amount_cents: input.amount_cents,
+          currency: quote.currency,
+          provider: input.provider,
+          provider_reference: null,
+          card_last4: null,
+          failure_message: null,
+          created_at: nowIso()
+        }
+        tables.payments.push(payment)
+        return payment
+      })
+    },
+
+    async record(lookup, paymentId, input) {
+      const receipt = db.transaction((tables) => {
+        const { request, quote } = findPayableOrThrow(tables, lookup)
+        const payment = tables.payments.find((row) => row.id === paymentId && row.shuttle_request_id === request.id)
+        if (!payment) throw new DataError(`Payment ${paymentId} is not on request ${request.reference}`, 'not_found')
+        if (payment.status !== 'pending') {
+          throw new DataError(`Payment ${paymentId} was already recorded as ${payment.status}`, 'conflict')
+        }
+
+        if (input.status === 'succeeded') {
+          const committed = committedCents(tables, request.id, payment.id)
+          if (payment.amount_cents > quote.totalCents - committed) throw owedError(request, quote, committed)
+        }
+
+        payment.status = input.status
+        payment.provider_reference = input.provider_reference ?? null
+        payment.card_last4 = input.card_last4 ?? null
+        payment.failure_message = input.failure_message ?? null
+        const timestamp = nowIso()
+        request.updated_at = timestamp
+
+        let invoice: InvoiceRow | null = null
+        if (payment.status === 'succeeded') {
+          // Only what is actually paid counts on the invoice, not other tabs' reservations
+          const paid = tables.payments
+            .filter((row) => row.shuttle_request_id === request.id && row.status === 'succeeded')
+            .reduce((sum, row) => sum + row.amount_cents, 0)
+          invoice = {
+            id: newId(),
+            number: nextInvoiceNumber(tables),
+            shuttle_request_id: request.id,
+            payment_id: payment.id,
+            currency: quote.currency,
+            lines: quote.lines,
+            total_cents: quote.totalCents,
+            paid_cents: paid,
+            balance_cents: quote.totalCents - paid,
+            issued_at: timestamp
+          }
+          tables.invoices.push(invoice)
+        }
+
+        return { payment: { ...payment }, invoice }
+      })
+
+      changes?.publish({ type: 'updated', id: receipt.payment.shuttle_request_id })
+      return receipt
+    },
+
+    async listInvoices(requestId) {
+      return db.read().invoices
+        .filter((invoice) => invoice.shuttle_request_id === requestId)
+        .sort((a, b) => a.issued_at.localeCompare(b.issued_at))
+    }
+  }
+}
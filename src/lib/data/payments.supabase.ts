@@ -0,0 +1,50 @@
+import type { TypedSupabaseClient } from '../supabase'
+import { toDataError } from './shuttleRequests.supabase'
+import type { PaymentRepository } from './types'
+
+/**
+ * Payment repository backed by Supabase. Guests pay too, so payments are
+ * reserved and recorded through `reserve_shuttle_request_payment` and
+ * `record_shuttle_request_payment`, which check the reference and booking
+ * email in place of row level security (see
+ * supabase/migrations/0020_payment_reservations.sql). Recording needs the
+ * service role, so `record` only works from the payment relay; in the
+ * browser it fails with 'forbidden'.
+ */
+export function createSupabasePaymentRepository(client: TypedSupabaseClient): PaymentRepository {
+  return {
+    async reserve(lookup, input) {
+      const { data, error } = await client.rpc('reserve_shuttle_request_payment', {
+        p_reference: lookup.reference,
+        p_email: lookup.email,
+        p_payment: input
+      })
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async record(lookup, paymentId, input) {
+      const { data, error } = await client.rpc('record_shuttle_request_payment', {
+        p_reference: lookup.reference,
+        p_email: lookup.email,
+        p_payment_id: paymentId,
+        p_outcome: input
+      })
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async listInvoices(requestId) {
+      const { data, error } = await client
+        .from('invoices')
+        .select('*')
+        .eq('shuttle_request_id', requestId)
+        .order('issued_at')
+
+      if (error) throw toDataError(error)
+      return data
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { MAX_RULE_DAYS, defaultRequestRuleSettings } from '../domain/requestRules'
+import type { LocalDatabase, LocalTables } from './localDb'
+import { newId, nowIso } from './localDb'
+import { DataError, type RequestRuleRepository, type RequestRuleSettingsRow } from './types'
+
+// The log lives in localStorage alongside everything else, so only the newest actions are kept
+const MAX_LOGGED_ACTIONS = 500
+
+const settingsRow = (tables: LocalTables): RequestRuleSettingsRow => {
+  const defaults = defaultRequestRuleSettings()
+  return tables.request_rule_settings[0] ?? {
+    id: 1,
+    auto_complete_enabled: defaults.autoComplete,
+    auto_complete_grace_days: defaults.autoCompleteGraceDays,
+    expire_pending_enabled: defaults.expirePending,
+    flag_unassigned_enabled: defaults.flagUnassigned,
+    flag_unassigned_days: defaults.flagUnassignedDays,
+    updated_at: nowIso()
+  }
+}
+
+const isDayCount = (days: number, min: number) => Number.isInteger(days) && days >= min && days <= MAX_RULE_DAYS
+
+/**
+ * Request rule repository backed by the local database. Same checks as the
+ * constraints in supabase/migrations/0013_request_rules.sql and
+ * 0018_server_request_rules.sql.
+ */
+export function createLocalRequestRuleRepository(db: LocalDatabase): RequestRuleRepository {
+  return {
+    async getSettings() {
+      return settingsRow(db.read())
+    },
+
+    async updateSettings(input) {
+      if (input.auto_complete_grace_days !== undefined && !isDayCount(input.auto_complete_grace_days, 1)) {
+        throw new DataError(`The grace period must be 1 to ${MAX_RULE_DAYS} days`, 'invalid')
+      }
+      if (input.flag_unassigned_days !== undefined && !isDayCount(input.flag_unassigned_days, 0)) {
+        throw new DataError(`Jobs can be flagged 0 to ${MAX_RULE_DAYS} days ahead`, 'invalid')
+      }
+
+      return db.transaction((tables) => {
+        const row = { ...settingsRow(tables), ...input, id: 1, updated_at: input.updated_at ?? nowIso() }
+        tables.request_rule_settings = [row]
+        return row
+      })
+    },
+
+    async listActions({ since, limit } = {}) {
+      const rows = db.read().request_rule_actions
+        .filter((row) => !since || row.created_at >= since)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      return limit === undefined ? rows : rows.slice(0, limit)
+    },
+
+    async recordActions(actions) {
+      if (actions.length === 0) return []
+
+      return db.transaction((tables) => {
+        const rows = actions.map((action) => {
+          if (!tables.shuttle_requests.some((request) => request.id === action.shuttle_request_id)) {
+            throw new DataError(`Shuttle request ${action.shuttle_request_id} not found`, 'not_found')
+          }
+          return { ...action, id: action.id ?? newId(), outcome: action.outcome ?? 'applied', created_at: action.created_at ?? nowIso() }
+        })
+        tables.request_rule_actions = [...rows, ...tables.request_rule_actions]
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .slice(0, MAX_LOGGED_ACTIONS)
+        return rows
+      })
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { defaultRequestRuleSettings } from '../domain/requestRules'
+import type { TypedSupabaseClient } from '../supabase'
+import { toDataError } from './shuttleRequests.supabase'
+import type { RequestRuleRepository } from './types'
+
+/**
+ * Request rule repository backed by Supabase. The settings and the action log
+ * are staff only (see supabase/migrations/0013_request_rules.sql).
+ */
+export function createSupabaseRequestRuleRepository(client: TypedSupabaseClient): RequestRuleRepository {
+  return {
+    async getSettings() {
+      const { data, error } = await client
+        .from('request_rule_settings')
+        .select('*')
+        .eq('id', 1)
+        .maybeSingle()
+
+      if (error) throw toDataError(error)
+      if (data) return data
+
+      // The migration inserts the row, but fall back rather than fail if it has been removed
+      const defaults = defaultRequestRuleSettings()
+      return {
+        id: 1,
+        auto_complete_enabled: defaults.autoComplete,
+        auto_complete_grace_days: defaults.autoCompleteGraceDays,
+        expire_pending_enabled: defaults.expirePending,
+        flag_unassigned_enabled: defaults.flagUnassigned,
+        flag_unassigned_days: defaults.flagUnassignedDays,
+        updated_at: new Date().toISOString()
+      }
+    },
+
+    async updateSettings(input) {
+      const { data, error } = await client
+        .from('request_rule_settings')
+        .upsert({ ...input, id: 1, updated_at: new Date().toISOString() })
+        .select('*')
+        .single()
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async listActions({ since, limit } = {}) {
+      let query = client
+        .from('request_rule_actions')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (since) query = query.gte('created_at', since)
+      if (limit !== undefined) query = query.limit(limit)
+
+      const { data, error } = await query
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async recordActions(actions) {
+      if (actions.length === 0) return []
+
+      const { data, error } = await client
+        .from('request_rule_actions')
+        .insert(actions)
+        .select('*')
+
+      if (error) throw toDataError(error)
+      return data
+    }
+  }
+}
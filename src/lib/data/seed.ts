@@ -0,0 +1,360 @@
+import type { LocalTables } from './localDb'
+
+/**
+ * Sample rows loaded into an empty local database so the owner dashboard has
+ * something to show during development.
+ *
+ * Sign in as owner@example.com, john@example.com or the driver
+ * alex@example.com; all use the password `shuttleforge`.
+ */
+export const DEVELOPMENT_SEED: LocalTables = {
+  users: [
+    {
+      id: 'user-1',
+      email: 'john@example.com',
+      full_name: 'John Smith',
+      phone: '+1 (555) 123-4567',
+      role: 'customer',
+      created_at: '2024-01-10T10:30:00Z',
+      updated_at: '2024-01-10T10:30:00Z'
+    },
+    {
+      id: 'user-2',
+      email: 'sarah@example.com',
+      full_name: 'Sarah Johnson',
+      phone: '+1 (555) 987-6543',
+      role: 'customer',
+      created_at: '2024-01-09T14:20:00Z',
+      updated_at: '2024-01-09T14:20:00Z'
+    },
+    {
+      id: 'user-3',
+      email: 'mike@example.com',
+      full_name: 'Mike Wilson',
+      phone: '+1 (555) 456-7890',
+      role: 'customer',
+      created_at: '2024-01-08T16:45:00Z',
+      updated_at: '2024-01-08T16:45:00Z'
+    },
+    {
+      id: 'user-owner',
+      email: 'owner@example.com',
+      full_name: 'Shuttle Owner',
+      phone: '+1 (555) 000-1111',
+      role: 'owner',
+      created_at: '2024-01-01T09:00:00Z',
+      updated_at: '2024-01-01T09:00:00Z'
+    },
+    {
+      id: 'user-driver-1',
+      email: 'alex@example.com',
+      full_name: 'Alex Rivera',
+      phone: '+1 (555) 210-3344',
+      role: 'driver',
+      created_at: '2024-01-01T09:00:00Z',
+      updated_at: '2024-01-01T09:00:00Z'
+    }
+  ],
+  shuttle_requests: [
+    {
+      id: '1',
+      reference: 'SF-4K7QX2',
+      user_id: 'user-1',
+      parking_location_name: 'Downtown Parking Garage',
+      parking_lat: 40.7128,
+      parking_lng: -74.0060,
+      dropoff_location_name: 'Mountain Resort',
+      dropoff_lat: 40.7589,
+      dropoff_lng: -73.9851,
+      dropoff_day: '2024-01-15',
+      arrival_time: '08:00',
+      status: 'pending',
+      notes: 'Customer prefers early morning pickup',
+      quote: null,
+      created_at: '2024-01-10T10:30:00Z',
+      updated_at: '2024-01-10T10:30:00Z'
+    },
+    {
+      id: '2',
+      reference: 'SF-9MRT3B',
+      user_id: 'user-2',
+      parking_location_name: 'Airport Terminal A',
+      parking_lat: 40.6892,
+      parking_lng: -74.1745,
+      dropoff_location_name: 'River Access Point',
+      dropoff_lat: 40.7505,
+      dropoff_lng: -73.9934,
+      dropoff_day: '2024-01-18',
+      arrival_time: '09:30',
+      status: 'confirmed',
+      notes: 'Group of 4 people, need extra space',
+      quote: null,
+      created_at: '2024-01-09T14:20:00Z',
+      updated_at: '2024-01-09T14:20:00Z'
+    },
+    {
+      id: '3',
+      reference: 'SF-H2WD8N',
+      user_id: 'user-3',
+      parking_location_name: 'Hotel Plaza',
+      parking_lat: 40.7614,
+      parking_lng: -73.9776,
+      dropoff_location_name: 'Canyon Viewpoint',
+      dropoff_lat: 40.7505,
+      dropoff_lng: -73.9934,
+      dropoff_day: '2024-01-12',
+      arrival_time: '07:00',
+      status: 'completed',
+      notes: 'Successfully completed shuttle service',
+      quote: null,
+      created_at: '2024-01-08T16:45:00Z',
+      updated_at: '2024-01-08T16:45:00Z'
+    }
+  ],
+  vehicles: [
+    {
+      id: 'vehicle-1',
+      shuttle_request_id: '1',
+      make: 'Toyota',
+      model: '4Runner',
+      year: '2020',
+      transmission: 'automatic',
+      license_plate: '7KDR214',
+      color: 'Silver',
+      drivetrain: '4wd',
+      equipment_notes: 'Roof box; two bikes on the hitch rack',
+      key_location: 'Magnetic box inside the rear bumper, driver side',
+      key_return_location: 'Resort front desk, under Smith',
+      key_picked_up_at: null,
+      key_picked_up_by: null,
+      key_dropped_off_at: null,
+      key_dropped_off_by: null,
+      driver_id: null,
+      created_at: '2024-01-10T10:30:00Z'
+    },
+    {
+      id: 'vehicle-2',
+      shuttle_request_id: '2',
+      make: 'Ford',
+      model: 'F-150',
+      year: '2022',
+      transmission: 'automatic',
+      license_plate: 'FRD2291',
+      color: 'Blue',
+      drivetrain: '4wd',
+      equipment_notes: null,
+      key_location: 'Lockbox on the driver-side wheel',
+      key_return_location: 'Lockbox on the driver-side wheel',
+      key_picked_up_at: null,
+      key_picked_up_by: null,
+      key_dropped_off_at: null,
+      key_dropped_off_by: null,
+      driver_id: 'driver-2',
+      created_at: '2024-01-09T14:20:00Z'
+    },
+    {
+      id: 'vehicle-3',
+      shuttle_request_id: '2',
+      make: 'Chevrolet',
+      model: 'Silverado 1500',
+      year: '2021',
+      transmission: 'manual',
+      license_plate: '4TRK903',
+      color: 'Black',
+      drivetrain: '4wd',
+      equipment_notes: 'Towing a 12 ft utility trailer',
+      key_location: 'Lockbox on the trailer hitch',
+      key_return_location: 'Trailhead ranger station',
+      key_picked_up_at: null,
+      key_picked_up_by: null,
+      key_dropped_off_at: null,
+      key_dropped_off_by: null,
+      driver_id: 'driver-1',
+      created_at: '2024-01-09T14:20:00Z'
+    },
+    {
+      id: 'vehicle-4',
+      shuttle_request_id: '3',
+      make: 'Honda',
+      model: 'CR-V',
+      year: '2019',
+      transmission: 'automatic',
+      license_plate: 'HND5518',
+      color: 'White',
+      drivetrain: 'awd',
+      equipment_notes: null,
+      key_location: 'Handed over in person',
+      key_return_location: 'Hotel valet desk',
+      key_picked_up_at: '2024-01-12T07:20:00Z',
+      key_picked_up_by: 'Alex Rivera',
+      key_dropped_off_at: '2024-01-12T11:30:00Z',
+      key_dropped_off_by: 'Alex Rivera',
+      driver_id: 'driver-1',
+      created_at: '2024-01-08T16:45:00Z'
+    }
+  ],
+  vehicle_lockbox_codes: [
+    { vehicle_id: 'vehicle-2', code: '4821', updated_at: '2024-01-09T14:20:00Z' },
+    { vehicle_id: 'vehicle-3', code: '0937', updated_at: '2024-01-09T14:20:00Z' }
+  ],
+  request_status_events: [
+    {
+      id: 'event-1',
+      shuttle_request_id: '1',
+      from_status: null,
+      to_status: 'pending',
+      actor: 'john@example.com',
+      note: null,
+      created_at: '2024-01-10T10:30:00Z'
+    },
+    {
+      id: 'event-2',
+      shuttle_request_id: '2',
+      from_status: null,
+      to_status: 'pending',
+      actor: 'sarah@example.com',
+      note: null,
+      created_at: '2024-01-09T14:20:00Z'
+    },
+    {
+      id: 'event-3',
+      shuttle_request_id: '2',
+      from_status: 'pending',
+      to_status: 'confirmed',
+      actor: 'owner',
+      note: null,
+      created_at: '2024-01-09T18:05:00Z'
+    },
+    {
+      id: 'event-4',
+      shuttle_request_id: '3',
+      from_status: null,
+      to_status: 'pending',
+      actor: 'mike@example.com',
+      note: null,
+      created_at: '2024-01-08T16:45:00Z'
+    },
+    {
+      id: 'event-5',
+      shuttle_request_id: '3',
+      from_status: 'pending',
+      to_status: 'confirmed',
+      actor: 'owner',
+      note: null,
+      created_at: '2024-01-09T08:15:00Z'
+    },
+    {
+      id: 'event-6',
+      shuttle_request_id: '3',
+      from_status: 'confirmed',
+      to_status: 'in_progress',
+      actor: 'owner',
+      note: null,
+      created_at: '2024-01-12T07:05:00Z'
+    },
+    {
+      id: 'event-7',
+      shuttle_request_id: '3',
+      from_status: 'in_progress',
+      to_status: 'completed',
+      actor: 'owner',
+      note: 'Successfully completed shuttle service',
+      created_at: '2024-01-12T11:40:00Z'
+    }
+  ],
+  auth_accounts: [
+    {
+      user_id: 'user-owner',
+      email: 'owner@example.com',
+      password_hash: '454abd70bf723641d7f91d5c9fbf55e43d8dd149a57cc412dd39deff8a2d174a',
+      salt: 'dev-salt-owner',
+      created_at: '2024-01-01T09:00:00Z'
+    },
+    {
+      user_id: 'user-1',
+      email: 'john@example.com',
+      password_hash: 'a65ffa8336a12f16e5639902bea53c9c8cfde53da6f6c2a78071a09c0a907382',
+      salt: 'dev-salt-john',
+      created_at: '2024-01-10T10:30:00Z'
+    },
+    {
+      user_id: 'user-driver-1',
+      email: 'alex@example.com',
+      password_hash: '7f975309d81604c21760c75a8dfd951711fc63b6d903116850a91261ec63236b',
+      salt: 'dev-salt-alex',
+      created_at: '2024-01-01T09:00:00Z'
+    }
+  ],
+  drivers: [
+    {
+      id: 'driver-1',
+      full_name: 'Alex Rivera',
+      phone: '+1 (555) 210-3344',
+      email: 'alex@example.com',
+      can_drive_manual: true,
+      active: true,
+      working_days: [1, 2, 3, 4, 5],
+      notes: null,
+      user_id: 'user-driver-1',
+      created_at: '2024-01-01T09:00:00Z',
+      updated_at: '2024-01-01T09:00:00Z'
+    },
+    {
+      id: 'driver-2',
+      full_name: 'Jamie Chen',
+      phone: '+1 (555) 210-5566',
+      email: null,
+      can_drive_manual: false,
+      active: true,
+      working_days: [0, 1, 2, 3, 4, 5, 6],
+      notes: 'Automatic only',
+      user_id: null,
+      created_at: '2024-01-01T09:00:00Z',
+      updated_at: '2024-01-01T09:00:00Z'
+    },
+    {
+      id: 'driver-3',
+      full_name: 'Sam Patel',
+      phone: '+1 (555) 210-7788',
+      email: 'sam@example.com',
+      can_drive_manual: true,
+      active: true,
+      working_days: [0, 5, 6],
+      notes: 'Weekends and Fridays',
+      user_id: null,
+      created_at: '2024-01-01T09:00:00Z',
+      updated_at: '2024-01-01T09:00:00Z'
+    }
+  ],
+  driver_time_off: [
+    {
+      id: 'time-off-1',
+      driver_id: 'driver-1',
+      day: '2024-01-15',
+      reason: 'Vacation',
+      created_at: '2024-01-02T09:00:00Z'
+    }
+  ],
+  capacity_settings: [
+    {
+      id: 1,
+      unit: 'vehicles',
+      daily_limit: 8,
+      updated_at: '2024-01-01T09:00:00Z'
+    }
+  ],
+  blackout_dates: [
+    {
+      day: '2024-12-25',
+      reason: 'Christmas Day',
+      created_at: '2024-01-01T09:00:00Z'
+    }
+  ],
+  calendar_feeds: [],
+  request_rule_settings: [],
+  request_rule_actions: [],
+  payments: [],
+  invoices: [],
+  job_check_ins: [],
+  vehicle_inspections: []
+}
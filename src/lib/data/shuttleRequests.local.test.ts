@@ -0,0 +1,552 @@
+import { describe, expect, it, vi } from 'vitest'
+import { TransitionError } from '../domain/lifecycle'
+import { calculateQuote } from '../domain/quote'
+import { createEventBus } from '../eventBus'
+import { createLocalDatabase, type LocalTables } from './localDb'
+import { createLocalShuttleRequestRepository } from './shuttleRequests.local'
+import type { CreateShuttleRequestInput, DriverRow, NewVehicle, ShuttleRequestChange } from './types'
+
+const driver = (overrides: Partial<DriverRow> = {}): DriverRow => ({
+  id: 'driver-1',
+  full_name: 'Sam Driver',
+  phone: '555-0199',
+  email: null,
+  can_drive_manual: false,
+  active: true,
+  working_days: [1, 2, 3, 4, 5],
+  notes: null,
+  user_id: null,
+  created_at: '2026-03-01T12:00:00.000Z',
+  updated_at: '2026-03-01T12:00:00.000Z',
+  ...overrides
+})
+
+const vehicle = (overrides: Partial<NewVehicle> = {}): NewVehicle => ({
+  make: 'Toyota',
+  model: 'Tacoma',
+  year: '2020',
+  transmission: 'automatic',
+  ...overrides
+})
+
+const booking = (overrides: Partial<CreateShuttleRequestInput> = {}): CreateShuttleRequestInput => ({
+  user: { email: 'jo@example.com', full_name: 'Jo Rider', phone: '555-0100' },
+  request: {
+    parking_location_name: 'Trailhead',
+    dropoff_location_name: 'Takeout',
+    dropoff_day: '2026-03-09',
+    arrival_time: '10:00'
+  },
+  vehicles: [vehicle()],
+  ...overrides
+})
+
+// A bus without a channel, so nothing reaches other test runs
+const setup = (seed: Partial<LocalTables> = {}) => {
+  const db = createLocalDatabase({ seed: { drivers: [driver()], ...seed } })
+  const changes = createEventBus<ShuttleRequestChange>()
+  return { db, changes, repository: createLocalShuttleRequestRepository(db, changes) }
+}
+
+describe('local shuttle request repository', () => {
+  describe('create', () => {
+    it('books a pending request with its vehicles and customer', async () => {
+      const { repository } = setup()
+      const record = await repository.create(booking({ vehicles: [vehicle(), vehicle({ transmission: 'manual' })] }))
+
+      expect(record.status).toBe('pending')
+      expect(record.vehicles.map((row) => row.transmission)).toEqual(['automatic', 'manual'])
+      expect(record.user).toMatchObject({ email: 'jo@example.com', full_name: 'Jo Rider' })
+      expect(await repository.get(record.id)).toEqual(record)
+    })
+
+    it('keeps one customer per email', async () => {
+      const { db, repository } = setup()
+      await repository.create(booking())
+      await repository.create(booking({ user: { email: ' JO@example.com', full_name: 'Jo R. Rider', phone: '555-0100' } }))
+
+      expect(db.read().users).toHaveLength(1)
+      expect(db.read().users[0].full_name).toBe('Jo R. Rider')
+    })
+
+    it('leaves the profile of a customer with an account alone', async () => {
+      const { db, repository } = setup()
+      const record = await repository.create(booking())
+      db.transaction((tables) => {
+        tables.auth_accounts.push({
+          user_id: record.user_id,
+          email: 'jo@example.com',
+          password_hash: 'hash',
+          salt: 'salt',
+          created_at: '2026-03-01T12:00:00.000Z'
+        })
+      })
+
+      await repository.create(booking({ user: { email: 'jo@example.com', full_name: 'Someone Else', phone: '555-0199' } }))
+      expect(db.read().users[0]).toMatchObject({ full_name: 'Jo Rider', phone: '555-0100' })
+    })
+
+    it('returns the booking already made when the same id is sent again', async () => {
+      const { db, repository } = setup()
+      const input = booking({ request: { ...booking().request, id: 'request-1' } })
+      const first = await repository.create(input)
+
+      const again = await repository.create(input)
+      expect(again.id).toBe(first.id)
+      expect(again.vehicles).toEqual(first.vehicles)
+      expect(db.read().shuttle_requests).toHaveLength(1)
+      await expect(
+        repository.create({ ...input, user: { email: 'ana@example.com', full_name: 'Ana Paddler', phone: '555-0101' } })
+      ).rejects.toMatchObject({ code: 'invalid' })
+    })
+
+    it('refuses requests without vehicles or with too many, writing nothing', async () => {
+      const { db, repository } = setup()
+
+      await expect(repository.create(booking({ vehicles: [] }))).rejects.toMatchObject({ code: 'invalid' })
+      await expect(repository.create(booking({ vehicles: Array.from({ length: 11 }, () => vehicle()) })))
+        .rejects.toMatchObject({ code: 'invalid' })
+      expect(db.read().users).toEqual([])
+      expect(db.read().shuttle_requests).toEqual([])
+    })
+  })
+
+  describe('pricing', () => {
+    const located = (vehicles: NewVehicle[]) => booking({
+      request: { ...booking().request, parking_lat: 40, parking_lng: -105, dropoff_lat: 41, dropoff_lng: -105 },
+      vehicles
+    })
+
+    it('prices a booking itself, ignoring any quote slipped into the request', async () => {
+      const { repository } = setup()
+      const input = located([vehicle({ transmission: 'manual' })])
+      Object.assign(input.request, { quote: { totalCents: 1, currency: 'USD', lines: [] } })
+
+      const record = await repository.create(input)
+      const expected = calculateQuote(
+        { name: 'Trailhead', lat: 40, lng: -105 },
+        { name: 'Takeout', lat: 41, lng: -105 },
+        [{ transmission: 'manual' }]
+      )!
+      expect(record.quote).toMatchObject({ totalCents: expected.totalCents, lines: expected.lines })
+    })
+
+    it('re-quotes the job when the customer changes its vehicles', async () => {
+      const { repository } = setup()
+      const record = await repository.create(located([vehicle()]))
+
+      const updated = await repository.updateTracked(
+        { reference: record.reference, email: 'jo@example.com' },
+        { vehicles: [vehicle(), vehicle()] }
+      )
+      expect((updated.quote as { totalCents: number }).totalCents).toBeGreaterThan((record.quote as { totalCents: number }).totalCents)
+    })
+  })
+
+  describe('capacity', () => {
+    const small = () => setup({ capacity_settings: [{ id: 1, unit: 'vehicles', daily_limit: 2, updated_at: '2026-03-01T12:00:00.000Z' }] })
+
+    it('rolls back everything when the day is full', async () => {
+      const { db, repository } = small()
+      await repository.create(booking({ vehicles: [vehicle(), vehicle()] }))
+      const before = db.read()
+
+      const input = booking({ user: { email: 'new@example.com', full_name: 'New Rider', phone: '555-0101' } })
+      await expect(repository.create(input)).rejects.toMatchObject({ code: 'capacity' })
+
+      const after = db.read()
+      expect(after.users).toEqual(before.users)
+      expect(after.shuttle_requests).toEqual(before.shuttle_requests)
+      expect(after.vehicles).toEqual(before.vehicles)
+      expect(after.request_status_events).toEqual(before.request_status_events)
+    })
+
+    it('waitlists a full day when asked to', async () => {
+      const { repository } = small()
+      await repository.create(booking({ vehicles: [vehicle(), vehicle()] }))
+
+      const record = await repository.create(booking({ waitlist: true }))
+      expect(record.status).toBe('waitlisted')
+      expect(record.status_events.map((event) => event.to_status)).toEqual(['waitlisted'])
+    })
+
+    it('refuses blackout days even for the waitlist', async () => {
+      const { repository } = setup({ blackout_dates: [{ day: '2026-03-09', reason: 'Race day', created_at: '2026-03-01T12:00:00.000Z' }] })
+
+      await expect(repository.create(booking({ waitlist: true }))).rejects.toMatchObject({
+        code: 'invalid',
+        message: "Shuttles aren't running on 2026-03-09 (Race day)"
+      })
+    })
+
+    it('keeps a waitlisted request waiting until its day has room', async () => {
+      const { db, repository } = small()
+      const booked = await repository.create(booking({ vehicles: [vehicle(), vehicle()] }))
+      const waiting = await repository.create(booking({ waitlist: true }))
+      const offer = () => repository.transitionStatus(waiting.id, { from: 'waitlisted', to: 'pending', actor: 'owner@example.com' })
+
+      await expect(offer()).rejects.toMatchObject({ code: 'capacity' })
+      expect(db.read().request_status_events.filter((event) => event.shuttle_request_id === waiting.id)).toHaveLength(1)
+
+      await repository.transitionStatus(booked.id, { from: 'pending', to: 'cancelled', actor: 'jo@example.com', note: 'Plans changed' })
+      await expect(offer()).resolves.toMatchObject({ status: 'pending' })
+    })
+  })
+
+  describe('update', () => {
+    it('replaces the vehicles of only that request', async () => {
+      const { db, repository } = setup()
+      const record = await repository.create(booking())
+      const other = await repository.create(booking())
+
+      const updated = await repository.update(record.id, { vehicles: [vehicle({ make: 'Subaru' }), vehicle({ make: 'Jeep' })] })
+      expect(updated.vehicles.map((row) => row.make)).toEqual(['Subaru', 'Jeep'])
+      expect(db.read().vehicles.filter((row) => row.shuttle_request_id === other.id)).toHaveLength(1)
+    })
+
+    it('reports a missing request as not found', async () => {
+      const { repository } = setup()
+      await expect(repository.update('missing', { request: { notes: 'Hi' } })).rejects.toMatchObject({ code: 'not_found' })
+    })
+  })
+
+  describe('transitionStatus', () => {
+    it('records every change in the status history', async () => {
+      const { repository } = setup()
+      const record = await repository.create(booking())
+      await repository.transitionStatus(record.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+      const cancelled = await repository.transitionStatus(record.id, {
+        from: 'confirmed',
+        to: 'cancelled',
+        actor: 'owner@example.com',
+        note: ' Road closed '
+      })
+
+      expect(cancelled.status).toBe('cancelled')
+      expect(cancelled.status_events.map(({ from_status, to_status, actor, note }) => [from_status, to_status, actor, note])).toEqual([
+        [null, 'pending', 'jo@example.com', null],
+        ['pending', 'confirmed', 'owner@example.com', null],
+        ['confirmed', 'cancelled', 'owner@example.com', 'Road closed']
+      ])
+    })
+
+    it('refuses a change made from a status the request has left', async () => {
+      const { repository } = setup()
+      const record = await repository.create(booking())
+      await repository.transitionStatus(record.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+
+      await expect(
+        repository.transitionStatus(record.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+      ).rejects.toMatchObject({ code: 'conflict' })
+    })
+
+    it('refuses a move the lifecycle does not allow, writing nothing', async () => {
+      const { repository } = setup()
+      const record = await repository.create(booking())
+
+      await expect(
+        repository.transitionStatus(record.id, { from: 'pending', to: 'completed', actor: 'owner@example.com' })
+      ).rejects.toThrow(TransitionError)
+      expect((await repository.get(record.id))?.status_events).toHaveLength(1)
+    })
+  })
+
+  describe('assignDriver', () => {
+    const confirmed = async (repository: ReturnType<typeof setup>['repository'], vehicles = [vehicle()]) => {
+      const record = await repository.create(booking({ vehicles }))
+      return repository.transitionStatus(record.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+    }
+
+    it('assigns and clears a driver', async () => {
+      const { repository } = setup()
+      const record = await confirmed(repository)
+      const vehicleId = record.vehicles[0].id
+
+      const assigned = await repository.assignDriver(record.id, { vehicleId, driverId: 'driver-1' })
+      expect(assigned.vehicles[0].driver_id).toBe('driver-1')
+      const cleared = await repository.assignDriver(record.id, { vehicleId, driverId: null })
+      expect(cleared.vehicles[0].driver_id).toBeNull()
+    })
+
+    it('only assigns drivers qualified for the vehicle', async () => {
+      const { repository } = setup()
+      const record = await confirmed(repository, [vehicle({ transmission: 'manual' })])
+
+      await expect(
+        repository.assignDriver(record.id, { vehicleId: record.vehicles[0].id, driverId: 'driver-1' })
+      ).rejects.toMatchObject({ code: 'invalid', message: "Sam Driver isn't qualified to drive manual" })
+    })
+
+    it('reports a driver already on another job at that time as a conflict', async () => {
+      const { repository } = setup()
+      const first = await confirmed(repository)
+      const second = await confirmed(repository)
+      await repository.assignDriver(first.id, { vehicleId: first.vehicles[0].id, driverId: 'driver-1' })
+
+      await expect(
+        repository.assignDriver(second.id, { vehicleId: second.vehicles[0].id, driverId: 'driver-1' })
+      ).rejects.toMatchObject({ code: 'conflict' })
+    })
+
+    it('leaves finished jobs with the drivers who drove them', async () => {
+      const { repository } = setup()
+      const record = await repository.create(booking())
+      await repository.transitionStatus(record.id, { from: 'pending', to: 'rejected', actor: 'owner@example.com', note: 'Full' })
+
+      await expect(
+        repository.assignDriver(record.id, { vehicleId: record.vehicles[0].id, driverId: 'driver-1' })
+      ).rejects.toMatchObject({ code: 'invalid' })
+    })
+
+    it('takes a driver off a car that became manual', async () => {
+      const { repository } = setup()
+      const record = await confirmed(repository)
+      await repository.assignDriver(record.id, { vehicleId: record.vehicles[0].id, driverId: 'driver-1' })
+
+      const updated = await repository.update(record.id, {
+        vehicles: [vehicle({ id: record.vehicles[0].id, transmission: 'manual', driver_id: 'driver-1' })]
+      })
+      expect(updated.vehicles[0].driver_id).toBeNull()
+    })
+
+    it('takes a driver off a job moved to their day off', async () => {
+      const { repository } = setup()
+      const record = await confirmed(repository)
+      await repository.assignDriver(record.id, { vehicleId: record.vehicles[0].id, driverId: 'driver-1' })
+
+      // A Saturday
+      const updated = await repository.update(record.id, { request: { dropoff_day: '2026-03-14' } })
+      expect(updated.vehicles[0].driver_id).toBeNull()
+    })
+
+    it('lets two vehicles swap drivers', async () => {
+      const { repository } = setup({ drivers: [driver(), driver({ id: 'driver-2', full_name: 'Alex Driver' })] })
+      const record = await confirmed(repository, [vehicle(), vehicle()])
+      const [first, second] = record.vehicles
+      await repository.assignDriver(record.id, { vehicleId: first.id, driverId: 'driver-1' })
+      await repository.assignDriver(record.id, { vehicleId: second.id, driverId: 'driver-2' })
+
+      const updated = await repository.update(record.id, {
+        vehicles: [
+          vehicle({ id: first.id, driver_id: 'driver-2' }),
+          vehicle({ id: second.id, driver_id: 'driver-1' })
+        ]
+      })
+      expect(updated.vehicles.map((row) => row.driver_id)).toEqual(['driver-2', 'driver-1'])
+    })
+  })
+
+  describe('key handoff', () => {
+    const confirmed = async (repository: ReturnType<typeof setup>['repository']) => {
+      const record = await repository.create(booking({ vehicles: [vehicle({ lockbox_code: ' 4321 ' })] }))
+      return repository.transitionStatus(record.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+    }
+
+    it('records pickup then drop-off, each once', async () => {
+      const { repository } = setup()
+      const record = await confirmed(repository)
+      const vehicleId = record.vehicles[0].id
+      const confirm = (step: 'pickup' | 'dropoff') => repository.confirmKeyHandoff(record.id, { vehicleId, step, actor: 'Sam Driver' })
+
+      await expect(confirm('dropoff')).rejects.toMatchObject({ code: 'invalid' })
+      await expect(confirm('pickup')).resolves.toMatchObject({ vehicles: [{ key_picked_up_by: 'Sam Driver' }] })
+      await expect(confirm('pickup')).rejects.toMatchObject({ code: 'conflict' })
+      await expect(confirm('dropoff')).resolves.toMatchObject({ vehicles: [{ key_dropped_off_by: 'Sam Driver' }] })
+    })
+
+    it('only hands keys over on confirmed or in-progress requests', async () => {
+      const { repository } = setup()
+      const record = await repository.create(booking())
+
+      await expect(
+        repository.confirmKeyHandoff(record.id, { vehicleId: record.vehicles[0].id, step: 'pickup', actor: 'Sam Driver' })
+      ).rejects.toMatchObject({ code: 'invalid' })
+    })
+
+    it('keeps handoffs and lockbox codes with vehicles that stay on the request', async () => {
+      const { repository } = setup()
+      const record = await confirmed(repository)
+      const vehicleId = record.vehicles[0].id
+      await repository.confirmKeyHandoff(record.id, { vehicleId, step: 'pickup', actor: 'Sam Driver' })
+
+      const updated = await repository.update(record.id, { vehicles: [vehicle({ id: vehicleId, color: 'Blue' }), vehicle()] })
+      expect(updated.vehicles[0]).toMatchObject({ id: vehicleId, color: 'Blue', key_picked_up_by: 'Sam Driver' })
+      expect(await repository.lockboxCodes(record.id)).toEqual({ [vehicleId]: '4321' })
+
+      await repository.update(record.id, { vehicles: [vehicle({ id: vehicleId, lockbox_code: '' })] })
+      expect(await repository.lockboxCodes(record.id)).toEqual({})
+    })
+  })
+
+  describe('checkIn', () => {
+    const position = { lat: 40, lng: -105, accuracyMeters: 12 }
+
+    // A confirmed job with driver-1 on its vehicle
+    const confirmedJob = async (repository: ReturnType<typeof setup>['repository']) => {
+      const record = await repository.create(booking())
+      await repository.assignDriver(record.id, { vehicleId: record.vehicles[0].id, driverId: 'driver-1' })
+      return repository.transitionStatus(record.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+    }
+
+    it('starts the job on pickup and completes it on delivery, under the driver\'s name', async () => {
+      const { repository } = setup()
+      const record = await confirmedJob(repository)
+
+      const started = await repository.checkIn(record.id, { step: 'picked_up', from: 'confirmed', driverId: 'driver-1', position })
+      expect(started.status).toBe('in_progress')
+      expect(started.check_ins).toMatchObject([{ step: 'picked_up', driver_id: 'driver-1', actor: 'Sam Driver', accuracy_m: 12 }])
+
+      const finished = await repository.checkIn(record.id, { step: 'delivered', from: 'in_progress', driverId: 'driver-1', position: null })
+      expect(finished.status).toBe('completed')
+      expect(finished.status_events.at(-1)).toMatchObject({ to_status: 'completed', actor: 'Sam Driver' })
+    })
+
+    it('only records a pickup on a job already started from the dashboard', async () => {
+      const { repository } = setup()
+      const record = await confirmedJob(repository)
+      await repository.transitionStatus(record.id, { from: 'confirmed', to: 'in_progress', actor: 'owner@example.com' })
+
+      const checkedIn = await repository.checkIn(record.id, { step: 'picked_up', from: 'in_progress', driverId: 'driver-1', position: null })
+      expect(checkedIn.status_events).toHaveLength(3)
+      expect(checkedIn.check_ins).toHaveLength(1)
+    })
+
+    it('only lets a driver on the job check it in', async () => {
+      const { repository } = setup({ drivers: [driver(), driver({ id: 'driver-2', full_name: 'Alex Driver' })] })
+      const record = await confirmedJob(repository)
+
+      await expect(repository.checkIn(record.id, { step: 'picked_up', from: 'confirmed', driverId: 'driver-2', position: null }))
+        .rejects.toMatchObject({ code: 'forbidden' })
+      await expect(repository.checkIn(record.id, { step: 'picked_up', from: 'confirmed', driverId: 'nobody', position: null }))
+        .rejects.toMatchObject({ code: 'forbidden' })
+    })
+
+    it('refuses steps out of order, twice, or from a stale status', async () => {
+      const { repository } = setup()
+      const record = await confirmedJob(repository)
+      const step = (input: Pick<Parameters<typeof repository.checkIn>[1], 'step' | 'from'>) =>
+        repository.checkIn(record.id, { ...input, driverId: 'driver-1', position: null })
+
+      await expect(step({ step: 'delivered', from: 'confirmed' })).rejects.toMatchObject({ code: 'invalid' })
+      await expect(step({ step: 'picked_up', from: 'pending' })).rejects.toMatchObject({ code: 'conflict' })
+      await step({ step: 'picked_up', from: 'confirmed' })
+      await expect(step({ step: 'picked_up', from: 'in_progress' })).rejects.toMatchObject({ code: 'conflict' })
+    })
+  })
+
+  describe('tracked requests', () => {
+    const lookup = (reference: string) => ({ reference: ` ${reference.toLowerCase()}`, email: 'JO@example.com ' })
+
+    it('finds a request only by its reference together with the booking email', async () => {
+      const { repository } = setup()
+      const record = await repository.create(booking())
+
+      expect((await repository.track(lookup(record.reference)))?.id).toBe(record.id)
+      expect(await repository.track({ reference: record.reference, email: 'someone@example.com' })).toBeNull()
+      expect(await repository.track({ reference: 'SF-NOPE', email: 'jo@example.com' })).toBeNull()
+    })
+
+    it('applies customer changes but never their choice of driver', async () => {
+      const { repository } = setup()
+      const record = await repository.create(booking())
+
+      const updated = await repository.updateTracked(lookup(record.reference), {
+        request: { arrival_time: '11:30', notes: 'Running late' },
+        vehicles: [vehicle({ driver_id: 'driver-1' }), vehicle({ make: 'Jeep' })]
+      })
+      expect(updated).toMatchObject({ arrival_time: '11:30', notes: 'Running late' })
+      expect(updated.vehicles.map((row) => [row.make, row.driver_id])).toEqual([['Toyota', null], ['Jeep', null]])
+    })
+
+    it('only allows changes and cancellation while the request is pending', async () => {
+      const { db, repository } = setup()
+      const record = await repository.create(booking())
+      await repository.transitionStatus(record.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+
+      await expect(
+        repository.updateTracked(lookup(record.reference), { request: { notes: 'Hi' } })
+      ).rejects.toMatchObject({ code: 'conflict' })
+      await expect(
+        repository.cancelTracked(lookup(record.reference), { from: 'confirmed', note: 'Plans changed' })
+      ).rejects.toMatchObject({ code: 'conflict' })
+      expect(db.read().shuttle_requests[0].status).toBe('confirmed')
+    })
+
+    it('cancels with the booking email as the actor', async () => {
+      const { repository } = setup()
+      const record = await repository.create(booking())
+
+      const cancelled = await repository.cancelTracked(lookup(record.reference), { from: 'pending', note: 'Plans changed' })
+      expect(cancelled.status).toBe('cancelled')
+      expect(cancelled.status_events.at(-1)).toMatchObject({ actor: 'jo@example.com', note: 'Plans changed' })
+    })
+  })
+
+  it('announces each write once it has committed', async () => {
+    const { changes, repository } = setup()
+    const announced = vi.fn()
+    changes.subscribe(announced)
+
+    const record = await repository.create(booking())
+    await repository.transitionStatus(record.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+    await expect(repository.update('missing', {})).rejects.toThrow()
+
+    expect(announced.mock.calls).toEqual([
+      [{ type: 'created', id: record.id }],
+      [{ type: 'updated', id: record.id }]
+    ])
+  })
+
+  it('lists newest first, filtered by status and customer', async () => {
+    const { repository } = setup()
+    const older = await repository.create(booking({ request: { ...booking().request, created_at: '2026-03-01T12:00:00.000Z' } }))
+    const newer = await repository.create(booking({ request: { ...booking().request, created_at: '2026-03-02T12:00:00.000Z' } }))
+    await repository.transitionStatus(older.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+
+    expect((await repository.list()).map((record) => record.id)).toEqual([newer.id, older.id])
+    expect((await repository.list({ status: ['confirmed'] })).map((record) => record.id)).toEqual([older.id])
+    expect(await repository.list({ userId: 'someone-else' })).toEqual([])
+  })
+
+  describe('search', () => {
+    it('matches names, places and references, and phone numbers by digits', async () => {
+      const { repository } = setup()
+      const jo = await repository.create(booking())
+      const ana = await repository.create(booking({
+        user: { email: 'ana@example.com', full_name: 'Ana Paddler', phone: '(555) 777-1234' },
+        request: { ...booking().request, parking_location_name: 'Put-in Bridge' }
+      }))
+      const ids = async (query: string) => (await repository.search({ query, limit: 10 })).records.map((record) => record.id)
+
+      expect(await ids('paddler')).toEqual([ana.id])
+      expect(await ids('BRIDGE')).toEqual([ana.id])
+      expect(await ids(jo.reference.toLowerCase())).toEqual([jo.id])
+      expect(await ids('777 1234')).toEqual([ana.id])
+      // Too few digits to mean a phone number
+      expect(await ids('55')).toEqual([])
+    })
+
+    it('counts every status before filtering by one, then sorts and pages', async () => {
+      const { repository } = setup()
+      const day = (dropoff_day: string) => booking({ request: { ...booking().request, dropoff_day } })
+      const late = await repository.create(day('2026-03-11'))
+      await repository.create(day('2026-03-09'))
+      const middle = await repository.create(day('2026-03-10'))
+      await repository.create(day('2026-04-01'))
+      await repository.transitionStatus(late.id, { from: 'pending', to: 'confirmed', actor: 'owner@example.com' })
+
+      const page = await repository.search({
+        status: ['pending'],
+        from: '2026-03-01',
+        to: '2026-03-31',
+        sort: 'dropoff_day',
+        ascending: true,
+        limit: 1,
+        offset: 1
+      })
+      expect(page.records.map((record) => record.id)).toEqual([middle.id])
+      expect(page.total).toBe(2)
+      expect(page.statusCounts).toMatchObject({ pending: 2, confirmed: 1 })
+    })
+  })
+})
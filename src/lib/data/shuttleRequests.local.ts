@@ -0,0 +1,576 @@
+import type { LocalDatabase, LocalTables } from './localDb'
+import { newId, newReference, nowIso } from './localDb'
+import {
+  CAPACITY_CHECKED_STATUSES,
+  dayAvailability,
+  defaultCapacitySettings,
+  findCapacityProblem,
+  requestLoad,
+  type CapacitySettings,
+  type DayAvailability
+} from '../domain/capacity'
+import { SCHEDULED_STATUSES, findAssignmentProblem } from '../domain/drivers'
+import { CHECK_IN_STATUSES, findCheckInProblem } from '../domain/checkIn'
+import { findKeyHandoffProblem } from '../domain/keyHandoff'
+import { assertTransition, isCustomerEditable } from '../domain/lifecycle'
+import { fromBlackoutDateRow, fromCapacitySettingsRow, fromDriverRecord, fromShuttleRequestRecord } from '../domain/mappers'
+import { calculateQuote, type Quote } from '../domain/quote'
+import { REQUEST_STATUSES } from '../domain/shuttleRequest'
+import { createEventBus, type EventBus } from '../eventBus'
+import {
+  CUSTOMER_EDITABLE_FIELDS,
+  DataError,
+  assertVehicleCount,
+  type DriverRecord,
+  type NewVehicle,
+  type ShuttleRequestChange,
+  type ShuttleRequestChangeType,
+  type ShuttleRequestRecord,
+  type ShuttleRequestRepository,
+  type ShuttleRequestRow,
+  type ShuttleRequestSort,
+  type ShuttleRequestStatus,
+  type TrackingLookup,
+  type UserRow,
+  type VehicleRow
+} from './types'
+
+// Like replace_request_vehicles in SQL: a vehicle already on the request is
+// updated in place, keeping its key handoffs, lockbox code and driver; the
+// rest are added without one and any left out removed. Returns the rows in
+// the order of `vehicles`; drivers are changed with assignVehicleDriver.
+const replaceVehicles = (tables: LocalTables, requestId: string, vehicles: NewVehicle[]) => {
+  const timestamp = nowIso()
+  const current = tables.vehicles.filter((vehicle) => vehicle.shuttle_request_id === requestId)
+
+  const rows = vehicles.map((vehicle): VehicleRow => {
+    const existing = current.find((row) => row.id === vehicle.id)
+    const row: VehicleRow = {
+      id: existing?.id ?? newId(),
+      shuttle_request_id: requestId,
+      make: vehicle.make,
+      model: vehicle.model,
+      year: vehicle.year,
+      transmission: vehicle.transmission,
+      license_plate: vehicle.license_plate ?? null,
+      color: vehicle.color ?? null,
+      drivetrain: vehicle.drivetrain ?? '2wd',
+      equipment_notes: vehicle.equipment_notes ?? null,
+      key_location: vehicle.key_location ?? null,
+      key_return_location: vehicle.key_return_location ?? null,
+      key_picked_up_at: existing?.key_picked_up_at ?? null,
+      key_picked_up_by: existing?.key_picked_up_by ?? null,
+      key_dropped_off_at: existing?.key_dropped_off_at ?? null,
+      key_dropped_off_by: existing?.key_dropped_off_by ?? null,
+      driver_id: existing?.driver_id ?? null,
+      created_at: existing?.created_at ?? timestamp
+    }
+
+    if (vehicle.lockbox_code !== undefined) {
+      const code = vehicle.lockbox_code?.trim()
+      tables.vehicle_lockbox_codes = tables.vehicle_lockbox_codes.filter((entry) => entry.vehicle_id !== row.id)
+      if (code) tables.vehicle_lockbox_codes.push({ vehicle_id: row.id, code, updated_at: timestamp })
+    }
+    return row
+  })
+
+  const kept = new Set(rows.map((row) => row.id))
+  const removed = new Set(current.filter((row) => !kept.has(row.id)).map((row) => row.id))
+  tables.vehicles = [...tables.vehicles.filter((vehicle) => vehicle.shuttle_request_id !== requestId), ...rows]
+  tables.vehicle_lockbox_codes = tables.vehicle_lockbox_codes.filter((entry) => !removed.has(entry.vehicle_id))
+  return rows
+}
+
+// Like search_shuttle_requests in SQL: phone numbers match on digits alone
+const matchesQuery = (tables: LocalTables, row: ShuttleRequestRow, query: string) => {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return true
+
+  const user = tables.users.find((candidate) => candidate.id === row.user_id)
+  const texts = [user?.full_name, user?.email, row.parking_location_name, row.dropoff_location_name, row.reference]
+  if (texts.some((text) => text?.toLowerCase().includes(needle))) return true
+
+  const digits = needle.replace(/\D/g, '')
+  return digits.length >= 3 && !!user?.phone?.replace(/\D/g, '').includes(digits)
+}
+
+const sortValue = (tables: LocalTables, row: ShuttleRequestRow, sort: ShuttleRequestSort): string | number => {
+  if (sort === 'dropoff_day') return `${row.dropoff_day} ${row.arrival_time}`
+  if (sort === 'vehicle_count') return tables.vehicles.filter((vehicle) => vehicle.shuttle_request_id === row.id).length
+  return row.created_at
+}
+
+export const joinDriverRecord = (tables: LocalTables, id: string): DriverRecord | null => {
+  const driver = tables.drivers.find((row) => row.id === id)
+  if (!driver) return null
+
+  return {
+    ...driver,
+    time_off: tables.driver_time_off.filter((off) => off.driver_id === id)
+  }
+}
+
+const joinRecord = (tables: LocalTables, id: string): ShuttleRequestRecord | null => {
+  const request = tables.shuttle_requests.find((row) => row.id === id)
+  if (!request) return null
+
+  return {
+    ...request,
+    vehicles: tables.vehicles.filter((vehicle) => vehicle.shuttle_request_id === id),
+    user: tables.users.find((user) => user.id === request.user_id) ?? null,
+    status_events: tables.request_status_events.filter((event) => event.shuttle_request_id === id),
+    payments: tables.payments.filter((payment) => payment.shuttle_request_id === id),
+    check_ins: tables.job_check_ins.filter((checkIn) => checkIn.shuttle_request_id === id)
+  }
+}
+
+export const capacitySettingsOf = (tables: LocalTables): CapacitySettings =>
+  tables.capacity_settings[0] ? fromCapacitySettingsRow(tables.capacity_settings[0]) : defaultCapacitySettings()
+
+/** Availability of `day`, optionally leaving one request out of the booked total. */
+export const dayAvailabilityOf = (tables: LocalTables, day: string, excludeId?: string): DayAvailability =>
+  dayAvailability(
+    day,
+    tables.shuttle_requests
+      .filter((row) => row.dropoff_day === day)
+      .map((row) => fromShuttleRequestRecord(joinRecord(tables, row.id)!)),
+    capacitySettingsOf(tables),
+    tables.blackout_dates.map(fromBlackoutDateRow),
+    excludeId
+  )
+
+// Whether request `id` fits on its day alongside everything else booked there
+const findLocalCapacityProblem = (tables: LocalTables, id: string) => {
+  const request = fromShuttleRequestRecord(joinRecord(tables, id)!)
+  const settings = capacitySettingsOf(tables)
+  return findCapacityProblem(
+    dayAvailabilityOf(tables, request.dropoffDay, id),
+    requestLoad(request, settings.unit),
+    settings.unit
+  )
+}
+
+// Like shuttle_request_quote in SQL: the price of the request's stored locations and vehicles
+const quoteOf = (tables: LocalTables, row: ShuttleRequestRow) =>
+  calculateQuote(
+    { name: row.parking_location_name, lat: row.parking_lat, lng: row.parking_lng },
+    { name: row.dropoff_location_name, lat: row.dropoff_lat, lng: row.dropoff_lng },
+    tables.vehicles.filter((vehicle) => vehicle.shuttle_request_id === row.id)
+  )
+
+// Like find_tracked_request in SQL: both the reference and the booking email must match
+export const findTracked = (tables: LocalTables, { reference, email }: TrackingLookup) => {
+  const user = tables.users.find((row) => row.email === email.trim().toLowerCase())
+  if (!user) return undefined
+  return tables.shuttle_requests.find((row) => row.reference === reference.trim().toUpperCase() && row.user_id === user.id)
+}
+
+const findTrackedOrThrow = (tables: LocalTables, lookup: TrackingLookup) => {
+  const row = findTracked(tables, lookup)
+  if (!row) throw new DataError(`No request ${lookup.reference} was booked with ${lookup.email}`, 'not_found')
+  if (!isCustomerEditable(row.status)) {
+    throw new DataError(`Request ${row.reference} is ${row.status} and can no longer be changed`, 'conflict')
+  }
+  return row
+}
+
+// Compare-and-set on status plus the status history entry, after checking the day has room
+const applyTransition = (
+  tables: LocalTables,
+  row: ShuttleRequestRow,
+  { from, to, actor, note }: { from: ShuttleRequestStatus; to: ShuttleRequestStatus; actor: string; note: string | null }
+) => {
+  if (row.status !== from) {
+    throw new DataError(`Shuttle request ${row.id} is ${row.status}, not ${from}`, 'conflict')
+  }
+  if (CAPACITY_CHECKED_STATUSES.includes(to)) {
+    const problem = findLocalCapacityProblem(tables, row.id)
+    if (problem) throw new DataError(problem.message, problem.code === 'full' ? 'capacity' : 'invalid')
+  }
+
+  const timestamp = nowIso()
+  row.status = to
+  row.updated_at = timestamp
+  tables.request_status_events.push({
+    id: newId(),
+    shuttle_request_id: row.id,
+    from_status: from,
+    to_status: to,
+    actor,
+    note: note?.trim() || null,
+    created_at: timestamp
+  })
+}
+
+// Like assign_vehicle_driver in SQL: `vehicle` must be the row in `tables`
+const assignVehicleDriver = (tables: LocalTables, row: ShuttleRequestRow, vehicle: VehicleRow, driverId: string | null) => {
+  if (!SCHEDULED_STATUSES.includes(row.status)) {
+    throw new DataError(`Drivers can't be changed on a ${row.status} request`, 'invalid')
+  }
+
+  if (driverId) {
+    const driverRecord = joinDriverRecord(tables, driverId)
+    if (!driverRecord) throw new DataError(`Driver ${driverId} not found`, 'not_found')
+
+    const request = fromShuttleRequestRecord(joinRecord(tables, row.id)!)
+    const problem = findAssignmentProblem(
+      fromDriverRecord(driverRecord),
+      request.vehicles.find((candidate) => candidate.id === vehicle.id)!,
+      request,
+      tables.shuttle_requests.map((candidate) => fromShuttleRequestRecord(joinRecord(tables, candidate.id)!))
+    )
+    if (problem) {
+      throw new DataError(problem.message, problem.code === 'double_booked' ? 'conflict' : 'invalid')
+    }
+  }
+
+  vehicle.driver_id = driverId
+  row.updated_at = nowIso()
+}
+
+// Like the end of replace_request_vehicles in SQL: drivers that changed go
+// through assignVehicleDriver, after their vehicles are cleared so two of
+// them can swap drivers
+const assignChangedDrivers = (tables: LocalTables, row: ShuttleRequestRow, rows: VehicleRow[], vehicles: NewVehicle[]) => {
+  const changed = rows
+    .map((vehicle, index) => ({ vehicle, driverId: vehicles[index].driver_id ?? null }))
+    .filter(({ vehicle, driverId }) => vehicle.driver_id !== driverId)
+
+  for (const { vehicle } of changed) vehicle.driver_id = null
+  for (const { vehicle, driverId } of changed) {
+    if (driverId) assignVehicleDriver(tables, row, vehicle, driverId)
+  }
+}
+
+// Like recheck_request_drivers in SQL: takes off any driver who no longer
+// fits the request, e.g. after it moved day or gained a manual car. Finished
+// jobs keep the drivers who drove them.
+const recheckDrivers = (tables: LocalTables, row: ShuttleRequestRow) => {
+  if (!SCHEDULED_STATUSES.includes(row.status)) return
+
+  for (const vehicle of tables.vehicles) {
+    if (vehicle.shuttle_request_id !== row.id || !vehicle.driver_id) continue
+    try {
+      assignVehicleDriver(tables, row, vehicle, vehicle.driver_id)
+    } catch (err) {
+      if (!(err instanceof DataError)) throw err
+      vehicle.driver_id = null
+    }
+  }
+}
+
+// Changes that move the job window drivers were checked against
+const scheduleOf = (row: ShuttleRequestRow) =>
+  [row.dropoff_day, row.arrival_time, (row.quote as Quote | null)?.durationMinutes].join()
+
+/**
+ * Shuttle request repository backed by the local database. Writes are
+ * announced on `changes`; by default that bus is shared with other tabs.
+ */
+export function createLocalShuttleRequestRepository(
+  db: LocalDatabase,
+  changes: EventBus<ShuttleRequestChange> = createEventBus({ channel: 'shuttle-forge:shuttle-requests' })
+): ShuttleRequestRepository {
+  const announce = (type: ShuttleRequestChangeType, record: ShuttleRequestRecord) => {
+    changes.publish({ type, id: record.id })
+    return record
+  }
+
+  return {
+    async create({ user, request, vehicles, waitlist = false }) {
+      assertVehicleCount(vehicles)
+
+      return announce('created', db.transaction((tables) => {
+        const timestamp = nowIso()
+        const email = user.email.trim().toLowerCase()
+
+        let userRow = tables.users.find((row) => row.email === email)
+        if (userRow) {
+          // Like the SQL function, a booking can't rewrite the profile of someone with an account
+          const hasAccount = tables.auth_accounts.some((account) => account.user_id === userRow!.id)
+          if (!hasAccount) {
+            Object.assign(userRow, { full_name: user.full_name, phone: user.phone, updated_at: timestamp })
+          }
+        } else {
+          userRow = {
+            id: user.id ?? newId(),
+            email,
+            full_name: user.full_name,
+            phone: user.phone,
+            role: 'customer',
+            created_at: timestamp,
+            updated_at: timestamp
+          } satisfies UserRow
+          tables.users.push(userRow)
+        }
+
+        const requestId = request.id ?? newId()
+        // Like the SQL function, a retry with the same id gets back the booking it already made
+        const existing = tables.shuttle_requests.find((row) => row.id === requestId)
+        if (existing) {
+          if (existing.user_id !== userRow.id) throw new DataError(`Shuttle request ${requestId} already exists`, 'invalid')
+          return joinRecord(tables, requestId)!
+        }
+        let status = request.status ?? 'pending'
+        const existingReferences = new Set(tables.shuttle_requests.map((row) => row.reference))
+        let reference = request.reference ?? newReference()
+        while (existingReferences.has(reference)) reference = newReference()
+
+        tables.shuttle_requests.push({
+          id: requestId,
+          reference,
+          user_id: userRow.id,
+          parking_location_name: request.parking_location_name,
+          parking_lat: request.parking_lat ?? null,
+          parking_lng: request.parking_lng ?? null,
+          dropoff_location_name: request.dropoff_location_name,
+          dropoff_lat: request.dropoff_lat ?? null,
+          dropoff_lng: request.dropoff_lng ?? null,
+          dropoff_day: request.dropoff_day,
+          arrival_time: request.arrival_time,
+          status,
+          notes: request.notes ?? null,
+          quote: null,
+          created_at: request.created_at ?? timestamp,
+          updated_at: request.updated_at ?? timestamp
+        })
+        // Customers can't pick their own drivers
+        replaceVehicles(tables, requestId, vehicles)
+
+        // Priced here rather than taken from the caller; the capacity check needs its duration
+        const requestRow = tables.shuttle_requests.find((row) => row.id === requestId)!
+        requestRow.quote = quoteOf(tables, requestRow)
+
+        if (CAPACITY_CHECKED_STATUSES.includes(status)) {
+          const problem = findLocalCapacityProblem(tables, requestId)
+          if (problem?.code === 'blackout') throw new DataError(problem.message, 'invalid')
+          if (problem && !waitlist) throw new DataError(problem.message, 'capacity')
+          if (problem) {
+            status = 'waitlisted'
+            requestRow.status = status
+          }
+        }
+
+        tables.request_status_events.push({
+          id: newId(),
+          shuttle_request_id: requestId,
+          from_status: null,
+          to_status: status,
+          actor: email,
+          note: null,
+          created_at: timestamp
+        })
+
+        return joinRecord(tables, requestId)!
+      }))
+    },
+
+    async list(options = {}) {
+      const tables = db.read()
+
+      return tables.shuttle_requests
+        .filter((row) => !options.status || options.status.includes(row.status))
+        .filter((row) => !options.userId || row.user_id === options.userId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map((row) => joinRecord(tables, row.id)!)
+    },
+
+    async search({ query = '', status, from, to, sort = 'created_at', ascending = false, limit, offset = 0 }) {
+      const tables = db.read()
+
+      const matching = tables.shuttle_requests.filter((row) =>
+        (!from || row.dropoff_day >= from) && (!to || row.dropoff_day <= to) && matchesQuery(tables, row, query)
+      )
+      const statusCounts = Object.fromEntries(REQUEST_STATUSES.map((value) => [value, 0])) as Record<ShuttleRequestStatus, number>
+      matching.forEach((row) => { statusCounts[row.status] += 1 })
+
+      const direction = ascending ? 1 : -1
+      const compare = (a: string | number, b: string | number) => (a < b ? -1 : a > b ? 1 : 0)
+      const rows = matching
+        .filter((row) => !status || status.includes(row.status))
+        .sort((a, b) =>
+          direction * compare(sortValue(tables, a, sort), sortValue(tables, b, sort)) ||
+          b.created_at.localeCompare(a.created_at)
+        )
+
+      return {
+        records: rows.slice(offset, offset + limit).map((row) => joinRecord(tables, row.id)!),
+        total: rows.length,
+        statusCounts
+      }
+    },
+
+    async get(id) {
+      return joinRecord(db.read(), id)
+    },
+
+    async update(id, { request, vehicles }) {
+      if (vehicles) assertVehicleCount(vehicles)
+
+      return announce('updated', db.transaction((tables) => {
+        const row = tables.shuttle_requests.find((candidate) => candidate.id === id)
+        if (!row) {
+          throw new DataError(`Shuttle request ${id} not found`, 'not_found')
+        }
+
+        const timestamp = nowIso()
+        const scheduleBefore = scheduleOf(row)
+        Object.assign(row, request, { id, updated_at: request?.updated_at ?? timestamp })
+
+        if (vehicles) assignChangedDrivers(tables, row, replaceVehicles(tables, id, vehicles), vehicles)
+        if (vehicles || scheduleOf(row) !== scheduleBefore) recheckDrivers(tables, row)
+
+        return joinRecord(tables, id)!
+      }))
+    },
+
+    async transitionStatus(id, { from, to, actor, note = null }) {
+      assertTransition(from, to, note)
+
+      return announce('updated', db.transaction((tables) => {
+        const row = tables.shuttle_requests.find((candidate) => candidate.id === id)
+        if (!row) {
+          throw new DataError(`Shuttle request ${id} not found`, 'not_found')
+        }
+
+        applyTransition(tables, row, { from, to, actor, note })
+        return joinRecord(tables, id)!
+      }))
+    },
+
+    subscribe: (listener) => changes.subscribe(listener),
+
+    async assignDriver(id, { vehicleId, driverId }) {
+      return announce('updated', db.transaction((tables) => {
+        const row = tables.shuttle_requests.find((candidate) => candidate.id === id)
+        const vehicle = tables.vehicles.find((candidate) => candidate.id === vehicleId && candidate.shuttle_request_id === id)
+        if (!row || !vehicle) {
+          throw new DataError(`Vehicle ${vehicleId} on shuttle request ${id} not found`, 'not_found')
+        }
+
+        assignVehicleDriver(tables, row, vehicle, driverId)
+        return joinRecord(tables, id)!
+      }))
+    },
+
+    async track(lookup) {
+      const tables = db.read()
+      const row = findTracked(tables, lookup)
+      return row ? joinRecord(tables, row.id) : null
+    },
+
+    async updateTracked(lookup, { request = {}, vehicles }) {
+      if (vehicles) assertVehicleCount(vehicles)
+
+      return announce('updated', db.transaction((tables) => {
+        const row = findTrackedOrThrow(tables, lookup)
+        const timestamp = nowIso()
+        const points = (r: ShuttleRequestRow) => [r.parking_lat, r.parking_lng, r.dropoff_lat, r.dropoff_lng].join()
+        const pointsBefore = points(row)
+        const scheduleBefore = scheduleOf(row)
+
+        for (const field of CUSTOMER_EDITABLE_FIELDS) {
+          if (request[field] !== undefined) Object.assign(row, { [field]: request[field] })
+        }
+        row.updated_at = timestamp
+
+        // Customers can't pick their own drivers
+        if (vehicles) replaceVehicles(tables, row.id, vehicles)
+
+        // Re-quoted when the trip changes, never taken from the customer
+        if (vehicles || points(row) !== pointsBefore) row.quote = quoteOf(tables, row)
+        if (vehicles || scheduleOf(row) !== scheduleBefore) recheckDrivers(tables, row)
+
+        // The transaction rolls back if the new day or vehicle count doesn't fit
+        if (CAPACITY_CHECKED_STATUSES.includes(row.status)) {
+          const problem = findLocalCapacityProblem(tables, row.id)
+          if (problem) throw new DataError(problem.message, problem.code === 'full' ? 'capacity' : 'invalid')
+        }
+
+        return joinRecord(tables, row.id)!
+      }))
+    },
+
+    async cancelTracked(lookup, { from, note }) {
+      assertTransition(from, 'cancelled', note)
+
+      return announce('updated', db.transaction((tables) => {
+        const row = findTrackedOrThrow(tables, lookup)
+        applyTransition(tables, row, { from, to: 'cancelled', actor: lookup.email.trim().toLowerCase(), note })
+        return joinRecord(tables, row.id)!
+      }))
+    },
+
+    async confirmKeyHandoff(id, { vehicleId, step, actor }) {
+      if (!actor.trim()) throw new DataError('Say who handled the keys', 'invalid')
+
+      return announce('updated', db.transaction((tables) => {
+        const row = tables.shuttle_requests.find((candidate) => candidate.id === id)
+        const vehicle = tables.vehicles.find((candidate) => candidate.id === vehicleId && candidate.shuttle_request_id === id)
+        if (!row || !vehicle) {
+          throw new DataError(`Vehicle ${vehicleId} on shuttle request ${id} not found`, 'not_found')
+        }
+
+        const request = fromShuttleRequestRecord(joinRecord(tables, id)!)
+        const problem = findKeyHandoffProblem(request, request.vehicles.find((candidate) => candidate.id === vehicleId)!, step)
+        if (problem) throw new DataError(problem.message, problem.code === 'already_done' ? 'conflict' : 'invalid')
+
+        const timestamp = nowIso()
+        if (step === 'pickup') {
+          Object.assign(vehicle, { key_picked_up_at: timestamp, key_picked_up_by: actor.trim() })
+        } else {
+          Object.assign(vehicle, { key_dropped_off_at: timestamp, key_dropped_off_by: actor.trim() })
+        }
+        row.updated_at = timestamp
+        return joinRecord(tables, id)!
+      }))
+    },
+
+    async checkIn(id, { step, from, driverId, position }) {
+      return announce('updated', db.transaction((tables) => {
+        const row = tables.shuttle_requests.find((candidate) => candidate.id === id)
+        const driver = tables.drivers.find((candidate) => candidate.id === driverId && candidate.active)
+        if (!row) throw new DataError(`Shuttle request ${id} not found`, 'not_found')
+        if (!driver || !tables.vehicles.some((vehicle) => vehicle.shuttle_request_id === id && vehicle.driver_id === driverId)) {
+          throw new DataError('Only a driver on this job can check it in', 'forbidden')
+        }
+        if (row.status !== from) {
+          throw new DataError(`Shuttle request ${row.id} is ${row.status}, not ${from}`, 'conflict')
+        }
+
+        const problem = findCheckInProblem(fromShuttleRequestRecord(joinRecord(tables, id)!), step)
+        if (problem) throw new DataError(problem.message, problem.code === 'already_done' ? 'conflict' : 'invalid')
+
+        tables.job_check_ins.push({
+          id: newId(),
+          shuttle_request_id: id,
+          step,
+          driver_id: driverId,
+          actor: driver.full_name,
+          lat: position?.lat ?? null,
+          lng: position?.lng ?? null,
+          accuracy_m: position?.accuracyMeters ?? null,
+          created_at: nowIso()
+        })
+        // Someone may have started the job from the dashboard already
+        if (row.status !== CHECK_IN_STATUSES[step]) {
+          applyTransition(tables, row, { from, to: CHECK_IN_STATUSES[step], actor: driver.full_name, note: null })
+        } else {
+          row.updated_at = nowIso()
+        }
+        return joinRecord(tables, id)!
+      }))
+    },
+
+    // The local store has no row level security, so this is only as private as the browser
+    async lockboxCodes(id) {
+      const tables = db.read()
+      const vehicleIds = new Set(tables.vehicles.filter((vehicle) => vehicle.shuttle_request_id === id).map((vehicle) => vehicle.id))
+      return Object.fromEntries(
+        tables.vehicle_lockbox_codes
+          .filter((entry) => vehicleIds.has(entry.vehicle_id))
+          .map((entry) => [entry.vehicle_id, entry.code])
+      )
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+import type { TypedSupabaseClient } from '../supabase'
+import { assertTransition } from '../domain/lifecycle'
+import { REQUEST_STATUSES } from '../domain/shuttleRequest'
+import {
+  DataError,
+  assertVehicleCount,
+  type ShuttleRequestRecord,
+  type ShuttleRequestRepository,
+  type ShuttleRequestStatus
+} from './types'
+
+// Embeds child vehicles, the booking customer, the status history and payments alongside each request row
+const RECORD_SELECT = '*, vehicles(*), user:users(*), status_events:request_status_events(*), payments(*), check_ins:job_check_ins(*)'
+
+// postgrest-js reports a fetch that threw as an error without a code, named after the exception
+const isFetchFailure = (error: PostgrestError) => !error.code && /^(TypeError|FetchError|AbortError):/.test(error.message)
+
+export const toDataError = (error: PostgrestError): DataError => {
+  if (isFetchFailure(error)) return new DataError(error.message, 'network')
+  // P0002 is raised by the RPCs for unknown ids, 40001 for stale status, SF001 for a fully booked day,
+  // 23xxx are constraint violations, 42501 is a row level security refusal
+  if (error.code === 'P0002') return new DataError(error.message, 'not_found')
+  if (error.code === 'SF001') return new DataError(error.message, 'capacity')
+  if (error.code === '42501') return new DataError(error.message, 'forbidden')
+  if (error.code === '40001') return new DataError(error.message, 'conflict')
+  if (error.code.startsWith('23')) return new DataError(error.message, 'invalid')
+  return new DataError(error.message, 'backend')
+}
+
+/**
+ * Shuttle request repository backed by Supabase. Multi-table writes go through
+ * the `create_shuttle_request` / `update_shuttle_request` database functions so
+ * they commit or roll back as one transaction. Customers tracking a request by
+ * reference go through the `*_tracked_shuttle_request` functions, which check
+ * the booking email in place of row level security. Changes arrive over
+ * Supabase Realtime.
+ */
+export function createSupabaseShuttleRequestRepository(client: TypedSupabaseClient): ShuttleRequestRepository {
+  const get = async (id: string): Promise<ShuttleRequestRecord | null> => {
+    const { data, error } = await client
+      .from('shuttle_requests')
+      .select(RECORD_SELECT)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw toDataError(error)
+    return data as ShuttleRequestRecord | null
+  }
+
+  const getOrThrow = async (id: string): Promise<ShuttleRequestRecord> => {
+    const record = await get(id)
+    if (!record) throw new DataError(`Shuttle request ${id} not found`, 'not_found')
+    return record
+  }
+
+  return {
+    async create({ user, request, vehicles, waitlist = false }) {
+      assertVehicleCount(vehicles)
+
+      const { data, error } = await client.rpc('create_shuttle_request', {
+        p_user: { ...user, email: user.email.trim().toLowerCase() },
+        p_request: request,
+        p_vehicles: vehicles,
+        p_waitlist: waitlist
+      })
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async list(options = {}) {
+      let query = client
+        .from('shuttle_requests')
+        .select(RECORD_SELECT)
+        .order('created_at', { ascending: false })
+
+      if (options.status) query = query.in('status', options.status)
+      if (options.userId) query = query.eq('user_id', options.userId)
+
+      const { data, error } = await query
+      if (error) throw toDataError(error)
+      return data as ShuttleRequestRecord[]
+    },
+
+    async search({ query, status, from, to, sort = 'created_at', ascending = false, limit, offset = 0 }) {
+      const { data, error } = await client.rpc('search_shuttle_requests', {
+        p_query: query?.trim() || null,
+        p_statuses: status ?? null,
+        p_from: from ?? null,
+        p_to: to ?? null,
+        p_sort: sort,
+        p_ascending: ascending,
+        p_limit: limit,
+        p_offset: offset
+      })
+
+      if (error) throw toDataError(error)
+      return {
+        records: data.records,
+        total: data.total,
+        statusCounts: Object.fromEntries(
+          REQUEST_STATUSES.map((value) => [value, data.status_counts[value] ?? 0])
+        ) as Record<ShuttleRequestStatus, number>
+      }
+    },
+
+    get,
+
+    async update(id, { request = {}, vehicles }) {
+      if (vehicles) assertVehicleCount(vehicles)
+
+      const { error } = await client.rpc('update_shuttle_request', {
+        p_id: id,
+        p_request: request,
+        p_vehicles: vehicles ?? null
+      })
+
+      if (error) throw toDataError(error)
+      return getOrThrow(id)
+    },
+
+    async transitionStatus(id, { from, to, actor, note = null }) {
+      assertTransition(from, to, note)
+
+      const { error } = await client.rpc('transition_shuttle_request', {
+        p_id: id,
+        p_from: from,
+        p_to: to,
+        p_actor: actor,
+        p_note: note?.trim() || null
+      })
+
+      if (error) throw toDataError(error)
+      return getOrThrow(id)
+    },
+
+    async assignDriver(id, { vehicleId, driverId }) {
+      const { error } = await client.rpc('assign_vehicle_driver', {
+        p_vehicle_id: vehicleId,
+        p_driver_id: driverId
+      })
+
+      if (error) throw toDataError(error)
+      return getOrThrow(id)
+    },
+
+    async track({ reference, email }) {
+      const { data, error } = await client.rpc('track_shuttle_request', {
+        p_reference: reference.trim().toUpperCase(),
+        p_email: email.trim().toLowerCase()
+      })
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    // The tracked functions return the record themselves because guests can't select it
+    async updateTracked({ reference, email }, { request = {}, vehicles }) {
+      if (vehicles) assertVehicleCount(vehicles)
+
+      const { data, error } = await client.rpc('update_tracked_shuttle_request', {
+        p_reference: reference.trim().toUpperCase(),
+        p_email: email.trim().toLowerCase(),
+        p_request: request,
+        p_vehicles: vehicles ?? null
+      })
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async cancelTracked({ reference, email }, { from, note }) {
+      assertTransition(from, 'cancelled', note)
+
+      const { data, error } = await client.rpc('cancel_tracked_shuttle_request', {
+        p_reference: reference.trim().toUpperCase(),
+        p_email: email.trim().toLowerCase(),
+        p_from: from,
+        p_note: note.trim()
+      })
+
+      if (error) throw toDataError(error)
+      return data
+    },
+
+    async confirmKeyHandoff(id, { vehicleId, step, actor }) {
+      if (!actor.trim()) throw new DataError('Say who handled the keys', 'invalid')
+
+      const { error } = await client.rpc('confirm_key_handoff', {
+        p_request_id: id,
+        p_vehicle_id: vehicleId,
+        p_step: step,
+        p_actor: actor.trim()
+      })
+
+      if (error) throw toDataError(error)
+      return getOrThrow(id)
+    },
+
+    // The server takes the driver from the session, so driverId isn't sent
+    async checkIn(id, { step, from, position }) {
+      const { error } = await client.rpc('check_in_shuttle_request', {
+        p_request_id: id,
+        p_from: from,
+        p_step: step,
+        p_lat: position?.lat ?? null,
+        p_lng: position?.lng ?? null,
+        p_accuracy_m: position?.accuracyMeters ?? null
+      })
+
+      if (error) throw toDataError(error)
+      return getOrThrow(id)
+    },
+
+    // Row level security only lets staff, and drivers for their own vehicles, read the codes; anyone else gets none back
+    async lockboxCodes(id) {
+      const record = await getOrThrow(id)
+      const { data, error } = await client
+        .from('vehicle_lockbox_codes')
+        .select('vehicle_id, code')
+        .in('vehicle_id', record.vehicles.map((vehicle) => vehicle.id))
+
+      if (error) throw toDataError(error)
+      return Object.fromEntries(data.map((row) => [row.vehicle_id, row.code]))
+    },
+
+    subscribe(listener) {
+      // Realtime applies the same row level security as reads, so customers only hear about their own requests
+      const channel = client
+        .channel(`shuttle-requests:${crypto.randomUUID()}`)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'shuttle_requests' }, (payload) => {
+          listener({ type: 'created', id: payload.new.id })
+        })
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'shuttle_requests' }, (payload) => {
+          listener({ type: 'updated', id: payload.new.id })
+        })
+        .subscribe((status, err) => {
+          if (err) console.error(`Shuttle request subscription ${status}:`, err)
+        })
+
+      return () => {
+        client.removeChannel(channel)
+      }
+    }
+  }
+}
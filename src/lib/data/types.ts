@@ -0,0 +1,363 @@
+import type { Database } from '../supabase'
+
+type PublicTables = Database['public']['Tables']
+
+export type TableName = keyof PublicTables
+export type Row<T extends TableName> = PublicTables[T]['Row']
+export type Insert<T extends TableName> = PublicTables[T]['Insert']
+export type Update<T extends TableName> = PublicTables[T]['Update']
+
+export type UserRow = Row<'users'>
+export type ShuttleRequestRow = Row<'shuttle_requests'>
+export type VehicleRow = Row<'vehicles'>
+export type StatusEventRow = Row<'request_status_events'>
+export type DriverRow = Row<'drivers'>
+export type DriverTimeOffRow = Row<'driver_time_off'>
+export type CapacitySettingsRow = Row<'capacity_settings'>
+export type BlackoutDateRow = Row<'blackout_dates'>
+export type CalendarFeedRow = Row<'calendar_feeds'>
+export type VehicleLockboxCodeRow = Row<'vehicle_lockbox_codes'>
+export type RequestRuleSettingsRow = Row<'request_rule_settings'>
+export type RequestRuleActionRow = Row<'request_rule_actions'>
+export type PaymentRow = Row<'payments'>
+export type InvoiceRow = Row<'invoices'>
+export type JobCheckInRow = Row<'job_check_ins'>
+export type VehicleInspectionRow = Row<'vehicle_inspections'>
+export type DayAvailabilityRow = Database['public']['Functions']['day_availability']['Returns'][number]
+export type ShuttleRequestStatus = ShuttleRequestRow['status']
+export type UserRole = UserRow['role']
+export type KeyHandoffStep = Database['public']['Functions']['confirm_key_handoff']['Args']['p_step']
+export type CheckInStep = JobCheckInRow['step']
+export type ShuttleRequestSort = Database['public']['Functions']['search_shuttle_requests']['Args']['p_sort']
+
+/**
+ * A shuttle request joined with its child vehicles, the customer who booked it,
+ * its status history and its payments.
+ */
+export interface ShuttleRequestRecord extends ShuttleRequestRow {
+  vehicles: VehicleRow[]
+  user: UserRow | null
+  status_events: StatusEventRow[]
+  payments: PaymentRow[]
+  check_ins: JobCheckInRow[]
+}
+
+export type NewVehicle = Omit<Insert<'vehicles'>, 'shuttle_request_id'> & {
+  // Stored apart from the vehicle for staff only; empty clears it, leaving it out keeps it
+  lockbox_code?: string | null
+}
+
+export interface CreateShuttleRequestInput {
+  // Upserted by email, so repeat customers keep a single users row
+  user: Insert<'users'>
+  // The backend prices the job from its locations and vehicles. An id given
+  // here makes retrying safe: sending it again returns the request it booked
+  request: Omit<Insert<'shuttle_requests'>, 'user_id' | 'quote'>
+  vehicles: NewVehicle[]
+  // When the day is full, book as 'waitlisted' instead of failing with 'capacity'
+  waitlist?: boolean
+}
+
+export interface UpdateShuttleRequestInput {
+  // Status is changed through transitionStatus so every change is recorded
+  request?: Omit<Update<'shuttle_requests'>, 'status'>
+  // When present, replaces the request's vehicles. One carrying the id of a
+  // vehicle already on the request updates it in place, so its lockbox code
+  // and key handoffs stay with it; the rest are added and any left out removed.
+  // Changed drivers are checked as by assignDriver. Once the job's day, time
+  // or vehicles change, drivers who no longer fit are taken off
+  vehicles?: NewVehicle[]
+}
+
+export interface TransitionStatusInput {
+  // The status the caller saw; the write fails with a conflict if it has moved on
+  from: ShuttleRequestStatus
+  to: ShuttleRequestStatus
+  actor: string
+  note?: string | null
+}
+
+/**
+ * How a customer proves a request is theirs without signing in: the reference
+ * number from their confirmation plus the email they booked with.
+ */
+export interface TrackingLookup {
+  reference: string
+  email: string
+}
+
+// The trip details a customer may change themselves; everything else is the
+// owner's. The quote isn't one of them: it's worked out again from these.
+export const CUSTOMER_EDITABLE_FIELDS = [
+  'parking_location_name',
+  'parking_lat',
+  'parking_lng',
+  'dropoff_location_name',
+  'dropoff_lat',
+  'dropoff_lng',
+  'dropoff_day',
+  'arrival_time',
+  'notes'
+] as const satisfies readonly (keyof ShuttleRequestRow)[]
+
+export interface UpdateTrackedInput {
+  request?: Pick<Update<'shuttle_requests'>, typeof CUSTOMER_EDITABLE_FIELDS[number]>
+  // Replaced as for UpdateShuttleRequestInput
+  vehicles?: NewVehicle[]
+}
+
+export interface CancelTrackedInput {
+  // The status the customer saw, as for transitionStatus
+  from: ShuttleRequestStatus
+  note: string
+}
+
+export interface ListShuttleRequestsOptions {
+  status?: ShuttleRequestStatus[]
+  userId?: string
+}
+
+export interface SearchShuttleRequestsOptions {
+  // Matched, ignoring case, against the customer's name, email and phone (by
+  // digits, so formatting doesn't matter), both locations and the reference
+  query?: string
+  status?: ShuttleRequestStatus[]
+  // Drop-off days, inclusive
+  from?: string
+  to?: string
+  // Newest booking first by default; ties fall back to it
+  sort?: ShuttleRequestSort
+  ascending?: boolean
+  limit: number
+  offset?: number
+}
+
+export interface ShuttleRequestPage {
+  records: ShuttleRequestRecord[]
+  // Matches across every page
+  total: number
+  // Matches per status before `status` is applied, for filter tabs
+  statusCounts: Record<ShuttleRequestStatus, number>
+}
+
+/** A driver with their days off. */
+export interface DriverRecord extends DriverRow {
+  time_off: DriverTimeOffRow[]
+}
+
+export interface ListDriversOptions {
+  activeOnly?: boolean
+}
+
+export interface DriverRepository {
+  /** Lists drivers by name. */
+  list(options?: ListDriversOptions): Promise<DriverRecord[]>
+  get(id: string): Promise<DriverRecord | null>
+  /** The active driver a sign-in account is linked to, if any. */
+  forUser(userId: string): Promise<DriverRecord | null>
+  create(input: Insert<'drivers'>): Promise<DriverRecord>
+  update(id: string, input: Update<'drivers'>): Promise<DriverRecord>
+  addTimeOff(driverId: string, day: string, reason?: string | null): Promise<DriverRecord>
+  removeTimeOff(driverId: string, timeOffId: string): Promise<DriverRecord>
+}
+
+export interface CapacityRepository {
+  getSettings(): Promise<CapacitySettingsRow>
+  updateSettings(input: Omit<Update<'capacity_settings'>, 'id'>): Promise<CapacitySettingsRow>
+  /** Lists blackout dates from `from` (inclusive) onwards, earliest first. */
+  listBlackouts(from?: string): Promise<BlackoutDateRow[]>
+  addBlackout(day: string, reason?: string | null): Promise<BlackoutDateRow>
+  removeBlackout(day: string): Promise<void>
+  /** One row per day from `from` to `to` inclusive. Open to guests; reveals totals only. */
+  availability(from: string, to: string): Promise<DayAvailabilityRow[]>
+}
+
+export interface CalendarFeedRepository {
+  /** Lists feeds, oldest first. */
+  list(): Promise<CalendarFeedRow[]>
+  create(input: Omit<Insert<'calendar_feeds'>, 'token'>): Promise<CalendarFeedRow>
+  remove(id: string): Promise<void>
+  /** Where calendar apps can subscribe to a feed, or null if this backend can't serve feeds. */
+  feedUrl(feed: CalendarFeedRow): string | null
+}
+
+export interface ListRequestRuleActionsOptions {
+  // Only actions logged at or after this time
+  since?: string
+  limit?: number
+}
+
+export interface RequestRuleRepository {
+  getSettings(): Promise<RequestRuleSettingsRow>
+  updateSettings(input: Omit<Update<'request_rule_settings'>, 'id'>): Promise<RequestRuleSettingsRow>
+  /** Lists logged actions, newest first. Staff only. */
+  listActions(options?: ListRequestRuleActionsOptions): Promise<RequestRuleActionRow[]>
+  recordActions(actions: Insert<'request_rule_actions'>[]): Promise<RequestRuleActionRow[]>
+}
+
+export type ReservePaymentInput = Pick<Insert<'payments'>, 'kind' | 'amount_cents' | 'currency' | 'provider'>
+
+export type RecordPaymentInput = Database['public']['Functions']['record_shuttle_request_payment']['Args']['p_outcome']
+
+export interface PaymentReceipt {
+  payment: PaymentRow
+  // Only issued for successful payments
+  invoice: InvoiceRow | null
+}
+
+export interface PaymentRepository {
+  /**
+   * Holds `amount_cents` of a tracked request's balance as a pending payment,
+   * before the card is charged. Fails with 'not_found' on a reference/email
+   * mismatch, 'invalid' if the request has no quote or the amount is more than
+   * is still owed (counting other pending payments), and 'conflict' once the
+   * request is closed.
+   */
+  reserve(lookup: TrackingLookup, input: ReservePaymentInput): Promise<PaymentRow>
+  /**
+   * Records how the charge for reservation `paymentId` went, and issues an
+   * invoice when it succeeded. 'conflict' if it was already recorded, and
+   * 'invalid' if a success no longer fits the balance (the reservation's hold
+   * ran out and something else was paid meanwhile). Only for whatever holds
+   * the provider's key: with Supabase that is the relay ('forbidden'
+   * elsewhere), locally the fake provider.
+   */
+  record(lookup: TrackingLookup, paymentId: string, input: RecordPaymentInput): Promise<PaymentReceipt>
+  /** The request's invoices, oldest first. Staff and the booking customer only. */
+  listInvoices(requestId: string): Promise<InvoiceRow[]>
+}
+
+export type RecordInspectionInput = Omit<Insert<'vehicle_inspections'>, 'id' | 'photos' | 'created_at'>
+
+export interface InspectionRepository {
+  /** Every inspection of the request's vehicles, oldest first. */
+  listForRequest(requestId: string): Promise<VehicleInspectionRow[]>
+  /**
+   * Records a vehicle's pickup or delivery inspection, storing `photos` with
+   * it. Each stage once per vehicle ('conflict' otherwise); delivery only
+   * after pickup ('invalid'). Staff only.
+   */
+  record(input: RecordInspectionInput, photos: Blob[]): Promise<VehicleInspectionRow>
+  /** Addresses the stored photos can be shown from, in the same order. */
+  photoUrls(paths: string[]): Promise<string[]>
+}
+
+export interface AssignDriverInput {
+  vehicleId: string
+  // null unassigns
+  driverId: string | null
+}
+
+export interface KeyHandoffInput {
+  vehicleId: string
+  step: KeyHandoffStep
+  // Who had the keys, e.g. the driver's name. Supabase records a driver session under the driver's own name.
+  actor: string
+}
+
+export interface CheckInInput {
+  step: CheckInStep
+  // The status the caller saw, checked like transitionStatus's `from`
+  from: ShuttleRequestStatus
+  // The signed-in driver, whose name is recorded with the check-in and the
+  // status change. Supabase works it out from the session instead.
+  driverId: string
+  position: { lat: number; lng: number; accuracyMeters: number | null } | null
+}
+
+export type ShuttleRequestChangeType = 'created' | 'updated'
+
+// Deliberately thin: subscribers fetch the record themselves, so every backend sends the same thing
+export interface ShuttleRequestChange {
+  type: ShuttleRequestChangeType
+  id: string
+}
+
+export interface ShuttleRequestRepository {
+  /**
+   * Creates the request, its vehicles and (if needed) the customer in one atomic
+   * write. Fails with 'invalid' on a blackout date and 'capacity' on a full day
+   * unless `waitlist` is set.
+   */
+  create(input: CreateShuttleRequestInput): Promise<ShuttleRequestRecord>
+  /** Lists requests, newest first. */
+  list(options?: ListShuttleRequestsOptions): Promise<ShuttleRequestRecord[]>
+  /** One page of the requests matching every filter given, sorted on the backend. */
+  search(options: SearchShuttleRequestsOptions): Promise<ShuttleRequestPage>
+  get(id: string): Promise<ShuttleRequestRecord | null>
+  update(id: string, input: UpdateShuttleRequestInput): Promise<ShuttleRequestRecord>
+  /**
+   * Moves the request along the lifecycle and appends to its status history.
+   * Moving into pending or confirmed fails with 'capacity' if the day is full.
+   */
+  transitionStatus(id: string, input: TransitionStatusInput): Promise<ShuttleRequestRecord>
+  /**
+   * Notifies about requests created or changed anywhere (another tab, another
+   * user), including by this client. Returns an unsubscribe function.
+   */
+  subscribe(listener: (change: ShuttleRequestChange) => void): () => void
+  /**
+   * Puts a driver on one of the request's vehicles. Fails with 'invalid' if the
+   * driver can't take it and 'conflict' if they're booked elsewhere at the time.
+   */
+  assignDriver(id: string, input: AssignDriverInput): Promise<ShuttleRequestRecord>
+  /**
+   * Finds a request by reference and booking email. Open to guests; a
+   * mismatch on either is reported as null, like an unknown reference.
+   */
+  track(lookup: TrackingLookup): Promise<ShuttleRequestRecord | null>
+  /**
+   * The customer's own changes to a tracked request. Only allowed while it is
+   * pending ('conflict' otherwise); drivers on the vehicles are ignored, and
+   * the new day must have room ('capacity') and be open ('invalid'). Drivers
+   * who no longer fit the changed job are taken off it.
+   */
+  updateTracked(lookup: TrackingLookup, input: UpdateTrackedInput): Promise<ShuttleRequestRecord>
+  /** The customer calls off a tracked request, with the booking email as the actor. */
+  cancelTracked(lookup: TrackingLookup, input: CancelTrackedInput): Promise<ShuttleRequestRecord>
+  /**
+   * Records that the driver picked up or dropped off one vehicle's keys. Only
+   * on confirmed or in-progress requests ('invalid' otherwise), drop-off only
+   * after pickup, and each step once ('conflict' if already recorded).
+   */
+  confirmKeyHandoff(id: string, input: KeyHandoffInput): Promise<ShuttleRequestRecord>
+  /**
+   * A driver marks the job picked up (confirmed → in_progress) or delivered
+   * (in_progress → completed). Picking up a job someone already started only
+   * records the check-in. Only a driver with a vehicle on the job ('forbidden'
+   * otherwise), each step once ('conflict' if already recorded), delivery only
+   * after pickup ('invalid' otherwise).
+   */
+  checkIn(id: string, input: CheckInInput): Promise<ShuttleRequestRecord>
+  /**
+   * The request's lockbox codes by vehicle id. Staff get them all and drivers
+   * those of their own vehicles; a code is never read back to the customer.
+   */
+  lockboxCodes(id: string): Promise<Record<string, string>>
+}
+
+// 'capacity' means the day is fully booked; the caller may offer the waitlist.
+// 'network' means the backend couldn't be reached, or its reply was lost on
+// the way back, so the write may or may not have happened
+export type DataErrorCode = 'not_found' | 'invalid' | 'conflict' | 'forbidden' | 'capacity' | 'network' | 'backend'
+
+export class DataError extends Error {
+  readonly code: DataErrorCode
+
+  constructor(message: string, code: DataErrorCode) {
+    super(message)
+    this.name = 'DataError'
+    this.code = code
+  }
+}
+
+export const MAX_VEHICLES_PER_REQUEST = 10
+
+export function assertVehicleCount(vehicles: NewVehicle[]) {
+  if (vehicles.length < 1 || vehicles.length > MAX_VEHICLES_PER_REQUEST) {
+    throw new DataError(
+      `A shuttle request needs between 1 and ${MAX_VEHICLES_PER_REQUEST} vehicles`,
+      'invalid'
+    )
+  }
+}
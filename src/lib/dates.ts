@@ -0,0 +1,20 @@
+// Helpers for the plain `YYYY-MM-DD` / `HH:MM` strings used by date and time inputs
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/** Formats a Date as `YYYY-MM-DD` in local time (what `<input type="date">` expects). */
+export const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+/** Local Date for a date input value plus an optional time input value. */
+export const combineDateTime = (day: string, time = '00:00') => new Date(`${day}T${time}`)
+
+/** The date input value `days` days after (or before, if negative) `day`. */
+export const addDays = (day: string, days: number) => {
+  const date = combineDateTime(day)
+  date.setDate(date.getDate() + days)
+  return toDateInputValue(date)
+}
+
+/** The Sunday on or before `day`, as the week views start. */
+export const startOfWeek = (day: string) => addDays(day, -combineDateTime(day).getDay())
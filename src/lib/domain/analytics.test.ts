@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeRequests, leadDays } from './analytics'
+import { makeQuote, makeRequest, makeVehicle } from './fixtures.test-utils'
+
+// Local noon, so the booking day is the same in every time zone
+const bookedOn = (day: string) => new Date(`${day}T12:00`).toISOString()
+
+const range = { from: '2026-03-01', to: '2026-03-14' }
+
+describe('analyzeRequests', () => {
+  it('counts revenue from completed jobs and booked value from every job taken on', () => {
+    const stats = analyzeRequests([
+      makeRequest({ id: 'a', status: 'completed', quote: makeQuote({ totalCents: 10000 }) }),
+      makeRequest({ id: 'b', status: 'confirmed', quote: makeQuote({ totalCents: 5000 }) }),
+      makeRequest({ id: 'c', status: 'pending', quote: makeQuote({ totalCents: 7000 }) }),
+      makeRequest({ id: 'd', status: 'completed', quote: null })
+    ], range)
+
+    expect(stats).toMatchObject({ requests: 4, revenueCents: 10000, bookedCents: 15000, currency: 'USD' })
+  })
+
+  it('fills every week in the range, ignoring requests outside it', () => {
+    const stats = analyzeRequests([
+      makeRequest({ dropoffDay: '2026-03-09', vehicles: [makeVehicle(), makeVehicle({ id: 'vehicle-2' })] }),
+      makeRequest({ dropoffDay: '2026-03-20' })
+    ], range)
+
+    expect(stats.weeks).toEqual([
+      { weekStart: '2026-03-01', requests: 0, vehicles: 0, revenueCents: 0 },
+      { weekStart: '2026-03-08', requests: 1, vehicles: 2, revenueCents: 0 }
+    ])
+  })
+
+  it('ranks routes by requests, matching names without regard to case', () => {
+    const route = (parking: string, dropoff: string) => ({
+      parkingLocation: { name: parking, lat: null, lng: null },
+      dropoffLocation: { name: dropoff, lat: null, lng: null }
+    })
+    const stats = analyzeRequests([
+      makeRequest({ id: 'a', ...route('Trailhead', 'Takeout') }),
+      makeRequest({ id: 'b', ...route(' trailhead', 'TAKEOUT') }),
+      makeRequest({ id: 'c', ...route('Bridge', 'Takeout') })
+    ], range, { topRoutes: 1 })
+
+    expect(stats.topRoutes).toEqual([{ parking: 'Trailhead', dropoff: 'Takeout', requests: 2, vehicles: 2 }])
+  })
+
+  it('buckets lead times and works out the cancellation rate', () => {
+    const stats = analyzeRequests([
+      makeRequest({ id: 'a', createdAt: bookedOn('2026-03-09'), status: 'cancelled' }),
+      makeRequest({ id: 'b', createdAt: bookedOn('2026-03-06') }),
+      makeRequest({ id: 'c', createdAt: bookedOn('2026-02-01'), status: 'rejected' }),
+      makeRequest({ id: 'd', createdAt: bookedOn('2026-03-01') })
+    ], range)
+
+    expect(stats.leadTimes.map((bucket) => bucket.requests)).toEqual([1, 0, 1, 1, 0, 1])
+    expect(stats).toMatchObject({ averageLeadDays: 11.75, medianLeadDays: 5.5, cancelled: 1, rejected: 1, cancellationRate: 0.25 })
+  })
+
+  it('leaves averages and rates empty with nothing in range', () => {
+    expect(analyzeRequests([], range)).toMatchObject({ averageLeadDays: null, medianLeadDays: null, cancellationRate: null })
+  })
+})
+
+describe('leadDays', () => {
+  it('never goes negative for requests entered after the fact', () => {
+    expect(leadDays({ createdAt: bookedOn('2026-03-12'), dropoffDay: '2026-03-09' })).toBe(0)
+  })
+})
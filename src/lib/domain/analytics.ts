@@ -0,0 +1,158 @@
+import { PRICING_CONFIG } from '../../config/pricing'
+import { addDays, combineDateTime, startOfWeek, toDateInputValue } from '../dates'
+import type { RequestStatus, ShuttleRequest } from './shuttleRequest'
+
+/**
+ * Analytics - Operations and revenue figures for the owner, worked out from
+ * the stored requests. Everything is grouped by drop-off day, when the work
+ * is done, and weeks start on Sunday like the schedule's.
+ *
+ * Revenue is what completed requests were quoted; the booked value adds the
+ * jobs still to do. Requests booked without a quote add nothing to either.
+ */
+
+export const REVENUE_STATUSES: readonly RequestStatus[] = ['completed']
+export const BOOKED_STATUSES: readonly RequestStatus[] = ['confirmed', 'in_progress', 'completed']
+
+export interface AnalyticsRange {
+  // Drop-off days, inclusive
+  from: string
+  to: string
+}
+
+export interface WeekStats {
+  weekStart: string
+  requests: number
+  vehicles: number
+  revenueCents: number
+}
+
+export interface RouteStats {
+  parking: string
+  dropoff: string
+  requests: number
+  vehicles: number
+}
+
+export interface LeadTimeBucket {
+  label: string
+  requests: number
+}
+
+export interface RequestAnalytics {
+  requests: number
+  vehicles: number
+  revenueCents: number
+  bookedCents: number
+  currency: string
+  // Every week in the range, including empty ones, oldest first
+  weeks: WeekStats[]
+  // Busiest first
+  topRoutes: RouteStats[]
+  // Whole days from booking to drop-off; null with no requests
+  averageLeadDays: number | null
+  medianLeadDays: number | null
+  leadTimes: LeadTimeBucket[]
+  cancelled: number
+  rejected: number
+  // Share of requests cancelled, 0 to 1; null with no requests
+  cancellationRate: number | null
+}
+
+// Lower bound of each bucket in days; each runs up to the next one's
+const LEAD_TIME_BUCKETS: { label: string; minDays: number }[] = [
+  { label: 'Same day', minDays: 0 },
+  { label: '1–2 days', minDays: 1 },
+  { label: '3–6 days', minDays: 3 },
+  { label: '1–2 weeks', minDays: 7 },
+  { label: '2–4 weeks', minDays: 14 },
+  { label: '4+ weeks', minDays: 28 }
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Whole days from the request being booked to its drop-off day; never negative. */
+export const leadDays = (request: Pick<ShuttleRequest, 'createdAt' | 'dropoffDay'>) => {
+  const booked = combineDateTime(toDateInputValue(new Date(request.createdAt)))
+  return Math.max(0, Math.round((combineDateTime(request.dropoffDay).getTime() - booked.getTime()) / DAY_MS))
+}
+
+const routeKey = (request: ShuttleRequest) =>
+  `${request.parkingLocation.name.trim().toLowerCase()}\n${request.dropoffLocation.name.trim().toLowerCase()}`
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Figures for the requests dropping off within `range`; requests outside it
+ * are ignored. Routes match on location names, ignoring case.
+ */
+export function analyzeRequests(
+  requests: readonly ShuttleRequest[],
+  range: AnalyticsRange,
+  { topRoutes = 5 }: { topRoutes?: number } = {}
+): RequestAnalytics {
+  const inRange = requests.filter((request) => request.dropoffDay >= range.from && request.dropoffDay <= range.to)
+
+  const weeks = new Map<string, WeekStats>()
+  for (let week = startOfWeek(range.from); week <= range.to; week = addDays(week, 7)) {
+    weeks.set(week, { weekStart: week, requests: 0, vehicles: 0, revenueCents: 0 })
+  }
+
+  const routes = new Map<string, RouteStats>()
+  const leads: number[] = []
+  let revenueCents = 0
+  let bookedCents = 0
+
+  for (const request of inRange) {
+    const quoted = request.quote?.totalCents ?? 0
+    const earned = REVENUE_STATUSES.includes(request.status) ? quoted : 0
+    revenueCents += earned
+    if (BOOKED_STATUSES.includes(request.status)) bookedCents += quoted
+
+    const week = weeks.get(startOfWeek(request.dropoffDay))!
+    week.requests += 1
+    week.vehicles += request.vehicles.length
+    week.revenueCents += earned
+
+    const key = routeKey(request)
+    const route = routes.get(key) ?? {
+      parking: request.parkingLocation.name.trim(),
+      dropoff: request.dropoffLocation.name.trim(),
+      requests: 0,
+      vehicles: 0
+    }
+    route.requests += 1
+    route.vehicles += request.vehicles.length
+    routes.set(key, route)
+
+    leads.push(leadDays(request))
+  }
+
+  const cancelled = inRange.filter((request) => request.status === 'cancelled').length
+
+  return {
+    requests: inRange.length,
+    vehicles: inRange.reduce((sum, request) => sum + request.vehicles.length, 0),
+    revenueCents,
+    bookedCents,
+    currency: inRange.find((request) => request.quote)?.quote?.currency ?? PRICING_CONFIG.currency,
+    weeks: [...weeks.values()],
+    topRoutes: [...routes.values()]
+      .sort((a, b) => b.requests - a.requests || b.vehicles - a.vehicles || a.parking.localeCompare(b.parking))
+      .slice(0, topRoutes),
+    averageLeadDays: leads.length > 0 ? leads.reduce((sum, days) => sum + days, 0) / leads.length : null,
+    medianLeadDays: median(leads),
+    leadTimes: LEAD_TIME_BUCKETS.map((bucket, index) => {
+      const next = LEAD_TIME_BUCKETS[index + 1]?.minDays ?? Infinity
+      return { label: bucket.label, requests: leads.filter((days) => days >= bucket.minDays && days < next).length }
+    }),
+    cancelled,
+    rejected: inRange.filter((request) => request.status === 'rejected').length,
+    cancellationRate: inRange.length > 0 ? cancelled / inRange.length : null
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Calendar feeds - Secret links calendar apps subscribe to for confirmed
+ * jobs, either all of them or just one driver's.
+ */
+
+export interface CalendarFeed {
+  id: string
+  label: string
+  // Only this driver's jobs when set
+  driverId: string | null
+  // Null when the data backend can't serve feeds (the local store)
+  url: string | null
+  createdAt: string
+}
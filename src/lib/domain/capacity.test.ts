@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { dayAvailability, findCapacityProblem, requestLoad, type CapacitySettings } from './capacity'
+import { makeQuote, makeRequest, makeVehicle } from './fixtures.test-utils'
+
+const vehicles = (count: number) => Array.from({ length: count }, (_, index) => makeVehicle({ id: `vehicle-${index}` }))
+
+describe('requestLoad', () => {
+  it('counts vehicles', () => {
+    expect(requestLoad({ vehicles: vehicles(3), quote: null }, 'vehicles')).toBe(3)
+  })
+
+  it('counts driver-hours from the quote, there and back plus turnaround', () => {
+    // (45 + 45 + 30) minutes for each of two drivers
+    expect(requestLoad({ vehicles: vehicles(2), quote: makeQuote({ durationMinutes: 45 }) }, 'driver_hours')).toBe(4)
+  })
+
+  it('falls back to the default trip length without a quote', () => {
+    // (60 + 60 + 30) minutes
+    expect(requestLoad({ vehicles: vehicles(1), quote: null }, 'driver_hours')).toBe(2.5)
+  })
+})
+
+describe('dayAvailability', () => {
+  const settings: CapacitySettings = { unit: 'vehicles', dailyLimit: 4 }
+
+  it('only counts scheduled requests on that day', () => {
+    const requests = [
+      makeRequest({ id: 'a', status: 'confirmed', vehicles: vehicles(2) }),
+      makeRequest({ id: 'b', status: 'pending', vehicles: vehicles(1) }),
+      makeRequest({ id: 'c', status: 'waitlisted', vehicles: vehicles(3) }),
+      makeRequest({ id: 'd', status: 'cancelled', vehicles: vehicles(3) }),
+      makeRequest({ id: 'e', status: 'confirmed', dropoffDay: '2026-03-10', vehicles: vehicles(3) })
+    ]
+
+    expect(dayAvailability('2026-03-09', requests, settings, []).booked).toBe(3)
+    expect(dayAvailability('2026-03-09', requests, settings, [], 'a').booked).toBe(1)
+  })
+
+  it('reports blackout days with their reason', () => {
+    const availability = dayAvailability('2026-03-09', [], settings, [{ day: '2026-03-09', reason: 'Race day' }])
+    expect(availability).toMatchObject({ blackout: true, reason: 'Race day' })
+  })
+})
+
+describe('findCapacityProblem', () => {
+  const day = (booked: number, blackout = false) => ({ day: '2026-03-09', booked, limit: 4, blackout, reason: null })
+
+  it('fits a request within the remaining room', () => {
+    expect(findCapacityProblem(day(2), 2, 'vehicles')).toBeNull()
+  })
+
+  it('refuses a request bigger than what is left', () => {
+    expect(findCapacityProblem(day(3), 2, 'vehicles')).toEqual({
+      code: 'full',
+      message: '2026-03-09 only has room for 1 vehicle more'
+    })
+    expect(findCapacityProblem(day(4), 1, 'vehicles')?.message).toBe('2026-03-09 is fully booked')
+  })
+
+  it('refuses anything on a blackout day', () => {
+    expect(findCapacityProblem(day(0, true), 1, 'vehicles')?.code).toBe('blackout')
+  })
+})
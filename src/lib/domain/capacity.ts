@@ -0,0 +1,132 @@
+import { SCHEDULING_CONFIG, type SchedulingConfig } from '../../config/scheduling'
+import type { CapacitySettingsRow } from '../data/types'
+import { field, object } from '../schema'
+import { SCHEDULED_STATUSES, jobDurationMinutes } from './drivers'
+import type { RequestStatus, ShuttleRequest, ShuttleRequestDraft } from './shuttleRequest'
+
+/**
+ * Capacity - How much work the owner takes on per day, and which days are
+ * closed altogether. Pending, confirmed and in-progress requests all count
+ * against the day; waitlisted ones wait for a spot to free up.
+ */
+
+export type CapacityUnit = CapacitySettingsRow['unit']
+
+// Moving a request into one of these needs room on its day
+export const CAPACITY_CHECKED_STATUSES: readonly RequestStatus[] = ['pending', 'confirmed']
+
+export const CAPACITY_UNIT_LABELS: Record<CapacityUnit, string> = {
+  vehicles: 'Vehicles',
+  driver_hours: 'Driver-hours'
+}
+
+export interface CapacitySettings {
+  unit: CapacityUnit
+  dailyLimit: number
+}
+
+export const capacitySettingsSchema = object<CapacitySettings>({
+  dailyLimit: field<number>((limit) => (Number.isFinite(limit) && limit > 0 ? null : 'Enter a daily limit above zero'))
+})
+
+export interface BlackoutDate {
+  day: string
+  reason: string | null
+}
+
+export interface DayAvailability {
+  day: string
+  // In the settings' unit
+  booked: number
+  limit: number
+  blackout: boolean
+  reason: string | null
+}
+
+export const defaultCapacitySettings = (config: SchedulingConfig = SCHEDULING_CONFIG): CapacitySettings => ({
+  ...config.defaultCapacity
+})
+
+// Driver-hours are kept to two decimal places so totals compare exactly
+const roundLoad = (value: number) => Math.round(value * 100) / 100
+
+/** How much of a day's capacity a request takes up. */
+export function requestLoad(
+  // Drafts too, so the booking form can tell which days still have room
+  request: Pick<ShuttleRequestDraft, 'vehicles' | 'quote'>,
+  unit: CapacityUnit,
+  config: SchedulingConfig = SCHEDULING_CONFIG
+): number {
+  if (unit === 'vehicles') return request.vehicles.length
+
+  // Every vehicle has its own driver for the whole job window
+  return roundLoad(request.vehicles.length * jobDurationMinutes(request, config) / 60)
+}
+
+/**
+ * Availability of `day` given every known request. `excludeId` leaves one
+ * request out, so it can be checked against everyone else's bookings.
+ */
+export function dayAvailability(
+  day: string,
+  requests: readonly ShuttleRequest[],
+  settings: CapacitySettings,
+  blackouts: readonly BlackoutDate[],
+  excludeId?: string,
+  config: SchedulingConfig = SCHEDULING_CONFIG
+): DayAvailability {
+  const blackout = blackouts.find((candidate) => candidate.day === day)
+  const booked = requests
+    .filter((request) => request.dropoffDay === day && request.id !== excludeId && SCHEDULED_STATUSES.includes(request.status))
+    .reduce((total, request) => total + requestLoad(request, settings.unit, config), 0)
+
+  return {
+    day,
+    booked: roundLoad(booked),
+    limit: settings.dailyLimit,
+    blackout: Boolean(blackout),
+    reason: blackout?.reason ?? null
+  }
+}
+
+export const remainingCapacity = (availability: DayAvailability) =>
+  availability.blackout ? 0 : Math.max(0, roundLoad(availability.limit - availability.booked))
+
+export const isFullyBooked = (availability: DayAvailability) => remainingCapacity(availability) <= 0
+
+const formatLoad = (load: number, unit: CapacityUnit) => unit === 'vehicles'
+  ? `${load} vehicle${load === 1 ? '' : 's'}`
+  : `${load} driver-hour${load === 1 ? '' : 's'}`
+
+export type CapacityProblemCode = 'blackout' | 'full'
+
+export interface CapacityProblem {
+  code: CapacityProblemCode
+  message: string
+}
+
+/** Why a request needing `load` can't go on the day, or null if it fits. */
+export function findCapacityProblem(
+  availability: DayAvailability,
+  load: number,
+  unit: CapacityUnit
+): CapacityProblem | null {
+  if (availability.blackout) {
+    return {
+      code: 'blackout',
+      message: `Shuttles aren't running on ${availability.day}${availability.reason ? ` (${availability.reason})` : ''}`
+    }
+  }
+
+  const remaining = remainingCapacity(availability)
+  if (load > remaining) {
+    return {
+      code: 'full',
+      message: remaining > 0
+        ? `${availability.day} only has room for ${formatLoad(remaining, unit)} more`
+        : `${availability.day} is fully booked`
+    }
+  }
+
+  return null
+}
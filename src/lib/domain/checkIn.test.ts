@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { driverJobsFor, findCheckInProblem, nextCheckInStep } from './checkIn'
+import { makeRequest, makeVehicle } from './fixtures.test-utils'
+
+const checkIn = { at: '2026-03-09T09:00:00.000Z', by: 'Sam Driver', driverId: 'driver-1', position: null }
+
+describe('check-in', () => {
+  it('picks a job up before delivering it', () => {
+    expect(nextCheckInStep(makeRequest())).toBe('picked_up')
+    expect(nextCheckInStep(makeRequest({ pickedUp: checkIn }))).toBe('delivered')
+    expect(nextCheckInStep(makeRequest({ pickedUp: checkIn, delivered: checkIn }))).toBeNull()
+  })
+
+  it('records each step once, in order, while the job is on', () => {
+    expect(findCheckInProblem(makeRequest(), 'picked_up')).toBeNull()
+    expect(findCheckInProblem(makeRequest({ status: 'pending' }), 'picked_up')?.code).toBe('not_active')
+    expect(findCheckInProblem(makeRequest(), 'delivered')?.code).toBe('out_of_order')
+    expect(findCheckInProblem(makeRequest({ status: 'completed', pickedUp: checkIn, delivered: checkIn }), 'delivered')).toEqual({
+      code: 'already_done',
+      message: 'Delivered was already recorded by Sam Driver'
+    })
+  })
+})
+
+describe('driverJobsFor', () => {
+  it("lists the driver's jobs for the day in arrival order, keeping delivered ones", () => {
+    const theirs = [makeVehicle({ driverId: 'driver-1' })]
+    const jobs = driverJobsFor([
+      makeRequest({ id: 'late', arrivalTime: '14:00', vehicles: theirs }),
+      makeRequest({ id: 'early', arrivalTime: '08:00', status: 'in_progress', vehicles: theirs }),
+      makeRequest({ id: 'done', status: 'completed', delivered: checkIn, vehicles: theirs }),
+      makeRequest({ id: 'closed-by-owner', status: 'completed', vehicles: theirs }),
+      makeRequest({ id: 'other-driver', vehicles: [makeVehicle({ driverId: 'driver-2' })] }),
+      makeRequest({ id: 'other-day', dropoffDay: '2026-03-10', vehicles: theirs })
+    ], { id: 'driver-1' }, '2026-03-09')
+
+    expect(jobs.map((job) => job.id)).toEqual(['early', 'done', 'late'])
+  })
+})
@@ -0,0 +1,88 @@
+import type { CheckInStep } from '../data/types'
+import type { Driver } from './drivers'
+import { ACTIVE_STATUSES, type RequestStatus, type ShuttleRequest } from './shuttleRequest'
+
+/**
+ * Check-in - Drivers mark a job picked up and then delivered from their
+ * phone. Picking up puts a confirmed job on the road (in_progress) and
+ * delivering completes it; each records when, who and where the device was.
+ */
+
+export type { CheckInStep }
+
+export const CHECK_IN_LABELS: Record<CheckInStep, string> = {
+  picked_up: 'Picked up',
+  delivered: 'Delivered'
+}
+
+export const CHECK_IN_ACTION_LABELS: Record<CheckInStep, string> = {
+  picked_up: 'Mark picked up',
+  delivered: 'Mark delivered'
+}
+
+// The status each step leaves the job in
+export const CHECK_IN_STATUSES: Record<CheckInStep, RequestStatus> = {
+  picked_up: 'in_progress',
+  delivered: 'completed'
+}
+
+/** Where the driver's device said it was, if it would say. */
+export interface DevicePosition {
+  lat: number
+  lng: number
+  accuracyMeters: number | null
+}
+
+export interface CheckIn {
+  at: string
+  by: string
+  driverId: string | null
+  position: DevicePosition | null
+}
+
+/** The step still to record for `request`, or null once it's delivered. */
+export const nextCheckInStep = (request: Pick<ShuttleRequest, 'pickedUp' | 'delivered'>): CheckInStep | null => {
+  if (!request.pickedUp) return 'picked_up'
+  if (!request.delivered) return 'delivered'
+  return null
+}
+
+export type CheckInProblemCode = 'not_active' | 'out_of_order' | 'already_done'
+
+export interface CheckInProblem {
+  code: CheckInProblemCode
+  message: string
+}
+
+/** Why `step` can't be recorded on `request` right now, or null if it can. */
+export function findCheckInProblem(
+  request: Pick<ShuttleRequest, 'status' | 'pickedUp' | 'delivered'>,
+  step: CheckInStep
+): CheckInProblem | null {
+  const done = step === 'picked_up' ? request.pickedUp : request.delivered
+  if (done) {
+    return { code: 'already_done', message: `${CHECK_IN_LABELS[step]} was already recorded by ${done.by}` }
+  }
+  if (!ACTIVE_STATUSES.includes(request.status)) {
+    return { code: 'not_active', message: `A ${request.status} job can't be checked in` }
+  }
+  if (step === 'delivered' && !request.pickedUp) {
+    return { code: 'out_of_order', message: 'Mark the job picked up first' }
+  }
+
+  return null
+}
+
+/** Whether `driver` is on any of the request's vehicles. */
+export const isDriverOn = (request: Pick<ShuttleRequest, 'vehicles'>, driver: Pick<Driver, 'id'>) =>
+  request.vehicles.some((vehicle) => vehicle.driverId === driver.id)
+
+/**
+ * A driver's jobs for `day`, in arrival order: everything still to do plus
+ * what they've delivered, so the day's progress stays visible.
+ */
+export const driverJobsFor = (requests: readonly ShuttleRequest[], driver: Pick<Driver, 'id'>, day: string) =>
+  requests
+    .filter((request) => request.dropoffDay === day && isDriverOn(request, driver))
+    .filter((request) => ACTIVE_STATUSES.includes(request.status) || (request.status === 'completed' && request.delivered))
+    .sort((a, b) => a.arrivalTime.localeCompare(b.arrivalTime))
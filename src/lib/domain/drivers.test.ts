@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { findAssignmentProblem, isDriverWorkingOn, jobWindow } from './drivers'
+import { makeDriver, makeQuote, makeRequest, makeVehicle } from './fixtures.test-utils'
+
+describe('jobWindow', () => {
+  it('runs from setting off until back from the drop-off', () => {
+    const window = jobWindow({ dropoffDay: '2026-03-09', arrivalTime: '10:00', quote: makeQuote({ durationMinutes: 45 }) })
+    expect(window.start).toEqual(new Date('2026-03-09T09:15'))
+    expect(window.end).toEqual(new Date('2026-03-09T11:15'))
+  })
+})
+
+describe('isDriverWorkingOn', () => {
+  it('follows working days and time off', () => {
+    const driver = makeDriver({ timeOff: [{ id: 'off-1', day: '2026-03-10', reason: null }] })
+    expect(isDriverWorkingOn(driver, '2026-03-09')).toBe(true)
+    expect(isDriverWorkingOn(driver, '2026-03-10')).toBe(false)
+    // A Saturday
+    expect(isDriverWorkingOn(driver, '2026-03-14')).toBe(false)
+  })
+})
+
+describe('findAssignmentProblem', () => {
+  const manual = makeVehicle({ transmission: 'manual' })
+
+  it('accepts a qualified, working, free driver', () => {
+    const request = makeRequest({ vehicles: [manual] })
+    expect(findAssignmentProblem(makeDriver(), manual, request, [request])).toBeNull()
+  })
+
+  it('refuses inactive drivers', () => {
+    const request = makeRequest()
+    expect(findAssignmentProblem(makeDriver({ active: false }), request.vehicles[0], request, [])?.code).toBe('inactive')
+  })
+
+  it('only gives manual cars to drivers qualified for them', () => {
+    const request = makeRequest({ vehicles: [manual] })
+    const driver = makeDriver({ canDriveManual: false })
+    expect(findAssignmentProblem(driver, manual, request, [])?.code).toBe('not_qualified')
+    expect(findAssignmentProblem(driver, makeVehicle(), makeRequest(), [])).toBeNull()
+  })
+
+  it('refuses drivers who are not working that day', () => {
+    const request = makeRequest({ dropoffDay: '2026-03-14' })
+    expect(findAssignmentProblem(makeDriver(), request.vehicles[0], request, [])?.code).toBe('unavailable')
+  })
+
+  it('refuses a driver already on an overlapping job', () => {
+    const other = makeRequest({
+      id: 'request-2',
+      reference: 'SF-TEST02',
+      arrivalTime: '10:30',
+      vehicles: [makeVehicle({ driverId: 'driver-1' })]
+    })
+    const request = makeRequest()
+
+    expect(findAssignmentProblem(makeDriver(), request.vehicles[0], request, [request, other])).toEqual({
+      code: 'double_booked',
+      message: 'Sam Driver is already driving SF-TEST02 at 10:30 on 2026-03-09'
+    })
+  })
+
+  it('ignores jobs that are over or far enough apart', () => {
+    const request = makeRequest()
+    const driving = [makeVehicle({ driverId: 'driver-1' })]
+    const others = [
+      makeRequest({ id: 'request-2', status: 'completed', vehicles: driving }),
+      makeRequest({ id: 'request-3', arrivalTime: '16:00', vehicles: driving })
+    ]
+
+    expect(findAssignmentProblem(makeDriver(), request.vehicles[0], request, [request, ...others])).toBeNull()
+  })
+
+  it('keeps one driver to one vehicle on the same request', () => {
+    const request = makeRequest({
+      vehicles: [makeVehicle({ id: 'vehicle-1', driverId: 'driver-1' }), makeVehicle({ id: 'vehicle-2' })]
+    })
+
+    expect(findAssignmentProblem(makeDriver(), request.vehicles[0], request, [request])).toBeNull()
+    expect(findAssignmentProblem(makeDriver(), request.vehicles[1], request, [request])?.code).toBe('double_booked')
+  })
+})
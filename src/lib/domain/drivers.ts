@@ -0,0 +1,143 @@
+import { SCHEDULING_CONFIG, type SchedulingConfig } from '../../config/scheduling'
+import { combineDateTime } from '../dates'
+import { EMAIL_PATTERN, PHONE_PATTERN, field, matches, object, required } from '../schema'
+import type { RequestStatus, ShuttleRequest, ShuttleRequestDraft, Vehicle } from './shuttleRequest'
+
+/**
+ * Drivers - The people who move customers' vehicles, and the rules for
+ * assigning them: manual cars need a qualified driver, drivers only work on
+ * their days, and nobody can be in two places at once.
+ */
+
+export interface DriverTimeOff {
+  id: string
+  day: string
+  reason: string | null
+}
+
+export interface Driver {
+  id: string
+  fullName: string
+  phone: string
+  email: string | null
+  canDriveManual: boolean
+  // Inactive drivers stay on past jobs but can't be given new ones
+  active: boolean
+  // 0 = Sunday, matching Date#getDay
+  workingDays: number[]
+  timeOff: DriverTimeOff[]
+  notes: string | null
+}
+
+export type DriverDraft = Omit<Driver, 'id' | 'timeOff'>
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const
+
+export const emptyDriverDraft = (): DriverDraft => ({
+  fullName: '',
+  phone: '',
+  email: null,
+  canDriveManual: false,
+  active: true,
+  workingDays: [1, 2, 3, 4, 5],
+  notes: null
+})
+
+export const driverDraftSchema = object<DriverDraft>({
+  fullName: field(required('Enter the driver\'s name')),
+  phone: field(required('Enter a phone number'), matches(PHONE_PATTERN, 'Enter a valid phone number')),
+  email: field<string | null>((email) => (!email || EMAIL_PATTERN.test(email.trim()) ? null : 'Enter a valid email address')),
+  workingDays: field<number[]>((days) => (days.length > 0 ? null : 'Pick at least one working day'))
+})
+
+// Statuses whose vehicles still have to be driven, so their drivers are spoken for
+export const SCHEDULED_STATUSES: readonly RequestStatus[] = ['pending', 'confirmed', 'in_progress']
+
+export interface JobWindow {
+  start: Date
+  end: Date
+}
+
+/**
+ * When a driver is busy with a request: from setting off so the vehicle
+ * arrives on time, until they are back after delivering it.
+ */
+export function jobWindow(
+  request: Pick<ShuttleRequest, 'dropoffDay' | 'arrivalTime' | 'quote'>,
+  config: SchedulingConfig = SCHEDULING_CONFIG
+): JobWindow {
+  const arrival = combineDateTime(request.dropoffDay, request.arrivalTime)
+  const tripMinutes = request.quote?.durationMinutes ?? config.defaultTripMinutes
+  return {
+    start: new Date(arrival.getTime() - tripMinutes * 60_000),
+    end: new Date(arrival.getTime() + (tripMinutes + config.turnaroundMinutes) * 60_000)
+  }
+}
+
+/** Length of a job window; the same for every day and arrival time. */
+export const jobDurationMinutes = (
+  request: Pick<ShuttleRequestDraft, 'quote'>,
+  config: SchedulingConfig = SCHEDULING_CONFIG
+) => 2 * (request.quote?.durationMinutes ?? config.defaultTripMinutes) + config.turnaroundMinutes
+
+export const windowsOverlap = (a: JobWindow, b: JobWindow) => a.start < b.end && b.start < a.end
+
+export const isDriverWorkingOn = (driver: Driver, day: string) =>
+  driver.workingDays.includes(combineDateTime(day).getDay()) &&
+  !driver.timeOff.some((off) => off.day === day)
+
+export type AssignmentProblemCode = 'inactive' | 'not_qualified' | 'unavailable' | 'double_booked'
+
+// Short forms for tight spaces such as a <select> option
+export const ASSIGNMENT_PROBLEM_LABELS: Record<AssignmentProblemCode, string> = {
+  inactive: 'inactive',
+  not_qualified: 'automatic only',
+  unavailable: 'not working that day',
+  double_booked: 'already booked'
+}
+
+export interface AssignmentProblem {
+  code: AssignmentProblemCode
+  message: string
+}
+
+/**
+ * Why `driver` can't take `vehicle` on `request`, or null if they can.
+ * `requests` is every request the driver might already be booked on; the
+ * request being assigned may be among them.
+ */
+export function findAssignmentProblem(
+  driver: Driver,
+  vehicle: Vehicle,
+  request: ShuttleRequest,
+  requests: readonly ShuttleRequest[],
+  config: SchedulingConfig = SCHEDULING_CONFIG
+): AssignmentProblem | null {
+  if (!driver.active) {
+    return { code: 'inactive', message: `${driver.fullName} is no longer active` }
+  }
+  if (vehicle.transmission === 'manual' && !driver.canDriveManual) {
+    return { code: 'not_qualified', message: `${driver.fullName} isn't qualified to drive manual` }
+  }
+  if (!isDriverWorkingOn(driver, request.dropoffDay)) {
+    return { code: 'unavailable', message: `${driver.fullName} isn't working on ${request.dropoffDay}` }
+  }
+
+  const window = jobWindow(request, config)
+  for (const other of requests) {
+    if (!SCHEDULED_STATUSES.includes(other.status)) continue
+    const clash = other.vehicles.some((candidate) =>
+      candidate.driverId === driver.id && !(other.id === request.id && candidate.id === vehicle.id)
+    )
+    if (clash && windowsOverlap(window, jobWindow(other, config))) {
+      return {
+        code: 'double_booked',
+        message: other.id === request.id
+          ? `${driver.fullName} is already driving another vehicle on this request`
+          : `${driver.fullName} is already driving ${other.reference} at ${other.arrivalTime} on ${other.dropoffDay}`
+      }
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,63 @@
+import type { Driver } from './drivers'
+import type { Quote } from './quote'
+import { emptyVehicle, type ShuttleRequest, type Vehicle } from './shuttleRequest'
+
+/**
+ * Test Fixtures - Minimal domain objects for the unit tests; each test only
+ * gives the fields it cares about.
+ */
+
+export const makeVehicle = (overrides: Partial<Vehicle> = {}): Vehicle => ({
+  ...emptyVehicle('vehicle-1'),
+  make: 'Toyota',
+  model: 'Tacoma',
+  year: '2020',
+  licensePlate: 'ABC 123',
+  color: 'Red',
+  ...overrides
+})
+
+export const makeQuote = (overrides: Partial<Quote> = {}): Quote => ({
+  distanceMiles: 40,
+  durationMinutes: 60,
+  lines: [{ code: 'base_fare', label: 'Base fare', quantity: 1, unitCents: 20000, amountCents: 20000 }],
+  totalCents: 20000,
+  currency: 'USD',
+  quotedAt: '2026-03-01T12:00:00.000Z',
+  ...overrides
+})
+
+export const makeRequest = (overrides: Partial<ShuttleRequest> = {}): ShuttleRequest => ({
+  id: 'request-1',
+  reference: 'SF-TEST01',
+  customer: { id: 'user-1', fullName: 'Jo Rider', email: 'jo@example.com', phone: '555-0100' },
+  parkingLocation: { name: 'Trailhead', lat: 40, lng: -105 },
+  dropoffLocation: { name: 'Takeout', lat: 40.5, lng: -105 },
+  vehicles: [makeVehicle()],
+  // A Monday
+  dropoffDay: '2026-03-09',
+  arrivalTime: '10:00',
+  status: 'confirmed',
+  notes: null,
+  quote: null,
+  history: [],
+  payments: [],
+  pickedUp: null,
+  delivered: null,
+  createdAt: '2026-03-01T12:00:00.000Z',
+  updatedAt: '2026-03-01T12:00:00.000Z',
+  ...overrides
+})
+
+export const makeDriver = (overrides: Partial<Driver> = {}): Driver => ({
+  id: 'driver-1',
+  fullName: 'Sam Driver',
+  phone: '555-0199',
+  email: null,
+  canDriveManual: true,
+  active: true,
+  workingDays: [1, 2, 3, 4, 5],
+  timeOff: [],
+  notes: null,
+  ...overrides
+})
@@ -0,0 +1,14 @@
+export * from './shuttleRequest'
+export * from './mappers'
+export * from './lifecycle'
+export * from './validation'
+export * from './quote'
+export * from './drivers'
+export * from './capacity'
+export * from './calendarFeeds'
+export * from './keyHandoff'
+export * from './checkIn'
+export * from './analytics'
+export * from './requestRules'
+export * from './payments'
+export * from './inspections'
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import {
+  distanceDriven,
+  emptyInspectionDraft,
+  fuelLevelLabel,
+  inspectionDraftSchema,
+  parseDamageMarks,
+  type InspectionValidationContext,
+  type VehicleInspection
+} from './inspections'
+
+const pickup: VehicleInspection = {
+  id: 'inspection-1',
+  vehicleId: 'vehicle-1',
+  stage: 'pickup',
+  odometer: 42000,
+  fuelEighths: 6,
+  damage: [{ x: 20, y: 30, kind: 'scratch', note: 'Rear bumper' }],
+  notes: null,
+  photos: [],
+  inspector: 'Sam Driver',
+  at: '2026-03-09T09:00:00.000Z'
+}
+
+describe('inspections', () => {
+  it('starts a delivery inspection from the damage found at pickup', () => {
+    const draft = emptyInspectionDraft(pickup)
+
+    expect(draft.damage).toEqual(pickup.damage)
+    expect(draft.damage[0]).not.toBe(pickup.damage[0])
+    expect(emptyInspectionDraft().damage).toEqual([])
+  })
+
+  it('needs an odometer reading no lower than at pickup', () => {
+    const validate = (odometer: string, context: InspectionValidationContext = { pickup }) =>
+      inspectionDraftSchema.validate({ ...emptyInspectionDraft(), odometer }, context)
+
+    expect(validate('42090')).toEqual({})
+    expect(validate('')).toEqual({ odometer: 'Enter the odometer reading' })
+    expect(validate('42.5')).toEqual({ odometer: 'Enter the reading as a whole number' })
+    expect(validate('41999')).toEqual({ odometer: `Lower than the ${(42000).toLocaleString()} recorded at pickup` })
+    expect(validate('100', { pickup: null })).toEqual({})
+  })
+
+  it('checks the fuel level and the length of damage notes', () => {
+    const draft = { ...emptyInspectionDraft(), odometer: '100', fuelEighths: 9, damage: [{ ...pickup.damage[0], note: 'x'.repeat(201) }] }
+
+    expect(inspectionDraftSchema.validate(draft, { pickup: null })).toEqual({
+      fuelEighths: 'Choose the fuel level',
+      'damage.0.note': 'Keep each note under 200 characters'
+    })
+  })
+
+  it('labels fuel levels as a driver reads the gauge', () => {
+    expect([0, 2, 3, 8].map(fuelLevelLabel)).toEqual(['Empty', '1/4', '3/8', 'Full'])
+  })
+
+  it('works out the distance driven once both inspections are in', () => {
+    expect(distanceDriven(pickup, { ...pickup, stage: 'delivery', odometer: 42090 })).toBe(90)
+    expect(distanceDriven(pickup, null)).toBeNull()
+  })
+
+  it('keeps only well-formed damage marks from the stored json', () => {
+    expect(parseDamageMarks([
+      { x: 20, y: 30, kind: 'dent', note: 'Driver door' },
+      { x: 50, y: 50, kind: 'chip' },
+      { x: 120, y: 30, kind: 'dent', note: '' },
+      { x: 20, y: 30, kind: 'smudge', note: '' },
+      { x: '20', y: 30, kind: 'dent', note: '' },
+      null,
+      [1, 2]
+    ])).toEqual([
+      { x: 20, y: 30, kind: 'dent', note: 'Driver door' },
+      { x: 50, y: 50, kind: 'chip', note: '' }
+    ])
+    expect(parseDamageMarks({ x: 20, y: 30, kind: 'dent' })).toEqual([])
+    expect(parseDamageMarks(null)).toEqual([])
+  })
+})
@@ -0,0 +1,130 @@
+import type { VehicleInspectionRow } from '../data/types'
+import type { Json } from '../supabase'
+import { array, field, object, required } from '../schema'
+import type { RequestStatus } from './shuttleRequest'
+
+/**
+ * Inspections - The driver's record of each vehicle's condition when they
+ * take it and when they leave it: odometer, fuel, the damage already on it
+ * and photos. Together they settle "was that scratch there before?".
+ */
+
+export type InspectionStage = VehicleInspectionRow['stage']
+
+export const INSPECTION_STAGE_LABELS: Record<InspectionStage, string> = {
+  pickup: 'Pickup',
+  delivery: 'Delivery'
+}
+
+export const INSPECTION_STAGES: readonly InspectionStage[] = ['pickup', 'delivery']
+
+// Inspections are done on the day, so only jobs under way or just finished take them
+export const INSPECTABLE_STATUSES: readonly RequestStatus[] = ['confirmed', 'in_progress', 'completed']
+
+export const MAX_INSPECTION_PHOTOS = 6
+
+export type DamageKind = 'scratch' | 'dent' | 'chip' | 'crack' | 'other'
+
+export const DAMAGE_KIND_LABELS: Record<DamageKind, string> = {
+  scratch: 'Scratch',
+  dent: 'Dent',
+  chip: 'Chip',
+  crack: 'Crack',
+  other: 'Other'
+}
+
+/** A mark on the top-down vehicle diagram; x and y are percentages of its width and height. */
+export interface DamageMark {
+  x: number
+  y: number
+  kind: DamageKind
+  note: string
+}
+
+const isPercent = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100
+
+/**
+ * The damage marks stored in a row's jsonb column. It isn't checked by the
+ * database, so anything that isn't a mark on the diagram is left out rather
+ * than breaking the report.
+ */
+export function parseDamageMarks(value: Json): DamageMark[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((entry): DamageMark[] => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return []
+    const { x, y, kind, note } = entry
+    if (!isPercent(x) || !isPercent(y) || typeof kind !== 'string' || !Object.hasOwn(DAMAGE_KIND_LABELS, kind)) return []
+    return [{ x, y, kind: kind as DamageKind, note: typeof note === 'string' ? note : '' }]
+  })
+}
+
+export interface VehicleInspection {
+  id: string
+  vehicleId: string
+  stage: InspectionStage
+  odometer: number
+  // Eighths of a tank
+  fuelEighths: number
+  damage: DamageMark[]
+  notes: string | null
+  // Storage paths; InspectionRepository#photoUrls turns them into something to show
+  photos: string[]
+  inspector: string
+  at: string
+}
+
+export interface InspectionDraft {
+  odometer: string
+  fuelEighths: number
+  damage: DamageMark[]
+  notes: string
+}
+
+/**
+ * A blank form, except that a delivery inspection starts from the damage found
+ * at pickup, so the driver only adds what's new.
+ */
+export const emptyInspectionDraft = (pickup: VehicleInspection | null = null): InspectionDraft => ({
+  odometer: '',
+  fuelEighths: 4,
+  damage: pickup ? pickup.damage.map((mark) => ({ ...mark })) : [],
+  notes: ''
+})
+
+export interface InspectionValidationContext {
+  // The vehicle's pickup inspection, when checking a delivery one
+  pickup: VehicleInspection | null
+}
+
+export const inspectionDraftSchema = object<InspectionDraft, InspectionValidationContext>({
+  odometer: field<string, InspectionValidationContext>(
+    required('Enter the odometer reading'),
+    (odometer, { pickup }) => {
+      const value = Number(odometer)
+      if (!Number.isInteger(value) || value < 0) return 'Enter the reading as a whole number'
+      return pickup && value < pickup.odometer
+        ? `Lower than the ${pickup.odometer.toLocaleString()} recorded at pickup`
+        : null
+    }
+  ),
+  fuelEighths: field((eighths) => (Number.isInteger(eighths) && eighths >= 0 && eighths <= 8 ? null : 'Choose the fuel level')),
+  damage: array(object<DamageMark>({
+    note: field((note) => (note.trim().length > 200 ? 'Keep each note under 200 characters' : null))
+  }))
+})
+
+const FRACTIONS: Record<number, string> = { 0: 'Empty', 2: '1/4', 4: '1/2', 6: '3/4', 8: 'Full' }
+
+/** "Empty", "1/4", "3/8", ..., "Full". */
+export const fuelLevelLabel = (eighths: number) => FRACTIONS[eighths] ?? `${eighths}/8`
+
+export const inspectionFor = (
+  inspections: readonly VehicleInspection[],
+  vehicleId: string,
+  stage: InspectionStage
+) => inspections.find((inspection) => inspection.vehicleId === vehicleId && inspection.stage === stage) ?? null
+
+/** How far the vehicle went between its two inspections, once both are in. */
+export const distanceDriven = (pickup: VehicleInspection | null, delivery: VehicleInspection | null) =>
+  pickup && delivery ? delivery.odometer - pickup.odometer : null
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { makeRequest, makeVehicle } from './fixtures.test-utils'
+import { findKeyHandoffProblem, nextKeyHandoffStep } from './keyHandoff'
+
+const handoff = { at: '2026-03-09T09:00:00.000Z', by: 'Sam Driver' }
+
+describe('key handoff', () => {
+  it('picks up the keys before dropping them off', () => {
+    expect(nextKeyHandoffStep(makeVehicle())).toBe('pickup')
+    expect(nextKeyHandoffStep(makeVehicle({ keyPickedUp: handoff }))).toBe('dropoff')
+    expect(nextKeyHandoffStep(makeVehicle({ keyPickedUp: handoff, keyDroppedOff: handoff }))).toBeNull()
+  })
+
+  it('allows each step once, in order, while the job is on', () => {
+    const vehicle = makeVehicle()
+
+    expect(findKeyHandoffProblem(makeRequest(), vehicle, 'pickup')).toBeNull()
+    expect(findKeyHandoffProblem(makeRequest({ status: 'pending' }), vehicle, 'pickup')?.code).toBe('not_active')
+    expect(findKeyHandoffProblem(makeRequest(), vehicle, 'dropoff')?.code).toBe('out_of_order')
+    expect(findKeyHandoffProblem(makeRequest(), makeVehicle({ keyPickedUp: handoff }), 'pickup')).toEqual({
+      code: 'already_done',
+      message: 'Keys picked up was already confirmed by Sam Driver'
+    })
+  })
+})
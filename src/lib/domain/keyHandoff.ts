@@ -0,0 +1,54 @@
+import type { KeyHandoffStep } from '../data/types'
+import { ACTIVE_STATUSES, type ShuttleRequest, type Vehicle } from './shuttleRequest'
+
+/**
+ * Key handoff - Drivers confirm picking up each vehicle's keys and leaving
+ * them at the drop-off, in that order, while the job is on.
+ */
+
+export type { KeyHandoffStep }
+
+export const KEY_HANDOFF_LABELS: Record<KeyHandoffStep, string> = {
+  pickup: 'Keys picked up',
+  dropoff: 'Keys dropped off'
+}
+
+export const KEY_HANDOFF_ACTION_LABELS: Record<KeyHandoffStep, string> = {
+  pickup: 'Confirm key pickup',
+  dropoff: 'Confirm key drop-off'
+}
+
+/** The step still to confirm for `vehicle`, or null once the keys are back. */
+export const nextKeyHandoffStep = (vehicle: Vehicle): KeyHandoffStep | null => {
+  if (!vehicle.keyPickedUp) return 'pickup'
+  if (!vehicle.keyDroppedOff) return 'dropoff'
+  return null
+}
+
+export type KeyHandoffProblemCode = 'not_active' | 'out_of_order' | 'already_done'
+
+export interface KeyHandoffProblem {
+  code: KeyHandoffProblemCode
+  message: string
+}
+
+/** Why `step` can't be confirmed for `vehicle` on `request` right now, or null if it can. */
+export function findKeyHandoffProblem(
+  request: ShuttleRequest,
+  vehicle: Vehicle,
+  step: KeyHandoffStep
+): KeyHandoffProblem | null {
+  if (!ACTIVE_STATUSES.includes(request.status)) {
+    return { code: 'not_active', message: `Keys can't be handed over on a ${request.status} request` }
+  }
+
+  const done = step === 'pickup' ? vehicle.keyPickedUp : vehicle.keyDroppedOff
+  if (done) {
+    return { code: 'already_done', message: `${KEY_HANDOFF_LABELS[step]} was already confirmed by ${done.by}` }
+  }
+  if (step === 'dropoff' && !vehicle.keyPickedUp) {
+    return { code: 'out_of_order', message: 'Confirm the key pickup first' }
+  }
+
+  return null
+}
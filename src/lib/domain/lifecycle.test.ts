@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { TransitionError, assertTransition, canTransition, isCustomerEditable, isTerminalStatus } from './lifecycle'
+
+describe('lifecycle', () => {
+  it('moves a request forward through the normal path', () => {
+    expect(canTransition('pending', 'confirmed')).toBe(true)
+    expect(canTransition('confirmed', 'in_progress')).toBe(true)
+    expect(canTransition('in_progress', 'completed')).toBe(true)
+  })
+
+  it('offers waitlisted requests a spot before they can be confirmed', () => {
+    expect(canTransition('waitlisted', 'pending')).toBe(true)
+    expect(canTransition('waitlisted', 'confirmed')).toBe(false)
+  })
+
+  it('refuses to skip steps or go backwards', () => {
+    expect(canTransition('confirmed', 'completed')).toBe(false)
+    expect(canTransition('in_progress', 'confirmed')).toBe(false)
+    expect(canTransition('in_progress', 'cancelled')).toBe(false)
+  })
+
+  it('treats completed, cancelled and rejected as final', () => {
+    expect(isTerminalStatus('completed')).toBe(true)
+    expect(isTerminalStatus('cancelled')).toBe(true)
+    expect(isTerminalStatus('rejected')).toBe(true)
+    expect(isTerminalStatus('in_progress')).toBe(false)
+  })
+
+  it('throws a TransitionError for a move that is not allowed', () => {
+    expect(() => assertTransition('completed', 'pending')).toThrow(TransitionError)
+  })
+
+  it('needs a reason to reject or cancel', () => {
+    expect(() => assertTransition('pending', 'rejected')).toThrow('A reason is required')
+    expect(() => assertTransition('confirmed', 'cancelled', '   ')).toThrow('A reason is required')
+    expect(() => assertTransition('confirmed', 'cancelled', 'Customer called off the trip')).not.toThrow()
+  })
+
+  it('lets customers change only requests the owner has not acted on', () => {
+    expect(isCustomerEditable('pending')).toBe(true)
+    expect(isCustomerEditable('waitlisted')).toBe(false)
+    expect(isCustomerEditable('confirmed')).toBe(false)
+  })
+})
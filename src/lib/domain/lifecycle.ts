@@ -0,0 +1,73 @@
+import type { RequestStatus } from './shuttleRequest'
+
+/**
+ * Request Lifecycle - the allowed status transitions
+ *
+ *   waitlisted ──► pending ──► confirmed ──► in_progress ──► completed
+ *       │             │            │
+ *       ├─────────────┼──► rejected (reason required)
+ *       └─────────────┴────────────┴──► cancelled (reason required)
+ *
+ * completed, cancelled and rejected are terminal. Requests for a fully booked
+ * day start out waitlisted; moving into pending or confirmed is also subject
+ * to the day's capacity (see ./capacity), which the data layer enforces.
+ */
+
+export const TRANSITIONS: Record<RequestStatus, readonly RequestStatus[]> = {
+  pending: ['confirmed', 'rejected', 'cancelled'],
+  waitlisted: ['pending', 'rejected', 'cancelled'],
+  confirmed: ['in_progress', 'cancelled'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: [],
+  rejected: []
+}
+
+// Moving into these states needs a note explaining why
+export const REASON_REQUIRED: readonly RequestStatus[] = ['rejected', 'cancelled']
+
+// Verb shown on the button that moves a request into each state
+export const TRANSITION_ACTION_LABELS: Record<RequestStatus, string> = {
+  pending: 'Offer a Spot',
+  waitlisted: 'Move to Waitlist',
+  confirmed: 'Accept Request',
+  in_progress: 'Start Shuttle',
+  completed: 'Mark as Completed',
+  cancelled: 'Cancel Request',
+  rejected: 'Reject Request'
+}
+
+// Customers can change or call off their own request until the owner has acted on it
+export const CUSTOMER_EDITABLE_STATUSES: readonly RequestStatus[] = ['pending']
+
+export class TransitionError extends Error {
+  readonly from: RequestStatus
+  readonly to: RequestStatus
+
+  constructor(message: string, from: RequestStatus, to: RequestStatus) {
+    super(message)
+    this.name = 'TransitionError'
+    this.from = from
+    this.to = to
+  }
+}
+
+export const availableTransitions = (status: RequestStatus): readonly RequestStatus[] => TRANSITIONS[status]
+
+export const canTransition = (from: RequestStatus, to: RequestStatus) => TRANSITIONS[from].includes(to)
+
+export const requiresReason = (to: RequestStatus) => REASON_REQUIRED.includes(to)
+
+export const isTerminalStatus = (status: RequestStatus) => TRANSITIONS[status].length === 0
+
+export const isCustomerEditable = (status: RequestStatus) => CUSTOMER_EDITABLE_STATUSES.includes(status)
+
+/** Throws a TransitionError if `from -> to` is not allowed or lacks a required reason. */
+export function assertTransition(from: RequestStatus, to: RequestStatus, note?: string | null) {
+  if (!canTransition(from, to)) {
+    throw new TransitionError(`Cannot move a ${from} request to ${to}`, from, to)
+  }
+  if (requiresReason(to) && !note?.trim()) {
+    throw new TransitionError(`A reason is required to mark a request ${to}`, from, to)
+  }
+}
@@ -0,0 +1,335 @@
+import type {
+  BlackoutDateRow,
+  CalendarFeedRow,
+  CapacitySettingsRow,
+  CreateShuttleRequestInput,
+  DayAvailabilityRow,
+  DriverRecord,
+  DriverTimeOffRow,
+  Insert,
+  InvoiceRow,
+  JobCheckInRow,
+  NewVehicle,
+  PaymentRow,
+  RecordInspectionInput,
+  RequestRuleActionRow,
+  RequestRuleSettingsRow,
+  ShuttleRequestRecord,
+  StatusEventRow,
+  Update,
+  UpdateShuttleRequestInput,
+  UserRow,
+  VehicleInspectionRow,
+  VehicleRow
+} from '../data/types'
+import type { CalendarFeed } from './calendarFeeds'
+import type { BlackoutDate, CapacitySettings, DayAvailability } from './capacity'
+import type { Driver, DriverDraft, DriverTimeOff } from './drivers'
+import type { CheckIn, CheckInStep } from './checkIn'
+import { parseDamageMarks, type InspectionDraft, type InspectionStage, type VehicleInspection } from './inspections'
+import type { Invoice, Payment } from './payments'
+import type { Quote, QuoteLine } from './quote'
+import type { RequestRuleAction, RequestRuleSettings } from './requestRules'
+import type { Customer, ShuttleRequest, ShuttleRequestDraft, StatusChange, Vehicle } from './shuttleRequest'
+
+// Row -> domain
+
+export const fromUserRow = (row: UserRow): Customer => ({
+  id: row.id,
+  fullName: row.full_name,
+  email: row.email,
+  phone: row.phone
+})
+
+// Rows stored before these columns existed lack them, hence the fallbacks
+export const fromVehicleRow = (row: VehicleRow): Vehicle => ({
+  id: row.id,
+  make: row.make,
+  model: row.model,
+  year: row.year,
+  transmission: row.transmission,
+  licensePlate: row.license_plate ?? '',
+  color: row.color ?? '',
+  drivetrain: row.drivetrain ?? '2wd',
+  equipmentNotes: row.equipment_notes ?? '',
+  keyLocation: row.key_location ?? '',
+  keyReturnLocation: row.key_return_location ?? '',
+  keyPickedUp: row.key_picked_up_at ? { at: row.key_picked_up_at, by: row.key_picked_up_by ?? '' } : null,
+  keyDroppedOff: row.key_dropped_off_at ? { at: row.key_dropped_off_at, by: row.key_dropped_off_by ?? '' } : null,
+  driverId: row.driver_id ?? null
+})
+
+export const fromStatusEventRow = (row: StatusEventRow): StatusChange => ({
+  id: row.id,
+  from: row.from_status,
+  to: row.to_status,
+  actor: row.actor,
+  note: row.note,
+  at: row.created_at
+})
+
+export const fromPaymentRow = (row: PaymentRow): Payment => ({
+  id: row.id,
+  kind: row.kind,
+  status: row.status,
+  amountCents: row.amount_cents,
+  currency: row.currency,
+  provider: row.provider,
+  providerReference: row.provider_reference,
+  cardLast4: row.card_last4,
+  failureMessage: row.failure_message,
+  createdAt: row.created_at
+})
+
+export const fromInvoiceRow = (row: InvoiceRow): Invoice => ({
+  id: row.id,
+  number: row.number,
+  requestId: row.shuttle_request_id,
+  paymentId: row.payment_id,
+  currency: row.currency,
+  lines: row.lines as QuoteLine[],
+  totalCents: row.total_cents,
+  paidCents: row.paid_cents,
+  balanceCents: row.balance_cents,
+  issuedAt: row.issued_at
+})
+
+export const fromJobCheckInRow = (row: JobCheckInRow): CheckIn => ({
+  at: row.created_at,
+  by: row.actor,
+  driverId: row.driver_id,
+  position: row.lat !== null && row.lng !== null ? { lat: row.lat, lng: row.lng, accuracyMeters: row.accuracy_m } : null
+})
+
+export const fromVehicleInspectionRow = (row: VehicleInspectionRow): VehicleInspection => ({
+  id: row.id,
+  vehicleId: row.vehicle_id,
+  stage: row.stage,
+  odometer: row.odometer,
+  fuelEighths: row.fuel_eighths,
+  damage: parseDamageMarks(row.damage),
+  notes: row.notes,
+  photos: row.photos,
+  inspector: row.inspector,
+  at: row.created_at
+})
+
+const checkInFor = (record: ShuttleRequestRecord, step: CheckInStep) => {
+  const row = record.check_ins.find((checkIn) => checkIn.step === step)
+  return row ? fromJobCheckInRow(row) : null
+}
+
+export const fromShuttleRequestRecord = (record: ShuttleRequestRecord): ShuttleRequest => ({
+  id: record.id,
+  reference: record.reference,
+  customer: record.user
+    ? fromUserRow(record.user)
+    : { id: record.user_id, fullName: '', email: '', phone: '' },
+  parkingLocation: {
+    name: record.parking_location_name,
+    lat: record.parking_lat,
+    lng: record.parking_lng
+  },
+  dropoffLocation: {
+    name: record.dropoff_location_name,
+    lat: record.dropoff_lat,
+    lng: record.dropoff_lng
+  },
+  vehicles: record.vehicles.map(fromVehicleRow),
+  dropoffDay: record.dropoff_day,
+  arrivalTime: record.arrival_time,
+  status: record.status,
+  notes: record.notes,
+  // Rows saved before quoting existed have no quote
+  quote: (record.quote ?? null) as Quote | null,
+  history: record.status_events
+    .map(fromStatusEventRow)
+    .sort((a, b) => a.at.localeCompare(b.at)),
+  payments: record.payments
+    .map(fromPaymentRow)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+  pickedUp: checkInFor(record, 'picked_up'),
+  delivered: checkInFor(record, 'delivered'),
+  createdAt: record.created_at,
+  updatedAt: record.updated_at
+})
+
+export const fromDriverTimeOffRow = (row: DriverTimeOffRow): DriverTimeOff => ({
+  id: row.id,
+  day: row.day,
+  reason: row.reason
+})
+
+export const fromDriverRecord = (record: DriverRecord): Driver => ({
+  id: record.id,
+  fullName: record.full_name,
+  phone: record.phone,
+  email: record.email,
+  canDriveManual: record.can_drive_manual,
+  active: record.active,
+  workingDays: [...record.working_days].sort((a, b) => a - b),
+  timeOff: record.time_off
+    .map(fromDriverTimeOffRow)
+    .sort((a, b) => a.day.localeCompare(b.day)),
+  notes: record.notes
+})
+
+export const fromCapacitySettingsRow = (row: CapacitySettingsRow): CapacitySettings => ({
+  unit: row.unit,
+  dailyLimit: Number(row.daily_limit)
+})
+
+export const fromBlackoutDateRow = (row: BlackoutDateRow): BlackoutDate => ({
+  day: row.day,
+  reason: row.reason
+})
+
+// numeric columns can arrive from PostgREST as strings
+export const fromDayAvailabilityRow = (row: DayAvailabilityRow): DayAvailability => ({
+  day: row.day,
+  booked: Number(row.booked),
+  limit: Number(row.daily_limit),
+  blackout: row.blackout,
+  reason: row.reason
+})
+
+// The URL depends on the backend, so the repository supplies it
+export const fromCalendarFeedRow = (row: CalendarFeedRow, url: string | null): CalendarFeed => ({
+  id: row.id,
+  label: row.label,
+  driverId: row.driver_id,
+  url,
+  createdAt: row.created_at
+})
+
+export const fromRequestRuleSettingsRow = (row: RequestRuleSettingsRow): RequestRuleSettings => ({
+  autoComplete: row.auto_complete_enabled,
+  autoCompleteGraceDays: row.auto_complete_grace_days,
+  expirePending: row.expire_pending_enabled,
+  flagUnassigned: row.flag_unassigned_enabled,
+  flagUnassignedDays: row.flag_unassigned_days
+})
+
+export const fromRequestRuleActionRow = (row: RequestRuleActionRow): RequestRuleAction => ({
+  id: row.id,
+  rule: row.rule,
+  requestId: row.shuttle_request_id,
+  reference: row.reference,
+  failed: row.outcome === 'failed',
+  message: row.message,
+  createdAt: row.created_at
+})
+
+// Domain -> row
+
+export const toUserInsert = (customer: Omit<Customer, 'id'>): Insert<'users'> => ({
+  full_name: customer.fullName.trim(),
+  email: customer.email.trim(),
+  phone: customer.phone.trim()
+})
+
+// The id only matters when it is one of the request's saved vehicles, which
+// is then updated in place; the store assigns ids to the rest. The driver is
+// carried over so replacing a request's vehicles keeps assignments. Key
+// handoffs are left out: only confirmKeyHandoff records them.
+export const toNewVehicle = (vehicle: Vehicle): NewVehicle => ({
+  id: vehicle.id,
+  make: vehicle.make.trim(),
+  model: vehicle.model.trim(),
+  year: vehicle.year,
+  transmission: vehicle.transmission,
+  license_plate: vehicle.licensePlate.trim().toUpperCase() || null,
+  color: vehicle.color.trim() || null,
+  drivetrain: vehicle.drivetrain,
+  equipment_notes: vehicle.equipmentNotes.trim() || null,
+  key_location: vehicle.keyLocation.trim() || null,
+  key_return_location: vehicle.keyReturnLocation.trim() || null,
+  ...(vehicle.lockboxCode !== undefined && { lockbox_code: vehicle.lockboxCode.trim() || null }),
+  driver_id: vehicle.driverId
+})
+
+export const toCreateShuttleRequestInput = (
+  draft: ShuttleRequestDraft,
+  { waitlist = false }: { waitlist?: boolean } = {}
+): CreateShuttleRequestInput => ({
+  user: toUserInsert(draft.customer),
+  request: {
+    parking_location_name: draft.parkingLocation.name.trim(),
+    parking_lat: draft.parkingLocation.lat,
+    parking_lng: draft.parkingLocation.lng,
+    dropoff_location_name: draft.dropoffLocation.name.trim(),
+    dropoff_lat: draft.dropoffLocation.lat,
+    dropoff_lng: draft.dropoffLocation.lng,
+    dropoff_day: draft.dropoffDay,
+    arrival_time: draft.arrivalTime,
+    notes: draft.notes ?? null
+  },
+  vehicles: draft.vehicles.map(toNewVehicle),
+  waitlist
+})
+
+type ShuttleRequestChanges = Partial<Pick<
+  ShuttleRequest,
+  'parkingLocation' | 'dropoffLocation' | 'vehicles' | 'dropoffDay' | 'arrivalTime' | 'notes' | 'quote'
+>>
+
+export const toUpdateShuttleRequestInput = (changes: ShuttleRequestChanges): UpdateShuttleRequestInput => {
+  const request: UpdateShuttleRequestInput['request'] = {}
+
+  if (changes.parkingLocation) {
+    request.parking_location_name = changes.parkingLocation.name.trim()
+    request.parking_lat = changes.parkingLocation.lat
+    request.parking_lng = changes.parkingLocation.lng
+  }
+  if (changes.dropoffLocation) {
+    request.dropoff_location_name = changes.dropoffLocation.name.trim()
+    request.dropoff_lat = changes.dropoffLocation.lat
+    request.dropoff_lng = changes.dropoffLocation.lng
+  }
+  if (changes.dropoffDay !== undefined) request.dropoff_day = changes.dropoffDay
+  if (changes.arrivalTime !== undefined) request.arrival_time = changes.arrivalTime
+  if (changes.notes !== undefined) request.notes = changes.notes
+  if (changes.quote !== undefined) request.quote = changes.quote
+
+  return {
+    request,
+    vehicles: changes.vehicles?.map(toNewVehicle)
+  }
+}
+
+export const toDriverInsert = (draft: DriverDraft): Insert<'drivers'> & Update<'drivers'> => ({
+  full_name: draft.fullName.trim(),
+  phone: draft.phone.trim(),
+  email: draft.email?.trim() || null,
+  can_drive_manual: draft.canDriveManual,
+  active: draft.active,
+  working_days: [...draft.workingDays].sort((a, b) => a - b),
+  notes: draft.notes?.trim() || null
+})
+
+export const toCapacitySettingsUpdate = (settings: CapacitySettings): Update<'capacity_settings'> => ({
+  unit: settings.unit,
+  daily_limit: settings.dailyLimit
+})
+
+export const toRequestRuleSettingsUpdate = (settings: RequestRuleSettings): Update<'request_rule_settings'> => ({
+  auto_complete_enabled: settings.autoComplete,
+  auto_complete_grace_days: settings.autoCompleteGraceDays,
+  expire_pending_enabled: settings.expirePending,
+  flag_unassigned_enabled: settings.flagUnassigned,
+  flag_unassigned_days: settings.flagUnassignedDays
+})
+
+export const toRecordInspectionInput = (
+  draft: InspectionDraft,
+  target: { requestId: string; vehicleId: string; stage: InspectionStage; inspector: string }
+): RecordInspectionInput => ({
+  shuttle_request_id: target.requestId,
+  vehicle_id: target.vehicleId,
+  stage: target.stage,
+  odometer: Number(draft.odometer),
+  fuel_eighths: draft.fuelEighths,
+  damage: draft.damage.map((mark) => ({ ...mark, note: mark.note.trim() })),
+  notes: draft.notes.trim() || null,
+  inspector: target.inspector.trim()
+})
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import type { PaymentConfig } from '../../config/payments'
+import { amountDue, depositCents, paymentStatusOf, type Payment } from './payments'
+import { makeQuote } from './fixtures.test-utils'
+
+const config: PaymentConfig = { depositPercent: 25, minimumDepositCents: 2500, relayUrl: '' }
+
+const payment = (amountCents: number, status: Payment['status'] = 'succeeded'): Payment => ({
+  id: `payment-${amountCents}-${status}`,
+  kind: 'deposit',
+  status,
+  amountCents,
+  currency: 'USD',
+  provider: 'fake',
+  providerReference: null,
+  cardLast4: null,
+  failureMessage: null,
+  createdAt: '2026-03-01T12:00:00.000Z'
+})
+
+describe('depositCents', () => {
+  it('takes the deposit share, with a floor, never more than the quote', () => {
+    expect(depositCents(makeQuote({ totalCents: 20000 }), config)).toBe(5000)
+    expect(depositCents(makeQuote({ totalCents: 6000 }), config)).toBe(2500)
+    expect(depositCents(makeQuote({ totalCents: 2000 }), config)).toBe(2000)
+  })
+})
+
+describe('amountDue', () => {
+  const quote = makeQuote({ totalCents: 20000 })
+
+  it('asks for the deposit or the full amount while nothing is paid', () => {
+    expect(amountDue({ quote, payments: [] }, 'deposit', config)).toBe(5000)
+    expect(amountDue({ quote, payments: [] }, 'full', config)).toBe(20000)
+  })
+
+  it('only counts payments that went through', () => {
+    const request = { quote, payments: [payment(5000, 'failed'), payment(3000, 'pending'), payment(4000, 'voided')] }
+    expect(amountDue(request, 'full', config)).toBe(20000)
+    expect(paymentStatusOf(request)).toBe('unpaid')
+  })
+
+  it('asks for the balance once the deposit is paid', () => {
+    const request = { quote, payments: [payment(5000)] }
+    expect(amountDue(request, 'deposit', config)).toBe(0)
+    expect(amountDue(request, 'full', config)).toBe(15000)
+    expect(paymentStatusOf(request)).toBe('deposit_paid')
+  })
+
+  it('owes nothing once paid in full, or without a quote', () => {
+    expect(amountDue({ quote, payments: [payment(20000)] }, 'full', config)).toBe(0)
+    expect(paymentStatusOf({ quote, payments: [payment(20000)] })).toBe('paid')
+    expect(amountDue({ quote: null, payments: [] }, 'full', config)).toBe(0)
+    expect(paymentStatusOf({ quote: null, payments: [] })).toBeNull()
+  })
+})
@@ -0,0 +1,98 @@
+import { PAYMENT_CONFIG, type PaymentConfig } from '../../config/payments'
+import type { PaymentRow } from '../data/types'
+import type { Quote, QuoteLine } from './quote'
+import type { RequestStatus, ShuttleRequest } from './shuttleRequest'
+
+/**
+ * Payments - Deposits and full payments against the quote a customer booked
+ * with. Declined attempts are kept too, so the owner can see them, but only
+ * successful payments count towards what has been paid. Each successful one
+ * comes with an invoice.
+ */
+
+export type PaymentKind = PaymentRow['kind']
+export type PaymentStatus = PaymentRow['status']
+
+export const PAYMENT_KIND_LABELS: Record<PaymentKind, string> = {
+  deposit: 'Deposit',
+  full: 'Full payment'
+}
+
+// How much of the quote has been paid, for requests that have a quote
+export type RequestPaymentStatus = 'unpaid' | 'deposit_paid' | 'paid'
+
+export const REQUEST_PAYMENT_STATUS_LABELS: Record<RequestPaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  deposit_paid: 'Deposit paid',
+  paid: 'Paid'
+}
+
+// Waitlisted requests have no spot to pay for yet, and closed ones take no money
+export const PAYABLE_STATUSES: readonly RequestStatus[] = ['pending', 'confirmed', 'in_progress', 'completed']
+
+// How long a pending payment holds its share of the balance if the checkout
+// never records how the charge went; payment_hold_minutes() in SQL
+export const PAYMENT_HOLD_MINUTES = 15
+
+export interface Payment {
+  id: string
+  kind: PaymentKind
+  status: PaymentStatus
+  amountCents: number
+  currency: string
+  provider: string
+  providerReference: string | null
+  cardLast4: string | null
+  failureMessage: string | null
+  createdAt: string
+}
+
+export interface Invoice {
+  id: string
+  number: string
+  requestId: string
+  paymentId: string
+  currency: string
+  lines: QuoteLine[]
+  totalCents: number
+  // Everything paid so far, including the payment this invoice is for
+  paidCents: number
+  balanceCents: number
+  issuedAt: string
+}
+
+export const paidCents = (payments: readonly Payment[]) =>
+  payments
+    .filter((payment) => payment.status === 'succeeded')
+    .reduce((sum, payment) => sum + payment.amountCents, 0)
+
+/** Null for requests without a quote, which can't be paid online. */
+export function paymentStatusOf(request: Pick<ShuttleRequest, 'quote' | 'payments'>): RequestPaymentStatus | null {
+  if (!request.quote) return null
+  const paid = paidCents(request.payments)
+  if (paid >= request.quote.totalCents) return 'paid'
+  return paid > 0 ? 'deposit_paid' : 'unpaid'
+}
+
+export const depositCents = (quote: Quote, config: PaymentConfig = PAYMENT_CONFIG) =>
+  Math.min(quote.totalCents, Math.max(config.minimumDepositCents, Math.round((quote.totalCents * config.depositPercent) / 100)))
+
+/**
+ * What paying `kind` now would charge: the deposit while nothing has been
+ * paid, or whatever is still owed for a full payment. Zero when that kind of
+ * payment no longer applies.
+ */
+export function amountDue(
+  request: Pick<ShuttleRequest, 'quote' | 'payments'>,
+  kind: PaymentKind,
+  config: PaymentConfig = PAYMENT_CONFIG
+): number {
+  if (!request.quote) return 0
+  const paid = paidCents(request.payments)
+  const balance = Math.max(0, request.quote.totalCents - paid)
+  if (kind === 'full') return balance
+  return paid > 0 ? 0 : Math.min(balance, depositCents(request.quote, config))
+}
+
+export const isPayable = (request: Pick<ShuttleRequest, 'status' | 'quote' | 'payments'>) =>
+  PAYABLE_STATUSES.includes(request.status) && amountDue(request, 'full') > 0
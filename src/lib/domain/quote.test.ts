@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { PRICING_CONFIG } from '../../config/pricing'
+import { calculateQuote } from './quote'
+
+const now = new Date('2026-03-01T12:00:00.000Z')
+// One degree of latitude is about 69.1 miles, so about 89.8 miles by road
+const parking = { name: 'Trailhead', lat: 40, lng: -105 }
+const dropoff = { name: 'Takeout', lat: 41, lng: -105 }
+
+describe('calculateQuote', () => {
+  it('needs both points and at least one vehicle', () => {
+    expect(calculateQuote({ ...parking, lat: null }, dropoff, [{ transmission: 'automatic' }])).toBeNull()
+    expect(calculateQuote(parking, dropoff, [])).toBeNull()
+  })
+
+  it('itemises the fare, mileage per vehicle and the manual surcharge', () => {
+    const quote = calculateQuote(parking, dropoff, [{ transmission: 'automatic' }, { transmission: 'manual' }], PRICING_CONFIG, now)!
+
+    expect(quote.distanceMiles).toBe(89.8)
+    expect(quote.durationMinutes).toBe(135)
+    expect(quote.lines.map((line) => [line.code, line.amountCents])).toEqual([
+      ['base_fare', 2500],
+      ['mileage', 26940],
+      ['per_vehicle', 4000],
+      ['manual_surcharge', 1500]
+    ])
+    expect(quote.totalCents).toBe(34940)
+    expect(quote.quotedAt).toBe('2026-03-01T12:00:00.000Z')
+  })
+
+  it('tops short trips up to the minimum fare', () => {
+    const quote = calculateQuote(parking, { ...parking, lat: 40.01 }, [{ transmission: 'automatic' }], PRICING_CONFIG, now)!
+
+    expect(quote.lines.at(-1)).toMatchObject({ code: 'minimum_fare', amountCents: 5000 - 2500 - 135 - 2000 })
+    expect(quote.totalCents).toBe(PRICING_CONFIG.minimumFareCents)
+  })
+})
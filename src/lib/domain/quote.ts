@@ -0,0 +1,97 @@
+import { PRICING_CONFIG, type PricingConfig } from '../../config/pricing'
+import { haversineMiles } from '../geo'
+import type { GeoPoint, Vehicle } from './shuttleRequest'
+
+/**
+ * Quote - Distance-based price for a shuttle, itemized so the customer and the
+ * owner see the same breakdown
+ */
+
+export type QuoteLineCode = 'base_fare' | 'mileage' | 'per_vehicle' | 'manual_surcharge' | 'minimum_fare'
+
+// Quotes are stored as JSON on the request, so these are type aliases (which,
+// unlike interfaces, are assignable to the Json column type)
+export type QuoteLine = {
+  code: QuoteLineCode
+  label: string
+  quantity: number
+  unitCents: number
+  amountCents: number
+}
+
+export type Quote = {
+  distanceMiles: number
+  durationMinutes: number
+  lines: QuoteLine[]
+  totalCents: number
+  currency: string
+  quotedAt: string
+}
+
+const roundTo = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places
+
+/**
+ * Prices moving `vehicles` from `parking` to `dropoff`. Returns null until both
+ * points have coordinates and at least one vehicle is listed.
+ */
+export function calculateQuote(
+  parking: GeoPoint,
+  dropoff: GeoPoint,
+  vehicles: Pick<Vehicle, 'transmission'>[],
+  config: PricingConfig = PRICING_CONFIG,
+  now: Date = new Date()
+): Quote | null {
+  if (parking.lat === null || parking.lng === null || dropoff.lat === null || dropoff.lng === null) return null
+  if (vehicles.length === 0) return null
+
+  const distanceMiles = roundTo(
+    haversineMiles({ lat: parking.lat, lng: parking.lng }, { lat: dropoff.lat, lng: dropoff.lng }) * config.roadDistanceFactor,
+    1
+  )
+  const durationMinutes = Math.max(1, Math.round((distanceMiles / config.averageSpeedMph) * 60))
+  const vehicleCount = vehicles.length
+  const manualCount = vehicles.filter((vehicle) => vehicle.transmission === 'manual').length
+
+  const lines: QuoteLine[] = [
+    { code: 'base_fare', label: 'Base fare', quantity: 1, unitCents: config.baseFareCents, amountCents: config.baseFareCents },
+    {
+      code: 'mileage',
+      label: `Mileage (${distanceMiles} mi × ${vehicleCount} vehicle${vehicleCount > 1 ? 's' : ''})`,
+      quantity: roundTo(distanceMiles * vehicleCount, 1),
+      unitCents: config.perMileCents,
+      amountCents: Math.round(distanceMiles * vehicleCount * config.perMileCents)
+    },
+    {
+      code: 'per_vehicle',
+      label: 'Per-vehicle charge',
+      quantity: vehicleCount,
+      unitCents: config.perVehicleCents,
+      amountCents: vehicleCount * config.perVehicleCents
+    }
+  ]
+
+  if (manualCount > 0) {
+    lines.push({
+      code: 'manual_surcharge',
+      label: 'Manual transmission surcharge',
+      quantity: manualCount,
+      unitCents: config.manualSurchargeCents,
+      amountCents: manualCount * config.manualSurchargeCents
+    })
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amountCents, 0)
+  if (subtotal < config.minimumFareCents) {
+    const topUp = config.minimumFareCents - subtotal
+    lines.push({ code: 'minimum_fare', label: 'Minimum fare adjustment', quantity: 1, unitCents: topUp, amountCents: topUp })
+  }
+
+  return {
+    distanceMiles,
+    durationMinutes,
+    lines,
+    totalCents: lines.reduce((sum, line) => sum + line.amountCents, 0),
+    currency: config.currency,
+    quotedAt: now.toISOString()
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { planRuleActions, type RequestRuleSettings } from './requestRules'
+import { makeRequest, makeVehicle } from './fixtures.test-utils'
+
+const settings: RequestRuleSettings = {
+  autoComplete: true,
+  autoCompleteGraceDays: 1,
+  expirePending: true,
+  flagUnassigned: true,
+  flagUnassignedDays: 2
+}
+
+const plan = (request: ReturnType<typeof makeRequest>, today: string, overrides: Partial<RequestRuleSettings> = {}) =>
+  planRuleActions([request], { ...settings, ...overrides }, today).map(({ rule, steps }) => ({ rule, steps }))
+
+describe('planRuleActions', () => {
+  it('completes active jobs once the grace period is over', () => {
+    const assigned = [makeVehicle({ driverId: 'driver-1' })]
+    expect(plan(makeRequest({ status: 'confirmed', vehicles: assigned }), '2026-03-10')).toEqual([
+      { rule: 'auto_complete', steps: ['in_progress', 'completed'] }
+    ])
+    expect(plan(makeRequest({ status: 'in_progress', vehicles: assigned }), '2026-03-10')).toEqual([
+      { rule: 'auto_complete', steps: ['completed'] }
+    ])
+    expect(plan(makeRequest({ status: 'in_progress' }), '2026-03-10', { autoCompleteGraceDays: 2 })).toEqual([])
+  })
+
+  it('expires pending and waitlisted requests whose day has passed', () => {
+    expect(plan(makeRequest({ status: 'waitlisted' }), '2026-03-10')).toEqual([{ rule: 'expire_pending', steps: ['cancelled'] }])
+    expect(plan(makeRequest({ status: 'pending' }), '2026-03-09')).toEqual([])
+  })
+
+  it('flags confirmed jobs coming up without a driver', () => {
+    expect(plan(makeRequest({ status: 'confirmed' }), '2026-03-07')).toEqual([{ rule: 'flag_unassigned', steps: [] }])
+    expect(plan(makeRequest({ status: 'confirmed' }), '2026-03-06')).toEqual([])
+  })
+
+  it('leaves everything alone when the rules are off', () => {
+    const off = { autoComplete: false, expirePending: false, flagUnassigned: false }
+    expect(plan(makeRequest({ status: 'confirmed' }), '2026-03-10', off)).toEqual([])
+    expect(plan(makeRequest({ status: 'pending' }), '2026-03-10', off)).toEqual([])
+  })
+})
@@ -0,0 +1,143 @@
+import { SCHEDULING_CONFIG, type SchedulingConfig } from '../../config/scheduling'
+import type { RequestRuleActionRow } from '../data/types'
+import { addDays } from '../dates'
+import { field, object } from '../schema'
+import { ACTIVE_STATUSES, type RequestStatus, type ShuttleRequest } from './shuttleRequest'
+
+/**
+ * Request rules - Housekeeping the owner would otherwise do by hand, run on a
+ * schedule (see lib/rules):
+ *
+ * - auto_complete: confirmed and in-progress jobs are marked completed a few
+ *   days after their drop-off day
+ * - expire_pending: pending and waitlisted requests whose drop-off day has
+ *   passed are cancelled, as nobody confirmed them in time
+ * - flag_unassigned: confirmed jobs coming up soon with a vehicle that has no
+ *   driver are flagged for the owner; nothing about the request changes
+ *
+ * Each rule can be turned off. Status changes go through the usual lifecycle,
+ * so they show in the request's history and the customer is told.
+ */
+
+export type RequestRule = RequestRuleActionRow['rule']
+
+export const REQUEST_RULES: readonly RequestRule[] = ['auto_complete', 'expire_pending', 'flag_unassigned']
+
+export const REQUEST_RULE_LABELS: Record<RequestRule, string> = {
+  auto_complete: 'Complete finished jobs',
+  expire_pending: 'Expire stale requests',
+  flag_unassigned: 'Flag jobs without a driver'
+}
+
+// Shown in status histories as who made the change
+export const RULES_ACTOR = 'Automatic rules'
+
+export const EXPIRABLE_STATUSES: readonly RequestStatus[] = ['pending', 'waitlisted']
+
+// Longest grace period or look-ahead the owner can set, in days
+export const MAX_RULE_DAYS = 30
+
+export interface RequestRuleSettings {
+  autoComplete: boolean
+  // Jobs are completed this many days after the drop-off day
+  autoCompleteGraceDays: number
+  expirePending: boolean
+  flagUnassigned: boolean
+  // Jobs up to this many days ahead are flagged, today included
+  flagUnassignedDays: number
+}
+
+const dayCount = (min: number, message: string) =>
+  field<number>((days) => (Number.isInteger(days) && days >= min && days <= MAX_RULE_DAYS ? null : message))
+
+export const requestRuleSettingsSchema = object<RequestRuleSettings>({
+  autoCompleteGraceDays: dayCount(1, `Enter a whole number of days from 1 to ${MAX_RULE_DAYS}`),
+  flagUnassignedDays: dayCount(0, `Enter a whole number of days from 0 to ${MAX_RULE_DAYS}`)
+})
+
+export const defaultRequestRuleSettings = (config: SchedulingConfig = SCHEDULING_CONFIG): RequestRuleSettings => ({
+  ...config.defaultRules
+})
+
+/** One thing a rule did to a request, as logged. */
+export interface RequestRuleAction {
+  id: string
+  rule: RequestRule
+  requestId: string
+  reference: string
+  // The rule tried and failed; the message says why
+  failed: boolean
+  message: string
+  createdAt: string
+}
+
+/** What a rule wants done to one request. */
+export interface PlannedRuleAction {
+  rule: RequestRule
+  request: ShuttleRequest
+  // Statuses to move through in order; empty for a flag
+  steps: RequestStatus[]
+  message: string
+}
+
+// Completing takes a confirmed job through in_progress, as the lifecycle requires
+const COMPLETION_STEPS: Partial<Record<RequestStatus, RequestStatus[]>> = {
+  confirmed: ['in_progress', 'completed'],
+  in_progress: ['completed']
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+/**
+ * Works out what the enabled rules would do on `today` (a `YYYY-MM-DD` day)
+ * without changing anything. Requests in other states are ignored.
+ */
+export function planRuleActions(
+  requests: readonly ShuttleRequest[],
+  settings: RequestRuleSettings,
+  today: string
+): PlannedRuleAction[] {
+  const planned: PlannedRuleAction[] = []
+
+  for (const request of requests) {
+    if (
+      settings.autoComplete &&
+      ACTIVE_STATUSES.includes(request.status) &&
+      addDays(request.dropoffDay, settings.autoCompleteGraceDays) <= today
+    ) {
+      planned.push({
+        rule: 'auto_complete',
+        request,
+        steps: COMPLETION_STEPS[request.status] ?? [],
+        message: `Completed ${plural(settings.autoCompleteGraceDays, 'day')} after the drop-off day`
+      })
+    }
+
+    if (settings.expirePending && EXPIRABLE_STATUSES.includes(request.status) && request.dropoffDay < today) {
+      planned.push({
+        rule: 'expire_pending',
+        request,
+        steps: ['cancelled'],
+        message: `Expired: the drop-off day (${request.dropoffDay}) passed before the request was confirmed`
+      })
+    }
+
+    const unassigned = request.vehicles.filter((vehicle) => !vehicle.driverId).length
+    if (
+      settings.flagUnassigned &&
+      request.status === 'confirmed' &&
+      unassigned > 0 &&
+      request.dropoffDay >= today &&
+      request.dropoffDay <= addDays(today, settings.flagUnassignedDays)
+    ) {
+      planned.push({
+        rule: 'flag_unassigned',
+        request,
+        steps: [],
+        message: `${unassigned} of ${plural(request.vehicles.length, 'vehicle')} still need${unassigned === 1 ? 's' : ''} a driver for ${request.dropoffDay}`
+      })
+    }
+  }
+
+  return planned
+}
@@ -0,0 +1,172 @@
+import type { ShuttleRequestStatus, VehicleRow } from '../data/types'
+import type { CheckIn } from './checkIn'
+import type { Payment } from './payments'
+import type { Quote } from './quote'
+
+/**
+ * Shuttle Request domain model - the one shape both the customer form and the
+ * owner dashboard work with. Database rows are converted at the edges by the
+ * mappers in ./mappers.
+ */
+
+export type RequestStatus = ShuttleRequestStatus
+export type Transmission = VehicleRow['transmission']
+export type Drivetrain = VehicleRow['drivetrain']
+
+export const REQUEST_STATUSES: readonly RequestStatus[] = [
+  'pending',
+  'waitlisted',
+  'confirmed',
+  'in_progress',
+  'completed',
+  'cancelled',
+  'rejected'
+]
+
+export const STATUS_LABELS: Record<RequestStatus, string> = {
+  pending: 'Pending',
+  waitlisted: 'Waitlisted',
+  confirmed: 'Confirmed',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  rejected: 'Rejected'
+}
+
+export const TRANSMISSION_LABELS: Record<Transmission, string> = {
+  automatic: 'Automatic',
+  manual: 'Manual'
+}
+
+export const DRIVETRAIN_LABELS: Record<Drivetrain, string> = {
+  '2wd': '2WD',
+  awd: 'AWD',
+  '4wd': '4WD'
+}
+
+// Confirmed jobs and jobs on the road are both "active" from the owner's point of view
+export const ACTIVE_STATUSES: readonly RequestStatus[] = ['confirmed', 'in_progress']
+
+export const isActiveStatus = (status: RequestStatus) => ACTIVE_STATUSES.includes(status)
+
+/** A named place. Coordinates stay null until the customer picks a point. */
+export interface GeoPoint {
+  name: string
+  lat: number | null
+  lng: number | null
+}
+
+/** One step of the key handoff, as the driver confirmed it. */
+export interface KeyHandoff {
+  at: string
+  by: string
+}
+
+export interface Vehicle {
+  id: string
+  make: string
+  model: string
+  year: string
+  transmission: Transmission
+  licensePlate: string
+  color: string
+  drivetrain: Drivetrain
+  // Trailer, bike/ski rack or anything else the driver should know about
+  equipmentNotes: string
+  // Where the driver finds the keys, and where they leave them at the drop-off
+  keyLocation: string
+  keyReturnLocation: string
+  // Only set on drafts, to save a new code (empty clears it). Saved codes are
+  // never read back into a Vehicle; staff fetch them separately.
+  lockboxCode?: string
+  // Recorded by the driver; null until then (and always on customer drafts)
+  keyPickedUp: KeyHandoff | null
+  keyDroppedOff: KeyHandoff | null
+  // Assigned by the owner; null until then (and always on customer drafts)
+  driverId: string | null
+}
+
+// Oldest model year the booking form accepts
+export const OLDEST_MODEL_YEAR = 1950
+
+/** Next year's models go on sale during the current year. */
+export const newestModelYear = (now: Date) => now.getFullYear() + 1
+
+/** The model years a make and model were sold; `last` is null while it still is. */
+export interface ModelYears {
+  first: number
+  last: number | null
+}
+
+export interface Customer {
+  id: string
+  fullName: string
+  email: string
+  phone: string
+}
+
+/** One entry in a request's status timeline. `from` is null for the initial submission. */
+export interface StatusChange {
+  id: string
+  from: RequestStatus | null
+  to: RequestStatus
+  actor: string
+  note: string | null
+  at: string
+}
+
+export interface ShuttleRequest {
+  id: string
+  // Short code customers quote when they get in touch, e.g. SF-4K7QX2
+  reference: string
+  customer: Customer
+  parkingLocation: GeoPoint
+  dropoffLocation: GeoPoint
+  vehicles: Vehicle[]
+  dropoffDay: string
+  arrivalTime: string
+  status: RequestStatus
+  notes: string | null
+  // Price shown to the customer when they booked; null if they never set both pins
+  quote: Quote | null
+  history: StatusChange[]
+  // Oldest first, declined attempts included
+  payments: Payment[]
+  // Recorded by the driver; null until then
+  pickedUp: CheckIn | null
+  delivered: CheckIn | null
+  createdAt: string
+  updatedAt: string
+}
+
+/** What the customer fills in; ids and timestamps are assigned on save. */
+export interface ShuttleRequestDraft {
+  customer: Omit<Customer, 'id'>
+  parkingLocation: GeoPoint
+  dropoffLocation: GeoPoint
+  vehicles: Vehicle[]
+  dropoffDay: string
+  arrivalTime: string
+  notes?: string | null
+  quote?: Quote | null
+}
+
+export const emptyGeoPoint = (): GeoPoint => ({ name: '', lat: null, lng: null })
+
+export const emptyVehicle = (id: string): Vehicle => ({
+  id,
+  make: '',
+  model: '',
+  year: '',
+  transmission: 'automatic',
+  licensePlate: '',
+  color: '',
+  drivetrain: '2wd',
+  equipmentNotes: '',
+  keyLocation: '',
+  keyReturnLocation: '',
+  lockboxCode: '',
+  keyPickedUp: null,
+  keyDroppedOff: null,
+  driverId: null
+})
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { makeVehicle } from './fixtures.test-utils'
+import { emptyVehicle, type ShuttleRequestDraft } from './shuttleRequest'
+import { isDraftValid, validateShuttleRequestDraft, type DraftValidationContext } from './validation'
+
+const context: DraftValidationContext = {
+  now: new Date('2026-03-01T12:00'),
+  modelYears: (make, model) => {
+    if (make !== 'Toyota') return null
+    if (model === 'Tacoma') return { first: 1995, last: null }
+    return model === 'T100' ? { first: 1993, last: 1998 } : null
+  }
+}
+
+const draft = (overrides: Partial<ShuttleRequestDraft> = {}): ShuttleRequestDraft => ({
+  customer: { fullName: 'Jo Rider', email: 'jo@example.com', phone: '+1 (555) 010-0100' },
+  parkingLocation: { name: 'Trailhead', lat: null, lng: null },
+  dropoffLocation: { name: 'Takeout', lat: null, lng: null },
+  vehicles: [makeVehicle()],
+  dropoffDay: '2026-03-09',
+  arrivalTime: '10:00',
+  ...overrides
+})
+
+describe('validateShuttleRequestDraft', () => {
+  it('accepts a complete booking', () => {
+    expect(validateShuttleRequestDraft(draft(), context)).toEqual({})
+    expect(isDraftValid(draft(), context)).toBe(true)
+  })
+
+  it('keys each problem by the path of its field', () => {
+    const errors = validateShuttleRequestDraft(draft({
+      customer: { fullName: ' ', email: 'jo@', phone: '12' },
+      vehicles: [emptyVehicle('vehicle-1')]
+    }), context)
+
+    expect(errors).toEqual({
+      'customer.fullName': 'Enter your name',
+      'customer.email': 'Enter a valid email address',
+      'customer.phone': 'Enter a valid phone number',
+      'vehicles.0.make': 'Enter a make',
+      'vehicles.0.licensePlate': 'Enter the license plate',
+      'vehicles.0.model': 'Enter a model',
+      'vehicles.0.year': 'Enter a year'
+    })
+  })
+
+  it('needs between 1 and 10 vehicles', () => {
+    expect(validateShuttleRequestDraft(draft({ vehicles: [] }), context)).toEqual({
+      vehicles: 'Add between 1 and 10 vehicles'
+    })
+  })
+
+  it('checks the year against the years the catalog lists for the model', () => {
+    const vehicle = (model: string, year: string) => makeVehicle({ model, year })
+
+    expect(validateShuttleRequestDraft(draft({ vehicles: [vehicle('Tacoma', '1990')] }), context)).toEqual({
+      'vehicles.0.year': 'The Toyota Tacoma was first sold in 1995'
+    })
+    expect(validateShuttleRequestDraft(draft({ vehicles: [vehicle('T100', '2005')] }), context)).toEqual({
+      'vehicles.0.year': 'The Toyota T100 was sold from 1993 to 1998'
+    })
+    // Vehicles the catalog doesn't list only get the general year check
+    expect(validateShuttleRequestDraft(draft({ vehicles: [vehicle('Stout', '1960')] }), context)).toEqual({})
+  })
+
+  it('only takes model years from 1950 to next year', () => {
+    const year = (value: string) => draft({ vehicles: [makeVehicle({ year: value })] })
+
+    expect(validateShuttleRequestDraft(year('2027'), context)).toEqual({})
+    expect(validateShuttleRequestDraft(year('2028'), context)).toEqual({ 'vehicles.0.year': 'Enter a valid model year' })
+    expect(validateShuttleRequestDraft(year('1949'), context)).toEqual({ 'vehicles.0.year': 'Enter a valid model year' })
+  })
+
+  it('keeps lockbox codes short', () => {
+    expect(validateShuttleRequestDraft(draft({ vehicles: [makeVehicle({ lockboxCode: '1'.repeat(21) })] }), context)).toEqual({
+      'vehicles.0.lockboxCode': 'Lockbox codes are at most 20 characters'
+    })
+  })
+
+  it('refuses past days and arrivals that have already gone by', () => {
+    expect(validateShuttleRequestDraft(draft({ dropoffDay: '2026-02-28' }), context)).toMatchObject({
+      dropoffDay: 'Drop-off day cannot be in the past'
+    })
+    expect(validateShuttleRequestDraft(draft({ dropoffDay: '2026-03-01', arrivalTime: '11:00' }), context)).toEqual({
+      arrivalTime: 'Arrival must be in the future'
+    })
+  })
+
+  it('refuses a drop-off at the place the car is parked', () => {
+    expect(validateShuttleRequestDraft(draft({ dropoffLocation: { name: ' trailhead ', lat: null, lng: null } }), context)).toEqual({
+      'dropoffLocation.name': 'Drop-off must be different from where you parked'
+    })
+  })
+})
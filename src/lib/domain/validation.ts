@@ -0,0 +1,102 @@
+import { combineDateTime, toDateInputValue } from '../dates'
+import { EMAIL_PATTERN, PHONE_PATTERN, array, field, isValid, matches, object, required, type ValidationErrors } from '../schema'
+import { MAX_VEHICLES_PER_REQUEST } from '../data/types'
+import {
+  OLDEST_MODEL_YEAR,
+  newestModelYear,
+  type GeoPoint,
+  type ModelYears,
+  type ShuttleRequestDraft,
+  type Vehicle
+} from './shuttleRequest'
+
+/**
+ * Shuttle request validation - the rules a booking must satisfy before it is saved
+ */
+
+export interface DraftValidationContext {
+  now: Date
+  // The years the catalog lists for a make and model; null for a vehicle it
+  // doesn't list (typed in as "other"), which only gets the general year check
+  modelYears: (make: string, model: string) => ModelYears | null
+}
+
+const vehicleSchema = object<Vehicle, DraftValidationContext>(
+  {
+    make: field(required('Enter a make')),
+    model: field(required('Enter a model')),
+    year: field<string, DraftValidationContext>(
+      required('Enter a year'),
+      (year, { now }) => {
+        const value = Number(year)
+        return Number.isInteger(value) && value >= OLDEST_MODEL_YEAR && value <= newestModelYear(now)
+          ? null
+          : 'Enter a valid model year'
+      }
+    ),
+    licensePlate: field(required('Enter the license plate')),
+    lockboxCode: field<string | undefined>((code) =>
+      code && code.trim().length > 20 ? 'Lockbox codes are at most 20 characters' : null
+    )
+  },
+  (vehicle, { now, modelYears }): ValidationErrors => {
+    const years = modelYears(vehicle.make, vehicle.model)
+    const year = Number(vehicle.year)
+    if (!years || !vehicle.year || !Number.isInteger(year)) return {}
+
+    const last = years.last ?? newestModelYear(now)
+    if (year >= years.first && year <= last) return {}
+    return {
+      year: years.last === null
+        ? `The ${vehicle.make} ${vehicle.model} was first sold in ${years.first}`
+        : `The ${vehicle.make} ${vehicle.model} was sold from ${years.first} to ${years.last}`
+    }
+  }
+)
+
+const locationSchema = (message: string) => object<GeoPoint, DraftValidationContext>({
+  name: field(required(message))
+})
+
+export const shuttleRequestDraftSchema = object<ShuttleRequestDraft, DraftValidationContext>(
+  {
+    customer: object({
+      fullName: field(required('Enter your name')),
+      email: field(required('Enter your email'), matches(EMAIL_PATTERN, 'Enter a valid email address')),
+      phone: field(required('Enter your phone number'), matches(PHONE_PATTERN, 'Enter a valid phone number'))
+    }),
+    parkingLocation: locationSchema('Enter where you parked'),
+    dropoffLocation: locationSchema('Enter where the car should go'),
+    vehicles: array(
+      vehicleSchema,
+      (vehicles) => vehicles.length >= 1 && vehicles.length <= MAX_VEHICLES_PER_REQUEST
+        ? null
+        : `Add between 1 and ${MAX_VEHICLES_PER_REQUEST} vehicles`
+    ),
+    dropoffDay: field<string, DraftValidationContext>(
+      required('Choose a drop-off day'),
+      (day, { now }) => (day < toDateInputValue(now) ? 'Drop-off day cannot be in the past' : null)
+    ),
+    arrivalTime: field(required('Choose an arrival time'))
+  },
+  (draft, { now }) => {
+    const errors: ValidationErrors = {}
+
+    if (draft.dropoffDay && draft.arrivalTime && combineDateTime(draft.dropoffDay, draft.arrivalTime) <= now) {
+      errors.arrivalTime = 'Arrival must be in the future'
+    }
+
+    const parking = draft.parkingLocation.name.trim().toLowerCase()
+    if (parking && parking === draft.dropoffLocation.name.trim().toLowerCase()) {
+      errors['dropoffLocation.name'] = 'Drop-off must be different from where you parked'
+    }
+
+    return errors
+  }
+)
+
+export const validateShuttleRequestDraft = (draft: ShuttleRequestDraft, context: DraftValidationContext) =>
+  shuttleRequestDraftSchema.validate(draft, context)
+
+export const isDraftValid = (draft: ShuttleRequestDraft, context: DraftValidationContext) =>
+  isValid(validateShuttleRequestDraft(draft, context))
@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createEventBus } from './eventBus'
+
+describe('createEventBus', () => {
+  it('delivers to subscribers until they unsubscribe', () => {
+    const bus = createEventBus<number>()
+    const listener = vi.fn()
+    const unsubscribe = bus.subscribe(listener)
+
+    bus.publish(1)
+    unsubscribe()
+    bus.publish(2)
+
+    expect(listener.mock.calls).toEqual([[1]])
+  })
+
+  it('keeps delivering when one listener throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const bus = createEventBus<string>()
+    const listener = vi.fn()
+    bus.subscribe(() => {
+      throw new Error('Broken listener')
+    })
+    bus.subscribe(listener)
+
+    bus.publish('hello')
+    expect(listener).toHaveBeenCalledWith('hello')
+    vi.restoreAllMocks()
+  })
+})
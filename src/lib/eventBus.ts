@@ -0,0 +1,50 @@
+/**
+ * Event Bus - Minimal typed publish/subscribe
+ *
+ * With a `channel` name the bus is also bridged over BroadcastChannel, so
+ * events published in one tab reach subscribers in every other tab of the
+ * same origin. Payloads must be structured-cloneable.
+ */
+
+export interface EventBus<T> {
+  publish(event: T): void
+  /** Returns an unsubscribe function. */
+  subscribe(listener: (event: T) => void): () => void
+}
+
+interface EventBusOptions {
+  channel?: string
+}
+
+export function createEventBus<T>(options: EventBusOptions = {}): EventBus<T> {
+  const listeners = new Set<(event: T) => void>()
+  const deliver = (event: T) => {
+    listeners.forEach((listener) => {
+      try {
+        listener(event)
+      } catch (err) {
+        console.error('Event listener failed:', err)
+      }
+    })
+  }
+
+  const broadcast = options.channel && typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(options.channel)
+    : null
+  // Messages never echo back to the posting tab, so local delivery stays in publish()
+  broadcast?.addEventListener('message', (message: MessageEvent<T>) => deliver(message.data))
+
+  return {
+    publish(event) {
+      deliver(event)
+      broadcast?.postMessage(event)
+    },
+
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    }
+  }
+}
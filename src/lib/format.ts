@@ -0,0 +1,24 @@
+// Display formatting shared by the customer and owner views
+
+export const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+/** Formats an amount in cents, e.g. 12345 -> "$123.45". */
+export const formatMoney = (cents: number, currency = 'USD') => {
+  return (cents / 100).toLocaleString('en-US', { style: 'currency', currency })
+}
+
+/** Formats a duration in minutes, e.g. 95 -> "1 hr 35 min". */
+export const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest} min`
+  return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`
+}
@@ -0,0 +1,45 @@
+// Geographic helpers
+
+const EARTH_RADIUS_MILES = 3958.8
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+/** Great-circle ("as the crow flies") distance between two points, in miles. */
+export function haversineMiles(from: { lat: number; lng: number }, to: { lat: number; lng: number }) {
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a))
+}
+
+/** A link that opens turn-by-turn directions to a place in the phone's maps app (or Google Maps on the web). */
+export function directionsUrl(place: { name: string; lat: number | null; lng: number | null }) {
+  const destination = place.lat !== null && place.lng !== null ? `${place.lat},${place.lng}` : place.name
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`
+}
+
+/** A link that shows a point on a map. */
+export const pointUrl = (point: { lat: number; lng: number }) =>
+  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${point.lat},${point.lng}`)}`
+
+/**
+ * Where this device is, as far as the browser will say. Resolves null rather
+ * than failing when there's no geolocation, permission is refused or no fix
+ * comes within `timeoutMs`, so callers can carry on without it.
+ */
+export function getDevicePosition(timeoutMs = 10000): Promise<{ lat: number; lng: number; accuracyMeters: number | null } | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) return Promise.resolve(null)
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ lat: coords.latitude, lng: coords.longitude, accuracyMeters: Math.round(coords.accuracy) }),
+      (err) => {
+        console.error('Failed to get device position:', err)
+        resolve(null)
+      },
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    )
+  })
+}
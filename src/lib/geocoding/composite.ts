@@ -0,0 +1,32 @@
+import type { Geocoder, PlaceResult } from './types'
+
+/**
+ * Queries several geocoders in order and merges the results, earlier geocoders
+ * first. A failing geocoder is skipped so one flaky service doesn't hide the
+ * others' results.
+ */
+export function createCompositeGeocoder(geocoders: Geocoder[]): Geocoder {
+  return {
+    async search(query, options = {}) {
+      const { limit = 8 } = options
+      const settled = await Promise.allSettled(geocoders.map((geocoder) => geocoder.search(query, options)))
+
+      const results: PlaceResult[] = []
+      for (const outcome of settled) {
+        if (outcome.status === 'rejected') {
+          if (!(outcome.reason instanceof DOMException && outcome.reason.name === 'AbortError')) {
+            console.error('Place search failed:', outcome.reason)
+          }
+          continue
+        }
+        // Drop remote results that duplicate a place we already have by name
+        for (const place of outcome.value) {
+          if (!results.some((existing) => existing.name.toLowerCase() === place.name.toLowerCase())) {
+            results.push(place)
+          }
+        }
+      }
+      return results.slice(0, limit)
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import type { Geocoder, PlaceCategory, PlaceResult } from './types'
+
+/**
+ * Gazetteer geocoder - searches the owner-maintained list of known shuttle
+ * endpoints (data/gazetteer.json). Works offline and always returns the
+ * canonical spelling and coordinates for a place.
+ */
+
+export interface GazetteerEntry {
+  id: string
+  name: string
+  category: PlaceCategory
+  lat: number
+  lng: number
+  aliases?: string[]
+  description?: string
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+// Higher is better; 0 means no match
+const score = (entry: GazetteerEntry, query: string) => {
+  const tokens = query.split(' ')
+  let best = 0
+  for (const candidate of [entry.name, ...(entry.aliases ?? [])].map(normalize)) {
+    if (candidate === query) return 100
+    if (candidate.startsWith(query)) best = Math.max(best, 80)
+    else if (candidate.includes(query)) best = Math.max(best, 60)
+    else if (tokens.every((token) => candidate.split(' ').some((word) => word.startsWith(token)))) {
+      best = Math.max(best, 40)
+    }
+  }
+  return best
+}
+
+export function createGazetteerGeocoder(entries: GazetteerEntry[]): Geocoder {
+  return {
+    async search(query, { limit = 8 } = {}) {
+      const normalized = normalize(query)
+      if (!normalized) return []
+
+      return entries
+        .map((entry) => ({ entry, score: score(entry, normalized) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+        .slice(0, limit)
+        .map(({ entry }): PlaceResult => ({
+          id: entry.id,
+          name: entry.name,
+          lat: entry.lat,
+          lng: entry.lng,
+          category: entry.category,
+          description: entry.description,
+          source: 'gazetteer'
+        }))
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import gazetteerData from '../../data/gazetteer.json'
+import { createCompositeGeocoder } from './composite'
+import { createGazetteerGeocoder, type GazetteerEntry } from './gazetteer'
+import { createNominatimGeocoder } from './nominatim'
+import type { Geocoder } from './types'
+
+export * from './types'
+export { createCompositeGeocoder } from './composite'
+export { createGazetteerGeocoder, type GazetteerEntry } from './gazetteer'
+export { createNominatimGeocoder } from './nominatim'
+
+export const GAZETTEER: GazetteerEntry[] = gazetteerData.places as GazetteerEntry[]
+
+// Gazetteer first so known endpoints win; remote search only when a server is configured
+const remoteUrl = import.meta.env.VITE_GEOCODER_URL
+
+export const geocoder: Geocoder = remoteUrl
+  ? createCompositeGeocoder([createGazetteerGeocoder(GAZETTEER), createNominatimGeocoder(remoteUrl)])
+  : createGazetteerGeocoder(GAZETTEER)
@@ -0,0 +1,44 @@
+import type { Geocoder, PlaceResult } from './types'
+
+/**
+ * Nominatim geocoder - free-text search against an OpenStreetMap Nominatim
+ * server. Point it at a self-hosted instance for production traffic; the
+ * public server's usage policy only allows light use.
+ */
+
+interface NominatimResult {
+  place_id: number
+  display_name: string
+  name?: string
+  lat: string
+  lon: string
+}
+
+export function createNominatimGeocoder(baseUrl: string): Geocoder {
+  return {
+    async search(query, { limit = 5, signal } = {}) {
+      if (!query.trim()) return []
+
+      const url = new URL('/search', baseUrl)
+      url.searchParams.set('q', query)
+      url.searchParams.set('format', 'jsonv2')
+      url.searchParams.set('limit', String(limit))
+
+      const response = await fetch(url, { signal, headers: { Accept: 'application/json' } })
+      if (!response.ok) {
+        throw new Error(`Place search failed (${response.status})`)
+      }
+
+      const results: NominatimResult[] = await response.json()
+      return results.map((result): PlaceResult => ({
+        id: `osm-${result.place_id}`,
+        name: result.name || result.display_name.split(',')[0],
+        lat: Number(result.lat),
+        lng: Number(result.lon),
+        category: 'other',
+        description: result.display_name,
+        source: 'remote'
+      }))
+    }
+  }
+}
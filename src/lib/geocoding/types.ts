@@ -0,0 +1,42 @@
+import type { GeoPoint } from '../domain'
+
+export type PlaceCategory = 'trailhead' | 'put_in' | 'take_out' | 'parking' | 'other'
+
+export const PLACE_CATEGORY_LABELS: Record<PlaceCategory, string> = {
+  trailhead: 'Trailhead',
+  put_in: 'Put-in',
+  take_out: 'Take-out',
+  parking: 'Parking',
+  other: 'Place'
+}
+
+export interface PlaceResult {
+  id: string
+  name: string
+  lat: number
+  lng: number
+  category: PlaceCategory
+  // Secondary line in the suggestions, e.g. an address
+  description?: string
+  // Which geocoder produced the result; gazetteer entries are the canonical ones
+  source: 'gazetteer' | 'remote'
+}
+
+export interface GeocoderSearchOptions {
+  limit?: number
+  signal?: AbortSignal
+}
+
+/**
+ * Anything that can turn free text into places. Implementations should resolve
+ * to an empty list (not throw) when nothing matches.
+ */
+export interface Geocoder {
+  search(query: string, options?: GeocoderSearchOptions): Promise<PlaceResult[]>
+}
+
+export const toGeoPoint = (place: PlaceResult): GeoPoint => ({
+  name: place.name,
+  lat: place.lat,
+  lng: place.lng
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { makeDriver, makeQuote, makeRequest, makeVehicle } from './domain/fixtures.test-utils'
+import { toICalendar } from './ical'
+
+const now = new Date('2026-03-01T12:00:00.000Z')
+
+// Undoes line folding, so tests can look for whole properties
+const unfold = (text: string) => text.replace(/\r\n /g, '')
+
+const property = (text: string, name: string) =>
+  unfold(text).split('\r\n').find((line) => line.startsWith(`${name}:`))
+
+describe('toICalendar', () => {
+  it('wraps one event per request in a calendar, with CRLF line endings', () => {
+    const text = toICalendar([makeRequest(), makeRequest({ id: 'request-2' })], { name: 'Jobs', now })
+
+    expect(text.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+    expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(text.match(/BEGIN:VEVENT/g)).toHaveLength(2)
+    expect(property(text, 'UID')).toBe('UID:request-1@shuttle-forge')
+    expect(property(text, 'DTSTAMP')).toBe('DTSTAMP:20260301T120000Z')
+  })
+
+  it('runs each event from the arrival for the length of the trip, in floating time', () => {
+    const text = toICalendar([makeRequest({ quote: makeQuote({ durationMinutes: 95 }) })], { name: 'Jobs', now })
+
+    expect(property(text, 'DTSTART')).toBe('DTSTART:20260309T100000')
+    expect(property(text, 'DTEND')).toBe('DTEND:20260309T113500')
+  })
+
+  it('describes the job, naming assigned drivers and where the keys are', () => {
+    const request = makeRequest({
+      vehicles: [makeVehicle({ driverId: 'driver-1', keyLocation: 'Under the mat' }), makeVehicle({ id: 'vehicle-2', transmission: 'manual', color: '' })],
+      notes: 'Call on arrival'
+    })
+    const text = toICalendar([request], { name: 'Jobs', drivers: [makeDriver()], urlFor: () => 'https://example.com/r/1', now })
+
+    expect(property(text, 'SUMMARY')).toBe('SUMMARY:SF-TEST01 · 2 vehicles to Takeout')
+    expect(property(text, 'DESCRIPTION')).toBe(
+      'DESCRIPTION:Customer: Jo Rider\\, 555-0100\\nFrom: Trailhead\\nTo: Takeout\\nVehicles:\\n' +
+      '- 2020 Red Toyota Tacoma ABC 123 (Automatic)\\, driver: Sam Driver\\, keys: Under the mat\\n' +
+      '- 2020 Toyota Tacoma ABC 123 (Manual)\\, driver: unassigned\\nNotes: Call on arrival'
+    )
+    expect(property(text, 'GEO')).toBe('GEO:40;-105')
+    expect(property(text, 'URL')).toBe('URL:https://example.com/r/1')
+  })
+
+  it('escapes text values', () => {
+    const request = makeRequest({ parkingLocation: { name: 'Lot A; row 3, by the \\ sign', lat: null, lng: null } })
+    const text = toICalendar([request], { name: 'Jobs', now })
+
+    expect(property(text, 'LOCATION')).toBe('LOCATION:Lot A\\; row 3\\, by the \\\\ sign')
+    expect(property(text, 'GEO')).toBeUndefined()
+  })
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const text = toICalendar([makeRequest({ notes: 'é'.repeat(100) })], { name: 'Jobs', now })
+    const encoder = new TextEncoder()
+
+    for (const line of text.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75)
+      expect(line).not.toContain('�')
+    }
+    expect(property(text, 'DESCRIPTION')).toContain(`Notes: ${'é'.repeat(100)}`)
+  })
+})
@@ -0,0 +1,120 @@
+import { SCHEDULING_CONFIG, type SchedulingConfig } from '../config/scheduling'
+import { combineDateTime } from './dates'
+import { TRANSMISSION_LABELS, type Driver, type RequestStatus, type ShuttleRequest } from './domain'
+
+/**
+ * iCalendar (RFC 5545) export of shuttle jobs for the owner's and drivers'
+ * own calendar apps. Each request becomes one event from the customer's
+ * arrival until the vehicles should be delivered.
+ *
+ * Times are "floating" (no time zone): drop-off days and arrival times are
+ * wall-clock values in the business's local time, which is how calendar apps
+ * should show them. The subscription feed's calendar_feed function
+ * (supabase/migrations/0009_calendar_feeds.sql, last redefined in
+ * 0017_calendar_feed_vehicle_details.sql) builds the same events; change
+ * both together.
+ */
+
+// Jobs that are (or were) going ahead; completed ones stay so calendars keep the history
+export const CALENDAR_EXPORT_STATUSES: readonly RequestStatus[] = ['confirmed', 'in_progress', 'completed']
+
+export interface ICalendarOptions {
+  // Shown by calendar apps as the calendar's name
+  name: string
+  // Used to name assigned drivers in the event description
+  drivers?: readonly Driver[]
+  // Link back to the request, e.g. the owner dashboard deep link
+  urlFor?: (request: ShuttleRequest) => string
+  now?: Date
+  config?: SchedulingConfig
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const formatFloating = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+const encoder = new TextEncoder()
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    if (octets + size > 75) {
+      parts.push(current)
+      current = ' '
+      octets = 1
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n')
+}
+
+function describe(request: ShuttleRequest, drivers: readonly Driver[]): string {
+  const driverName = (id: string | null) => drivers.find((driver) => driver.id === id)?.fullName ?? 'unassigned'
+  const lines = [
+    `Customer: ${request.customer.fullName}, ${request.customer.phone}`,
+    `From: ${request.parkingLocation.name}`,
+    `To: ${request.dropoffLocation.name}`,
+    'Vehicles:',
+    ...request.vehicles.map((vehicle) =>
+      `- ${vehicle.year} ${vehicle.color} ${vehicle.make} ${vehicle.model} ${vehicle.licensePlate}`.replace(/ +/g, ' ').trimEnd() +
+      ` (${TRANSMISSION_LABELS[vehicle.transmission]}), driver: ${driverName(vehicle.driverId)}` +
+      (vehicle.keyLocation ? `, keys: ${vehicle.keyLocation}` : '')
+    )
+  ]
+  if (request.notes) lines.push(`Notes: ${request.notes}`)
+  return lines.join('\n')
+}
+
+function toEvent(request: ShuttleRequest, options: ICalendarOptions, stamp: string): string[] {
+  const config = options.config ?? SCHEDULING_CONFIG
+  const start = combineDateTime(request.dropoffDay, request.arrivalTime)
+  const tripMinutes = request.quote?.durationMinutes ?? config.defaultTripMinutes
+  const end = new Date(start.getTime() + tripMinutes * 60_000)
+  const vehicleCount = `${request.vehicles.length} vehicle${request.vehicles.length === 1 ? '' : 's'}`
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${request.id}@shuttle-forge`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatFloating(start)}`,
+    `DTEND:${formatFloating(end)}`,
+    `SUMMARY:${escapeText(`${request.reference} · ${vehicleCount} to ${request.dropoffLocation.name}`)}`,
+    `LOCATION:${escapeText(request.parkingLocation.name)}`,
+    `DESCRIPTION:${escapeText(describe(request, options.drivers ?? []))}`,
+    'STATUS:CONFIRMED'
+  ]
+  if (request.parkingLocation.lat !== null && request.parkingLocation.lng !== null) {
+    lines.push(`GEO:${request.parkingLocation.lat};${request.parkingLocation.lng}`)
+  }
+  if (options.urlFor) lines.push(`URL:${options.urlFor(request)}`)
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/** An iCalendar document with one event per request, in the order given. */
+export function toICalendar(requests: readonly ShuttleRequest[], options: ICalendarOptions): string {
+  const stamp = formatUtc(options.now ?? new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Shuttle Forge//Shuttle Jobs//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...requests.flatMap((request) => toEvent(request, options, stamp)),
+    'END:VCALENDAR'
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
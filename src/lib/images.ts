@@ -0,0 +1,38 @@
+/**
+ * Images - Shrinks phone photos before they're stored
+ *
+ * A phone camera photo is several megabytes; scaled down to fit `maxSize`
+ * pixels and saved as JPEG it is a few hundred kilobytes, which uploads on a
+ * weak signal and leaves room in local storage.
+ */
+
+const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('That file is not an image this browser can read'))
+    }
+    image.src = url
+  })
+
+export async function shrinkImage(file: Blob, maxSize = 1024, quality = 0.8): Promise<Blob> {
+  const image = await loadImage(file)
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(image.naturalWidth * scale)
+  canvas.height = Math.round(image.naturalHeight * scale)
+  const context = canvas.getContext('2d')
+  if (!context) return file
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+  return new Promise((resolve) => {
+    canvas.toBlob((blob) => resolve(blob ?? file), 'image/jpeg', quality)
+  })
+}
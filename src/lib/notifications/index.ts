@@ -0,0 +1,22 @@
+import { NOTIFICATION_CONFIG } from '../../config/notifications'
+import { createNotifier } from './notifier'
+import { createLocalOutbox, createOutboxProvider } from './outbox'
+import type { Notifier } from './types'
+
+export * from './types'
+export { createNotifier } from './notifier'
+export { createLocalOutbox, createOutboxProvider, type LocalOutbox, type OutboxEntry } from './outbox'
+export { NOTIFICATION_KIND_LABELS, NOTIFICATION_TEMPLATES, kindsForEvent, renderNotification } from './templates'
+export { withNotifications } from './withNotifications'
+
+// With the local backend every message collects here (Owner Dashboard → Notifications).
+// With Supabase the database queues them for the relay instead (0024_notification_events.sql)
+export const outbox = createLocalOutbox({
+  storage: typeof localStorage === 'undefined' ? null : localStorage,
+  limit: NOTIFICATION_CONFIG.outboxLimit
+})
+
+export const notifier: Notifier = createNotifier({
+  providers: [createOutboxProvider(outbox, 'email'), createOutboxProvider(outbox, 'sms')],
+  config: NOTIFICATION_CONFIG
+})
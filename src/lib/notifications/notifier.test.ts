@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { makeRequest } from '../domain/fixtures.test-utils'
+import { createNotifier } from './notifier'
+import type { NotificationChannel, NotificationProvider } from './types'
+
+const provider = (channel: NotificationChannel, send = vi.fn<NotificationProvider['send']>(async () => {})) =>
+  ({ channel, send }) satisfies NotificationProvider
+
+const config = {
+  businessName: 'Shuttle Forge',
+  owner: { email: 'owner@example.com', phone: '' },
+  siteUrl: 'https://example.com'
+}
+
+describe('createNotifier', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('sends each message on every channel with an address for its recipient', async () => {
+    const email = provider('email')
+    const sms = provider('sms')
+    await createNotifier({ providers: [email, sms], config }).notify({ request: makeRequest(), from: null, to: 'pending' })
+
+    // The owner has no phone number, so the owner only gets the email
+    expect(email.send.mock.calls.map(([message]) => [message.kind, message.to])).toEqual([
+      ['booking_received', 'jo@example.com'],
+      ['new_booking', 'owner@example.com']
+    ])
+    expect(sms.send.mock.calls.map(([message]) => [message.kind, message.to])).toEqual([
+      ['booking_received', '555-0100']
+    ])
+    expect(email.send.mock.calls[0][0]).toMatchObject({ requestId: 'request-1', reference: 'SF-TEST01' })
+    expect(email.send.mock.calls[0][0].body).toContain('https://example.com/track?reference=SF-TEST01')
+  })
+
+  it('logs a failed send without holding up the rest', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const email = provider('email', vi.fn<NotificationProvider['send']>(async (message) => {
+      if (message.kind === 'booking_received') throw new Error('Mailbox full')
+    }))
+
+    await expect(
+      createNotifier({ providers: [email], config }).notify({ request: makeRequest(), from: null, to: 'pending' })
+    ).resolves.toBeUndefined()
+    expect(email.send).toHaveBeenCalledTimes(2)
+    expect(error).toHaveBeenCalledOnce()
+  })
+
+  it('sends nothing for a change nobody needs to hear about', async () => {
+    const email = provider('email')
+    await createNotifier({ providers: [email], config }).notify({ request: makeRequest(), from: 'waitlisted', to: 'pending' })
+
+    expect(email.send).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,63 @@
+import type { NotificationConfig } from '../../config/notifications'
+import { ownerRequestPath, trackPath } from '../routes'
+import { audienceOf, kindsForEvent, renderNotification, type TemplateContext } from './templates'
+import type {
+  NotificationChannel,
+  NotificationKind,
+  NotificationMessage,
+  NotificationProvider,
+  Notifier,
+  RequestEvent
+} from './types'
+
+interface NotifierOptions {
+  // At most one per channel; a channel without one is not used
+  providers: NotificationProvider[]
+  config: Pick<NotificationConfig, 'businessName' | 'owner' | 'siteUrl'>
+}
+
+/**
+ * Notifier - Turns request events into messages and hands them to providers
+ *
+ * Each message goes out on every channel that has both a provider and an
+ * address for the recipient. Sends run side by side and a failure is only
+ * logged, so one bad address or a relay outage never blocks the rest.
+ */
+export function createNotifier({ providers, config }: NotifierOptions): Notifier {
+  const addressFor = (event: RequestEvent, kind: NotificationKind, channel: NotificationChannel) => {
+    const contact = audienceOf(kind) === 'owner'
+      ? config.owner
+      : { email: event.request.customer.email, phone: event.request.customer.phone }
+    return (channel === 'email' ? contact.email : contact.phone).trim()
+  }
+
+  return {
+    async notify(event) {
+      const { request } = event
+      const context: TemplateContext = {
+        request,
+        businessName: config.businessName,
+        trackUrl: config.siteUrl + trackPath(request.reference),
+        dashboardUrl: config.siteUrl + ownerRequestPath(request.id),
+        note: event.note ?? null
+      }
+
+      const messages: NotificationMessage[] = kindsForEvent(event).flatMap(kind =>
+        providers.flatMap(({ channel }) => {
+          const to = addressFor(event, kind, channel)
+          if (!to) return []
+          return [{ kind, channel, to, requestId: request.id, reference: request.reference, ...renderNotification(kind, channel, context) }]
+        })
+      )
+
+      await Promise.all(messages.map(async message => {
+        const provider = providers.find(p => p.channel === message.channel)!
+        try {
+          await provider.send(message)
+        } catch (err) {
+          console.error(`Failed to send ${message.kind} ${message.channel} for ${message.reference}:`, err)
+        }
+      }))
+    }
+  }
+}
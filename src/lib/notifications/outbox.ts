@@ -0,0 +1,83 @@
+import { createEventBus } from '../eventBus'
+import type { NotificationChannel, NotificationMessage, NotificationProvider } from './types'
+
+/**
+ * Local Outbox - Keeps "sent" messages in the browser instead of delivering them
+ *
+ * Stands in for a real email/SMS provider during development, so every
+ * message the app would send can be read on the owner's Notifications page.
+ * Entries are mirrored to storage, newest first, and capped at `limit`.
+ */
+
+export interface OutboxEntry extends NotificationMessage {
+  id: string
+  sentAt: string
+}
+
+export interface LocalOutbox {
+  /** Newest first. */
+  list(): OutboxEntry[]
+  append(message: NotificationMessage): OutboxEntry
+  clear(): void
+  /** Fires after any change, in this tab or another. Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void
+}
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+interface LocalOutboxOptions {
+  storage?: KeyValueStorage | null
+  key?: string
+  limit?: number
+}
+
+const DEFAULT_STORAGE_KEY = 'shuttle-forge:outbox'
+
+export function createLocalOutbox(options: LocalOutboxOptions = {}): LocalOutbox {
+  const { storage = null, key = DEFAULT_STORAGE_KEY, limit = 200 } = options
+  const changes = createEventBus<null>({ channel: key })
+  let memory: OutboxEntry[] = []
+
+  // Another tab may have written since, so storage always wins when present
+  const load = (): OutboxEntry[] => {
+    if (!storage) return memory
+    try {
+      const raw = storage.getItem(key)
+      return raw ? (JSON.parse(raw) as OutboxEntry[]) : []
+    } catch (err) {
+      console.error('Failed to read notification outbox:', err)
+      return []
+    }
+  }
+
+  const save = (entries: OutboxEntry[]) => {
+    memory = entries
+    try {
+      storage?.setItem(key, JSON.stringify(entries))
+    } catch (err) {
+      console.error('Failed to save notification outbox:', err)
+    }
+    changes.publish(null)
+  }
+
+  return {
+    list: () => load().slice(),
+
+    append(message) {
+      const entry: OutboxEntry = { ...message, id: crypto.randomUUID(), sentAt: new Date().toISOString() }
+      save([entry, ...load()].slice(0, limit))
+      return entry
+    },
+
+    clear: () => save([]),
+
+    subscribe: (listener) => changes.subscribe(() => listener())
+  }
+}
+
+export const createOutboxProvider = (outbox: LocalOutbox, channel: NotificationChannel): NotificationProvider => ({
+  channel,
+  async send(message) {
+    outbox.append(message)
+  }
+})
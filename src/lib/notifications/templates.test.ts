@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { makeRequest } from '../domain/fixtures.test-utils'
+import { NOTIFICATION_TEMPLATES, kindsForEvent, renderNotification, type TemplateContext } from './templates'
+import type { NotificationKind } from './types'
+
+const context = (overrides: Partial<TemplateContext> = {}): TemplateContext => ({
+  request: makeRequest({ status: 'pending' }),
+  businessName: 'Shuttle Forge',
+  trackUrl: 'https://example.com/track?reference=SF-TEST01',
+  dashboardUrl: 'https://example.com/owner/requests/request-1',
+  note: null,
+  ...overrides
+})
+
+describe('kindsForEvent', () => {
+  it('tells the customer and the owner about a new booking', () => {
+    expect(kindsForEvent({ request: makeRequest(), from: null, to: 'pending' })).toEqual(['booking_received', 'new_booking'])
+  })
+
+  it('picks the message for each status change', () => {
+    const kinds = (from: 'pending' | 'confirmed' | 'in_progress', to: Parameters<typeof kindsForEvent>[0]['to']) =>
+      kindsForEvent({ request: makeRequest(), from, to })
+
+    expect(kinds('pending', 'confirmed')).toEqual(['request_accepted'])
+    expect(kinds('confirmed', 'in_progress')).toEqual(['driver_en_route'])
+    expect(kinds('in_progress', 'completed')).toEqual(['request_completed'])
+    expect(kinds('pending', 'rejected')).toEqual(['request_declined'])
+    expect(kinds('confirmed', 'cancelled')).toEqual(['request_cancelled'])
+  })
+
+  it('tells the owner when the customer cancelled', () => {
+    expect(kindsForEvent({ request: makeRequest(), from: 'pending', to: 'cancelled', byCustomer: true }))
+      .toEqual(['request_cancelled', 'customer_cancelled'])
+  })
+
+  it('stays quiet about a waitlisted request being offered a spot', () => {
+    expect(kindsForEvent({ request: makeRequest(), from: 'waitlisted', to: 'pending' })).toEqual([])
+  })
+})
+
+describe('renderNotification', () => {
+  it('gives email a subject and SMS none', () => {
+    expect(renderNotification('request_accepted', 'email', context())).toMatchObject({
+      subject: 'Your shuttle is confirmed (SF-TEST01)'
+    })
+    expect(renderNotification('request_accepted', 'sms', context())).toEqual({
+      subject: null,
+      body: 'Shuttle Forge: shuttle SF-TEST01 is confirmed for 2026-03-09 at 10:00.'
+    })
+  })
+
+  it('links customers to tracking and the owner to the dashboard', () => {
+    const customer = renderNotification('booking_received', 'email', context())
+    const owner = renderNotification('new_booking', 'email', context())
+
+    expect(customer.body).toContain('https://example.com/track?reference=SF-TEST01')
+    expect(customer.body).toContain('1 vehicle from Trailhead to Takeout')
+    expect(owner.body).toContain('https://example.com/owner/requests/request-1')
+  })
+
+  it('words a waitlisted booking as such', () => {
+    const rendered = renderNotification('booking_received', 'email', context({ request: makeRequest({ status: 'waitlisted' }) }))
+
+    expect(rendered.subject).toBe("You're on the waitlist (SF-TEST01)")
+    expect(rendered.body).toContain('2026-03-09 is fully booked')
+  })
+
+  it('passes on the reason for a cancellation, by email only', () => {
+    const note = 'Road closed'
+    expect(renderNotification('request_cancelled', 'email', context({ note })).body).toContain('Reason: Road closed')
+    expect(renderNotification('request_cancelled', 'sms', context({ note })).body).not.toContain('Road closed')
+  })
+
+  it('keeps every SMS short enough for a single message with a link', () => {
+    for (const kind of Object.keys(NOTIFICATION_TEMPLATES) as NotificationKind[]) {
+      expect(renderNotification(kind, 'sms', context()).body.length).toBeLessThanOrEqual(160)
+    }
+  })
+})
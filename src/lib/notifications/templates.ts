@@ -0,0 +1,182 @@
+import type { ShuttleRequest } from '../domain'
+import type { NotificationAudience, NotificationChannel, NotificationKind, RequestEvent } from './types'
+
+/**
+ * Notification templates - the wording of every message, in an email version
+ * (subject plus plain-text body) and a short SMS version. The notification
+ * relay renders what the database queues with these too, and kindsForEvent
+ * is mirrored by request_notification_kinds in
+ * supabase/migrations/0024_notification_events.sql.
+ */
+
+export interface TemplateContext {
+  request: ShuttleRequest
+  businessName: string
+  // Where the customer can follow the request
+  trackUrl: string
+  // Where the owner can open the request
+  dashboardUrl: string
+  note: string | null
+}
+
+interface NotificationTemplate {
+  audience: NotificationAudience
+  subject: (context: TemplateContext) => string
+  email: (context: TemplateContext) => string
+  sms: (context: TemplateContext) => string
+}
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  booking_received: 'Booking received',
+  new_booking: 'New booking (owner)',
+  request_accepted: 'Request accepted',
+  driver_en_route: 'Driver en route',
+  request_completed: 'Shuttle completed',
+  request_cancelled: 'Request cancelled',
+  request_declined: 'Request declined',
+  customer_cancelled: 'Customer cancelled (owner)'
+}
+
+const vehicleCount = ({ vehicles }: ShuttleRequest) => `${vehicles.length} vehicle${vehicles.length === 1 ? '' : 's'}`
+
+const tripLine = (request: ShuttleRequest) =>
+  `${vehicleCount(request)} from ${request.parkingLocation.name} to ${request.dropoffLocation.name}`
+
+const whenLine = (request: ShuttleRequest) => `${request.dropoffDay} at ${request.arrivalTime}`
+
+const signOff = ({ businessName }: TemplateContext) => `\n\nThanks,\n${businessName}`
+
+const noteLine = ({ note }: TemplateContext) => (note ? `\n\nReason: ${note}` : '')
+
+export const NOTIFICATION_TEMPLATES: Record<NotificationKind, NotificationTemplate> = {
+  booking_received: {
+    audience: 'customer',
+    subject: ({ request }) => request.status === 'waitlisted'
+      ? `You're on the waitlist (${request.reference})`
+      : `We received your shuttle request (${request.reference})`,
+    email: (context) => {
+      const { request } = context
+      const intro = request.status === 'waitlisted'
+        ? `${request.dropoffDay} is fully booked, so you're on the waitlist. We'll let you know if a spot opens up.`
+        : "Thanks for booking. We'll let you know as soon as the owner confirms."
+      return `Hi ${request.customer.fullName},\n\n${intro}\n\n` +
+        `Reference: ${request.reference}\nTrip: ${tripLine(request)}\nWhen: ${whenLine(request)}\n\n` +
+        `Track or change your request: ${context.trackUrl}` + signOff(context)
+    },
+    sms: ({ request, businessName, trackUrl }) => request.status === 'waitlisted'
+      ? `${businessName}: ${request.dropoffDay} is full; ${request.reference} is on the waitlist. ${trackUrl}`
+      : `${businessName}: we received shuttle request ${request.reference} for ${request.dropoffDay}. ${trackUrl}`
+  },
+
+  new_booking: {
+    audience: 'owner',
+    subject: ({ request }) => `New ${request.status === 'waitlisted' ? 'waitlist' : 'shuttle'} request ${request.reference}`,
+    email: ({ request, dashboardUrl }) =>
+      `${request.customer.fullName} (${request.customer.email}, ${request.customer.phone}) requested a shuttle.\n\n` +
+      `Trip: ${tripLine(request)}\nWhen: ${whenLine(request)}\nStatus: ${request.status}\n\n` +
+      `Review it: ${dashboardUrl}`,
+    sms: ({ request }) =>
+      `New request ${request.reference}: ${vehicleCount(request)} on ${whenLine(request)} for ${request.customer.fullName}`
+  },
+
+  request_accepted: {
+    audience: 'customer',
+    subject: ({ request }) => `Your shuttle is confirmed (${request.reference})`,
+    email: (context) => {
+      const { request } = context
+      return `Hi ${request.customer.fullName},\n\nGood news: your shuttle is confirmed.\n\n` +
+        `Reference: ${request.reference}\nTrip: ${tripLine(request)}\nWhen: ${whenLine(request)}\n\n` +
+        `Details: ${context.trackUrl}` + signOff(context)
+    },
+    sms: ({ request, businessName }) =>
+      `${businessName}: shuttle ${request.reference} is confirmed for ${whenLine(request)}.`
+  },
+
+  driver_en_route: {
+    audience: 'customer',
+    subject: ({ request }) => `Your driver is on the way (${request.reference})`,
+    email: (context) => {
+      const { request } = context
+      return `Hi ${request.customer.fullName},\n\nYour driver is on the way to ${request.parkingLocation.name} ` +
+        `to pick up ${vehicleCount(request)}.\n\nTrack it: ${context.trackUrl}` + signOff(context)
+    },
+    sms: ({ request, businessName }) =>
+      `${businessName}: your driver is on the way to ${request.parkingLocation.name} (${request.reference}).`
+  },
+
+  request_completed: {
+    audience: 'customer',
+    subject: ({ request }) => `Your vehicles have been delivered (${request.reference})`,
+    email: (context) => {
+      const { request } = context
+      return `Hi ${request.customer.fullName},\n\n${vehicleCount(request)} delivered to ${request.dropoffLocation.name}. ` +
+        'Enjoy the rest of your trip!' + signOff(context)
+    },
+    sms: ({ request, businessName }) =>
+      `${businessName}: delivered to ${request.dropoffLocation.name} (${request.reference}). Enjoy your trip!`
+  },
+
+  request_cancelled: {
+    audience: 'customer',
+    subject: ({ request }) => `Your shuttle request was cancelled (${request.reference})`,
+    email: (context) => {
+      const { request } = context
+      return `Hi ${request.customer.fullName},\n\nShuttle request ${request.reference} for ${whenLine(request)} ` +
+        'has been cancelled.' + noteLine(context) + signOff(context)
+    },
+    sms: ({ request, businessName }) =>
+      `${businessName}: shuttle request ${request.reference} for ${request.dropoffDay} was cancelled.`
+  },
+
+  request_declined: {
+    audience: 'customer',
+    subject: ({ request }) => `We can't take your shuttle request (${request.reference})`,
+    email: (context) => {
+      const { request } = context
+      return `Hi ${request.customer.fullName},\n\nSorry, we can't take shuttle request ${request.reference} ` +
+        `for ${whenLine(request)}.` + noteLine(context) + signOff(context)
+    },
+    sms: ({ request, businessName }) =>
+      `${businessName}: sorry, we can't take shuttle request ${request.reference} for ${request.dropoffDay}.`
+  },
+
+  customer_cancelled: {
+    audience: 'owner',
+    subject: ({ request }) => `${request.customer.fullName} cancelled ${request.reference}`,
+    email: (context) => {
+      const { request } = context
+      return `${request.customer.fullName} cancelled their request for ${whenLine(request)} (${tripLine(request)}).` +
+        noteLine(context) + `\n\n${context.dashboardUrl}`
+    },
+    sms: ({ request }) => `${request.customer.fullName} cancelled ${request.reference} for ${request.dropoffDay}`
+  }
+}
+
+/** The messages a write to a request calls for, in sending order. */
+export function kindsForEvent({ from, to, byCustomer = false }: RequestEvent): NotificationKind[] {
+  if (from === null) return ['booking_received', 'new_booking']
+
+  switch (to) {
+    case 'confirmed':
+      return ['request_accepted']
+    case 'in_progress':
+      return ['driver_en_route']
+    case 'completed':
+      return ['request_completed']
+    case 'cancelled':
+      return byCustomer ? ['request_cancelled', 'customer_cancelled'] : ['request_cancelled']
+    case 'rejected':
+      return ['request_declined']
+    default:
+      return []
+  }
+}
+
+export function renderNotification(kind: NotificationKind, channel: NotificationChannel, context: TemplateContext) {
+  const template = NOTIFICATION_TEMPLATES[kind]
+  return channel === 'email'
+    ? { subject: template.subject(context), body: template.email(context) }
+    : { subject: null, body: template.sms(context) }
+}
+
+export const audienceOf = (kind: NotificationKind): NotificationAudience => NOTIFICATION_TEMPLATES[kind].audience
@@ -0,0 +1,59 @@
+import type { RequestStatus, ShuttleRequest } from '../domain'
+
+export type NotificationChannel = 'email' | 'sms'
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  sms: 'SMS'
+}
+
+export type NotificationKind =
+  | 'booking_received'
+  | 'new_booking'
+  | 'request_accepted'
+  | 'driver_en_route'
+  | 'request_completed'
+  | 'request_cancelled'
+  | 'request_declined'
+  | 'customer_cancelled'
+
+export type NotificationAudience = 'customer' | 'owner'
+
+/** One rendered message, ready for a provider to deliver. */
+export interface NotificationMessage {
+  kind: NotificationKind
+  channel: NotificationChannel
+  // Email address or phone number, depending on the channel
+  to: string
+  // Email only; null for SMS
+  subject: string | null
+  body: string
+  requestId: string
+  reference: string
+}
+
+/**
+ * Delivers messages on one channel. `send` resolves once the message has been
+ * handed over and rejects if it couldn't be.
+ */
+export interface NotificationProvider {
+  readonly channel: NotificationChannel
+  send(message: NotificationMessage): Promise<void>
+}
+
+/** A write to a request that someone may need to hear about. */
+export interface RequestEvent {
+  request: ShuttleRequest
+  // null when the request was just created
+  from: RequestStatus | null
+  to: RequestStatus
+  // The reason given for cancelling or rejecting
+  note?: string | null
+  // The customer made the change themselves, so the owner is told as well
+  byCustomer?: boolean
+}
+
+export interface Notifier {
+  /** Sends everything `event` calls for. Never rejects; failed sends are logged. */
+  notify(event: RequestEvent): Promise<void>
+}
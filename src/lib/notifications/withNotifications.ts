@@ -0,0 +1,50 @@
+import type { ShuttleRequestRepository } from '../data/types'
+import { fromShuttleRequestRecord } from '../domain'
+import type { Notifier, RequestEvent } from './types'
+
+/**
+ * With Notifications - Wraps a request repository so successful writes notify
+ * the customer and owner
+ *
+ * For the local backend; Supabase queues the same messages in the database.
+ * Only the client that made the change sends, so other open tabs and
+ * dashboards never double up. Sending happens after the write has returned
+ * and is never awaited: a slow or failing provider can't hold up or undo it.
+ */
+export function withNotifications(
+  repository: ShuttleRequestRepository,
+  notifier: Notifier
+): ShuttleRequestRepository {
+  const send = (event: RequestEvent) => {
+    void notifier.notify(event)
+  }
+
+  return {
+    ...repository,
+
+    async create(input) {
+      const record = await repository.create(input)
+      send({ request: fromShuttleRequestRecord(record), from: null, to: record.status })
+      return record
+    },
+
+    async transitionStatus(id, input) {
+      const record = await repository.transitionStatus(id, input)
+      send({ request: fromShuttleRequestRecord(record), from: input.from, to: input.to, note: input.note })
+      return record
+    },
+
+    async checkIn(id, input) {
+      const record = await repository.checkIn(id, input)
+      // Picking up a job that was already under way changes nothing the customer needs to hear
+      if (record.status !== input.from) send({ request: fromShuttleRequestRecord(record), from: input.from, to: record.status })
+      return record
+    },
+
+    async cancelTracked(lookup, input) {
+      const record = await repository.cancelTracked(lookup, input)
+      send({ request: fromShuttleRequestRecord(record), from: input.from, to: record.status, note: input.note, byCustomer: true })
+      return record
+    }
+  }
+}
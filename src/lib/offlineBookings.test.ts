@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DataError, type CreateShuttleRequestInput, type ShuttleRequestRecord, type ShuttleRequestRepository } from './data'
+import { makeVehicle } from './domain/fixtures.test-utils'
+import { createOfflineBookingStore, resendDelayMs, sendQueuedBookings, type BookingFormDraft } from './offlineBookings'
+
+const memoryStorage = () => {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value)
+    },
+    removeItem: (key: string) => {
+      items.delete(key)
+    }
+  }
+}
+
+const booking = (day: string): CreateShuttleRequestInput => ({
+  user: { email: 'jo@example.com', full_name: 'Jo Rider', phone: '555-0100' },
+  request: { parking_location_name: 'Trailhead', dropoff_location_name: 'Takeout', dropoff_day: day, arrival_time: '10:00' },
+  vehicles: [{ make: 'Toyota', model: 'Tacoma', year: '2020', transmission: 'automatic' }]
+})
+
+// Turns each booking's day into a made-up record, or throws what `fail` gives for it
+const repository = (fail: (input: CreateShuttleRequestInput) => Error | null = () => null) => ({
+  create: vi.fn<ShuttleRequestRepository['create']>(async (input) => {
+    const err = fail(input)
+    if (err) throw err
+    return { id: input.request.dropoff_day } as ShuttleRequestRecord
+  })
+})
+
+describe('offline booking store', () => {
+  it('keeps the draft and the queue in storage, shared by every store on it', () => {
+    const storage = memoryStorage()
+    const store = createOfflineBookingStore({ storage, key: 'test' })
+    const form: BookingFormDraft = {
+      customer: { fullName: 'Jo Rider', email: 'jo@example.com', phone: '' },
+      parkingLocation: { name: 'Trailhead', lat: null, lng: null },
+      dropoffLocation: { name: '', lat: null, lng: null },
+      vehicles: [makeVehicle({ lockboxCode: undefined })],
+      dropoffDay: '2026-03-09',
+      arrivalTime: ''
+    }
+
+    store.saveDraft(form)
+    const queued = store.enqueue(booking('2026-03-09'))
+
+    const other = createOfflineBookingStore({ storage, key: 'test' })
+    expect(other.draft()?.form).toEqual(form)
+    expect(other.queued()).toEqual([queued])
+    expect(queued.summary).toEqual({ dropoffDay: '2026-03-09', parkingLocation: 'Trailhead', dropoffLocation: 'Takeout' })
+  })
+
+  it('never keeps lockbox codes, including ones stored before they were left out', () => {
+    const storage = memoryStorage()
+    const withCode = { ...booking('2026-03-09'), vehicles: [{ ...booking('2026-03-09').vehicles[0], lockbox_code: '4321' }] }
+    storage.setItem('test', JSON.stringify({ draft: null, queue: [{ id: 'old', input: withCode, summary: {}, queuedAt: '' }] }))
+
+    const store = createOfflineBookingStore({ storage, key: 'test' })
+    expect(storage.items.get('test')).not.toContain('4321')
+
+    store.saveDraft({
+      customer: { fullName: 'Jo Rider', email: 'jo@example.com', phone: '' },
+      parkingLocation: { name: 'Trailhead', lat: null, lng: null },
+      dropoffLocation: { name: '', lat: null, lng: null },
+      vehicles: [makeVehicle({ lockboxCode: '1234' })],
+      dropoffDay: '2026-03-09',
+      arrivalTime: ''
+    })
+    store.enqueue(withCode)
+    expect(storage.items.get('test')).not.toMatch(/4321|1234/)
+    expect(store.queued()[1].input.vehicles[0]).not.toHaveProperty('lockbox_code', '4321')
+  })
+
+  it('clears storage once nothing is left', () => {
+    const storage = memoryStorage()
+    const store = createOfflineBookingStore({ storage, key: 'test' })
+    const queued = store.enqueue(booking('2026-03-09'))
+
+    store.discard(queued.id)
+    expect(storage.items.size).toBe(0)
+  })
+
+  it('gives each queued booking an id to send it with, keeping one it already has', () => {
+    const store = createOfflineBookingStore()
+    const fresh = store.enqueue(booking('2026-03-09'))
+    const retried = store.enqueue({ ...booking('2026-03-10'), request: { ...booking('2026-03-10').request, id: 'request-1' } })
+
+    expect(fresh.input.request.id).toEqual(expect.any(String))
+    expect(retried.input.request.id).toBe('request-1')
+  })
+
+  it('lets only one store on the same storage send at a time', async () => {
+    const storage = memoryStorage()
+    const tab = createOfflineBookingStore({ storage, key: 'test' })
+    const otherTab = createOfflineBookingStore({ storage, key: 'test' })
+    let finish = () => {}
+
+    const sending = tab.whileSending(() => new Promise<string>((resolve) => {
+      finish = () => resolve('sent')
+    }))
+    expect(await otherTab.whileSending(async () => 'sent too')).toBeNull()
+    expect(await tab.whileSending(async () => 'sent twice')).toBeNull()
+
+    finish()
+    expect(await sending).toBe('sent')
+    expect(await otherTab.whileSending(async () => 'sent too')).toBe('sent too')
+  })
+})
+
+describe('sendQueuedBookings', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('sends the queue oldest first and empties it', async () => {
+    const store = createOfflineBookingStore()
+    store.enqueue(booking('2026-03-09'))
+    store.enqueue(booking('2026-03-10'))
+    const requests = repository()
+
+    const result = await sendQueuedBookings(store, requests)
+    expect(result.sent.map((record) => record.id)).toEqual(['2026-03-09', '2026-03-10'])
+    expect(result.remaining).toBe(0)
+    expect(store.queued()).toEqual([])
+  })
+
+  it('stops at a connection problem and keeps the rest for next time', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const store = createOfflineBookingStore()
+    store.enqueue(booking('2026-03-09'))
+    store.enqueue(booking('2026-03-10'))
+    store.enqueue(booking('2026-03-11'))
+    const requests = repository((input) => (input.request.dropoff_day === '2026-03-10' ? new TypeError('Failed to fetch') : null))
+
+    const result = await sendQueuedBookings(store, requests)
+    expect(result).toMatchObject({ remaining: 2 })
+    expect(store.queued().map((queued) => queued.summary.dropoffDay)).toEqual(['2026-03-10', '2026-03-11'])
+    expect(requests.create).toHaveBeenCalledTimes(2)
+  })
+
+  it('treats only transport failures as connection problems', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const store = createOfflineBookingStore()
+    store.enqueue(booking('2026-03-09'))
+    store.enqueue(booking('2026-03-10'))
+    const requests = repository((input) => input.request.dropoff_day === '2026-03-09'
+      ? new DataError('function create_shuttle_request does not exist', 'backend')
+      : new DataError('TypeError: Failed to fetch', 'network'))
+
+    const result = await sendQueuedBookings(store, requests)
+    expect(result).toMatchObject({ remaining: 1 })
+    expect(store.queued().map((queued) => [queued.summary.dropoffDay, queued.error])).toEqual([
+      ['2026-03-09', 'function create_shuttle_request does not exist'],
+      ['2026-03-10', undefined]
+    ])
+  })
+
+  it('keeps bookings the backend turned down, with the reason, and never resends them', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const store = createOfflineBookingStore()
+    store.enqueue(booking('2026-03-09'))
+    store.enqueue(booking('2026-03-10'))
+    const requests = repository((input) =>
+      input.request.dropoff_day === '2026-03-09' ? new DataError('2026-03-09 is fully booked', 'capacity') : null
+    )
+
+    const result = await sendQueuedBookings(store, requests)
+    expect(result.sent.map((record) => record.id)).toEqual(['2026-03-10'])
+    expect(store.queued()).toMatchObject([{ error: '2026-03-09 is fully booked' }])
+
+    await sendQueuedBookings(store, requests)
+    expect(requests.create).toHaveBeenCalledTimes(2)
+  })
+
+  it('leaves the queue alone while another tab is sending it', async () => {
+    const storage = memoryStorage()
+    const otherTab = createOfflineBookingStore({ storage, key: 'test' })
+    const store = createOfflineBookingStore({ storage, key: 'test' })
+    store.enqueue(booking('2026-03-09'))
+    const requests = repository()
+
+    let finish = () => {}
+    const busy = otherTab.whileSending(() => new Promise<void>((resolve) => {
+      finish = resolve
+    }))
+
+    expect(await sendQueuedBookings(store, requests)).toEqual({ sent: [], remaining: 1 })
+    expect(requests.create).not.toHaveBeenCalled()
+    finish()
+    await busy
+  })
+})
+
+describe('resendDelayMs', () => {
+  it('doubles the wait after each failed send, up to five minutes', () => {
+    expect([1, 2, 3].map(resendDelayMs)).toEqual([5_000, 10_000, 20_000])
+    expect(resendDelayMs(20)).toBe(5 * 60_000)
+  })
+})
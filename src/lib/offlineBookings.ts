@@ -0,0 +1,273 @@
+import { DataError, type CreateShuttleRequestInput, type ShuttleRequestRecord, type ShuttleRequestRepository } from './data'
+import type { ShuttleRequestDraft, Vehicle } from './domain'
+import { createEventBus } from './eventBus'
+
+/**
+ * Offline Bookings - Keeps the booking form and unsent bookings on the device
+ *
+ * Customers often book from trailheads with patchy signal. The form is saved
+ * as they type so a reload doesn't lose it, and a booking made without a
+ * connection waits here until one comes back. Both live in storage, so they
+ * survive reloads and are shared between tabs. Lockbox codes open the
+ * customer's car, so they are never stored: they are left out of both, and
+ * the customer adds them once the booking is sent.
+ */
+
+// The form as typed, without lockbox codes; the quote is recalculated from it
+export interface BookingFormDraft extends Omit<ShuttleRequestDraft, 'quote' | 'vehicles'> {
+  vehicles: Omit<Vehicle, 'lockboxCode'>[]
+}
+
+export interface SavedBookingDraft {
+  form: BookingFormDraft
+  savedAt: string
+}
+
+export interface QueuedBooking {
+  id: string
+  input: CreateShuttleRequestInput
+  // Shown back to the customer while it waits
+  summary: { dropoffDay: string; parkingLocation: string; dropoffLocation: string }
+  queuedAt: string
+  // Set when the backend turned it down; it stays for the customer to see and discard
+  error?: string
+}
+
+export interface OfflineBookingStore {
+  draft(): SavedBookingDraft | null
+  saveDraft(form: BookingFormDraft): void
+  clearDraft(): void
+  /** Oldest first. */
+  queued(): QueuedBooking[]
+  /** Gives the booking an id if it has none, so every resend is recognised as the same booking. */
+  enqueue(input: CreateShuttleRequestInput): QueuedBooking
+  /** Records why the backend turned a queued booking down, so it isn't sent again. */
+  reject(id: string, error: string): void
+  discard(id: string): void
+  /** Fires after any change, in this tab or another. Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void
+  /**
+   * Runs `send` unless another tab is already sending, resolving null in that
+   * case. Uses Web Locks where the browser has them, and a lease in storage
+   * otherwise.
+   */
+  whileSending<T>(send: () => Promise<T>): Promise<T | null>
+}
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+interface OfflineBookingStoreOptions {
+  storage?: KeyValueStorage | null
+  key?: string
+}
+
+interface StoredState {
+  draft: SavedBookingDraft | null
+  queue: QueuedBooking[]
+}
+
+const DEFAULT_STORAGE_KEY = 'shuttle-forge:offline-bookings'
+
+// Also applied to whatever is read back, so codes saved before they were left out go too.
+// An undefined code is dropped by JSON.stringify and means "unchanged" to the repositories
+const withoutLockboxCodes = (state: StoredState): StoredState => ({
+  draft: state.draft && {
+    ...state.draft,
+    form: {
+      ...state.draft.form,
+      vehicles: state.draft.form.vehicles.map((vehicle) => ({ ...vehicle, lockboxCode: undefined }))
+    }
+  },
+  queue: state.queue.map((booking) => ({
+    ...booking,
+    input: { ...booking.input, vehicles: booking.input.vehicles.map((vehicle) => ({ ...vehicle, lockbox_code: undefined })) }
+  }))
+})
+
+// A storage lease is renewed while the tab sends, and lapses soon after a tab closes mid-send
+const SEND_LEASE_MS = 30_000
+
+interface SendLease {
+  holder: string
+  expiresAt: number
+}
+
+export function createOfflineBookingStore(options: OfflineBookingStoreOptions = {}): OfflineBookingStore {
+  const { storage = null, key = DEFAULT_STORAGE_KEY } = options
+  const changes = createEventBus<null>({ channel: key })
+  let memory: StoredState = { draft: null, queue: [] }
+
+  // Another tab may have written since, so storage always wins when present
+  const load = (): StoredState => {
+    if (!storage) return memory
+    try {
+      const raw = storage.getItem(key)
+      return raw
+        ? withoutLockboxCodes({ draft: null, queue: [], ...(JSON.parse(raw) as Partial<StoredState>) })
+        : { draft: null, queue: [] }
+    } catch (err) {
+      console.error('Failed to read offline bookings:', err)
+      return { draft: null, queue: [] }
+    }
+  }
+
+  const persist = (state: StoredState) => {
+    memory = withoutLockboxCodes(state)
+    try {
+      if (!memory.draft && memory.queue.length === 0) storage?.removeItem(key)
+      else storage?.setItem(key, JSON.stringify(memory))
+    } catch (err) {
+      console.error('Failed to save offline bookings:', err)
+    }
+  }
+
+  const save = (state: StoredState) => {
+    persist(state)
+    changes.publish(null)
+  }
+
+  // Rewrites anything stored before codes were left out
+  if (storage?.getItem(key)) persist(load())
+
+  const update = (change: (state: StoredState) => StoredState) => save(change(load()))
+
+  const tabId = crypto.randomUUID()
+  const leaseKey = `${key}:send-lease`
+  let sendingHere = false
+
+  const readLease = (): SendLease | null => {
+    try {
+      const raw = storage?.getItem(leaseKey)
+      return raw ? (JSON.parse(raw) as SendLease) : null
+    } catch {
+      return null
+    }
+  }
+
+  const takeLease = () => {
+    // Kept in memory, so there's no other tab to share with
+    if (!storage) return true
+    const lease = readLease()
+    if (lease && lease.holder !== tabId && lease.expiresAt > Date.now()) return false
+    storage?.setItem(leaseKey, JSON.stringify({ holder: tabId, expiresAt: Date.now() + SEND_LEASE_MS }))
+    // Storage has no compare-and-set; reading back catches most races, and the ids catch the rest
+    return readLease()?.holder === tabId
+  }
+
+  const whileLeased = async <T>(send: () => Promise<T>): Promise<T | null> => {
+    if (sendingHere || !takeLease()) return null
+    sendingHere = true
+    const renew = setInterval(takeLease, SEND_LEASE_MS / 3)
+    try {
+      return await send()
+    } finally {
+      clearInterval(renew)
+      sendingHere = false
+      if (readLease()?.holder === tabId) storage?.removeItem(leaseKey)
+    }
+  }
+
+  return {
+    draft: () => load().draft,
+
+    saveDraft: (form) => update((state) => ({ ...state, draft: { form, savedAt: new Date().toISOString() } })),
+
+    clearDraft: () => update((state) => ({ ...state, draft: null })),
+
+    queued: () => load().queue.slice(),
+
+    enqueue(input) {
+      const booking: QueuedBooking = {
+        id: crypto.randomUUID(),
+        input: { ...input, request: { ...input.request, id: input.request.id ?? crypto.randomUUID() } },
+        summary: {
+          dropoffDay: input.request.dropoff_day,
+          parkingLocation: input.request.parking_location_name,
+          dropoffLocation: input.request.dropoff_location_name
+        },
+        queuedAt: new Date().toISOString()
+      }
+      update((state) => ({ ...state, queue: [...state.queue, booking] }))
+      return booking
+    },
+
+    reject: (id, error) => update((state) => ({
+      ...state,
+      queue: state.queue.map((booking) => (booking.id === id ? { ...booking, error } : booking))
+    })),
+
+    discard: (id) => update((state) => ({ ...state, queue: state.queue.filter((booking) => booking.id !== id) })),
+
+    subscribe: (listener) => changes.subscribe(() => listener()),
+
+    whileSending(send) {
+      if (storage && typeof navigator !== 'undefined' && navigator.locks) {
+        return navigator.locks.request(`${key}:send`, { ifAvailable: true }, (lock) => (lock ? send() : null))
+      }
+      return whileLeased(send)
+    }
+  }
+}
+
+export interface SendQueuedResult {
+  sent: ShuttleRequestRecord[]
+  // Still queued: the connection dropped again part way through, or another tab is sending them
+  remaining: number
+}
+
+/**
+ * Whether `err` means the backend couldn't be reached, so the same booking
+ * can be sent again later: a fetch that threw (a TypeError) or a DataError
+ * the repository classed as 'network'. Anything else was an answer.
+ */
+export const isConnectionProblem = (err: unknown) =>
+  err instanceof TypeError || (err instanceof DataError && err.code === 'network')
+
+// Sends that hit a connection problem are tried again after this, doubling each time up to the cap
+const RESEND_BASE_MS = 5_000
+const RESEND_MAX_MS = 5 * 60_000
+
+/** How long to wait before sending again after `failures` failed sends in a row. */
+export const resendDelayMs = (failures: number) =>
+  Math.min(RESEND_MAX_MS, RESEND_BASE_MS * 2 ** Math.max(0, failures - 1))
+
+/**
+ * Sends every queued booking that hasn't been turned down, oldest first.
+ * Stops at the first connection problem and leaves the rest for next time;
+ * bookings the backend answers with any other error keep it for the
+ * customer to see.
+ * Only one tab sends at a time, and each booking carries its own id, so a
+ * booking sent twice (its reply lost, say) is still only booked once.
+ */
+export async function sendQueuedBookings(
+  store: OfflineBookingStore,
+  shuttleRequests: Pick<ShuttleRequestRepository, 'create'>
+): Promise<SendQueuedResult> {
+  const waitingNow = () => store.queued().filter((booking) => !booking.error)
+
+  const result = await store.whileSending(async () => {
+    const sent: ShuttleRequestRecord[] = []
+    // Read under the lock, so bookings another tab just sent aren't sent again
+    const waiting = waitingNow()
+
+    for (const [index, booking] of waiting.entries()) {
+      try {
+        sent.push(await shuttleRequests.create(booking.input))
+        store.discard(booking.id)
+      } catch (err) {
+        console.error('Failed to send queued booking:', err)
+        if (isConnectionProblem(err)) return { sent, remaining: waiting.length - index }
+
+        store.reject(booking.id, err instanceof Error ? err.message : 'The booking was turned down')
+      }
+    }
+    return { sent, remaining: 0 }
+  })
+
+  return result ?? { sent: [], remaining: waitingNow().length }
+}
+
+// The one the booking form uses
+export const offlineBookings = createOfflineBookingStore({
+  storage: typeof localStorage === 'undefined' ? null : localStorage
+})
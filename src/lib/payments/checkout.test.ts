@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createLocalDatabase } from '../data/localDb'
+import { createLocalPaymentRepository } from '../data/payments.local'
+import { createLocalShuttleRequestRepository } from '../data/shuttleRequests.local'
+import type { PaymentRepository, ShuttleRequestChange } from '../data/types'
+import { fromShuttleRequestRecord } from '../domain/mappers'
+import { createEventBus } from '../eventBus'
+import { createCheckout } from './checkout'
+import { FAKE_DECLINED_CARD, createFakePaymentProvider, type CardDetails } from './fake'
+
+const config = { depositPercent: 25, minimumDepositCents: 2500, relayUrl: '' }
+const card = { number: '4242 4242 4242 4242', expiry: '12/99', cvc: '123' }
+
+const setup = async () => {
+  const db = createLocalDatabase()
+  const shuttleRequests = createLocalShuttleRequestRepository(db, createEventBus<ShuttleRequestChange>())
+  const record = await shuttleRequests.create({
+    user: { email: 'jo@example.com', full_name: 'Jo Rider', phone: '555-0100' },
+    request: {
+      parking_location_name: 'Trailhead',
+      parking_lat: 40,
+      parking_lng: -105,
+      dropoff_location_name: 'Takeout',
+      dropoff_lat: 41,
+      dropoff_lng: -105,
+      dropoff_day: '2026-03-09',
+      arrival_time: '10:00'
+    },
+    vehicles: [{ make: 'Toyota', model: 'Tacoma', year: '2020', transmission: 'automatic' }]
+  })
+  const payments = createLocalPaymentRepository(db)
+
+  return {
+    db,
+    payments,
+    // Pays with `card`; the fake provider records the outcome, as the relay would, through `recordWith`
+    pay: async (kind: 'deposit' | 'full', card: CardDetails, recordWith: PaymentRepository = payments) => {
+      const provider = createFakePaymentProvider({ payments: recordWith, delayMs: 0 })
+      const paymentMethodId = await provider.createPaymentMethod(card)
+      return createCheckout({ provider, payments, config }).pay({ request: fromShuttleRequestRecord(record), kind, paymentMethodId })
+    }
+  }
+}
+
+describe('createCheckout', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('charges the deposit and records it with an invoice', async () => {
+    const { db, pay } = await setup()
+    const result = await pay('deposit', card)
+
+    expect(result.payment).toMatchObject({ status: 'succeeded', cardLast4: '4242', provider: 'fake' })
+    expect(result.invoice?.paidCents).toBe(result.payment.amountCents)
+    expect(db.read().payments).toHaveLength(1)
+  })
+
+  it('records a declined card as a failed payment and passes the decline on', async () => {
+    const { db, pay } = await setup()
+
+    await expect(pay('full', { ...card, number: FAKE_DECLINED_CARD })).rejects.toMatchObject({ code: 'declined' })
+    expect(db.read().payments).toMatchObject([{ status: 'failed', card_last4: '0002', failure_message: 'Your card was declined' }])
+  })
+
+  it('voids a charge it could not record', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { db, payments, pay } = await setup()
+    const failing: PaymentRepository = {
+      ...payments,
+      record: async (lookup, id, input) => {
+        if (input.status === 'succeeded') throw new Error('Database unavailable')
+        return payments.record(lookup, id, input)
+      }
+    }
+
+    await expect(pay('deposit', card, failing)).rejects.toThrow('your card was not charged')
+    expect(db.read().payments).toMatchObject([{ status: 'voided', provider_reference: expect.stringMatching(/^fake_/) }])
+  })
+})
@@ -0,0 +1,84 @@
+import { PAYMENT_CONFIG, type PaymentConfig } from '../../config/payments'
+import type { PaymentRepository } from '../data/types'
+import {
+  PAYMENT_KIND_LABELS,
+  amountDue,
+  fromInvoiceRow,
+  fromPaymentRow,
+  type Invoice,
+  type Payment,
+  type PaymentKind,
+  type ShuttleRequest
+} from '../domain'
+import { PaymentError, type PaymentProvider } from './types'
+
+export interface PayInput {
+  request: ShuttleRequest
+  kind: PaymentKind
+  // From the provider's card fields
+  paymentMethodId: string
+}
+
+export interface CheckoutResult {
+  payment: Payment
+  invoice: Invoice | null
+}
+
+export interface Checkout {
+  readonly providerName: string
+  /**
+   * Reserves the amount due for `kind` and has the provider charge the
+   * payment method and record the payment against the request. Declines are
+   * recorded as failed payments and rethrown as PaymentErrors.
+   */
+  pay(input: PayInput): Promise<CheckoutResult>
+}
+
+interface CheckoutOptions {
+  provider: PaymentProvider
+  payments: PaymentRepository
+  config?: PaymentConfig
+}
+
+/**
+ * Checkout - Charges a customer through the payment provider
+ *
+ * The amount is reserved with the backend first, which checks it against the
+ * request's quote and what is already paid, so nothing is charged for a stale
+ * or doubled amount. The provider then charges it and records the outcome
+ * from the server holding its key; the browser never records a payment.
+ */
+export function createCheckout({ provider, payments, config = PAYMENT_CONFIG }: CheckoutOptions): Checkout {
+  return {
+    providerName: provider.name,
+
+    async pay({ request, kind, paymentMethodId }) {
+      if (!request.quote) throw new PaymentError(`Request ${request.reference} has no quote to pay against`, 'invalid')
+      const amountCents = amountDue(request, kind, config)
+      if (amountCents <= 0) {
+        throw new PaymentError(`Nothing is due for a ${PAYMENT_KIND_LABELS[kind].toLowerCase()}`, 'invalid')
+      }
+      const lookup = { reference: request.reference, email: request.customer.email }
+      const reservation = await payments.reserve(lookup, {
+        kind,
+        amount_cents: amountCents,
+        currency: request.quote.currency,
+        provider: provider.name
+      })
+
+      const receipt = await provider.charge({
+        paymentId: reservation.id,
+        lookup,
+        amountCents: reservation.amount_cents,
+        currency: reservation.currency,
+        description: `${PAYMENT_KIND_LABELS[kind]} for shuttle request ${request.reference}`,
+        paymentMethodId
+      })
+
+      return {
+        payment: fromPaymentRow(receipt.payment),
+        invoice: receipt.invoice ? fromInvoiceRow(receipt.invoice) : null
+      }
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { createLocalDatabase } from '../data/localDb'
+import { createLocalPaymentRepository } from '../data/payments.local'
+import { cardDetailsSchema, createFakePaymentProvider } from './fake'
+
+describe('cardDetailsSchema', () => {
+  const now = new Date('2026-03-01T12:00:00')
+
+  it('accepts a valid card', () => {
+    expect(cardDetailsSchema.validate({ number: '4242 4242 4242 4242', expiry: '03/26', cvc: '123' }, { now })).toEqual({})
+  })
+
+  it('catches mistyped numbers, expired cards and bad codes', () => {
+    expect(cardDetailsSchema.validate({ number: '4242 4242 4242 4241', expiry: '02/26', cvc: '12' }, { now })).toEqual({
+      number: 'Enter a valid card number',
+      expiry: 'This card has expired',
+      cvc: 'Enter the 3 or 4 digit security code'
+    })
+  })
+})
+
+describe('createFakePaymentProvider', () => {
+  const provider = () => createFakePaymentProvider({ payments: createLocalPaymentRepository(createLocalDatabase()), delayMs: 0 })
+  const card = { number: '4242 4242 4242 4242', expiry: '12/99', cvc: '123' }
+
+  it('saves valid cards as payment methods, keeping nothing of the card in the id', async () => {
+    const id = await provider().createPaymentMethod(card)
+
+    expect(id).toMatch(/^pm_fake_/)
+    expect(id).not.toContain('4242')
+    await expect(provider().createPaymentMethod({ ...card, cvc: '1' })).rejects.toMatchObject({ code: 'invalid' })
+  })
+
+  it('only charges payment methods it saved', async () => {
+    await expect(provider().charge({
+      paymentId: 'payment-1',
+      lookup: { reference: 'SF-1', email: 'jo@example.com' },
+      amountCents: 2500,
+      currency: 'USD',
+      description: 'Deposit',
+      paymentMethodId: 'pm_fake_unknown'
+    })).rejects.toMatchObject({ code: 'invalid' })
+  })
+})
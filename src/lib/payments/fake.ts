@@ -0,0 +1,131 @@
+import type { PaymentRepository } from '../data/types'
+import { field, isValid, object } from '../schema'
+import { PaymentError, type PaymentProvider } from './types'
+
+// Stripe's test numbers, so the same cards work against either provider
+export const FAKE_DECLINED_CARD = '4000000000000002'
+export const FAKE_INSUFFICIENT_FUNDS_CARD = '4000000000009995'
+
+/**
+ * What the customer types into the test card form. Only the fake provider
+ * sees these; a real provider's hosted card fields keep them from the app and
+ * hand back a payment method id instead.
+ */
+export interface CardDetails {
+  number: string
+  // MM/YY
+  expiry: string
+  cvc: string
+}
+
+// Luhn checksum, which catches most mistyped card numbers
+const passesLuhn = (digits: string) => {
+  let sum = 0
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index])
+    if (index % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+const expiryProblem = (expiry: string, { now }: { now: Date }) => {
+  const [, month, year] = /^(\d{2})\s*\/\s*(\d{2})$/.exec(expiry.trim()) ?? []
+  if (!month || Number(month) < 1 || Number(month) > 12) return 'Enter the expiry date as MM/YY'
+  // Cards are valid to the end of their expiry month
+  return new Date(2000 + Number(year), Number(month)) <= now ? 'This card has expired' : null
+}
+
+/** Checked before the card is saved, like a hosted card form would. */
+export const cardDetailsSchema = object<CardDetails, { now: Date }>({
+  number: field((number) => {
+    const digits = number.replace(/[\s-]/g, '')
+    return /^\d{12,19}$/.test(digits) && passesLuhn(digits) ? null : 'Enter a valid card number'
+  }),
+  expiry: field(expiryProblem),
+  cvc: field((cvc) => (/^\d{3,4}$/.test(cvc.trim()) ? null : 'Enter the 3 or 4 digit security code'))
+})
+
+export interface FakePaymentProvider extends PaymentProvider {
+  /**
+   * Saves a test card and gives back its payment method id, as a real
+   * provider's hosted card fields would. Rejects with an 'invalid'
+   * PaymentError for card details that don't pass cardDetailsSchema.
+   */
+  createPaymentMethod(card: CardDetails): Promise<string>
+}
+
+interface FakePaymentProviderOptions {
+  // Where outcomes are recorded, as the relay would on the server
+  payments: PaymentRepository
+  // Pretend round trip, so the checkout's busy state can be seen
+  delayMs?: number
+}
+
+/**
+ * Fake Payment Provider - Approves every card except the test cards above,
+ * without moving any money
+ *
+ * Stands in for a real provider and its relay during development, recording
+ * each outcome through `payments` the way the relay does. Saved cards live in
+ * memory, so payment methods last until the page reloads. Charges get
+ * made-up references starting with `fake_`. Only the local backend lets the
+ * browser record payments; with Supabase, configure a relay.
+ */
+export function createFakePaymentProvider({ payments, delayMs = 600 }: FakePaymentProviderOptions): FakePaymentProvider {
+  const roundTrip = () => new Promise((resolve) => setTimeout(resolve, delayMs))
+  // Card numbers by payment method id, digits only
+  const cards = new Map<string, string>()
+
+  return {
+    name: 'fake',
+
+    async createPaymentMethod(card) {
+      await roundTrip()
+      if (!isValid(cardDetailsSchema.validate(card, { now: new Date() }))) {
+        throw new PaymentError('Check your card details and try again', 'invalid')
+      }
+
+      const id = `pm_fake_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`
+      cards.set(id, card.number.replace(/\D/g, ''))
+      return id
+    },
+
+    async charge({ paymentId, lookup, paymentMethodId }) {
+      await roundTrip()
+      const number = cards.get(paymentMethodId)
+      if (!number) throw new PaymentError('That card is no longer saved. Enter it again.', 'invalid')
+
+      const declined = number === FAKE_DECLINED_CARD
+        ? 'Your card was declined'
+        : number === FAKE_INSUFFICIENT_FUNDS_CARD ? 'Your card has insufficient funds' : null
+
+      if (declined) {
+        // Best effort: the owner sees declined attempts, but the customer only needs the decline
+        await payments
+          .record(lookup, paymentId, { status: 'failed', card_last4: number.slice(-4), failure_message: declined })
+          .catch((err) => console.error('Failed to record declined payment:', err))
+        throw new PaymentError(declined, 'declined')
+      }
+
+      const charge = {
+        provider_reference: `fake_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`,
+        card_last4: number.slice(-4)
+      }
+      try {
+        return await payments.record(lookup, paymentId, { status: 'succeeded', ...charge })
+      } catch (err) {
+        console.error('Failed to record payment:', err)
+      }
+
+      // Nothing was really taken, so the charge is void as soon as it's marked so
+      await payments
+        .record(lookup, paymentId, { status: 'voided', ...charge, failure_message: 'Voided: the payment could not be recorded' })
+        .catch((err) => console.error('Failed to record voided payment:', err))
+      throw new PaymentError('We couldn\'t record your payment, so your card was not charged. Please try again.', 'provider')
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { PAYMENT_CONFIG } from '../../config/payments'
+import { payments } from '../data'
+import { createCheckout } from './checkout'
+import { createFakePaymentProvider } from './fake'
+import { createRelayPaymentProvider } from './relay'
+
+export * from './types'
+export { createCheckout, type Checkout, type CheckoutResult, type PayInput } from './checkout'
+export {
+  FAKE_DECLINED_CARD,
+  FAKE_INSUFFICIENT_FUNDS_CARD,
+  cardDetailsSchema,
+  createFakePaymentProvider,
+  type CardDetails,
+  type FakePaymentProvider
+} from './fake'
+export { createRelayPaymentProvider } from './relay'
+
+// The test card form's provider; null once a relay is configured (VITE_PAYMENT_RELAY_URL)
+export const testCards = PAYMENT_CONFIG.relayUrl ? null : createFakePaymentProvider({ payments })
+
+// Card payments need a form that creates payment methods: the fake provider's
+// in test mode, or the real provider's hosted card fields (e.g. Stripe
+// Elements) with a relay. Those aren't part of the app yet, so with a relay
+// customers are not offered checkout and pay later.
+export const canPayOnline = testCards !== null
+
+// No money moves until a relay is configured
+export const checkout = createCheckout({
+  provider: testCards ?? createRelayPaymentProvider(PAYMENT_CONFIG.relayUrl),
+  payments
+})
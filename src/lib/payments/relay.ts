@@ -0,0 +1,41 @@
+import { PaymentError, type PaymentProvider } from './types'
+
+/**
+ * Relay Payment Provider - Hands charges to a server endpoint
+ *
+ * The endpoint owns the real provider (and its secret key) and is sent the
+ * ChargeRequest as JSON. It charges exactly the reserved amount and records
+ * the outcome itself with record_shuttle_request_payment, which only the
+ * service role may call (supabase/migrations/0023_server_payment_recording.sql),
+ * so the browser never vouches for a payment. It answers the PaymentReceipt
+ * once the payment is recorded, or 402 with `{ message }` when the card is
+ * declined (recorded as failed). A charge it can't record it voids and marks
+ * 'voided' before answering an error; any other non-2xx response counts as a
+ * provider failure, with `{ message }` shown to the customer when given.
+ */
+export function createRelayPaymentProvider(url: string, name = 'relay'): PaymentProvider {
+  return {
+    name,
+
+    async charge(request) {
+      let response: Response
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request)
+        })
+      } catch (err) {
+        console.error('Failed to reach payment relay:', err)
+        throw new PaymentError('Couldn\'t reach the payment service. Check your connection and try again.', 'provider')
+      }
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        if (response.status === 402) throw new PaymentError(body?.message ?? 'Your card was declined', 'declined')
+        throw new PaymentError(body?.message ?? `Payment relay responded with ${response.status}`, 'provider')
+      }
+      return response.json()
+    }
+  }
+}
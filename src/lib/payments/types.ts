@@ -0,0 +1,41 @@
+import type { PaymentReceipt, TrackingLookup } from '../data/types'
+
+/** One charge for a provider to make, against the reservation `paymentId`. */
+export interface ChargeRequest {
+  paymentId: string
+  // The request the reservation is on, for recording the outcome
+  lookup: TrackingLookup
+  amountCents: number
+  currency: string
+  // Shown on the customer's statement and in the provider's dashboard
+  description: string
+  // The provider's id for the card, from its hosted card fields (e.g. a Stripe
+  // PaymentMethod). Card numbers and security codes never reach the app.
+  paymentMethodId: string
+}
+
+// 'declined' means the customer can try another card; 'provider' that something broke on the way
+export type PaymentErrorCode = 'invalid' | 'declined' | 'provider'
+
+export class PaymentError extends Error {
+  readonly code: PaymentErrorCode
+
+  constructor(message: string, code: PaymentErrorCode) {
+    super(message)
+    this.name = 'PaymentError'
+    this.code = code
+  }
+}
+
+/**
+ * Takes money on behalf of the business and records the outcome against the
+ * reservation, from wherever the provider's secret key is held. `charge`
+ * resolves with the recorded payment once the money has been taken, and
+ * rejects with a PaymentError if it wasn't: declines are recorded as failed
+ * payments, and a charge that couldn't be recorded is voided first.
+ */
+export interface PaymentProvider {
+  // Stored with each payment, e.g. 'fake' or 'stripe'
+  readonly name: string
+  charge(request: ChargeRequest): Promise<PaymentReceipt>
+}
@@ -0,0 +1,115 @@
+import { toCsv, type CsvValue } from './csv'
+import type { Driver, ShuttleRequest, Vehicle } from './domain'
+
+/**
+ * Request export - The owner's requests as files for bookkeeping and
+ * end-of-season reports. CSV is flat, one line per vehicle with the request's
+ * details repeated, so it sorts and totals in a spreadsheet; JSON keeps each
+ * request whole with its vehicles and status history nested.
+ *
+ * The CSV columns are also what the importer reads (see ./requestImport), so
+ * an export can be edited and loaded back in as new bookings.
+ */
+
+export const REQUEST_CSV_COLUMNS = [
+  'reference',
+  'status',
+  'created_at',
+  'customer_name',
+  'customer_email',
+  'customer_phone',
+  'parking_location',
+  'parking_lat',
+  'parking_lng',
+  'dropoff_location',
+  'dropoff_lat',
+  'dropoff_lng',
+  'dropoff_day',
+  'arrival_time',
+  'notes',
+  'quote_total',
+  'vehicle_make',
+  'vehicle_model',
+  'vehicle_year',
+  'vehicle_transmission',
+  'vehicle_drivetrain',
+  'vehicle_license_plate',
+  'vehicle_color',
+  'vehicle_equipment_notes',
+  'vehicle_key_location',
+  'vehicle_key_return_location',
+  'vehicle_driver'
+] as const
+
+export type RequestCsvColumn = typeof REQUEST_CSV_COLUMNS[number]
+
+export interface RequestExportOptions {
+  // Used to name assigned drivers
+  drivers?: readonly Driver[]
+}
+
+const driverNameOf = (drivers: readonly Driver[], id: string | null) =>
+  drivers.find((driver) => driver.id === id)?.fullName ?? null
+
+function csvRow(
+  request: ShuttleRequest,
+  vehicle: Vehicle | null,
+  drivers: readonly Driver[]
+): Record<RequestCsvColumn, CsvValue> {
+  return {
+    reference: request.reference,
+    status: request.status,
+    created_at: request.createdAt,
+    customer_name: request.customer.fullName,
+    customer_email: request.customer.email,
+    customer_phone: request.customer.phone,
+    parking_location: request.parkingLocation.name,
+    parking_lat: request.parkingLocation.lat,
+    parking_lng: request.parkingLocation.lng,
+    dropoff_location: request.dropoffLocation.name,
+    dropoff_lat: request.dropoffLocation.lat,
+    dropoff_lng: request.dropoffLocation.lng,
+    dropoff_day: request.dropoffDay,
+    arrival_time: request.arrivalTime,
+    notes: request.notes,
+    // In major units, e.g. 123.45, so spreadsheets can sum it
+    quote_total: request.quote ? (request.quote.totalCents / 100).toFixed(2) : null,
+    vehicle_make: vehicle?.make,
+    vehicle_model: vehicle?.model,
+    vehicle_year: vehicle?.year,
+    vehicle_transmission: vehicle?.transmission,
+    vehicle_drivetrain: vehicle?.drivetrain,
+    vehicle_license_plate: vehicle?.licensePlate,
+    vehicle_color: vehicle?.color,
+    vehicle_equipment_notes: vehicle?.equipmentNotes,
+    vehicle_key_location: vehicle?.keyLocation,
+    vehicle_key_return_location: vehicle?.keyReturnLocation,
+    vehicle_driver: vehicle ? driverNameOf(drivers, vehicle.driverId) : null
+  }
+}
+
+/** A header line, then one line per vehicle in the order given. */
+export function requestsToCsv(requests: readonly ShuttleRequest[], { drivers = [] }: RequestExportOptions = {}): string {
+  const rows = requests.flatMap((request) =>
+    (request.vehicles.length > 0 ? request.vehicles : [null]).map((vehicle) => {
+      const row = csvRow(request, vehicle, drivers)
+      return REQUEST_CSV_COLUMNS.map((column) => row[column])
+    })
+  )
+  return toCsv([REQUEST_CSV_COLUMNS, ...rows])
+}
+
+/** The requests as given, with each vehicle's driver named alongside its id. */
+export function requestsToJson(
+  requests: readonly ShuttleRequest[],
+  { drivers = [] }: RequestExportOptions = {},
+  now = new Date()
+): string {
+  return JSON.stringify({
+    exportedAt: now.toISOString(),
+    requests: requests.map((request) => ({
+      ...request,
+      vehicles: request.vehicles.map((vehicle) => ({ ...vehicle, driverName: driverNameOf(drivers, vehicle.driverId) }))
+    }))
+  }, null, 2)
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import { toCsv } from './csv'
+import { makeRequest, makeVehicle } from './domain/fixtures.test-utils'
+import { requestsToCsv } from './requestExport'
+import { parseRequestImport } from './requestImport'
+
+const now = new Date('2026-03-01T12:00')
+
+const HEADER = [
+  'reference',
+  'Customer Name',
+  'customer_email',
+  'customer-phone',
+  'parking_location',
+  'dropoff_location',
+  'dropoff_day',
+  'arrival_time',
+  'vehicle_make',
+  'vehicle_model',
+  'vehicle_year',
+  'vehicle_transmission',
+  'vehicle_license_plate'
+]
+
+const line = (overrides: Record<string, string> = {}) => {
+  const values: Record<string, string> = {
+    reference: '',
+    'Customer Name': 'Jo Rider',
+    customer_email: 'JO@example.com',
+    'customer-phone': '555-010-0100',
+    parking_location: 'Trailhead',
+    dropoff_location: 'Takeout',
+    dropoff_day: '2026-03-09',
+    arrival_time: '9:30',
+    vehicle_make: 'toyota',
+    vehicle_model: 'rav4',
+    vehicle_year: '2020',
+    vehicle_transmission: 'Manual',
+    vehicle_license_plate: 'abc 123',
+    ...overrides
+  }
+  return HEADER.map((column) => values[column])
+}
+
+const file = (...lines: string[][]) => toCsv([HEADER, ...lines])
+
+describe('parseRequestImport', () => {
+  it('reads a booking into a draft, tidying what spreadsheets and people type', () => {
+    const { requests, fileIssues } = parseRequestImport(file(line()), now)
+
+    expect(fileIssues).toEqual([])
+    expect(requests).toHaveLength(1)
+    expect(requests[0].issues).toEqual([])
+    expect(requests[0].draft).toMatchObject({
+      customer: { fullName: 'Jo Rider', email: 'jo@example.com' },
+      arrivalTime: '09:30',
+      vehicles: [{ make: 'Toyota', model: 'RAV4', transmission: 'manual', licensePlate: 'ABC 123' }]
+    })
+  })
+
+  it('groups lines sharing a reference into one request', () => {
+    const { requests } = parseRequestImport(file(
+      line({ reference: 'SF-1' }),
+      line(),
+      line({ reference: 'SF-1', vehicle_model: 'Camry', dropoff_day: 'ignored' })
+    ), now)
+
+    expect(requests.map((request) => request.lines)).toEqual([[2, 4], [3]])
+    expect(requests[0].draft.vehicles.map((vehicle) => vehicle.model)).toEqual(['RAV4', 'Camry'])
+    expect(requests[0].issues).toEqual([])
+  })
+
+  it('reports problems by line and column', () => {
+    const { requests } = parseRequestImport(file(
+      line({ reference: 'SF-1', dropoff_day: '3/9/2026' }),
+      line({ reference: 'SF-1', vehicle_transmission: 'CVT', vehicle_year: '1980' })
+    ), now)
+
+    expect(requests[0].issues).toEqual([
+      { line: 2, column: 'dropoff_day', message: 'Write the day as YYYY-MM-DD' },
+      { line: 3, column: 'vehicle_transmission', message: 'Transmission must be automatic or manual' },
+      { line: 3, column: 'vehicle_year', message: 'The Toyota RAV4 was first sold in 1996' }
+    ])
+  })
+
+  it('rejects the whole file when required columns are missing', () => {
+    const kept = HEADER.map((column) => !['vehicle_year', 'vehicle_license_plate'].includes(column))
+    const text = toCsv([HEADER.filter((_, i) => kept[i]), line().filter((_, i) => kept[i])])
+
+    expect(parseRequestImport(text, now)).toEqual({
+      requests: [],
+      fileIssues: ['Missing columns: vehicle_year, vehicle_license_plate']
+    })
+    expect(parseRequestImport('reference\r\n', now).fileIssues).toEqual(['The file has no bookings below its header line'])
+    expect(parseRequestImport('"reference', now).fileIssues).toEqual(['The file ends inside a quoted field'])
+  })
+
+  it('loads an export back in', () => {
+    const request = makeRequest({
+      customer: { ...makeRequest().customer, phone: '+1 555 010 0100' },
+      notes: '=HYPERLINK("https://example.com")',
+      vehicles: [makeVehicle({ model: '4Runner' }), makeVehicle({ id: 'vehicle-2', model: 'Camry' })]
+    })
+    const { requests } = parseRequestImport(requestsToCsv([request]), now)
+
+    expect(requests).toHaveLength(1)
+    expect(requests[0].issues).toEqual([])
+    expect(requests[0].draft).toMatchObject({
+      customer: { phone: '+1 555 010 0100' },
+      notes: request.notes,
+      parkingLocation: request.parkingLocation,
+      dropoffDay: request.dropoffDay,
+      vehicles: [{ model: '4Runner', licensePlate: 'ABC 123' }, { model: 'Camry' }]
+    })
+  })
+})
@@ -0,0 +1,257 @@
+import { parseCsv, unguardFormula } from './csv'
+import {
+  DRIVETRAIN_LABELS,
+  TRANSMISSION_LABELS,
+  calculateQuote,
+  emptyVehicle,
+  validateShuttleRequestDraft,
+  type Drivetrain,
+  type GeoPoint,
+  type ShuttleRequestDraft,
+  type Transmission,
+  type Vehicle
+} from './domain'
+import { REQUEST_CSV_COLUMNS, type RequestCsvColumn } from './requestExport'
+import { canonicalMake, canonicalModel, getModelYears } from './vehicleCatalog'
+
+/**
+ * Request import - Bookings loaded from a CSV file, e.g. ones taken over the
+ * phone or kept in a previous system, checked against the same schema as the
+ * booking form before anything is saved.
+ *
+ * The columns are the export's (see ./requestExport), matched by header name
+ * in any order; ones the importer doesn't use, such as status, are ignored.
+ * Each line is one vehicle. Lines sharing a reference are one request with
+ * several vehicles, taking the request's details from the first of them; a
+ * line without a reference is a request of its own. Saved requests get new
+ * references and start out pending, as if booked through the form.
+ */
+
+// Without these every line would fail, so a missing one is reported once for the file
+export const REQUIRED_IMPORT_COLUMNS: readonly RequestCsvColumn[] = [
+  'customer_name',
+  'customer_email',
+  'customer_phone',
+  'parking_location',
+  'dropoff_location',
+  'dropoff_day',
+  'arrival_time',
+  'vehicle_make',
+  'vehicle_model',
+  'vehicle_year',
+  'vehicle_license_plate'
+]
+
+export interface ImportIssue {
+  // Line in the file, counting the header as line 1
+  line: number
+  column: RequestCsvColumn | null
+  message: string
+}
+
+export interface ImportedRequest {
+  lines: number[]
+  draft: ShuttleRequestDraft
+  // Empty when the request can be saved
+  issues: ImportIssue[]
+}
+
+export interface RequestImport {
+  requests: ImportedRequest[]
+  // Problems with the file as a whole, e.g. a missing column; nothing is importable then
+  fileIssues: string[]
+}
+
+// Where each draft field comes from, so schema errors point at a column
+const DRAFT_COLUMNS: Record<string, RequestCsvColumn> = {
+  'customer.fullName': 'customer_name',
+  'customer.email': 'customer_email',
+  'customer.phone': 'customer_phone',
+  'parkingLocation.name': 'parking_location',
+  'dropoffLocation.name': 'dropoff_location',
+  dropoffDay: 'dropoff_day',
+  arrivalTime: 'arrival_time'
+}
+
+const VEHICLE_COLUMNS: Partial<Record<keyof Vehicle, RequestCsvColumn>> = {
+  make: 'vehicle_make',
+  model: 'vehicle_model',
+  year: 'vehicle_year',
+  licensePlate: 'vehicle_license_plate'
+}
+
+// "Customer Name" and "customer-name" both read as customer_name
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+const isColumn = (header: string): header is RequestCsvColumn =>
+  (REQUEST_CSV_COLUMNS as readonly string[]).includes(header)
+
+// Accepts the stored value or its label, ignoring case
+function parseChoice<T extends string>(labels: Record<T, string>, text: string): T | null {
+  const needle = text.trim().toLowerCase()
+  const match = (Object.keys(labels) as T[]).find((key) => key === needle || labels[key].toLowerCase() === needle)
+  return match ?? null
+}
+
+type Line = { line: number; value: (column: RequestCsvColumn) => string }
+
+function parsePoint(
+  { line, value }: Line,
+  name: RequestCsvColumn,
+  lat: RequestCsvColumn,
+  lng: RequestCsvColumn,
+  issues: ImportIssue[]
+): GeoPoint {
+  const point: GeoPoint = { name: value(name), lat: null, lng: null }
+  const latText = value(lat)
+  const lngText = value(lng)
+  if (!latText && !lngText) return point
+
+  const latValue = Number(latText)
+  const lngValue = Number(lngText)
+  if (!latText || !lngText) {
+    issues.push({ line, column: latText ? lng : lat, message: 'Give both latitude and longitude, or neither' })
+  } else if (!Number.isFinite(latValue) || Math.abs(latValue) > 90) {
+    issues.push({ line, column: lat, message: 'Enter a latitude between -90 and 90' })
+  } else if (!Number.isFinite(lngValue) || Math.abs(lngValue) > 180) {
+    issues.push({ line, column: lng, message: 'Enter a longitude between -180 and 180' })
+  } else {
+    point.lat = latValue
+    point.lng = lngValue
+  }
+  return point
+}
+
+function parseVehicle({ line, value }: Line, issues: ImportIssue[]): Vehicle {
+  const vehicle = emptyVehicle(`import-${line}`)
+  const make = canonicalMake(value('vehicle_make'))
+  const transmission = value('vehicle_transmission')
+  const drivetrain = value('vehicle_drivetrain')
+
+  const parsedTransmission = transmission ? parseChoice<Transmission>(TRANSMISSION_LABELS, transmission) : 'automatic'
+  if (!parsedTransmission) {
+    issues.push({ line, column: 'vehicle_transmission', message: 'Transmission must be automatic or manual' })
+  }
+  const parsedDrivetrain = drivetrain ? parseChoice<Drivetrain>(DRIVETRAIN_LABELS, drivetrain) : '2wd'
+  if (!parsedDrivetrain) {
+    issues.push({
+      line,
+      column: 'vehicle_drivetrain',
+      message: `Drivetrain must be one of ${Object.values(DRIVETRAIN_LABELS).join(', ')}`
+    })
+  }
+
+  return {
+    ...vehicle,
+    make,
+    model: canonicalModel(make, value('vehicle_model')),
+    year: value('vehicle_year'),
+    transmission: parsedTransmission ?? vehicle.transmission,
+    drivetrain: parsedDrivetrain ?? vehicle.drivetrain,
+    licensePlate: value('vehicle_license_plate').toUpperCase(),
+    color: value('vehicle_color'),
+    equipmentNotes: value('vehicle_equipment_notes'),
+    keyLocation: value('vehicle_key_location'),
+    keyReturnLocation: value('vehicle_key_return_location')
+  }
+}
+
+function parseRequest(first: Line, issues: ImportIssue[]): Omit<ShuttleRequestDraft, 'vehicles'> {
+  const { line, value } = first
+  const dropoffDay = value('dropoff_day')
+  if (dropoffDay && !/^\d{4}-\d{2}-\d{2}$/.test(dropoffDay)) {
+    issues.push({ line, column: 'dropoff_day', message: 'Write the day as YYYY-MM-DD' })
+  }
+
+  // Spreadsheets tend to drop the leading zero, e.g. 9:30
+  let arrivalTime = value('arrival_time')
+  if (/^\d:\d{2}$/.test(arrivalTime)) arrivalTime = `0${arrivalTime}`
+  if (arrivalTime && !/^([01]\d|2[0-3]):[0-5]\d$/.test(arrivalTime)) {
+    issues.push({ line, column: 'arrival_time', message: 'Write the time as HH:MM, 24-hour' })
+  }
+
+  return {
+    customer: {
+      fullName: value('customer_name'),
+      email: value('customer_email').toLowerCase(),
+      phone: value('customer_phone')
+    },
+    parkingLocation: parsePoint(first, 'parking_location', 'parking_lat', 'parking_lng', issues),
+    dropoffLocation: parsePoint(first, 'dropoff_location', 'dropoff_lat', 'dropoff_lng', issues),
+    dropoffDay,
+    arrivalTime,
+    notes: value('notes') || null
+  }
+}
+
+/** Reads and checks every request in a CSV file without saving any. */
+export function parseRequestImport(text: string, now = new Date()): RequestImport {
+  let rows: string[][]
+  try {
+    rows = parseCsv(text)
+  } catch (err) {
+    return { requests: [], fileIssues: [err instanceof Error ? err.message : 'The file is not valid CSV'] }
+  }
+  if (rows.length < 2) return { requests: [], fileIssues: ['The file has no bookings below its header line'] }
+
+  const headers = rows[0].map(normalizeHeader)
+  const missing = REQUIRED_IMPORT_COLUMNS.filter((column) => !headers.includes(column))
+  if (missing.length > 0) {
+    return { requests: [], fileIssues: [`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`] }
+  }
+
+  const indexes = new Map(headers.filter(isColumn).map((header) => [header, headers.indexOf(header)]))
+  const lines: Line[] = rows.slice(1).map((row, index) => ({
+    line: index + 2,
+    value: (column) => unguardFormula(row[indexes.get(column) ?? -1]?.trim() ?? '')
+  }))
+
+  // Lines sharing a reference, in the order each reference first appears
+  const groups = new Map<string, Line[]>()
+  for (const line of lines) {
+    const key = line.value('reference') || `line:${line.line}`
+    groups.set(key, [...(groups.get(key) ?? []), line])
+  }
+
+  const requests = [...groups.values()].map((group): ImportedRequest => {
+    const issues: ImportIssue[] = []
+    const request = parseRequest(group[0], issues)
+    const vehicles = group.map((line) => parseVehicle(line, issues))
+    const draft: ShuttleRequestDraft = {
+      ...request,
+      vehicles,
+      quote: calculateQuote(request.parkingLocation, request.dropoffLocation, vehicles)
+    }
+
+    const errors = validateShuttleRequestDraft(draft, { now, modelYears: getModelYears })
+    for (const [path, message] of Object.entries(errors)) {
+      const [, index, field] = /^vehicles\.(\d+)\.(\w+)$/.exec(path) ?? []
+      if (field) {
+        issues.push({ line: group[Number(index)].line, column: VEHICLE_COLUMNS[field as keyof Vehicle] ?? null, message })
+      } else {
+        issues.push({ line: group[0].line, column: DRAFT_COLUMNS[path] ?? null, message })
+      }
+    }
+
+    // A column can fail both the parsing here and the schema; the first message is enough
+    const seen = new Set<string>()
+    return {
+      lines: group.map((line) => line.line),
+      draft,
+      issues: issues
+        .filter((issue) => {
+          const key = `${issue.line}:${issue.column ?? issue.message}`
+          if (seen.has(key)) return false
+          seen.add(key)
+          return true
+        })
+        .sort((a, b) => a.line - b.line)
+    }
+  })
+
+  return { requests, fileIssues: [] }
+}
+
+/** A header line to fill in, for owners starting from scratch. */
+export const requestImportTemplate = () =>
+  REQUEST_CSV_COLUMNS.filter((column) => !['status', 'created_at', 'quote_total', 'vehicle_driver'].includes(column)).join(',') + '\r\n'
@@ -0,0 +1,32 @@
+/**
+ * Routes - URL patterns for the app and helpers that build concrete links
+ *
+ * Keep patterns here rather than as string literals in components so links and
+ * <Route> definitions can't drift apart.
+ */
+
+export const ROUTES = {
+  home: '/',
+  book: '/book',
+  signIn: '/sign-in',
+  track: '/track',
+  myRequests: '/requests',
+  request: '/requests/:id',
+  inspectionReport: '/requests/:id/inspections',
+  owner: '/owner',
+  ownerRequest: '/owner/requests/:id',
+  drivers: '/owner/drivers',
+  capacity: '/owner/capacity',
+  notifications: '/owner/notifications',
+  analytics: '/owner/analytics',
+  rules: '/owner/rules',
+  driver: '/driver'
+} as const
+
+export const trackPath = (reference: string) => `${ROUTES.track}?reference=${encodeURIComponent(reference)}`
+
+export const requestPath = (id: string) => `${ROUTES.myRequests}/${encodeURIComponent(id)}`
+
+export const inspectionReportPath = (id: string) => `${requestPath(id)}/inspections`
+
+export const ownerRequestPath = (id: string) => `${ROUTES.owner}/requests/${encodeURIComponent(id)}`
@@ -0,0 +1,12 @@
+import { SCHEDULING_CONFIG } from '../../config/scheduling'
+import { requestRules, shuttleRequests } from '../data'
+import { createRuleRunner } from './runner'
+
+export { createRuleRunner, type RuleRun, type RuleRunner } from './runner'
+
+// Started by the app while a staff member is signed in
+export const ruleRunner = createRuleRunner({
+  shuttleRequests,
+  requestRules,
+  intervalMinutes: SCHEDULING_CONFIG.rulesIntervalMinutes
+})
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  DataError,
+  createLocalDatabase,
+  createLocalRequestRuleRepository,
+  createLocalShuttleRequestRepository,
+  type ShuttleRequestChange,
+  type ShuttleRequestRepository,
+  type ShuttleRequestStatus
+} from '../data'
+import { combineDateTime } from '../dates'
+import { createEventBus } from '../eventBus'
+import type { Notifier } from '../notifications/types'
+import { withNotifications } from '../notifications/withNotifications'
+import { createRuleRunner } from './runner'
+
+const NOW = combineDateTime('2026-03-10', '12:00')
+
+const setup = () => {
+  const db = createLocalDatabase()
+  const shuttleRequests = createLocalShuttleRequestRepository(db, createEventBus<ShuttleRequestChange>())
+  const requestRules = createLocalRequestRuleRepository(db)
+
+  // Booked, then moved along the lifecycle to `status`
+  const book = async (day: string, path: ShuttleRequestStatus[] = []) => {
+    let record = await shuttleRequests.create({
+      user: { email: 'jo@example.com', full_name: 'Jo Rider', phone: '555-0100' },
+      request: { parking_location_name: 'Trailhead', dropoff_location_name: 'Takeout', dropoff_day: day, arrival_time: '10:00' },
+      vehicles: [{ make: 'Toyota', model: 'Tacoma', year: '2020', transmission: 'automatic' }]
+    })
+    for (const to of path) {
+      record = await shuttleRequests.transitionStatus(record.id, { from: record.status, to, actor: 'owner@example.com' })
+    }
+    return record
+  }
+
+  const runner = (repository: ShuttleRequestRepository = shuttleRequests) =>
+    createRuleRunner({ shuttleRequests: repository, requestRules, intervalMinutes: 15 })
+
+  return { shuttleRequests, requestRules, book, runner }
+}
+
+describe('createRuleRunner', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('completes finished jobs and expires missed requests', async () => {
+    const { shuttleRequests, requestRules, book, runner } = setup()
+    const finished = await book('2026-03-09', ['confirmed'])
+    const missed = await book('2026-03-09')
+
+    const run = await runner().run(NOW)
+
+    expect(run.errors).toEqual([])
+    // In the order the requests are listed, which both being booked at once leaves open
+    const logged = run.actions.map((action) => [action.rule, action.reference, action.failed])
+    expect(logged.sort()).toEqual([
+      ['auto_complete', finished.reference, false],
+      ['expire_pending', missed.reference, false]
+    ])
+    const completed = await shuttleRequests.get(finished.id)
+    expect(completed?.status_events.map((event) => event.to_status)).toEqual(['pending', 'confirmed', 'in_progress', 'completed'])
+    expect((await shuttleRequests.get(missed.id))?.status).toBe('cancelled')
+    expect(await requestRules.listActions()).toHaveLength(2)
+  })
+
+  it('notifies customers of what it changed, as the database does for run_request_rules', async () => {
+    const { shuttleRequests, book, runner } = setup()
+    await book('2026-03-09', ['confirmed'])
+    const missed = await book('2026-03-09')
+    const notifier = { notify: vi.fn<Notifier['notify']>(async () => {}) }
+
+    await runner(withNotifications(shuttleRequests, notifier)).run(NOW)
+
+    const events = notifier.notify.mock.calls.map(([event]) => [event.request.reference, event.from, event.to])
+    expect(events).toEqual(expect.arrayContaining([
+      [missed.reference, 'pending', 'cancelled'],
+      [expect.any(String), 'in_progress', 'completed']
+    ]))
+    expect(events).toHaveLength(3)
+  })
+
+  it('skips a request someone else already moved', async () => {
+    const { shuttleRequests, book, runner } = setup()
+    await book('2026-03-09', ['confirmed'])
+    const moved: ShuttleRequestRepository = {
+      ...shuttleRequests,
+      transitionStatus: async () => {
+        throw new DataError('Shuttle request is in_progress, not confirmed', 'conflict')
+      }
+    }
+
+    const run = await runner(moved).run(NOW)
+    expect(run.actions).toEqual([])
+    expect(run.errors).toEqual([])
+  })
+
+  it('logs a job left part way once a day', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { shuttleRequests, requestRules, book, runner } = setup()
+    const record = await book('2026-03-09', ['confirmed'])
+    const failing: ShuttleRequestRepository = {
+      ...shuttleRequests,
+      transitionStatus: async (id, input) => {
+        if (input.to === 'completed') throw new DataError('Database unavailable', 'backend')
+        return shuttleRequests.transitionStatus(id, input)
+      }
+    }
+
+    const first = await runner(failing).run(NOW)
+    expect(first.errors).toEqual([`${record.reference}: Database unavailable`])
+    expect(first.actions).toMatchObject([{ rule: 'auto_complete', failed: true, message: 'Stopped at In Progress: Database unavailable' }])
+    expect((await shuttleRequests.get(record.id))?.status).toBe('in_progress')
+
+    // The next run tries again from where it stopped, without logging the same failure twice
+    const second = await runner(failing).run(NOW)
+    expect(second.errors).toHaveLength(1)
+    expect(second.actions).toEqual([])
+    expect(await requestRules.listActions()).toHaveLength(1)
+  })
+
+  it('flags jobs without a driver once a day', async () => {
+    const { requestRules, book, runner } = setup()
+    const record = await book('2026-03-11', ['confirmed'])
+    const rules = runner()
+
+    const first = await rules.run(NOW)
+    const second = await rules.run(NOW)
+
+    expect(first.actions).toMatchObject([{ rule: 'flag_unassigned', reference: record.reference, message: '1 of 1 vehicle still needs a driver for 2026-03-11' }])
+    expect(second.actions).toEqual([])
+    expect(second.flagged.map((action) => action.request.id)).toEqual([record.id])
+    expect(await requestRules.listActions()).toHaveLength(1)
+  })
+
+  it('leaves requests alone when the rules are turned off', async () => {
+    const { shuttleRequests, requestRules, book, runner } = setup()
+    const record = await book('2026-03-09', ['confirmed'])
+    await requestRules.updateSettings({ auto_complete_enabled: false, expire_pending_enabled: false, flag_unassigned_enabled: false })
+
+    const run = await runner().run(NOW)
+    expect(run.actions).toEqual([])
+    expect((await shuttleRequests.get(record.id))?.status).toBe('confirmed')
+  })
+})
@@ -0,0 +1,173 @@
+import { DataError, type Insert, type RequestRuleRepository, type ShuttleRequestRepository } from '../data'
+import { combineDateTime, toDateInputValue } from '../dates'
+import {
+  ACTIVE_STATUSES,
+  EXPIRABLE_STATUSES,
+  RULES_ACTOR,
+  STATUS_LABELS,
+  fromRequestRuleActionRow,
+  fromRequestRuleSettingsRow,
+  fromShuttleRequestRecord,
+  planRuleActions,
+  type PlannedRuleAction,
+  type RequestRuleAction,
+  type RequestStatus
+} from '../domain'
+import { createEventBus } from '../eventBus'
+
+/**
+ * Rule Runner - Applies the request rules (see lib/domain/requestRules) on a
+ * timer and logs what they did
+ *
+ * With Supabase, run_request_rules does the same on the server on a pg_cron
+ * schedule (supabase/migrations/0018_server_request_rules.sql). This runs
+ * them in the browser of whichever staff member has the app open, every
+ * `intervalMinutes` and once on start, which is all the local backend has and
+ * covers a database without pg_cron. Running in several places at once is
+ * harmless: a status change someone else already made fails with a conflict
+ * and is skipped. Flags and failures are logged once a day per request,
+ * however often the rules run. Customers hear about the changes either way:
+ * the database queues messages for every status change
+ * (0024_notification_events.sql), and locally `shuttleRequests` sends them.
+ */
+
+export interface RuleRun {
+  ranAt: string
+  // Logged by this run, newest last
+  actions: RequestRuleAction[]
+  // Every job flagged today, including ones logged by an earlier run
+  flagged: PlannedRuleAction[]
+  // Changes that failed for a reason other than a conflict
+  errors: string[]
+}
+
+export interface RuleRunner {
+  /** Runs the enabled rules once; a run already in progress is reused. */
+  run(now?: Date): Promise<RuleRun>
+  /** Runs now and then on the interval. Returns a function that stops it. */
+  start(): () => void
+  lastRun(): RuleRun | null
+  /** Fires after each run. Returns an unsubscribe function. */
+  subscribe(listener: (run: RuleRun) => void): () => void
+}
+
+interface RuleRunnerOptions {
+  shuttleRequests: ShuttleRequestRepository
+  requestRules: RequestRuleRepository
+  intervalMinutes: number
+}
+
+export function createRuleRunner({ shuttleRequests, requestRules, intervalMinutes }: RuleRunnerOptions): RuleRunner {
+  const runs = createEventBus<RuleRun>()
+  let latest: RuleRun | null = null
+  let running: Promise<RuleRun> | null = null
+
+  // Moves the request through each step; the reason goes on the last one, which finishes the job.
+  // `reached` is updated as each step lands, so a failure part way says where it stopped.
+  const apply = async (action: PlannedRuleAction, reached: { status: RequestStatus }) => {
+    for (const [index, to] of action.steps.entries()) {
+      await shuttleRequests.transitionStatus(action.request.id, {
+        from: reached.status,
+        to,
+        actor: RULES_ACTOR,
+        note: index === action.steps.length - 1 ? action.message : null
+      })
+      reached.status = to
+    }
+  }
+
+  const execute = async (now: Date): Promise<RuleRun> => {
+    const today = toDateInputValue(now)
+    const settings = fromRequestRuleSettingsRow(await requestRules.getSettings())
+    const records = await shuttleRequests.list({ status: [...ACTIVE_STATUSES, ...EXPIRABLE_STATUSES] })
+    const planned = planRuleActions(records.map(fromShuttleRequestRecord), settings, today)
+
+    const loggedToday = await requestRules.listActions({ since: combineDateTime(today).toISOString() })
+    const flaggedToday = new Set(
+      loggedToday
+        .filter((action) => action.rule === 'flag_unassigned')
+        .map((action) => action.shuttle_request_id)
+    )
+    const failedToday = new Set(
+      loggedToday
+        .filter((action) => action.outcome === 'failed')
+        .map((action) => `${action.rule}:${action.shuttle_request_id}`)
+    )
+
+    const toLog: Insert<'request_rule_actions'>[] = []
+    const errors: string[] = []
+    for (const action of planned) {
+      const entry = {
+        rule: action.rule,
+        shuttle_request_id: action.request.id,
+        reference: action.request.reference,
+        message: action.message
+      }
+
+      if (action.steps.length === 0) {
+        if (!flaggedToday.has(action.request.id)) toLog.push(entry)
+        continue
+      }
+
+      const reached = { status: action.request.status }
+      try {
+        await apply(action, reached)
+        toLog.push(entry)
+      } catch (err) {
+        // Staff or another tab got there first
+        if (err instanceof DataError && err.code === 'conflict') continue
+        console.error('Failed to apply request rule:', err)
+        const reason = err instanceof Error ? err.message : 'Failed to update request'
+        errors.push(`${action.request.reference}: ${reason}`)
+        // Logged so the owner sees it, in particular a job left part way (e.g. in progress, never completed)
+        if (!failedToday.has(`${action.rule}:${action.request.id}`)) {
+          toLog.push({
+            ...entry,
+            outcome: 'failed',
+            message: reached.status === action.request.status
+              ? `Failed: ${reason}`
+              : `Stopped at ${STATUS_LABELS[reached.status]}: ${reason}`
+          })
+        }
+      }
+    }
+
+    const logged = await requestRules.recordActions(toLog)
+    return {
+      ranAt: now.toISOString(),
+      actions: logged.map(fromRequestRuleActionRow),
+      flagged: planned.filter((action) => action.rule === 'flag_unassigned'),
+      errors
+    }
+  }
+
+  const run = (now = new Date()) => {
+    running ??= execute(now)
+      .then((result) => {
+        latest = result
+        runs.publish(result)
+        return result
+      })
+      .finally(() => {
+        running = null
+      })
+    return running
+  }
+
+  return {
+    run,
+
+    start() {
+      const tick = () => {
+        run().catch((err) => console.error('Failed to run request rules:', err))
+      }
+      tick()
+      const timer = setInterval(tick, intervalMinutes * 60 * 1000)
+      return () => clearInterval(timer)
+    },
+
+    lastRun: () => latest,
+
+    subscribe: (listener) => runs.subscribe(listener)
+  }
+}
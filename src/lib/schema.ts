@@ -0,0 +1,86 @@
+/**
+ * Schema - Minimal declarative validation
+ *
+ * A schema validates a value against a context (e.g. "now", a catalog) and
+ * returns a flat map of error messages keyed by dotted path, such as
+ * `vehicles.0.model`, so forms can show each message next to its field.
+ */
+
+export type ValidationErrors = Record<string, string>
+
+/** Returns an error message, or null when the value passes. */
+export type Check<T, C = unknown> = (value: T, context: C) => string | null
+
+export interface Schema<T, C = unknown> {
+  validate(value: T, context: C, path?: string): ValidationErrors
+}
+
+const joinPath = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key))
+
+/** A leaf value; the first failing check wins. */
+export function field<T, C = unknown>(...checks: Check<T, C>[]): Schema<T, C> {
+  return {
+    validate(value, context, path = '') {
+      for (const check of checks) {
+        const message = check(value, context)
+        if (message) return { [path]: message }
+      }
+      return {}
+    }
+  }
+}
+
+type Shape<T, C> = { [K in keyof T]?: Schema<T[K], C> }
+
+/**
+ * An object validated key by key. `refine` adds cross-field rules; it sees the
+ * whole object and returns errors keyed relative to it. A field keeps its own
+ * error if it already has one, so messages don't pile up.
+ */
+export function object<T, C = unknown>(
+  shape: Shape<T, C>,
+  refine?: (value: T, context: C) => ValidationErrors
+): Schema<T, C> {
+  return {
+    validate(value, context, path = '') {
+      const errors: ValidationErrors = {}
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        Object.assign(errors, shape[key]!.validate(value[key], context, joinPath(path, key)))
+      }
+      if (refine) {
+        for (const [key, message] of Object.entries(refine(value, context))) {
+          errors[joinPath(path, key)] ??= message
+        }
+      }
+      return errors
+    }
+  }
+}
+
+/** An array whose items share one schema; `checks` apply to the array as a whole. */
+export function array<T, C = unknown>(item: Schema<T, C>, ...checks: Check<T[], C>[]): Schema<T[], C> {
+  const whole = field<T[], C>(...checks)
+  return {
+    validate(value, context, path = '') {
+      const errors = whole.validate(value, context, path)
+      value.forEach((entry, index) => {
+        Object.assign(errors, item.validate(entry, context, joinPath(path, index)))
+      })
+      return errors
+    }
+  }
+}
+
+export const isValid = (errors: ValidationErrors) => Object.keys(errors).length === 0
+
+// Common checks
+
+export const required = (message: string): Check<string | null | undefined> =>
+  (value) => (value && value.trim() ? null : message)
+
+export const matches = (pattern: RegExp, message: string): Check<string> =>
+  (value) => (pattern.test(value.trim()) ? null : message)
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export const PHONE_PATTERN = /^\+?[\d\s().-]{7,}$/
@@ -1,18 +1,24 @@
-// TODO: Re-enable Supabase integration when dependency is properly installed
-// import { createClient } from '@supabase/supabase-js'
-// import { SUPABASE_CONFIG } from '../config/supabase'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { SUPABASE_CONFIG, isSupabaseConfigured } from '../config/supabase'
 
-// export const supabase = createClient(SUPABASE_CONFIG.url, SUPABASE_CONFIG.anonKey)
+export type TypedSupabaseClient = SupabaseClient<Database>
 
-// Mock Supabase client for now
-export const supabase = {
-  auth: {
-    getUser: () => Promise.resolve({ data: null, error: null })
-  }
-} as any
+// Null when no Supabase project is configured; the data layer then uses the local store
+export const supabase: TypedSupabaseClient | null = isSupabaseConfigured
+  ? createClient<Database>(SUPABASE_CONFIG.url, SUPABASE_CONFIG.anonKey)
+  : null
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
 
 // Database types (we'll generate these later with Supabase CLI)
-export interface Database {
+// Declared as a type alias (not an interface) so it satisfies supabase-js' schema generics
+export type Database = {
   public: {
     Tables: {
       users: {
@@ -21,6 +27,7 @@ export interface Database {
           email: string
           full_name: string
           phone: string
+          role: 'customer' | 'owner' | 'staff' | 'driver'
           created_at: string
           updated_at: string
         }
@@ -29,6 +36,7 @@ export interface Database {
           email: string
           full_name: string
           phone: string
+          role?: 'customer' | 'owner' | 'staff' | 'driver'
           created_at?: string
           updated_at?: string
         }
@@ -37,13 +45,16 @@ export interface Database {
           email?: string
           full_name?: string
           phone?: string
+          role?: 'customer' | 'owner' | 'staff' | 'driver'
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       shuttle_requests: {
         Row: {
           id: string
+          reference: string
           user_id: string
           parking_location_name: string
           parking_lat: number | null
@@ -53,12 +64,15 @@ export interface Database {
           dropoff_lng: number | null
           dropoff_day: string
           arrival_time: string
-          status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled'
+          status: 'pending' | 'waitlisted' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'rejected'
+          notes: string | null
+          quote: Json | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
+          reference?: string
           user_id: string
           parking_location_name: string
           parking_lat?: number | null
@@ -68,12 +82,15 @@ export interface Database {
           dropoff_lng?: number | null
           dropoff_day: string
           arrival_time: string
-          status?: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled'
+          status?: 'pending' | 'waitlisted' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'rejected'
+          notes?: string | null
+          quote?: Json | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
+          reference?: string
           user_id?: string
           parking_location_name?: string
           parking_lat?: number | null
@@ -83,10 +100,21 @@ export interface Database {
           dropoff_lng?: number | null
           dropoff_day?: string
           arrival_time?: string
-          status?: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled'
+          status?: 'pending' | 'waitlisted' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'rejected'
+          notes?: string | null
+          quote?: Json | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'shuttle_requests_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
       }
       vehicles: {
         Row: {
@@ -96,6 +124,20 @@ export interface Database {
           model: string
           year: string
           transmission: 'automatic' | 'manual'
+          license_plate: string | null
+          color: string | null
+          drivetrain: '2wd' | 'awd' | '4wd'
+          // Trailer, bike/ski rack or anything else the driver should know about
+          equipment_notes: string | null
+          // Where the driver finds the keys, and where they leave them at the other end
+          key_location: string | null
+          key_return_location: string | null
+          // Set by confirm_key_handoff; the lockbox code lives in vehicle_lockbox_codes
+          key_picked_up_at: string | null
+          key_picked_up_by: string | null
+          key_dropped_off_at: string | null
+          key_dropped_off_by: string | null
+          driver_id: string | null
           created_at: string
         }
         Insert: {
@@ -105,6 +147,17 @@ export interface Database {
           model: string
           year: string
           transmission: 'automatic' | 'manual'
+          license_plate?: string | null
+          color?: string | null
+          drivetrain?: '2wd' | 'awd' | '4wd'
+          equipment_notes?: string | null
+          key_location?: string | null
+          key_return_location?: string | null
+          key_picked_up_at?: string | null
+          key_picked_up_by?: string | null
+          key_dropped_off_at?: string | null
+          key_dropped_off_by?: string | null
+          driver_id?: string | null
           created_at?: string
         }
         Update: {
@@ -114,9 +167,753 @@ export interface Database {
           model?: string
           year?: string
           transmission?: 'automatic' | 'manual'
+          license_plate?: string | null
+          color?: string | null
+          drivetrain?: '2wd' | 'awd' | '4wd'
+          equipment_notes?: string | null
+          key_location?: string | null
+          key_return_location?: string | null
+          key_picked_up_at?: string | null
+          key_picked_up_by?: string | null
+          key_dropped_off_at?: string | null
+          key_dropped_off_by?: string | null
+          driver_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'vehicles_shuttle_request_id_fkey'
+            columns: ['shuttle_request_id']
+            isOneToOne: false
+            referencedRelation: 'shuttle_requests'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'vehicles_driver_id_fkey'
+            columns: ['driver_id']
+            isOneToOne: false
+            referencedRelation: 'drivers'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      request_status_events: {
+        Row: {
+          id: string
+          shuttle_request_id: string
+          from_status: Database['public']['Tables']['shuttle_requests']['Row']['status'] | null
+          to_status: Database['public']['Tables']['shuttle_requests']['Row']['status']
+          actor: string
+          note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          shuttle_request_id: string
+          from_status?: Database['public']['Tables']['shuttle_requests']['Row']['status'] | null
+          to_status: Database['public']['Tables']['shuttle_requests']['Row']['status']
+          actor: string
+          note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          shuttle_request_id?: string
+          from_status?: Database['public']['Tables']['shuttle_requests']['Row']['status'] | null
+          to_status?: Database['public']['Tables']['shuttle_requests']['Row']['status']
+          actor?: string
+          note?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'request_status_events_shuttle_request_id_fkey'
+            columns: ['shuttle_request_id']
+            isOneToOne: false
+            referencedRelation: 'shuttle_requests'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      drivers: {
+        Row: {
+          id: string
+          full_name: string
+          phone: string
+          email: string | null
+          can_drive_manual: boolean
+          active: boolean
+          // Days of the week they normally work, 0 = Sunday
+          working_days: number[]
+          notes: string | null
+          // The sign-in account the driver uses, linked by an owner
+          user_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          full_name: string
+          phone: string
+          email?: string | null
+          can_drive_manual?: boolean
+          active?: boolean
+          working_days?: number[]
+          notes?: string | null
+          user_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          full_name?: string
+          phone?: string
+          email?: string | null
+          can_drive_manual?: boolean
+          active?: boolean
+          working_days?: number[]
+          notes?: string | null
+          user_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      driver_time_off: {
+        Row: {
+          id: string
+          driver_id: string
+          day: string
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          driver_id: string
+          day: string
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          driver_id?: string
+          day?: string
+          reason?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'driver_time_off_driver_id_fkey'
+            columns: ['driver_id']
+            isOneToOne: false
+            referencedRelation: 'drivers'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      capacity_settings: {
+        // A single row (id 1) holding the owner's limit for any one day
+        Row: {
+          id: number
+          unit: 'vehicles' | 'driver_hours'
+          daily_limit: number
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          unit?: 'vehicles' | 'driver_hours'
+          daily_limit?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          unit?: 'vehicles' | 'driver_hours'
+          daily_limit?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      blackout_dates: {
+        Row: {
+          day: string
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          day: string
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          day?: string
+          reason?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      vehicle_lockbox_codes: {
+        // Kept apart from vehicles so only staff can read them (customers can read their vehicles)
+        Row: {
+          vehicle_id: string
+          code: string
+          updated_at: string
+        }
+        Insert: {
+          vehicle_id: string
+          code: string
+          updated_at?: string
+        }
+        Update: {
+          vehicle_id?: string
+          code?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'vehicle_lockbox_codes_vehicle_id_fkey'
+            columns: ['vehicle_id']
+            isOneToOne: true
+            referencedRelation: 'vehicles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      calendar_feeds: {
+        // Secret subscription links; anyone with the token can read the feed
+        Row: {
+          id: string
+          token: string
+          label: string
+          // Only that driver's jobs when set, every job otherwise
+          driver_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          token?: string
+          label: string
+          driver_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          token?: string
+          label?: string
+          driver_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'calendar_feeds_driver_id_fkey'
+            columns: ['driver_id']
+            isOneToOne: false
+            referencedRelation: 'drivers'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      request_rule_settings: {
+        // A single row (id 1) turning each automatic rule on or off
+        Row: {
+          id: number
+          auto_complete_enabled: boolean
+          // Whole days after the drop-off day before an active job is completed
+          auto_complete_grace_days: number
+          expire_pending_enabled: boolean
+          flag_unassigned_enabled: boolean
+          // How many days ahead a confirmed job without a driver is flagged
+          flag_unassigned_days: number
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          auto_complete_enabled?: boolean
+          auto_complete_grace_days?: number
+          expire_pending_enabled?: boolean
+          flag_unassigned_enabled?: boolean
+          flag_unassigned_days?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          auto_complete_enabled?: boolean
+          auto_complete_grace_days?: number
+          expire_pending_enabled?: boolean
+          flag_unassigned_enabled?: boolean
+          flag_unassigned_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      request_rule_actions: {
+        // What the automatic rules did, one row per request per action
+        Row: {
+          id: string
+          rule: 'auto_complete' | 'expire_pending' | 'flag_unassigned'
+          shuttle_request_id: string
+          reference: string
+          // 'failed' when the change couldn't be made; the message says why
+          outcome: 'applied' | 'failed'
+          message: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          rule: 'auto_complete' | 'expire_pending' | 'flag_unassigned'
+          shuttle_request_id: string
+          reference: string
+          outcome?: 'applied' | 'failed'
+          message: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          rule?: 'auto_complete' | 'expire_pending' | 'flag_unassigned'
+          shuttle_request_id?: string
+          reference?: string
+          outcome?: 'applied' | 'failed'
+          message?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'request_rule_actions_shuttle_request_id_fkey'
+            columns: ['shuttle_request_id']
+            isOneToOne: false
+            referencedRelation: 'shuttle_requests'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      payments: {
+        // Every attempt to charge the customer, including declined ones. Each is
+        // reserved as 'pending' before the card is charged
+        Row: {
+          id: string
+          shuttle_request_id: string
+          kind: 'deposit' | 'full'
+          status: 'pending' | 'succeeded' | 'failed' | 'voided'
+          amount_cents: number
+          currency: string
+          // Which payment provider handled it, e.g. 'fake' or 'stripe'
+          provider: string
+          provider_reference: string | null
+          card_last4: string | null
+          failure_message: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          shuttle_request_id: string
+          kind: 'deposit' | 'full'
+          status: 'pending' | 'succeeded' | 'failed' | 'voided'
+          amount_cents: number
+          currency: string
+          provider: string
+          provider_reference?: string | null
+          card_last4?: string | null
+          failure_message?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          shuttle_request_id?: string
+          kind?: 'deposit' | 'full'
+          status?: 'pending' | 'succeeded' | 'failed' | 'voided'
+          amount_cents?: number
+          currency?: string
+          provider?: string
+          provider_reference?: string | null
+          card_last4?: string | null
+          failure_message?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'payments_shuttle_request_id_fkey'
+            columns: ['shuttle_request_id']
+            isOneToOne: false
+            referencedRelation: 'shuttle_requests'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      invoices: {
+        // Issued for each successful payment, against the quote the customer booked with
+        Row: {
+          id: string
+          // Sequential, e.g. INV-000042
+          number: string
+          shuttle_request_id: string
+          payment_id: string
+          currency: string
+          // The quote's lines, copied so later price changes don't alter the invoice
+          lines: Json
+          total_cents: number
+          // Everything paid so far, this payment included
+          paid_cents: number
+          balance_cents: number
+          issued_at: string
+        }
+        Insert: {
+          id?: string
+          number?: string
+          shuttle_request_id: string
+          payment_id: string
+          currency: string
+          lines: Json
+          total_cents: number
+          paid_cents: number
+          balance_cents: number
+          issued_at?: string
+        }
+        Update: {
+          id?: string
+          number?: string
+          shuttle_request_id?: string
+          payment_id?: string
+          currency?: string
+          lines?: Json
+          total_cents?: number
+          paid_cents?: number
+          balance_cents?: number
+          issued_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'invoices_shuttle_request_id_fkey'
+            columns: ['shuttle_request_id']
+            isOneToOne: false
+            referencedRelation: 'shuttle_requests'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'invoices_payment_id_fkey'
+            columns: ['payment_id']
+            isOneToOne: true
+            referencedRelation: 'payments'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      job_check_ins: {
+        // A driver marking a job picked up or delivered, with where their device was
+        Row: {
+          id: string
+          shuttle_request_id: string
+          step: 'picked_up' | 'delivered'
+          driver_id: string | null
+          // The driver's name as it was at the time, for the history
+          actor: string
+          // Null when the device couldn't or wouldn't share its location
+          lat: number | null
+          lng: number | null
+          accuracy_m: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          shuttle_request_id: string
+          step: 'picked_up' | 'delivered'
+          driver_id?: string | null
+          actor: string
+          lat?: number | null
+          lng?: number | null
+          accuracy_m?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          shuttle_request_id?: string
+          step?: 'picked_up' | 'delivered'
+          driver_id?: string | null
+          actor?: string
+          lat?: number | null
+          lng?: number | null
+          accuracy_m?: number | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'job_check_ins_shuttle_request_id_fkey'
+            columns: ['shuttle_request_id']
+            isOneToOne: false
+            referencedRelation: 'shuttle_requests'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'job_check_ins_driver_id_fkey'
+            columns: ['driver_id']
+            isOneToOne: false
+            referencedRelation: 'drivers'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      vehicle_inspections: {
+        // The vehicle's condition when the driver took it and when they left it
+        Row: {
+          id: string
+          vehicle_id: string
+          shuttle_request_id: string
+          stage: 'pickup' | 'delivery'
+          odometer: number
+          // Eighths of a tank, 0 (empty) to 8 (full)
+          fuel_eighths: number
+          // Marks on the top-down diagram: [{ x, y, kind, note }], x and y in percent
+          damage: Json
+          notes: string | null
+          // Storage paths in the vehicle-inspections bucket
+          photos: string[]
+          inspector: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          vehicle_id: string
+          shuttle_request_id: string
+          stage: 'pickup' | 'delivery'
+          odometer: number
+          fuel_eighths: number
+          damage?: Json
+          notes?: string | null
+          photos?: string[]
+          inspector: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          vehicle_id?: string
+          shuttle_request_id?: string
+          stage?: 'pickup' | 'delivery'
+          odometer?: number
+          fuel_eighths?: number
+          damage?: Json
+          notes?: string | null
+          photos?: string[]
+          inspector?: string
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'vehicle_inspections_vehicle_id_fkey'
+            columns: ['vehicle_id']
+            isOneToOne: false
+            referencedRelation: 'vehicles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'vehicle_inspections_shuttle_request_id_fkey'
+            columns: ['shuttle_request_id']
+            isOneToOne: false
+            referencedRelation: 'shuttle_requests'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      // Each function runs in a single transaction (see supabase/migrations)
+      create_shuttle_request: {
+        Args: {
+          p_user: Database['public']['Tables']['users']['Insert']
+          p_request: Omit<Database['public']['Tables']['shuttle_requests']['Insert'], 'user_id'>
+          p_vehicles: (Omit<Database['public']['Tables']['vehicles']['Insert'], 'shuttle_request_id'> & { lockbox_code?: string | null })[]
+          // Book onto the waitlist instead of failing when the day is full
+          p_waitlist: boolean
+        }
+        // The new request joined like shuttle_request_record(); guests can't select it afterwards
+        Returns: Database['public']['Tables']['shuttle_requests']['Row'] & {
+          vehicles: Database['public']['Tables']['vehicles']['Row'][]
+          user: Database['public']['Tables']['users']['Row'] | null
+          status_events: Database['public']['Tables']['request_status_events']['Row'][]
+          payments: Database['public']['Tables']['payments']['Row'][]
+          check_ins: Database['public']['Tables']['job_check_ins']['Row'][]
+        }
+      }
+      update_shuttle_request: {
+        Args: {
+          p_id: string
+          p_request: Database['public']['Tables']['shuttle_requests']['Update']
+          p_vehicles: (Omit<Database['public']['Tables']['vehicles']['Insert'], 'shuttle_request_id'> & { lockbox_code?: string | null })[] | null
+        }
+        Returns: undefined
       }
+      // Compare-and-set on status plus a request_status_events row
+      transition_shuttle_request: {
+        Args: {
+          p_id: string
+          p_from: Database['public']['Tables']['shuttle_requests']['Row']['status']
+          p_to: Database['public']['Tables']['shuttle_requests']['Row']['status']
+          p_actor: string
+          p_note: string | null
+        }
+        Returns: undefined
+      }
+      // Qualification, availability and double-booking checks, then sets vehicles.driver_id
+      assign_vehicle_driver: {
+        Args: {
+          p_vehicle_id: string
+          p_driver_id: string | null
+        }
+        Returns: undefined
+      }
+      // Stamps the key pickup or drop-off on a vehicle. Staff or the vehicle's own driver,
+      // who is recorded under their name rather than p_actor
+      confirm_key_handoff: {
+        Args: {
+          p_request_id: string
+          p_vehicle_id: string
+          p_step: 'pickup' | 'dropoff'
+          p_actor: string
+        }
+        Returns: undefined
+      }
+      // The signed-in driver marks their job picked up or delivered and moves it along
+      // (confirmed → in_progress → completed)
+      check_in_shuttle_request: {
+        Args: {
+          p_request_id: string
+          p_from: Database['public']['Tables']['shuttle_requests']['Row']['status']
+          p_step: 'picked_up' | 'delivered'
+          p_lat: number | null
+          p_lng: number | null
+          p_accuracy_m: number | null
+        }
+        Returns: undefined
+      }
+      // One page of the requests the caller can see that match every filter given,
+      // joined like shuttle_request_record(), plus the total and per-status counts
+      search_shuttle_requests: {
+        Args: {
+          // Customer name, email or phone, either location, or the reference
+          p_query: string | null
+          p_statuses: Database['public']['Tables']['shuttle_requests']['Row']['status'][] | null
+          // Drop-off days, inclusive
+          p_from: string | null
+          p_to: string | null
+          p_sort: 'created_at' | 'dropoff_day' | 'vehicle_count'
+          p_ascending: boolean
+          p_limit: number
+          p_offset: number
+        }
+        Returns: {
+          records: (Database['public']['Tables']['shuttle_requests']['Row'] & {
+            vehicles: Database['public']['Tables']['vehicles']['Row'][]
+            user: Database['public']['Tables']['users']['Row'] | null
+            status_events: Database['public']['Tables']['request_status_events']['Row'][]
+            payments: Database['public']['Tables']['payments']['Row'][]
+            check_ins: Database['public']['Tables']['job_check_ins']['Row'][]
+          })[]
+          total: number
+          // Matches per status before p_statuses is applied; statuses with none are left out
+          status_counts: Partial<Record<Database['public']['Tables']['shuttle_requests']['Row']['status'], number>>
+        }
+      }
+      // Booked load against the limit for every day in the range; safe for guests to call
+      day_availability: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+          day: string
+          booked: number
+          daily_limit: number
+          blackout: boolean
+          reason: string | null
+        }[]
+      }
+      // Reference plus booking email stand in for signing in; a mismatch returns null
+      track_shuttle_request: {
+        Args: {
+          p_reference: string
+          p_email: string
+        }
+        Returns: (Database['public']['Tables']['shuttle_requests']['Row'] & {
+          vehicles: Database['public']['Tables']['vehicles']['Row'][]
+          user: Database['public']['Tables']['users']['Row'] | null
+          status_events: Database['public']['Tables']['request_status_events']['Row'][]
+          payments: Database['public']['Tables']['payments']['Row'][]
+          check_ins: Database['public']['Tables']['job_check_ins']['Row'][]
+        }) | null
+      }
+      // Customer changes to a pending request, with the capacity check on the new day
+      update_tracked_shuttle_request: {
+        Args: {
+          p_reference: string
+          p_email: string
+          p_request: Database['public']['Tables']['shuttle_requests']['Update']
+          p_vehicles: (Omit<Database['public']['Tables']['vehicles']['Insert'], 'shuttle_request_id'> & { lockbox_code?: string | null })[] | null
+        }
+        Returns: Database['public']['Tables']['shuttle_requests']['Row'] & {
+          vehicles: Database['public']['Tables']['vehicles']['Row'][]
+          user: Database['public']['Tables']['users']['Row'] | null
+          status_events: Database['public']['Tables']['request_status_events']['Row'][]
+          payments: Database['public']['Tables']['payments']['Row'][]
+          check_ins: Database['public']['Tables']['job_check_ins']['Row'][]
+        }
+      }
+      cancel_tracked_shuttle_request: {
+        Args: {
+          p_reference: string
+          p_email: string
+          p_from: Database['public']['Tables']['shuttle_requests']['Row']['status']
+          p_note: string
+        }
+        Returns: Database['public']['Tables']['shuttle_requests']['Row'] & {
+          vehicles: Database['public']['Tables']['vehicles']['Row'][]
+          user: Database['public']['Tables']['users']['Row'] | null
+          status_events: Database['public']['Tables']['request_status_events']['Row'][]
+          payments: Database['public']['Tables']['payments']['Row'][]
+          check_ins: Database['public']['Tables']['job_check_ins']['Row'][]
+        }
+      }
+      // Holds an amount of a tracked request's balance as a pending payment,
+      // before the card is charged; reference plus booking email as for tracking
+      reserve_shuttle_request_payment: {
+        Args: {
+          p_reference: string
+          p_email: string
+          p_payment: Pick<Database['public']['Tables']['payments']['Insert'], 'kind' | 'amount_cents' | 'currency' | 'provider'>
+        }
+        Returns: Database['public']['Tables']['payments']['Row']
+      }
+      // Records how the charge for a reservation went, issuing an invoice when
+      // it succeeded
+      record_shuttle_request_payment: {
+        Args: {
+          p_reference: string
+          p_email: string
+          p_payment_id: string
+          p_outcome: {
+            status: 'succeeded' | 'failed' | 'voided'
+            provider_reference?: string | null
+            card_last4?: string | null
+            failure_message?: string | null
+          }
+        }
+        Returns: {
+          payment: Database['public']['Tables']['payments']['Row']
+          invoice: Database['public']['Tables']['invoices']['Row'] | null
+        }
+      }
+      // Served as text/calendar; calendar apps fetch it with GET /rest/v1/rpc/calendar_feed?token=...
+      calendar_feed: {
+        Args: {
+          token: string
+        }
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+import catalogData from '../data/vehicles.json'
+import { OLDEST_MODEL_YEAR, newestModelYear, type ModelYears } from './domain'
+
+/**
+ * Vehicle Catalog - Makes, models and model years offered in the vehicle pickers
+ *
+ * Loaded from data/vehicles.json. Lookups ignore case (and accept a make's
+ * aliases), so a name typed out in full still counts as the catalog's entry.
+ * Anything the catalog doesn't list is an "other" vehicle, which the pickers
+ * accept as free text.
+ */
+
+export interface CatalogModel {
+  name: string
+  // First and last model year sold; no `to` while still on sale
+  from: number
+  to?: number
+}
+
+export interface CatalogMake {
+  name: string
+  // Other names customers type, e.g. "Chevy"
+  aliases?: string[]
+  models: CatalogModel[]
+}
+
+export const VEHICLE_CATALOG: CatalogMake[] = catalogData.makes as CatalogMake[]
+
+const keyOf = (name: string) => name.trim().toLowerCase()
+
+const makesByKey = new Map(
+  VEHICLE_CATALOG.flatMap(make => [make.name, ...(make.aliases ?? [])].map(name => [keyOf(name), make] as const))
+)
+
+export const VEHICLE_MAKES: string[] = VEHICLE_CATALOG.map(make => make.name)
+
+export const findMake = (make: string): CatalogMake | null => makesByKey.get(keyOf(make)) ?? null
+
+export const findModel = (make: string, model: string): CatalogModel | null =>
+  findMake(make)?.models.find(entry => keyOf(entry.name) === keyOf(model)) ?? null
+
+/** Model names for a make; empty for a make the catalog doesn't list. */
+export const getModels = (make: string): string[] => findMake(make)?.models.map(model => model.name) ?? []
+
+export const getModelYears = (make: string, model: string): ModelYears | null => {
+  const entry = findModel(make, model)
+  return entry ? { first: entry.from, last: entry.to ?? null } : null
+}
+
+/** Years to offer for a make and model, newest first; every accepted year for an "other" vehicle. */
+export function getYears(make: string, model: string, now = new Date()): string[] {
+  const years = getModelYears(make, model)
+  const newest = Math.min(years?.last ?? Infinity, newestModelYear(now))
+  const oldest = Math.max(years?.first ?? OLDEST_MODEL_YEAR, OLDEST_MODEL_YEAR)
+  return Array.from({ length: Math.max(0, newest - oldest + 1) }, (_, i) => String(newest - i))
+}
+
+/** The catalog's spelling of a typed make, or the text as typed for an "other" make. */
+export const canonicalMake = (make: string) => findMake(make)?.name ?? make.trim()
+
+export const canonicalModel = (make: string, model: string) => findModel(make, model)?.name ?? model.trim()
@@ -0,0 +1,130 @@
+-- Shuttle requests schema
+-- Mirrors the `Database` type in lib/supabase.ts. Apply with the Supabase CLI
+-- (`supabase db push`) or paste into the SQL editor.
+
+create table if not exists public.users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  full_name text not null,
+  phone text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.shuttle_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id),
+  parking_location_name text not null,
+  parking_lat double precision,
+  parking_lng double precision,
+  dropoff_location_name text not null,
+  dropoff_lat double precision,
+  dropoff_lng double precision,
+  dropoff_day date not null,
+  arrival_time text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'confirmed', 'in_progress', 'completed', 'cancelled')),
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.vehicles (
+  id uuid primary key default gen_random_uuid(),
+  shuttle_request_id uuid not null references public.shuttle_requests (id) on delete cascade,
+  make text not null,
+  model text not null,
+  year text not null,
+  transmission text not null check (transmission in ('automatic', 'manual')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vehicles_shuttle_request_id_idx on public.vehicles (shuttle_request_id);
+
+-- Creates (or updates, matched by email) the customer, the request and its
+-- vehicles in one transaction. Returns the new request id.
+create or replace function public.create_shuttle_request(p_user jsonb, p_request jsonb, p_vehicles jsonb)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_user_id uuid;
+  v_request_id uuid;
+begin
+  if jsonb_array_length(p_vehicles) not between 1 and 10 then
+    raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+  end if;
+
+  insert into public.users (email, full_name, phone)
+  values (lower(trim(p_user->>'email')), p_user->>'full_name', p_user->>'phone')
+  on conflict (email) do update
+    set full_name = excluded.full_name, phone = excluded.phone, updated_at = now()
+  returning id into v_user_id;
+
+  insert into public.shuttle_requests (
+    user_id, parking_location_name, parking_lat, parking_lng,
+    dropoff_location_name, dropoff_lat, dropoff_lng,
+    dropoff_day, arrival_time, status, notes
+  )
+  values (
+    v_user_id,
+    p_request->>'parking_location_name',
+    (p_request->>'parking_lat')::double precision,
+    (p_request->>'parking_lng')::double precision,
+    p_request->>'dropoff_location_name',
+    (p_request->>'dropoff_lat')::double precision,
+    (p_request->>'dropoff_lng')::double precision,
+    (p_request->>'dropoff_day')::date,
+    p_request->>'arrival_time',
+    coalesce(p_request->>'status', 'pending'),
+    p_request->>'notes'
+  )
+  returning id into v_request_id;
+
+  insert into public.vehicles (shuttle_request_id, make, model, year, transmission)
+  select v_request_id, v->>'make', v->>'model', v->>'year', v->>'transmission'
+  from jsonb_array_elements(p_vehicles) as v;
+
+  return v_request_id;
+end;
+$$;
+
+-- Applies a partial update to a request and, when p_vehicles is not null,
+-- replaces its vehicles, in one transaction.
+create or replace function public.update_shuttle_request(p_id uuid, p_request jsonb, p_vehicles jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    status = coalesce(p_request->>'status', r.status),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    updated_at = now()
+  where r.id = p_id;
+
+  if not found then
+    raise exception 'Shuttle request % not found', p_id using errcode = 'P0002';
+  end if;
+
+  if p_vehicles is not null then
+    if jsonb_array_length(p_vehicles) not between 1 and 10 then
+      raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+    end if;
+
+    delete from public.vehicles where shuttle_request_id = p_id;
+
+    insert into public.vehicles (shuttle_request_id, make, model, year, transmission)
+    select p_id, v->>'make', v->>'model', v->>'year', v->>'transmission'
+    from jsonb_array_elements(p_vehicles) as v;
+  end if;
+end;
+$$;
@@ -0,0 +1,105 @@
+-- Request lifecycle: adds the `rejected` status and a status history table.
+-- Which transitions are legal is decided in lib/domain/lifecycle.ts; the
+-- database only guarantees the status has not changed underneath the caller.
+
+alter table public.shuttle_requests drop constraint if exists shuttle_requests_status_check;
+alter table public.shuttle_requests add constraint shuttle_requests_status_check
+  check (status in ('pending', 'confirmed', 'in_progress', 'completed', 'cancelled', 'rejected'));
+
+create table if not exists public.request_status_events (
+  id uuid primary key default gen_random_uuid(),
+  shuttle_request_id uuid not null references public.shuttle_requests (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor text not null,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_status_events_request_idx
+  on public.request_status_events (shuttle_request_id, created_at);
+
+-- Record the initial status of every new request, attributed to the customer
+create or replace function public.log_initial_request_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  insert into public.request_status_events (shuttle_request_id, from_status, to_status, actor)
+  select new.id, null, new.status, u.email
+  from public.users u
+  where u.id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists shuttle_requests_log_initial_status on public.shuttle_requests;
+create trigger shuttle_requests_log_initial_status
+  after insert on public.shuttle_requests
+  for each row execute function public.log_initial_request_status();
+
+create or replace function public.transition_shuttle_request(
+  p_id uuid,
+  p_from text,
+  p_to text,
+  p_actor text,
+  p_note text
+)
+returns void
+language plpgsql
+as $$
+begin
+  if not exists (select 1 from public.shuttle_requests where id = p_id) then
+    raise exception 'Shuttle request % not found', p_id using errcode = 'P0002';
+  end if;
+
+  update public.shuttle_requests
+  set status = p_to, updated_at = now()
+  where id = p_id and status = p_from;
+
+  if not found then
+    raise exception 'Shuttle request % is no longer %', p_id, p_from using errcode = '40001';
+  end if;
+
+  insert into public.request_status_events (shuttle_request_id, from_status, to_status, actor, note)
+  values (p_id, p_from, p_to, p_actor, p_note);
+end;
+$$;
+
+-- Status now changes only through transition_shuttle_request
+create or replace function public.update_shuttle_request(p_id uuid, p_request jsonb, p_vehicles jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    updated_at = now()
+  where r.id = p_id;
+
+  if not found then
+    raise exception 'Shuttle request % not found', p_id using errcode = 'P0002';
+  end if;
+
+  if p_vehicles is not null then
+    if jsonb_array_length(p_vehicles) not between 1 and 10 then
+      raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+    end if;
+
+    delete from public.vehicles where shuttle_request_id = p_id;
+
+    insert into public.vehicles (shuttle_request_id, make, model, year, transmission)
+    select p_id, v->>'make', v->>'model', v->>'year', v->>'transmission'
+    from jsonb_array_elements(p_vehicles) as v;
+  end if;
+end;
+$$;
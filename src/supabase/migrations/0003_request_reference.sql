@@ -0,0 +1,28 @@
+-- Human-friendly booking references (e.g. SF-4K7QX2) shown on the confirmation
+-- screen. The alphabet matches newReference() in lib/data/localDb.ts.
+
+create or replace function public.generate_request_reference()
+returns text
+language plpgsql
+as $$
+declare
+  v_alphabet constant text := '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+  v_reference text;
+begin
+  loop
+    v_reference := 'SF-';
+    for i in 1..6 loop
+      v_reference := v_reference || substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::int, 1);
+    end loop;
+    exit when not exists (select 1 from public.shuttle_requests where reference = v_reference);
+  end loop;
+  return v_reference;
+end;
+$$;
+
+alter table public.shuttle_requests
+  add column if not exists reference text unique default public.generate_request_reference();
+
+update public.shuttle_requests set reference = public.generate_request_reference() where reference is null;
+
+alter table public.shuttle_requests alter column reference set not null;
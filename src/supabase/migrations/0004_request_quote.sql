@@ -0,0 +1,80 @@
+-- Stores the itemized price quote (lib/domain/quote.ts) shown to the customer
+-- when they booked.
+
+alter table public.shuttle_requests add column if not exists quote jsonb;
+
+-- Request columns are now read with jsonb_populate_record, so columns added
+-- later flow through without rewriting this function.
+create or replace function public.create_shuttle_request(p_user jsonb, p_request jsonb, p_vehicles jsonb)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_user_id uuid;
+  v_request public.shuttle_requests;
+begin
+  if jsonb_array_length(p_vehicles) not between 1 and 10 then
+    raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+  end if;
+
+  insert into public.users (email, full_name, phone)
+  values (lower(trim(p_user->>'email')), p_user->>'full_name', p_user->>'phone')
+  on conflict (email) do update
+    set full_name = excluded.full_name, phone = excluded.phone, updated_at = now()
+  returning id into v_user_id;
+
+  v_request := jsonb_populate_record(null::public.shuttle_requests, p_request);
+  v_request.id := gen_random_uuid();
+  v_request.user_id := v_user_id;
+  v_request.reference := public.generate_request_reference();
+  v_request.status := coalesce(v_request.status, 'pending');
+  v_request.created_at := now();
+  v_request.updated_at := now();
+
+  insert into public.shuttle_requests select v_request.*;
+
+  insert into public.vehicles (shuttle_request_id, make, model, year, transmission)
+  select v_request.id, v->>'make', v->>'model', v->>'year', v->>'transmission'
+  from jsonb_array_elements(p_vehicles) as v;
+
+  return v_request.id;
+end;
+$$;
+
+create or replace function public.update_shuttle_request(p_id uuid, p_request jsonb, p_vehicles jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    quote = case when p_request ? 'quote' then p_request->'quote' else r.quote end,
+    updated_at = now()
+  where r.id = p_id;
+
+  if not found then
+    raise exception 'Shuttle request % not found', p_id using errcode = 'P0002';
+  end if;
+
+  if p_vehicles is not null then
+    if jsonb_array_length(p_vehicles) not between 1 and 10 then
+      raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+    end if;
+
+    delete from public.vehicles where shuttle_request_id = p_id;
+
+    insert into public.vehicles (shuttle_request_id, make, model, year, transmission)
+    select p_id, v->>'make', v->>'model', v->>'year', v->>'transmission'
+    from jsonb_array_elements(p_vehicles) as v;
+  end if;
+end;
+$$;
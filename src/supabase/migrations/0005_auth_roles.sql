@@ -0,0 +1,188 @@
+-- Authentication and roles.
+-- Every Supabase Auth account gets a public.users profile with the same id.
+-- Guest bookings made before sign-up are claimed by matching email. Row level
+-- security limits customers to their own requests. Owners and staff see
+-- everything.
+
+alter table public.users add column if not exists role text not null default 'customer';
+alter table public.users drop constraint if exists users_role_check;
+alter table public.users add constraint users_role_check
+  check (role in ('customer', 'owner', 'staff'));
+
+-- Claiming a guest profile re-keys it to the auth id, so requests must follow
+alter table public.shuttle_requests drop constraint if exists shuttle_requests_user_id_fkey;
+alter table public.shuttle_requests add constraint shuttle_requests_user_id_fkey
+  foreign key (user_id) references public.users (id) on update cascade;
+
+create or replace function public.handle_new_auth_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.users (id, email, full_name, phone)
+  values (
+    new.id,
+    lower(new.email),
+    coalesce(new.raw_user_meta_data->>'full_name', ''),
+    coalesce(new.raw_user_meta_data->>'phone', '')
+  )
+  on conflict (email) do update
+    set id = excluded.id,
+        full_name = coalesce(nullif(excluded.full_name, ''), public.users.full_name),
+        phone = coalesce(nullif(excluded.phone, ''), public.users.phone),
+        updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_auth_user();
+
+create or replace function public.is_staff()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.users where id = auth.uid() and role in ('owner', 'staff')
+  );
+$$;
+
+-- Roles are assigned by an owner in the SQL editor, never by the user themself
+create or replace function public.prevent_role_self_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role is distinct from old.role and not public.is_staff() then
+    raise exception 'Only staff can change roles' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_prevent_role_self_change on public.users;
+create trigger users_prevent_role_self_change
+  before update on public.users
+  for each row execute function public.prevent_role_self_change();
+
+alter table public.users enable row level security;
+alter table public.shuttle_requests enable row level security;
+alter table public.vehicles enable row level security;
+alter table public.request_status_events enable row level security;
+
+drop policy if exists users_select on public.users;
+create policy users_select on public.users
+  for select using (id = auth.uid() or public.is_staff());
+
+drop policy if exists users_update on public.users;
+create policy users_update on public.users
+  for update using (id = auth.uid() or public.is_staff());
+
+drop policy if exists shuttle_requests_select on public.shuttle_requests;
+create policy shuttle_requests_select on public.shuttle_requests
+  for select using (user_id = auth.uid() or public.is_staff());
+
+drop policy if exists shuttle_requests_update on public.shuttle_requests;
+create policy shuttle_requests_update on public.shuttle_requests
+  for update using (public.is_staff());
+
+drop policy if exists vehicles_select on public.vehicles;
+create policy vehicles_select on public.vehicles
+  for select using (
+    public.is_staff() or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists vehicles_write on public.vehicles;
+create policy vehicles_write on public.vehicles
+  for all using (public.is_staff()) with check (public.is_staff());
+
+drop policy if exists request_status_events_select on public.request_status_events;
+create policy request_status_events_select on public.request_status_events
+  for select using (
+    public.is_staff() or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists request_status_events_insert on public.request_status_events;
+create policy request_status_events_insert on public.request_status_events
+  for insert with check (public.is_staff());
+
+-- A request with its vehicles, customer and status history, shaped like the
+-- embedded select in lib/data/shuttleRequests.supabase.ts. Runs with the
+-- caller's rights, so RLS still applies when it is called directly.
+create or replace function public.shuttle_request_record(p_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(r)
+    || jsonb_build_object(
+      'vehicles', coalesce((select jsonb_agg(to_jsonb(v)) from public.vehicles v where v.shuttle_request_id = r.id), '[]'::jsonb),
+      'user', (select to_jsonb(u) from public.users u where u.id = r.user_id),
+      'status_events', coalesce((select jsonb_agg(to_jsonb(e)) from public.request_status_events e where e.shuttle_request_id = r.id), '[]'::jsonb)
+    )
+  from public.shuttle_requests r
+  where r.id = p_id;
+$$;
+
+-- Guests can still book, so creation bypasses RLS. It only overwrites an
+-- existing profile when the caller owns it (or has no account to protect),
+-- and returns the new record because a guest cannot select it afterwards.
+drop function if exists public.create_shuttle_request(jsonb, jsonb, jsonb);
+create function public.create_shuttle_request(p_user jsonb, p_request jsonb, p_vehicles jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(trim(p_user->>'email'));
+  v_user public.users;
+  v_request public.shuttle_requests;
+begin
+  if jsonb_array_length(p_vehicles) not between 1 and 10 then
+    raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+  end if;
+
+  select * into v_user from public.users where email = v_email;
+
+  if v_user.id is null then
+    insert into public.users (id, email, full_name, phone)
+    values (gen_random_uuid(), v_email, p_user->>'full_name', p_user->>'phone')
+    returning * into v_user;
+  elsif v_user.id = auth.uid() or not exists (select 1 from auth.users where id = v_user.id) then
+    update public.users
+    set full_name = p_user->>'full_name', phone = p_user->>'phone', updated_at = now()
+    where id = v_user.id;
+  end if;
+
+  v_request := jsonb_populate_record(null::public.shuttle_requests, p_request);
+  v_request.id := gen_random_uuid();
+  v_request.user_id := v_user.id;
+  v_request.reference := public.generate_request_reference();
+  -- Customers cannot book straight into a later status
+  v_request.status := 'pending';
+  v_request.created_at := now();
+  v_request.updated_at := now();
+
+  insert into public.shuttle_requests select v_request.*;
+
+  insert into public.vehicles (shuttle_request_id, make, model, year, transmission)
+  select v_request.id, v->>'make', v->>'model', v->>'year', v->>'transmission'
+  from jsonb_array_elements(p_vehicles) as v;
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
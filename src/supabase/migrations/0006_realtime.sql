@@ -0,0 +1,14 @@
+-- Broadcast inserts and updates on shuttle_requests over Supabase Realtime so
+-- the owner dashboard updates live. Realtime checks the row level security
+-- policies from 0005, so customers only receive their own rows.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'shuttle_requests'
+  ) then
+    alter publication supabase_realtime add table public.shuttle_requests;
+  end if;
+end;
+$$;
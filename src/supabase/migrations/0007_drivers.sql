@@ -0,0 +1,152 @@
+-- Drivers and per-vehicle driver assignment.
+-- The rules mirror findAssignmentProblem in lib/domain/drivers.ts, and the job
+-- window uses the numbers in config/scheduling.ts (60 minute default trip,
+-- 30 minute turnaround).
+
+create table if not exists public.drivers (
+  id uuid primary key default gen_random_uuid(),
+  full_name text not null,
+  phone text not null,
+  email text,
+  can_drive_manual boolean not null default false,
+  active boolean not null default true,
+  working_days smallint[] not null default '{1,2,3,4,5}'
+    check (working_days <@ '{0,1,2,3,4,5,6}'::smallint[]),
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.driver_time_off (
+  id uuid primary key default gen_random_uuid(),
+  driver_id uuid not null references public.drivers (id) on delete cascade,
+  day date not null,
+  reason text,
+  created_at timestamptz not null default now(),
+  unique (driver_id, day)
+);
+
+alter table public.vehicles
+  add column if not exists driver_id uuid references public.drivers (id) on delete set null;
+
+create index if not exists vehicles_driver_id_idx on public.vehicles (driver_id);
+
+alter table public.drivers enable row level security;
+alter table public.driver_time_off enable row level security;
+
+drop policy if exists drivers_staff on public.drivers;
+create policy drivers_staff on public.drivers
+  for all using (public.is_staff()) with check (public.is_staff());
+
+drop policy if exists driver_time_off_staff on public.driver_time_off;
+create policy driver_time_off_staff on public.driver_time_off
+  for all using (public.is_staff()) with check (public.is_staff());
+
+-- When a request keeps its driver busy: from setting off until back from delivering
+create or replace function public.shuttle_request_job_window(r public.shuttle_requests)
+returns tsrange
+language sql
+stable
+as $$
+  select tsrange(
+    (r.dropoff_day + r.arrival_time::time) - make_interval(mins => coalesce((r.quote->>'durationMinutes')::int, 60)),
+    (r.dropoff_day + r.arrival_time::time) + make_interval(mins => coalesce((r.quote->>'durationMinutes')::int, 60) + 30)
+  );
+$$;
+
+create or replace function public.assign_vehicle_driver(p_vehicle_id uuid, p_driver_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_request public.shuttle_requests;
+  v_vehicle public.vehicles;
+  v_driver public.drivers;
+  v_clash text;
+begin
+  select * into v_vehicle from public.vehicles where id = p_vehicle_id;
+  if v_vehicle.id is null then
+    raise exception 'Vehicle % not found', p_vehicle_id using errcode = 'P0002';
+  end if;
+
+  select * into v_request from public.shuttle_requests where id = v_vehicle.shuttle_request_id;
+  if v_request.status not in ('pending', 'confirmed', 'in_progress') then
+    raise exception 'Drivers can''t be changed on a % request', v_request.status using errcode = '23514';
+  end if;
+
+  if p_driver_id is not null then
+    -- Lock the driver so two concurrent assignments can't both pass the clash check
+    select * into v_driver from public.drivers where id = p_driver_id for update;
+    if v_driver.id is null then
+      raise exception 'Driver % not found', p_driver_id using errcode = 'P0002';
+    end if;
+    if not v_driver.active then
+      raise exception '% is no longer active', v_driver.full_name using errcode = '23514';
+    end if;
+    if v_vehicle.transmission = 'manual' and not v_driver.can_drive_manual then
+      raise exception '% isn''t qualified to drive manual', v_driver.full_name using errcode = '23514';
+    end if;
+    if not (extract(dow from v_request.dropoff_day)::smallint = any (v_driver.working_days))
+      or exists (select 1 from public.driver_time_off where driver_id = p_driver_id and day = v_request.dropoff_day) then
+      raise exception '% isn''t working on %', v_driver.full_name, v_request.dropoff_day using errcode = '23514';
+    end if;
+
+    select r.reference into v_clash
+    from public.vehicles v
+    join public.shuttle_requests r on r.id = v.shuttle_request_id
+    where v.driver_id = p_driver_id
+      and v.id <> p_vehicle_id
+      and r.status in ('pending', 'confirmed', 'in_progress')
+      and public.shuttle_request_job_window(r) && public.shuttle_request_job_window(v_request)
+    limit 1;
+
+    if v_clash is not null then
+      raise exception '% is already driving % at that time', v_driver.full_name, v_clash using errcode = '40001';
+    end if;
+  end if;
+
+  update public.vehicles set driver_id = p_driver_id where id = p_vehicle_id;
+  -- Touch the request so Realtime subscribers refresh it
+  update public.shuttle_requests set updated_at = now() where id = v_request.id;
+end;
+$$;
+
+-- Replacing vehicles keeps each one's driver; the create function still
+-- ignores driver_id, so customers can't pick their own driver.
+create or replace function public.update_shuttle_request(p_id uuid, p_request jsonb, p_vehicles jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    quote = case when p_request ? 'quote' then p_request->'quote' else r.quote end,
+    updated_at = now()
+  where r.id = p_id;
+
+  if not found then
+    raise exception 'Shuttle request % not found', p_id using errcode = 'P0002';
+  end if;
+
+  if p_vehicles is not null then
+    if jsonb_array_length(p_vehicles) not between 1 and 10 then
+      raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+    end if;
+
+    delete from public.vehicles where shuttle_request_id = p_id;
+
+    insert into public.vehicles (shuttle_request_id, make, model, year, transmission, driver_id)
+    select p_id, v->>'make', v->>'model', v->>'year', v->>'transmission', (v->>'driver_id')::uuid
+    from jsonb_array_elements(p_vehicles) as v;
+  end if;
+end;
+$$;
@@ -0,0 +1,257 @@
+-- Daily capacity, blackout dates and the waitlist.
+-- The owner caps how much work any one day can take, measured in vehicles or
+-- driver-hours, and closes days entirely with blackout dates. Pending,
+-- confirmed and in-progress requests count against the day. A booking for a
+-- full day fails unless the customer asks to join the waitlist. The rules
+-- mirror lib/domain/capacity.ts, and the defaults match config/scheduling.ts.
+
+alter table public.shuttle_requests drop constraint if exists shuttle_requests_status_check;
+alter table public.shuttle_requests add constraint shuttle_requests_status_check
+  check (status in ('pending', 'waitlisted', 'confirmed', 'in_progress', 'completed', 'cancelled', 'rejected'));
+
+create table if not exists public.capacity_settings (
+  id smallint primary key default 1 check (id = 1),
+  unit text not null default 'vehicles' check (unit in ('vehicles', 'driver_hours')),
+  daily_limit numeric(8, 2) not null default 8 check (daily_limit > 0),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.capacity_settings (id) values (1) on conflict (id) do nothing;
+
+create table if not exists public.blackout_dates (
+  day date primary key,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.capacity_settings enable row level security;
+alter table public.blackout_dates enable row level security;
+
+-- Customers need both to know which days they can book
+drop policy if exists capacity_settings_read on public.capacity_settings;
+create policy capacity_settings_read on public.capacity_settings
+  for select using (true);
+
+drop policy if exists capacity_settings_staff on public.capacity_settings;
+create policy capacity_settings_staff on public.capacity_settings
+  for all using (public.is_staff()) with check (public.is_staff());
+
+drop policy if exists blackout_dates_read on public.blackout_dates;
+create policy blackout_dates_read on public.blackout_dates
+  for select using (true);
+
+drop policy if exists blackout_dates_staff on public.blackout_dates;
+create policy blackout_dates_staff on public.blackout_dates
+  for all using (public.is_staff()) with check (public.is_staff());
+
+-- How much of a day one request takes: its vehicles, or each vehicle's driver for the whole job window
+create or replace function public.capacity_load(p_vehicle_count integer, p_window tsrange, p_unit text)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_unit = 'vehicles' then p_vehicle_count::numeric
+    else round(p_vehicle_count * extract(epoch from upper(p_window) - lower(p_window)) / 3600, 2)
+  end;
+$$;
+
+create or replace function public.day_booked_load(p_day date, p_unit text, p_exclude uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(public.capacity_load(
+    (select count(*)::integer from public.vehicles v where v.shuttle_request_id = r.id),
+    public.shuttle_request_job_window(r),
+    p_unit
+  )), 0)
+  from public.shuttle_requests r
+  where r.dropoff_day = p_day
+    and r.status in ('pending', 'confirmed', 'in_progress')
+    and r.id is distinct from p_exclude;
+$$;
+
+-- Raises 23514 on a blackout date and SF001 when the day can't take the load.
+-- p_exclude leaves the request being checked out of the booked total.
+create or replace function public.check_day_capacity(
+  p_day date,
+  p_vehicle_count integer,
+  p_window tsrange,
+  p_exclude uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.capacity_settings;
+  v_blackout public.blackout_dates;
+  v_remaining numeric;
+begin
+  -- Locking the settings row serialises checks, so two bookings can't both take the last spot
+  select * into v_settings from public.capacity_settings where id = 1 for update;
+  if v_settings.id is null then
+    v_settings.unit := 'vehicles';
+    v_settings.daily_limit := 8;
+  end if;
+
+  select * into v_blackout from public.blackout_dates where day = p_day;
+  if v_blackout.day is not null then
+    raise exception '%', format('Shuttles aren''t running on %s%s', p_day, coalesce(' (' || v_blackout.reason || ')', ''))
+      using errcode = '23514';
+  end if;
+
+  v_remaining := greatest(0, v_settings.daily_limit - public.day_booked_load(p_day, v_settings.unit, p_exclude));
+  if public.capacity_load(p_vehicle_count, p_window, v_settings.unit) > v_remaining then
+    if v_remaining > 0 then
+      raise exception '% only has room for % more %', p_day, v_remaining,
+        case when v_settings.unit = 'vehicles' then 'vehicles' else 'driver-hours' end
+        using errcode = 'SF001';
+    end if;
+    raise exception '% is fully booked', p_day using errcode = 'SF001';
+  end if;
+end;
+$$;
+
+-- Booked load against the limit for each day; guests can call it without seeing any request
+create or replace function public.day_availability(p_from date, p_to date)
+returns table (day date, booked numeric, daily_limit numeric, blackout boolean, reason text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.capacity_settings;
+begin
+  if p_to - p_from > 400 then
+    raise exception 'Availability is limited to 400 days at a time' using errcode = '22023';
+  end if;
+
+  select * into v_settings from public.capacity_settings s where s.id = 1;
+
+  return query
+    select
+      g.d::date,
+      public.day_booked_load(g.d::date, coalesce(v_settings.unit, 'vehicles'), null),
+      coalesce(v_settings.daily_limit, 8::numeric),
+      b.day is not null,
+      b.reason
+    from generate_series(p_from::timestamp, p_to::timestamp, interval '1 day') as g(d)
+    left join public.blackout_dates b on b.day = g.d::date
+    order by g.d;
+end;
+$$;
+
+-- Bookings for a full day fail, or join the waitlist when the customer asked to
+drop function if exists public.create_shuttle_request(jsonb, jsonb, jsonb);
+create function public.create_shuttle_request(
+  p_user jsonb,
+  p_request jsonb,
+  p_vehicles jsonb,
+  p_waitlist boolean default false
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(trim(p_user->>'email'));
+  v_user public.users;
+  v_request public.shuttle_requests;
+begin
+  if jsonb_array_length(p_vehicles) not between 1 and 10 then
+    raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+  end if;
+
+  select * into v_user from public.users where email = v_email;
+
+  if v_user.id is null then
+    insert into public.users (id, email, full_name, phone)
+    values (gen_random_uuid(), v_email, p_user->>'full_name', p_user->>'phone')
+    returning * into v_user;
+  elsif v_user.id = auth.uid() or not exists (select 1 from auth.users where id = v_user.id) then
+    update public.users
+    set full_name = p_user->>'full_name', phone = p_user->>'phone', updated_at = now()
+    where id = v_user.id;
+  end if;
+
+  v_request := jsonb_populate_record(null::public.shuttle_requests, p_request);
+  v_request.id := gen_random_uuid();
+  v_request.user_id := v_user.id;
+  v_request.reference := public.generate_request_reference();
+  -- Customers cannot book straight into a later status
+  v_request.status := 'pending';
+  v_request.created_at := now();
+  v_request.updated_at := now();
+
+  -- Decided before the insert so the initial status event records the right status
+  begin
+    perform public.check_day_capacity(
+      v_request.dropoff_day,
+      jsonb_array_length(p_vehicles),
+      public.shuttle_request_job_window(v_request),
+      null
+    );
+  exception when sqlstate 'SF001' then
+    if not p_waitlist then
+      raise;
+    end if;
+    v_request.status := 'waitlisted';
+  end;
+
+  insert into public.shuttle_requests select v_request.*;
+
+  insert into public.vehicles (shuttle_request_id, make, model, year, transmission)
+  select v_request.id, v->>'make', v->>'model', v->>'year', v->>'transmission'
+  from jsonb_array_elements(p_vehicles) as v;
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
+
+-- Offering a waitlisted request a spot, or accepting a pending one, needs room on the day
+create or replace function public.transition_shuttle_request(
+  p_id uuid,
+  p_from text,
+  p_to text,
+  p_actor text,
+  p_note text
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_request public.shuttle_requests;
+begin
+  select * into v_request from public.shuttle_requests where id = p_id;
+  if v_request.id is null then
+    raise exception 'Shuttle request % not found', p_id using errcode = 'P0002';
+  end if;
+
+  if p_to in ('pending', 'confirmed') then
+    perform public.check_day_capacity(
+      v_request.dropoff_day,
+      (select count(*)::integer from public.vehicles where shuttle_request_id = p_id),
+      public.shuttle_request_job_window(v_request),
+      p_id
+    );
+  end if;
+
+  update public.shuttle_requests
+  set status = p_to, updated_at = now()
+  where id = p_id and status = p_from;
+
+  if not found then
+    raise exception 'Shuttle request % is no longer %', p_id, p_from using errcode = '40001';
+  end if;
+
+  insert into public.request_status_events (shuttle_request_id, from_status, to_status, actor, note)
+  values (p_id, p_from, p_to, p_actor, p_note);
+end;
+$$;
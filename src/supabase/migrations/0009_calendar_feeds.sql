@@ -0,0 +1,111 @@
+-- iCalendar subscription feeds of confirmed jobs.
+-- Each feed is a secret token; calendar apps fetch
+--   GET /rest/v1/rpc/calendar_feed?token=<token>&apikey=<anon key>
+-- and PostgREST serves the result as text/calendar because of the return
+-- type's name. Events match toICalendar in lib/ical.ts, except that lines are
+-- not folded at 75 octets (calendar apps accept long lines).
+
+create table if not exists public.calendar_feeds (
+  id uuid primary key default gen_random_uuid(),
+  token text not null unique default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  label text not null,
+  driver_id uuid references public.drivers (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+drop policy if exists calendar_feeds_staff on public.calendar_feeds;
+create policy calendar_feeds_staff on public.calendar_feeds
+  for all using (public.is_staff()) with check (public.is_staff());
+
+do $$
+begin
+  create domain "text/calendar" as text;
+exception when duplicate_object then null;
+end;
+$$;
+
+create or replace function public.ical_escape(p_value text)
+returns text
+language sql
+immutable
+as $$
+  select replace(replace(replace(replace(replace(coalesce(p_value, ''),
+    '\', '\\'), ';', '\;'), ',', '\,'), E'\r\n', E'\n'), E'\n', '\n');
+$$;
+
+create or replace function public.calendar_feed(token text)
+returns "text/calendar"
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_feed public.calendar_feeds;
+  v_events text;
+begin
+  select * into v_feed from public.calendar_feeds f where f.token = calendar_feed.token;
+  if v_feed.id is null then
+    raise exception 'Unknown calendar feed' using errcode = '42501';
+  end if;
+
+  select string_agg(concat_ws(E'\r\n',
+    'BEGIN:VEVENT',
+    'UID:' || r.id || '@shuttle-forge',
+    'DTSTAMP:' || to_char(now() at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"'),
+    'DTSTART:' || to_char(r.dropoff_day + r.arrival_time::time, 'YYYYMMDD"T"HH24MI"00"'),
+    'DTEND:' || to_char(
+      r.dropoff_day + r.arrival_time::time + make_interval(mins => coalesce((r.quote->>'durationMinutes')::int, 60)),
+      'YYYYMMDD"T"HH24MI"00"'
+    ),
+    'SUMMARY:' || public.ical_escape(format('%s · %s vehicle%s to %s',
+      r.reference, v.vehicle_count, case when v.vehicle_count = 1 then '' else 's' end, r.dropoff_location_name)),
+    'LOCATION:' || public.ical_escape(r.parking_location_name),
+    'DESCRIPTION:' || public.ical_escape(concat_ws(E'\n',
+      format('Customer: %s, %s', u.full_name, u.phone),
+      'From: ' || r.parking_location_name,
+      'To: ' || r.dropoff_location_name,
+      'Vehicles:',
+      v.vehicle_lines,
+      'Notes: ' || nullif(r.notes, '')
+    )),
+    'STATUS:CONFIRMED',
+    case when r.parking_lat is not null and r.parking_lng is not null
+      then 'GEO:' || r.parking_lat || ';' || r.parking_lng end,
+    'END:VEVENT'
+  ), E'\r\n' order by r.dropoff_day, r.arrival_time)
+  into v_events
+  from public.shuttle_requests r
+  join public.users u on u.id = r.user_id
+  cross join lateral (
+    select
+      count(*) as vehicle_count,
+      string_agg(format('- %s %s %s (%s), driver: %s',
+        vh.year, vh.make, vh.model, initcap(vh.transmission), coalesce(d.full_name, 'unassigned')
+      ), E'\n' order by vh.created_at) as vehicle_lines
+    from public.vehicles vh
+    left join public.drivers d on d.id = vh.driver_id
+    where vh.shuttle_request_id = r.id
+  ) v
+  where r.status in ('confirmed', 'in_progress', 'completed')
+    and (v_feed.driver_id is null or exists (
+      select 1 from public.vehicles dv where dv.shuttle_request_id = r.id and dv.driver_id = v_feed.driver_id
+    ));
+
+  return concat_ws(E'\r\n',
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Shuttle Forge//Shuttle Jobs//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:' || public.ical_escape(v_feed.label),
+    v_events,
+    'END:VCALENDAR'
+  ) || E'\r\n';
+end;
+$$;
+
+-- Calendar apps call it without signing in; the token is the credential
+grant execute on function public.calendar_feed(text) to anon, authenticated;
@@ -0,0 +1,155 @@
+-- Customers follow, change and cancel their requests without an account by
+-- giving the reference number and the email they booked with. The pair is the
+-- credential, so these functions bypass RLS; a mismatch on either looks the
+-- same as an unknown reference. Mirrors the tracked methods in
+-- lib/data/shuttleRequests.local.ts.
+
+create or replace function public.find_tracked_request(p_reference text, p_email text)
+returns public.shuttle_requests
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.*
+  from public.shuttle_requests r
+  join public.users u on u.id = r.user_id
+  where r.reference = upper(trim(p_reference))
+    and u.email = lower(trim(p_email));
+$$;
+
+-- Not callable directly: it would let anyone probe references without the checks below
+revoke execute on function public.find_tracked_request(text, text) from public, anon, authenticated;
+
+create or replace function public.track_shuttle_request(p_reference text, p_email text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.find_tracked_request(p_reference, p_email);
+begin
+  if v_request.id is null then
+    return null;
+  end if;
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
+
+-- Locks the request and checks the customer may still change it
+create or replace function public.lock_tracked_request(p_reference text, p_email text)
+returns public.shuttle_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.find_tracked_request(p_reference, p_email);
+begin
+  if v_request.id is null then
+    raise exception 'No request % was booked with %', p_reference, p_email using errcode = 'P0002';
+  end if;
+
+  select * into v_request from public.shuttle_requests where id = v_request.id for update;
+  if v_request.status <> 'pending' then
+    raise exception 'Request % is % and can no longer be changed', v_request.reference, v_request.status
+      using errcode = '40001';
+  end if;
+  return v_request;
+end;
+$$;
+
+revoke execute on function public.lock_tracked_request(text, text) from public, anon, authenticated;
+
+-- Only trip details change; vehicles are replaced without drivers, and the
+-- request must still fit on its (possibly new) day
+create or replace function public.update_tracked_shuttle_request(
+  p_reference text,
+  p_email text,
+  p_request jsonb,
+  p_vehicles jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.lock_tracked_request(p_reference, p_email);
+begin
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    quote = case when p_request ? 'quote' then p_request->'quote' else r.quote end,
+    updated_at = now()
+  where r.id = v_request.id
+  returning * into v_request;
+
+  if p_vehicles is not null then
+    if jsonb_array_length(p_vehicles) not between 1 and 10 then
+      raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+    end if;
+
+    delete from public.vehicles where shuttle_request_id = v_request.id;
+
+    insert into public.vehicles (shuttle_request_id, make, model, year, transmission)
+    select v_request.id, v->>'make', v->>'model', v->>'year', v->>'transmission'
+    from jsonb_array_elements(p_vehicles) as v;
+  end if;
+
+  perform public.check_day_capacity(
+    v_request.dropoff_day,
+    (select count(*)::integer from public.vehicles where shuttle_request_id = v_request.id),
+    public.shuttle_request_job_window(v_request),
+    v_request.id
+  );
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
+
+create or replace function public.cancel_tracked_shuttle_request(
+  p_reference text,
+  p_email text,
+  p_from text,
+  p_note text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.lock_tracked_request(p_reference, p_email);
+begin
+  if v_request.status <> p_from then
+    raise exception 'Shuttle request % is no longer %', v_request.reference, p_from using errcode = '40001';
+  end if;
+  if nullif(trim(p_note), '') is null then
+    raise exception 'A reason is required to mark a request cancelled' using errcode = '23514';
+  end if;
+
+  update public.shuttle_requests
+  set status = 'cancelled', updated_at = now()
+  where id = v_request.id;
+
+  insert into public.request_status_events (shuttle_request_id, from_status, to_status, actor, note)
+  values (v_request.id, p_from, 'cancelled', lower(trim(p_email)), trim(p_note));
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
+
+grant execute on function public.track_shuttle_request(text, text) to anon, authenticated;
+grant execute on function public.update_tracked_shuttle_request(text, text, jsonb, jsonb) to anon, authenticated;
+grant execute on function public.cancel_tracked_shuttle_request(text, text, text, text) to anon, authenticated;
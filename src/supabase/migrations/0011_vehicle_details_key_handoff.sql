@@ -0,0 +1,311 @@
+-- Vehicle details drivers need to find the car, and the key handoff: where the
+-- keys are, where they go back, a lockbox code only staff can read, and the
+-- driver's confirmation of each step. Mirrors lib/data/shuttleRequests.local.ts.
+
+alter table public.vehicles
+  add column if not exists license_plate text,
+  add column if not exists color text,
+  add column if not exists drivetrain text not null default '2wd' check (drivetrain in ('2wd', 'awd', '4wd')),
+  add column if not exists equipment_notes text,
+  add column if not exists key_location text,
+  add column if not exists key_return_location text,
+  add column if not exists key_picked_up_at timestamptz,
+  add column if not exists key_picked_up_by text,
+  add column if not exists key_dropped_off_at timestamptz,
+  add column if not exists key_dropped_off_by text;
+
+-- Customers can read their own vehicles, so the code can't live on them
+create table if not exists public.vehicle_lockbox_codes (
+  vehicle_id uuid primary key references public.vehicles (id) on delete cascade,
+  code text not null check (length(code) between 1 and 20),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.vehicle_lockbox_codes enable row level security;
+
+drop policy if exists vehicle_lockbox_codes_staff on public.vehicle_lockbox_codes;
+create policy vehicle_lockbox_codes_staff on public.vehicle_lockbox_codes
+  for all using (public.is_staff()) with check (public.is_staff());
+
+-- Replaces a request's vehicles with p_vehicles. One whose id is already on
+-- the request is updated in place, keeping its key handoffs and lockbox code;
+-- the rest are added and any left out removed. Drivers come from p_vehicles
+-- only when p_with_drivers is set, otherwise existing vehicles keep theirs.
+-- A lockbox_code key sets the code (empty clears it); leaving it out keeps it.
+create or replace function public.replace_request_vehicles(
+  p_request_id uuid,
+  p_vehicles jsonb,
+  p_with_drivers boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v jsonb;
+  v_id uuid;
+begin
+  if jsonb_array_length(p_vehicles) not between 1 and 10 then
+    raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+  end if;
+
+  delete from public.vehicles
+  where shuttle_request_id = p_request_id
+    and id::text not in (select coalesce(e->>'id', '') from jsonb_array_elements(p_vehicles) as e);
+
+  for v in select * from jsonb_array_elements(p_vehicles) loop
+    select id into v_id
+    from public.vehicles
+    where shuttle_request_id = p_request_id and id::text = v->>'id';
+
+    if v_id is null then
+      insert into public.vehicles (
+        shuttle_request_id, make, model, year, transmission, license_plate, color, drivetrain,
+        equipment_notes, key_location, key_return_location, driver_id
+      )
+      values (
+        p_request_id, v->>'make', v->>'model', v->>'year', v->>'transmission',
+        v->>'license_plate', v->>'color', coalesce(v->>'drivetrain', '2wd'),
+        v->>'equipment_notes', v->>'key_location', v->>'key_return_location',
+        case when p_with_drivers then (v->>'driver_id')::uuid end
+      )
+      returning id into v_id;
+    else
+      update public.vehicles
+      set
+        make = v->>'make',
+        model = v->>'model',
+        year = v->>'year',
+        transmission = v->>'transmission',
+        license_plate = v->>'license_plate',
+        color = v->>'color',
+        drivetrain = coalesce(v->>'drivetrain', '2wd'),
+        equipment_notes = v->>'equipment_notes',
+        key_location = v->>'key_location',
+        key_return_location = v->>'key_return_location',
+        driver_id = case when p_with_drivers then (v->>'driver_id')::uuid else driver_id end
+      where id = v_id;
+    end if;
+
+    if v ? 'lockbox_code' then
+      if nullif(trim(v->>'lockbox_code'), '') is null then
+        delete from public.vehicle_lockbox_codes where vehicle_id = v_id;
+      else
+        insert into public.vehicle_lockbox_codes (vehicle_id, code)
+        values (v_id, trim(v->>'lockbox_code'))
+        on conflict (vehicle_id) do update set code = excluded.code, updated_at = now();
+      end if;
+    end if;
+  end loop;
+end;
+$$;
+
+-- Only the functions below may call it; they do their own checks first
+revoke execute on function public.replace_request_vehicles(uuid, jsonb, boolean) from public, anon, authenticated;
+
+-- Same as 0008, with vehicles added through replace_request_vehicles
+create or replace function public.create_shuttle_request(
+  p_user jsonb,
+  p_request jsonb,
+  p_vehicles jsonb,
+  p_waitlist boolean default false
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(trim(p_user->>'email'));
+  v_user public.users;
+  v_request public.shuttle_requests;
+begin
+  if jsonb_array_length(p_vehicles) not between 1 and 10 then
+    raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+  end if;
+
+  select * into v_user from public.users where email = v_email;
+
+  if v_user.id is null then
+    insert into public.users (id, email, full_name, phone)
+    values (gen_random_uuid(), v_email, p_user->>'full_name', p_user->>'phone')
+    returning * into v_user;
+  elsif v_user.id = auth.uid() or not exists (select 1 from auth.users where id = v_user.id) then
+    update public.users
+    set full_name = p_user->>'full_name', phone = p_user->>'phone', updated_at = now()
+    where id = v_user.id;
+  end if;
+
+  v_request := jsonb_populate_record(null::public.shuttle_requests, p_request);
+  v_request.id := gen_random_uuid();
+  v_request.user_id := v_user.id;
+  v_request.reference := public.generate_request_reference();
+  -- Customers cannot book straight into a later status
+  v_request.status := 'pending';
+  v_request.created_at := now();
+  v_request.updated_at := now();
+
+  -- Decided before the insert so the initial status event records the right status
+  begin
+    perform public.check_day_capacity(
+      v_request.dropoff_day,
+      jsonb_array_length(p_vehicles),
+      public.shuttle_request_job_window(v_request),
+      null
+    );
+  exception when sqlstate 'SF001' then
+    if not p_waitlist then
+      raise;
+    end if;
+    v_request.status := 'waitlisted';
+  end;
+
+  insert into public.shuttle_requests select v_request.*;
+
+  -- Customers can't pick their own drivers
+  perform public.replace_request_vehicles(v_request.id, p_vehicles, false);
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
+
+-- Now runs as definer to reach replace_request_vehicles, so it checks for staff itself
+create or replace function public.update_shuttle_request(p_id uuid, p_request jsonb, p_vehicles jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_staff() then
+    raise exception 'Only staff can change a shuttle request' using errcode = '42501';
+  end if;
+
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    quote = case when p_request ? 'quote' then p_request->'quote' else r.quote end,
+    updated_at = now()
+  where r.id = p_id;
+
+  if not found then
+    raise exception 'Shuttle request % not found', p_id using errcode = 'P0002';
+  end if;
+
+  if p_vehicles is not null then
+    perform public.replace_request_vehicles(p_id, p_vehicles, true);
+  end if;
+end;
+$$;
+
+-- Same as 0010, with vehicles replaced through replace_request_vehicles
+create or replace function public.update_tracked_shuttle_request(
+  p_reference text,
+  p_email text,
+  p_request jsonb,
+  p_vehicles jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.lock_tracked_request(p_reference, p_email);
+begin
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    quote = case when p_request ? 'quote' then p_request->'quote' else r.quote end,
+    updated_at = now()
+  where r.id = v_request.id
+  returning * into v_request;
+
+  -- Customers can't pick their own drivers
+  if p_vehicles is not null then
+    perform public.replace_request_vehicles(v_request.id, p_vehicles, false);
+  end if;
+
+  perform public.check_day_capacity(
+    v_request.dropoff_day,
+    (select count(*)::integer from public.vehicles where shuttle_request_id = v_request.id),
+    public.shuttle_request_job_window(v_request),
+    v_request.id
+  );
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
+
+-- Stamps one step of a vehicle's key handoff. Bumps the request's updated_at
+-- so Realtime subscribers hear about it.
+create or replace function public.confirm_key_handoff(
+  p_request_id uuid,
+  p_vehicle_id uuid,
+  p_step text,
+  p_actor text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_request public.shuttle_requests;
+  v_vehicle public.vehicles;
+begin
+  if not public.is_staff() then
+    raise exception 'Only staff can confirm a key handoff' using errcode = '42501';
+  end if;
+
+  select * into v_request from public.shuttle_requests where id = p_request_id for update;
+  select * into v_vehicle from public.vehicles where id = p_vehicle_id and shuttle_request_id = p_request_id;
+  if v_request.id is null or v_vehicle.id is null then
+    raise exception 'Vehicle % on shuttle request % not found', p_vehicle_id, p_request_id using errcode = 'P0002';
+  end if;
+
+  if v_request.status not in ('confirmed', 'in_progress') then
+    raise exception 'Keys can''t be handed over on a % request', v_request.status using errcode = '23514';
+  end if;
+
+  if p_step = 'pickup' then
+    if v_vehicle.key_picked_up_at is not null then
+      raise exception 'Keys picked up was already confirmed by %', v_vehicle.key_picked_up_by using errcode = '40001';
+    end if;
+    update public.vehicles
+    set key_picked_up_at = now(), key_picked_up_by = trim(p_actor)
+    where id = p_vehicle_id;
+  elsif p_step = 'dropoff' then
+    if v_vehicle.key_dropped_off_at is not null then
+      raise exception 'Keys dropped off was already confirmed by %', v_vehicle.key_dropped_off_by using errcode = '40001';
+    end if;
+    if v_vehicle.key_picked_up_at is null then
+      raise exception 'Confirm the key pickup first' using errcode = '23514';
+    end if;
+    update public.vehicles
+    set key_dropped_off_at = now(), key_dropped_off_by = trim(p_actor)
+    where id = p_vehicle_id;
+  else
+    raise exception 'Unknown key handoff step %', p_step using errcode = '23514';
+  end if;
+
+  update public.shuttle_requests set updated_at = now() where id = p_request_id;
+
+  return public.shuttle_request_record(p_request_id);
+end;
+$$;
@@ -0,0 +1,72 @@
+-- Search, filtering, sorting and paging for the owner dashboard, so it no
+-- longer loads every request. Mirrors search() in lib/data/shuttleRequests.local.ts.
+
+create index if not exists shuttle_requests_dropoff_day_idx on public.shuttle_requests (dropoff_day);
+create index if not exists shuttle_requests_created_at_idx on public.shuttle_requests (created_at desc);
+
+-- Runs as the caller, so row level security still decides which requests
+-- are searched: staff see them all, customers only their own.
+create or replace function public.search_shuttle_requests(
+  p_query text,
+  p_statuses text[],
+  p_from date,
+  p_to date,
+  p_sort text,
+  p_ascending boolean,
+  p_limit integer,
+  p_offset integer
+)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  with matching as (
+    select
+      r.*,
+      (select count(*) from public.vehicles v where v.shuttle_request_id = r.id) as vehicle_count
+    from public.shuttle_requests r
+    left join public.users u on u.id = r.user_id
+    where (p_from is null or r.dropoff_day >= p_from)
+      and (p_to is null or r.dropoff_day <= p_to)
+      and (
+        coalesce(trim(p_query), '') = ''
+        or u.full_name ilike '%' || trim(p_query) || '%'
+        or u.email ilike '%' || trim(p_query) || '%'
+        or r.parking_location_name ilike '%' || trim(p_query) || '%'
+        or r.dropoff_location_name ilike '%' || trim(p_query) || '%'
+        or r.reference ilike '%' || trim(p_query) || '%'
+        -- Phone numbers match on digits alone, so formatting doesn't matter
+        or (
+          length(regexp_replace(p_query, '\D', '', 'g')) >= 3
+          and regexp_replace(coalesce(u.phone, ''), '\D', '', 'g') like '%' || regexp_replace(p_query, '\D', '', 'g') || '%'
+        )
+      )
+  ),
+  filtered as (
+    select * from matching where p_statuses is null or status = any (p_statuses)
+  ),
+  page as (
+    select id, row_number() over (
+      order by
+        case when p_sort = 'created_at' and p_ascending then created_at end asc,
+        case when p_sort = 'created_at' and not p_ascending then created_at end desc,
+        case when p_sort = 'dropoff_day' and p_ascending then dropoff_day::text || ' ' || arrival_time end asc,
+        case when p_sort = 'dropoff_day' and not p_ascending then dropoff_day::text || ' ' || arrival_time end desc,
+        case when p_sort = 'vehicle_count' and p_ascending then vehicle_count end asc,
+        case when p_sort = 'vehicle_count' and not p_ascending then vehicle_count end desc,
+        created_at desc
+    ) as position
+    from filtered
+    order by position
+    limit greatest(p_limit, 0)
+    offset greatest(p_offset, 0)
+  )
+  select jsonb_build_object(
+    'records', coalesce((select jsonb_agg(public.shuttle_request_record(id) order by position) from page), '[]'::jsonb),
+    'total', (select count(*) from filtered),
+    'status_counts', coalesce((select jsonb_object_agg(status, n) from (select status, count(*) as n from matching group by status) counts), '{}'::jsonb)
+  );
+$$;
+
+grant execute on function public.search_shuttle_requests(text, text[], date, date, text, boolean, integer, integer) to authenticated;
@@ -0,0 +1,46 @@
+-- Automatic request rules and their log.
+-- The rules themselves run in the app while staff have it open (lib/rules),
+-- through the same transition_shuttle_request function as the dashboard, so
+-- RLS and the lifecycle apply as usual. This stores whether each rule is on,
+-- its settings, and a log of everything the rules did. The defaults match
+-- config/scheduling.ts; the checks match lib/domain/requestRules.ts.
+
+create table if not exists public.request_rule_settings (
+  id smallint primary key default 1 check (id = 1),
+  auto_complete_enabled boolean not null default true,
+  auto_complete_grace_days integer not null default 1 check (auto_complete_grace_days between 1 and 30),
+  expire_pending_enabled boolean not null default true,
+  flag_unassigned_enabled boolean not null default true,
+  flag_unassigned_days integer not null default 2 check (flag_unassigned_days between 0 and 30),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.request_rule_settings (id) values (1) on conflict (id) do nothing;
+
+create table if not exists public.request_rule_actions (
+  id uuid primary key default gen_random_uuid(),
+  rule text not null check (rule in ('auto_complete', 'expire_pending', 'flag_unassigned')),
+  shuttle_request_id uuid not null references public.shuttle_requests (id) on delete cascade,
+  -- Kept with the entry so the log reads without a join
+  reference text not null,
+  message text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_rule_actions_created_at_idx on public.request_rule_actions (created_at desc);
+
+alter table public.request_rule_settings enable row level security;
+alter table public.request_rule_actions enable row level security;
+
+drop policy if exists request_rule_settings_staff on public.request_rule_settings;
+create policy request_rule_settings_staff on public.request_rule_settings
+  for all using (public.is_staff()) with check (public.is_staff());
+
+-- Entries are only ever added; nobody edits the log
+drop policy if exists request_rule_actions_read on public.request_rule_actions;
+create policy request_rule_actions_read on public.request_rule_actions
+  for select using (public.is_staff());
+
+drop policy if exists request_rule_actions_insert on public.request_rule_actions;
+create policy request_rule_actions_insert on public.request_rule_actions
+  for insert with check (public.is_staff());
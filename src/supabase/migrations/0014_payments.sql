@@ -0,0 +1,162 @@
+-- Online deposits and payments against a request's quote, and the invoice
+-- issued for each successful one. The checks in record_shuttle_request_payment
+-- mirror lib/data/payments.local.ts; the deposit sizing is the app's
+-- (lib/domain/payments.ts), the database only makes sure nobody overpays.
+
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  shuttle_request_id uuid not null references public.shuttle_requests (id) on delete cascade,
+  kind text not null check (kind in ('deposit', 'full')),
+  status text not null check (status in ('succeeded', 'failed')),
+  amount_cents integer not null check (amount_cents > 0),
+  currency text not null,
+  provider text not null,
+  provider_reference text,
+  card_last4 text check (card_last4 ~ '^\d{4}$'),
+  failure_message text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists payments_shuttle_request_id_idx on public.payments (shuttle_request_id);
+
+create sequence if not exists public.invoice_number_seq;
+
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  number text not null unique default 'INV-' || lpad(nextval('public.invoice_number_seq')::text, 6, '0'),
+  shuttle_request_id uuid not null references public.shuttle_requests (id) on delete cascade,
+  payment_id uuid not null unique references public.payments (id) on delete cascade,
+  currency text not null,
+  lines jsonb not null,
+  total_cents integer not null,
+  paid_cents integer not null,
+  balance_cents integer not null check (balance_cents >= 0),
+  issued_at timestamptz not null default now()
+);
+
+create index if not exists invoices_shuttle_request_id_idx on public.invoices (shuttle_request_id);
+
+alter table public.payments enable row level security;
+alter table public.invoices enable row level security;
+
+-- Read-only through the API: payments are only ever recorded by the function below
+drop policy if exists payments_select on public.payments;
+create policy payments_select on public.payments
+  for select using (
+    public.is_staff() or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists invoices_select on public.invoices;
+create policy invoices_select on public.invoices
+  for select using (
+    public.is_staff() or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+-- Now with the request's payments as well
+create or replace function public.shuttle_request_record(p_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(r)
+    || jsonb_build_object(
+      'vehicles', coalesce((select jsonb_agg(to_jsonb(v)) from public.vehicles v where v.shuttle_request_id = r.id), '[]'::jsonb),
+      'user', (select to_jsonb(u) from public.users u where u.id = r.user_id),
+      'status_events', coalesce((select jsonb_agg(to_jsonb(e)) from public.request_status_events e where e.shuttle_request_id = r.id), '[]'::jsonb),
+      'payments', coalesce((select jsonb_agg(to_jsonb(p)) from public.payments p where p.shuttle_request_id = r.id), '[]'::jsonb)
+    )
+  from public.shuttle_requests r
+  where r.id = p_id;
+$$;
+
+-- Guests pay too, so this checks the reference and booking email in place of
+-- RLS, like the other *_tracked_* functions. It trusts the caller's word that
+-- the provider took the money, which is fine for the fake provider; with a
+-- real one, have the provider's webhook call this from the server (with the
+-- service role) and revoke it from anon and authenticated.
+create or replace function public.record_shuttle_request_payment(p_reference text, p_email text, p_payment jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.find_tracked_request(p_reference, p_email);
+  v_payment public.payments;
+  v_invoice public.invoices;
+  v_total integer;
+  v_paid integer;
+begin
+  if v_request.id is null then
+    raise exception 'No request % was booked with %', p_reference, p_email using errcode = 'P0002';
+  end if;
+
+  -- Locked so two payments at once can't both fit under the balance
+  select * into v_request from public.shuttle_requests where id = v_request.id for update;
+  if v_request.quote is null then
+    raise exception 'Request % has no quote to pay against', v_request.reference using errcode = '23514';
+  end if;
+  if v_request.status not in ('pending', 'confirmed', 'in_progress', 'completed') then
+    raise exception 'Request % is % and can''t take payments', v_request.reference, v_request.status
+      using errcode = '40001';
+  end if;
+
+  v_total := (v_request.quote->>'totalCents')::integer;
+  select coalesce(sum(amount_cents), 0) into v_paid
+  from public.payments
+  where shuttle_request_id = v_request.id and status = 'succeeded';
+
+  if p_payment->>'status' = 'succeeded' and (p_payment->>'amount_cents')::integer > v_total - v_paid then
+    raise exception 'Request % only has % % left to pay',
+      v_request.reference, to_char((v_total - v_paid) / 100.0, 'FM999999990.00'), v_request.quote->>'currency'
+      using errcode = '23514';
+  end if;
+
+  insert into public.payments (
+    id, shuttle_request_id, kind, status, amount_cents, currency, provider,
+    provider_reference, card_last4, failure_message
+  )
+  values (
+    coalesce((p_payment->>'id')::uuid, gen_random_uuid()),
+    v_request.id,
+    p_payment->>'kind',
+    p_payment->>'status',
+    (p_payment->>'amount_cents')::integer,
+    p_payment->>'currency',
+    p_payment->>'provider',
+    p_payment->>'provider_reference',
+    p_payment->>'card_last4',
+    p_payment->>'failure_message'
+  )
+  returning * into v_payment;
+
+  update public.shuttle_requests set updated_at = now() where id = v_request.id;
+
+  if v_payment.status = 'succeeded' then
+    insert into public.invoices (shuttle_request_id, payment_id, currency, lines, total_cents, paid_cents, balance_cents)
+    values (
+      v_request.id,
+      v_payment.id,
+      v_request.quote->>'currency',
+      v_request.quote->'lines',
+      v_total,
+      v_paid + v_payment.amount_cents,
+      v_total - v_paid - v_payment.amount_cents
+    )
+    returning * into v_invoice;
+  end if;
+
+  return jsonb_build_object(
+    'payment', to_jsonb(v_payment),
+    'invoice', case when v_invoice.id is null then null else to_jsonb(v_invoice) end
+  );
+end;
+$$;
+
+grant execute on function public.record_shuttle_request_payment(text, text, jsonb) to anon, authenticated;
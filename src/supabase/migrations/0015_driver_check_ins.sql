@@ -0,0 +1,114 @@
+-- Drivers marking a job picked up and delivered from the driver view, with
+-- where their device was at the time. Each step moves the job along through
+-- transition_shuttle_request, so it lands in the status history like any
+-- other change. Mirrors checkIn() in lib/data/shuttleRequests.local.ts.
+
+create table if not exists public.job_check_ins (
+  id uuid primary key default gen_random_uuid(),
+  shuttle_request_id uuid not null references public.shuttle_requests (id) on delete cascade,
+  step text not null check (step in ('picked_up', 'delivered')),
+  -- Kept when the driver is later removed; actor still says who it was
+  driver_id uuid references public.drivers (id) on delete set null,
+  actor text not null check (length(trim(actor)) > 0),
+  lat double precision,
+  lng double precision,
+  accuracy_m double precision,
+  created_at timestamptz not null default now(),
+  unique (shuttle_request_id, step)
+);
+
+alter table public.job_check_ins enable row level security;
+
+-- Customers see their job's progress; only staff (drivers included) record it
+drop policy if exists job_check_ins_select on public.job_check_ins;
+create policy job_check_ins_select on public.job_check_ins
+  for select using (
+    public.is_staff() or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists job_check_ins_insert on public.job_check_ins;
+create policy job_check_ins_insert on public.job_check_ins
+  for insert with check (public.is_staff());
+
+-- Now with the request's check-ins as well
+create or replace function public.shuttle_request_record(p_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(r)
+    || jsonb_build_object(
+      'vehicles', coalesce((select jsonb_agg(to_jsonb(v)) from public.vehicles v where v.shuttle_request_id = r.id), '[]'::jsonb),
+      'user', (select to_jsonb(u) from public.users u where u.id = r.user_id),
+      'status_events', coalesce((select jsonb_agg(to_jsonb(e)) from public.request_status_events e where e.shuttle_request_id = r.id), '[]'::jsonb),
+      'payments', coalesce((select jsonb_agg(to_jsonb(p)) from public.payments p where p.shuttle_request_id = r.id), '[]'::jsonb),
+      'check_ins', coalesce((select jsonb_agg(to_jsonb(c)) from public.job_check_ins c where c.shuttle_request_id = r.id), '[]'::jsonb)
+    )
+  from public.shuttle_requests r
+  where r.id = p_id;
+$$;
+
+-- Picking up a job someone already started only records the check-in
+create or replace function public.check_in_shuttle_request(
+  p_request_id uuid,
+  p_from text,
+  p_step text,
+  p_driver_id uuid,
+  p_actor text,
+  p_lat double precision,
+  p_lng double precision,
+  p_accuracy_m double precision
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_request public.shuttle_requests;
+  v_done public.job_check_ins;
+  v_to text := case p_step when 'picked_up' then 'in_progress' when 'delivered' then 'completed' end;
+begin
+  if not public.is_staff() then
+    raise exception 'Only staff can check in a job' using errcode = '42501';
+  end if;
+  if v_to is null then
+    raise exception 'Unknown check-in step %', p_step using errcode = '23514';
+  end if;
+
+  select * into v_request from public.shuttle_requests where id = p_request_id for update;
+  if v_request.id is null then
+    raise exception 'Shuttle request % not found', p_request_id using errcode = 'P0002';
+  end if;
+  if v_request.status <> p_from then
+    raise exception 'Shuttle request % is %, not %', p_request_id, v_request.status, p_from using errcode = '40001';
+  end if;
+
+  select * into v_done from public.job_check_ins where shuttle_request_id = p_request_id and step = p_step;
+  if v_done.id is not null then
+    raise exception '% was already recorded by %',
+      case p_step when 'picked_up' then 'Picked up' else 'Delivered' end, v_done.actor
+      using errcode = '40001';
+  end if;
+  if v_request.status not in ('confirmed', 'in_progress') then
+    raise exception 'A % job can''t be checked in', v_request.status using errcode = '23514';
+  end if;
+  if p_step = 'delivered'
+    and not exists (select 1 from public.job_check_ins where shuttle_request_id = p_request_id and step = 'picked_up') then
+    raise exception 'Mark the job picked up first' using errcode = '23514';
+  end if;
+
+  insert into public.job_check_ins (shuttle_request_id, step, driver_id, actor, lat, lng, accuracy_m)
+  values (p_request_id, p_step, p_driver_id, trim(p_actor), p_lat, p_lng, p_accuracy_m);
+
+  if v_request.status <> v_to then
+    perform public.transition_shuttle_request(p_request_id, p_from, v_to, trim(p_actor), null);
+  else
+    update public.shuttle_requests set updated_at = now() where id = p_request_id;
+  end if;
+
+  return public.shuttle_request_record(p_request_id);
+end;
+$$;
+
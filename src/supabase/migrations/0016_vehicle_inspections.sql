@@ -0,0 +1,107 @@
+-- The driver's condition report on each vehicle at pickup and at delivery:
+-- odometer, fuel, marked damage, notes and photos. Photos live in the private
+-- vehicle-inspections bucket under <request id>/<vehicle id>/<stage>/.
+-- Mirrors lib/data/inspections.local.ts.
+
+create table if not exists public.vehicle_inspections (
+  id uuid primary key default gen_random_uuid(),
+  vehicle_id uuid not null references public.vehicles (id) on delete cascade,
+  shuttle_request_id uuid not null references public.shuttle_requests (id) on delete cascade,
+  stage text not null check (stage in ('pickup', 'delivery')),
+  odometer integer not null check (odometer >= 0),
+  fuel_eighths smallint not null check (fuel_eighths between 0 and 8),
+  damage jsonb not null default '[]'::jsonb check (jsonb_typeof(damage) = 'array'),
+  notes text,
+  photos text[] not null default '{}',
+  inspector text not null check (length(trim(inspector)) > 0),
+  created_at timestamptz not null default now(),
+  unique (vehicle_id, stage)
+);
+
+create index if not exists vehicle_inspections_request_idx on public.vehicle_inspections (shuttle_request_id);
+
+create or replace function public.check_vehicle_inspection()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_status text;
+  v_done public.vehicle_inspections;
+  v_pickup public.vehicle_inspections;
+begin
+  select r.status into v_status
+  from public.vehicles v
+  join public.shuttle_requests r on r.id = v.shuttle_request_id
+  where v.id = new.vehicle_id and r.id = new.shuttle_request_id;
+  if v_status is null then
+    raise exception 'Vehicle % is not on request %', new.vehicle_id, new.shuttle_request_id using errcode = 'P0002';
+  end if;
+  if v_status not in ('confirmed', 'in_progress', 'completed') then
+    raise exception 'A % job can''t be inspected', v_status using errcode = '23514';
+  end if;
+
+  -- Reported as a conflict rather than the unique violation it would become
+  select * into v_done from public.vehicle_inspections where vehicle_id = new.vehicle_id and stage = new.stage;
+  if v_done.id is not null then
+    raise exception 'This vehicle''s % inspection was already recorded by %', new.stage, v_done.inspector
+      using errcode = '40001';
+  end if;
+
+  select * into v_pickup from public.vehicle_inspections where vehicle_id = new.vehicle_id and stage = 'pickup';
+  if new.stage = 'delivery' and v_pickup.id is null then
+    raise exception 'Record the pickup inspection first' using errcode = '23514';
+  end if;
+  if v_pickup.id is not null and new.odometer < v_pickup.odometer then
+    raise exception 'The odometer can''t be lower than the % recorded at pickup', v_pickup.odometer using errcode = '23514';
+  end if;
+
+  new.inspector := trim(new.inspector);
+  return new;
+end;
+$$;
+
+drop trigger if exists vehicle_inspections_check on public.vehicle_inspections;
+create trigger vehicle_inspections_check
+  before insert on public.vehicle_inspections
+  for each row execute function public.check_vehicle_inspection();
+
+alter table public.vehicle_inspections enable row level security;
+
+-- Customers see the reports on their own vehicles; only staff (drivers included) record them
+drop policy if exists vehicle_inspections_select on public.vehicle_inspections;
+create policy vehicle_inspections_select on public.vehicle_inspections
+  for select using (
+    public.is_staff() or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists vehicle_inspections_insert on public.vehicle_inspections;
+create policy vehicle_inspections_insert on public.vehicle_inspections
+  for insert with check (public.is_staff());
+
+insert into storage.buckets (id, name, public)
+values ('vehicle-inspections', 'vehicle-inspections', false)
+on conflict (id) do nothing;
+
+-- Staff upload, and remove uploads whose inspection was refused; customers
+-- read the photos of their own requests, the first folder being the request id
+drop policy if exists vehicle_inspection_photos_select on storage.objects;
+create policy vehicle_inspection_photos_select on storage.objects
+  for select using (
+    bucket_id = 'vehicle-inspections' and (
+      public.is_staff() or exists (
+        select 1 from public.shuttle_requests r
+        where r.id::text = (storage.foldername(name))[1] and r.user_id = auth.uid()
+      )
+    )
+  );
+
+drop policy if exists vehicle_inspection_photos_insert on storage.objects;
+create policy vehicle_inspection_photos_insert on storage.objects
+  for insert with check (bucket_id = 'vehicle-inspections' and public.is_staff());
+
+drop policy if exists vehicle_inspection_photos_delete on storage.objects;
+create policy vehicle_inspection_photos_delete on storage.objects
+  for delete using (bucket_id = 'vehicle-inspections' and public.is_staff());
@@ -0,0 +1,80 @@
+-- Brings the calendar_feed events back in line with toICalendar in
+-- lib/ical.ts, whose vehicle lines gained the colour, license plate and
+-- where to find the keys (0011_vehicle_details_key_handoff.sql).
+
+create or replace function public.calendar_feed(token text)
+returns "text/calendar"
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_feed public.calendar_feeds;
+  v_events text;
+begin
+  select * into v_feed from public.calendar_feeds f where f.token = calendar_feed.token;
+  if v_feed.id is null then
+    raise exception 'Unknown calendar feed' using errcode = '42501';
+  end if;
+
+  select string_agg(concat_ws(E'\r\n',
+    'BEGIN:VEVENT',
+    'UID:' || r.id || '@shuttle-forge',
+    'DTSTAMP:' || to_char(now() at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"'),
+    'DTSTART:' || to_char(r.dropoff_day + r.arrival_time::time, 'YYYYMMDD"T"HH24MI"00"'),
+    'DTEND:' || to_char(
+      r.dropoff_day + r.arrival_time::time + make_interval(mins => coalesce((r.quote->>'durationMinutes')::int, 60)),
+      'YYYYMMDD"T"HH24MI"00"'
+    ),
+    'SUMMARY:' || public.ical_escape(format('%s · %s vehicle%s to %s',
+      r.reference, v.vehicle_count, case when v.vehicle_count = 1 then '' else 's' end, r.dropoff_location_name)),
+    'LOCATION:' || public.ical_escape(r.parking_location_name),
+    'DESCRIPTION:' || public.ical_escape(concat_ws(E'\n',
+      format('Customer: %s, %s', u.full_name, u.phone),
+      'From: ' || r.parking_location_name,
+      'To: ' || r.dropoff_location_name,
+      'Vehicles:',
+      v.vehicle_lines,
+      'Notes: ' || nullif(r.notes, '')
+    )),
+    'STATUS:CONFIRMED',
+    case when r.parking_lat is not null and r.parking_lng is not null
+      then 'GEO:' || r.parking_lat || ';' || r.parking_lng end,
+    'END:VEVENT'
+  ), E'\r\n' order by r.dropoff_day, r.arrival_time)
+  into v_events
+  from public.shuttle_requests r
+  join public.users u on u.id = r.user_id
+  cross join lateral (
+    select
+      count(*) as vehicle_count,
+      string_agg(
+        '- ' || rtrim(regexp_replace(
+          concat_ws(' ', vh.year, vh.color, vh.make, vh.model, vh.license_plate), ' +', ' ', 'g'
+        ))
+        || format(' (%s), driver: %s', initcap(vh.transmission), coalesce(d.full_name, 'unassigned'))
+        || coalesce(', keys: ' || nullif(vh.key_location, ''), ''),
+        E'\n' order by vh.created_at
+      ) as vehicle_lines
+    from public.vehicles vh
+    left join public.drivers d on d.id = vh.driver_id
+    where vh.shuttle_request_id = r.id
+  ) v
+  where r.status in ('confirmed', 'in_progress', 'completed')
+    and (v_feed.driver_id is null or exists (
+      select 1 from public.vehicles dv where dv.shuttle_request_id = r.id and dv.driver_id = v_feed.driver_id
+    ));
+
+  return concat_ws(E'\r\n',
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Shuttle Forge//Shuttle Jobs//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:' || public.ical_escape(v_feed.label),
+    v_events,
+    'END:VCALENDAR'
+  ) || E'\r\n';
+end;
+$$;
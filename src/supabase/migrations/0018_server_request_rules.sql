@@ -0,0 +1,131 @@
+-- Request rules on the server, so they run when no staff member has the app
+-- open. run_request_rules does what createRuleRunner in lib/rules/runner.ts
+-- does, with the plan from planRuleActions in lib/domain/requestRules.ts, and
+-- pg_cron calls it every 15 minutes. The browser runner keeps going alongside
+-- it; whichever gets to a request first makes the change and the other skips
+-- it as a conflict.
+--
+-- pg_cron has to be enabled first (Dashboard > Database > Extensions). On a
+-- database without it the schedule is skipped; re-run the last block of this
+-- file once it is enabled.
+--
+-- Customers hear about the changes made here like any other: every status
+-- change queues its notifications (0024_notification_events.sql).
+
+-- Failures are logged too, so the owner sees a rule that keeps failing
+alter table public.request_rule_actions
+  add column if not exists outcome text not null default 'applied' check (outcome in ('applied', 'failed'));
+
+-- "Today" is the database's current_date; set the database time zone to the
+-- business's if it isn't UTC
+create or replace function public.run_request_rules(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.request_rule_settings;
+  v_request record;
+  v_rule text;
+  v_steps text[];
+  v_message text;
+  v_from text;
+  v_logged integer := 0;
+  v_since timestamptz := p_today::timestamptz;
+begin
+  select * into v_settings from public.request_rule_settings where id = 1;
+  if v_settings.id is null then
+    insert into public.request_rule_settings (id) values (1) returning * into v_settings;
+  end if;
+
+  for v_request in
+    select r.id, r.reference, r.status, r.dropoff_day,
+      (select count(*) from public.vehicles v where v.shuttle_request_id = r.id)::integer as vehicle_count,
+      (select count(*) from public.vehicles v where v.shuttle_request_id = r.id and v.driver_id is null)::integer as unassigned
+    from public.shuttle_requests r
+    where r.status in ('confirmed', 'in_progress', 'pending', 'waitlisted')
+  loop
+    v_rule := null;
+
+    if v_settings.auto_complete_enabled
+      and v_request.status in ('confirmed', 'in_progress')
+      and v_request.dropoff_day + v_settings.auto_complete_grace_days <= p_today then
+      v_rule := 'auto_complete';
+      -- Completing takes a confirmed job through in_progress, as the lifecycle requires
+      v_steps := case v_request.status when 'confirmed' then array['in_progress', 'completed'] else array['completed'] end;
+      v_message := format('Completed %s day%s after the drop-off day',
+        v_settings.auto_complete_grace_days, case when v_settings.auto_complete_grace_days = 1 then '' else 's' end);
+    elsif v_settings.expire_pending_enabled
+      and v_request.status in ('pending', 'waitlisted')
+      and v_request.dropoff_day < p_today then
+      v_rule := 'expire_pending';
+      v_steps := array['cancelled'];
+      v_message := format('Expired: the drop-off day (%s) passed before the request was confirmed',
+        to_char(v_request.dropoff_day, 'YYYY-MM-DD'));
+    end if;
+
+    if v_rule is not null then
+      -- Each request's steps commit together or not at all, so a job is never left part way
+      begin
+        v_from := v_request.status;
+        for i in 1 .. array_length(v_steps, 1) loop
+          perform public.transition_shuttle_request(
+            v_request.id, v_from, v_steps[i], 'Automatic rules',
+            case when i = array_length(v_steps, 1) then v_message end
+          );
+          v_from := v_steps[i];
+        end loop;
+
+        insert into public.request_rule_actions (rule, shuttle_request_id, reference, outcome, message)
+        values (v_rule, v_request.id, v_request.reference, 'applied', v_message);
+        v_logged := v_logged + 1;
+      exception
+        -- Staff or the browser runner got there first
+        when serialization_failure then null;
+        when others then
+          if not exists (
+            select 1 from public.request_rule_actions a
+            where a.shuttle_request_id = v_request.id and a.rule = v_rule
+              and a.outcome = 'failed' and a.created_at >= v_since
+          ) then
+            insert into public.request_rule_actions (rule, shuttle_request_id, reference, outcome, message)
+            values (v_rule, v_request.id, v_request.reference, 'failed', 'Failed: ' || sqlerrm);
+            v_logged := v_logged + 1;
+          end if;
+      end;
+    end if;
+
+    -- Flags change nothing, and are logged once a day
+    if v_settings.flag_unassigned_enabled
+      and v_request.status = 'confirmed'
+      and v_request.unassigned > 0
+      and v_request.dropoff_day between p_today and p_today + v_settings.flag_unassigned_days
+      and not exists (
+        select 1 from public.request_rule_actions a
+        where a.shuttle_request_id = v_request.id and a.rule = 'flag_unassigned' and a.created_at >= v_since
+      ) then
+      insert into public.request_rule_actions (rule, shuttle_request_id, reference, message)
+      values ('flag_unassigned', v_request.id, v_request.reference, format('%s of %s vehicle%s still need%s a driver for %s',
+        v_request.unassigned,
+        v_request.vehicle_count, case when v_request.vehicle_count = 1 then '' else 's' end,
+        case when v_request.unassigned = 1 then 's' else '' end,
+        to_char(v_request.dropoff_day, 'YYYY-MM-DD')));
+      v_logged := v_logged + 1;
+    end if;
+  end loop;
+
+  return v_logged;
+end;
+$$;
+
+-- Only the scheduler runs it; staff use "Run now", which goes through their own session
+revoke execute on function public.run_request_rules(date) from public, anon, authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('shuttle-forge-request-rules', '*/15 * * * *', 'select public.run_request_rules()');
+  end if;
+end;
+$$;
@@ -0,0 +1,229 @@
+-- Bookings are priced here rather than taken from the browser, so a customer
+-- can't book or re-quote their own job at a price of their choosing.
+-- calculate_quote is calculateQuote in lib/domain/quote.ts; the numbers are
+-- PRICING_CONFIG in config/pricing.ts and have to be changed in both places.
+
+create or replace function public.calculate_quote(
+  p_parking_lat double precision,
+  p_parking_lng double precision,
+  p_dropoff_lat double precision,
+  p_dropoff_lng double precision,
+  p_transmissions text[]
+)
+returns jsonb
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  -- config/pricing.ts
+  c_currency constant text := 'USD';
+  c_base_fare_cents constant integer := 2500;
+  c_per_mile_cents constant integer := 150;
+  c_per_vehicle_cents constant integer := 2000;
+  c_manual_surcharge_cents constant integer := 1500;
+  c_road_distance_factor constant numeric := 1.3;
+  c_average_speed_mph constant numeric := 40;
+  c_minimum_fare_cents constant integer := 5000;
+  -- lib/geo.ts
+  c_earth_radius_miles constant double precision := 3958.8;
+
+  v_vehicles integer := coalesce(cardinality(p_transmissions), 0);
+  v_manual integer;
+  v_crow double precision;
+  v_distance numeric;
+  v_lines jsonb;
+  v_subtotal integer;
+begin
+  if p_parking_lat is null or p_parking_lng is null or p_dropoff_lat is null or p_dropoff_lng is null then
+    return null;
+  end if;
+  if v_vehicles = 0 then
+    return null;
+  end if;
+
+  v_manual := cardinality(array_positions(p_transmissions, 'manual'));
+
+  v_crow := 2 * c_earth_radius_miles * asin(sqrt(
+    sin(radians(p_dropoff_lat - p_parking_lat) / 2) ^ 2 +
+    cos(radians(p_parking_lat)) * cos(radians(p_dropoff_lat)) * sin(radians(p_dropoff_lng - p_parking_lng) / 2) ^ 2
+  ));
+  v_distance := trim_scale(round(v_crow::numeric * c_road_distance_factor, 1));
+
+  v_lines := jsonb_build_array(
+    jsonb_build_object('code', 'base_fare', 'label', 'Base fare', 'quantity', 1,
+      'unitCents', c_base_fare_cents, 'amountCents', c_base_fare_cents),
+    jsonb_build_object('code', 'mileage',
+      'label', format('Mileage (%s mi × %s vehicle%s)', v_distance, v_vehicles, case when v_vehicles > 1 then 's' else '' end),
+      'quantity', trim_scale(round(v_distance * v_vehicles, 1)),
+      'unitCents', c_per_mile_cents,
+      'amountCents', round(v_distance * v_vehicles * c_per_mile_cents)::integer),
+    jsonb_build_object('code', 'per_vehicle', 'label', 'Per-vehicle charge', 'quantity', v_vehicles,
+      'unitCents', c_per_vehicle_cents, 'amountCents', v_vehicles * c_per_vehicle_cents)
+  );
+
+  if v_manual > 0 then
+    v_lines := v_lines || jsonb_build_object('code', 'manual_surcharge', 'label', 'Manual transmission surcharge',
+      'quantity', v_manual, 'unitCents', c_manual_surcharge_cents, 'amountCents', v_manual * c_manual_surcharge_cents);
+  end if;
+
+  select sum((line->>'amountCents')::integer) into v_subtotal from jsonb_array_elements(v_lines) line;
+  if v_subtotal < c_minimum_fare_cents then
+    v_lines := v_lines || jsonb_build_object('code', 'minimum_fare', 'label', 'Minimum fare adjustment', 'quantity', 1,
+      'unitCents', c_minimum_fare_cents - v_subtotal, 'amountCents', c_minimum_fare_cents - v_subtotal);
+    v_subtotal := c_minimum_fare_cents;
+  end if;
+
+  return jsonb_build_object(
+    'distanceMiles', v_distance,
+    'durationMinutes', greatest(1, round(v_distance / c_average_speed_mph * 60))::integer,
+    'lines', v_lines,
+    'totalCents', v_subtotal,
+    'currency', c_currency,
+    'quotedAt', to_char(now() at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+  );
+end;
+$$;
+
+-- The quote of a stored request and its vehicles
+create or replace function public.shuttle_request_quote(p_id uuid)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select public.calculate_quote(
+    r.parking_lat, r.parking_lng, r.dropoff_lat, r.dropoff_lng,
+    array(select v.transmission from public.vehicles v where v.shuttle_request_id = r.id)
+  )
+  from public.shuttle_requests r
+  where r.id = p_id;
+$$;
+
+-- Same as 0011, with the quote worked out here. It's set before the capacity
+-- check, whose job window comes from the quote's duration.
+create or replace function public.create_shuttle_request(
+  p_user jsonb,
+  p_request jsonb,
+  p_vehicles jsonb,
+  p_waitlist boolean default false
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(trim(p_user->>'email'));
+  v_user public.users;
+  v_request public.shuttle_requests;
+begin
+  if jsonb_array_length(p_vehicles) not between 1 and 10 then
+    raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+  end if;
+
+  select * into v_user from public.users where email = v_email;
+
+  if v_user.id is null then
+    insert into public.users (id, email, full_name, phone)
+    values (gen_random_uuid(), v_email, p_user->>'full_name', p_user->>'phone')
+    returning * into v_user;
+  elsif v_user.id = auth.uid() or not exists (select 1 from auth.users where id = v_user.id) then
+    update public.users
+    set full_name = p_user->>'full_name', phone = p_user->>'phone', updated_at = now()
+    where id = v_user.id;
+  end if;
+
+  v_request := jsonb_populate_record(null::public.shuttle_requests, p_request);
+  v_request.id := gen_random_uuid();
+  v_request.user_id := v_user.id;
+  v_request.reference := public.generate_request_reference();
+  -- Customers cannot book straight into a later status
+  v_request.status := 'pending';
+  v_request.quote := public.calculate_quote(
+    v_request.parking_lat, v_request.parking_lng, v_request.dropoff_lat, v_request.dropoff_lng,
+    array(select v->>'transmission' from jsonb_array_elements(p_vehicles) v)
+  );
+  v_request.created_at := now();
+  v_request.updated_at := now();
+
+  -- Decided before the insert so the initial status event records the right status
+  begin
+    perform public.check_day_capacity(
+      v_request.dropoff_day,
+      jsonb_array_length(p_vehicles),
+      public.shuttle_request_job_window(v_request),
+      null
+    );
+  exception when sqlstate 'SF001' then
+    if not p_waitlist then
+      raise;
+    end if;
+    v_request.status := 'waitlisted';
+  end;
+
+  insert into public.shuttle_requests select v_request.*;
+
+  -- Customers can't pick their own drivers
+  perform public.replace_request_vehicles(v_request.id, p_vehicles, false);
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
+
+-- Same as 0011, ignoring any quote sent; the job is re-quoted when its
+-- locations or vehicles change
+create or replace function public.update_tracked_shuttle_request(
+  p_reference text,
+  p_email text,
+  p_request jsonb,
+  p_vehicles jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.lock_tracked_request(p_reference, p_email);
+  v_before public.shuttle_requests := v_request;
+begin
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    updated_at = now()
+  where r.id = v_request.id
+  returning * into v_request;
+
+  -- Customers can't pick their own drivers
+  if p_vehicles is not null then
+    perform public.replace_request_vehicles(v_request.id, p_vehicles, false);
+  end if;
+
+  if p_vehicles is not null
+    or (v_request.parking_lat, v_request.parking_lng, v_request.dropoff_lat, v_request.dropoff_lng)
+      is distinct from (v_before.parking_lat, v_before.parking_lng, v_before.dropoff_lat, v_before.dropoff_lng) then
+    update public.shuttle_requests
+    set quote = public.shuttle_request_quote(v_request.id)
+    where id = v_request.id
+    returning * into v_request;
+  end if;
+
+  perform public.check_day_capacity(
+    v_request.dropoff_day,
+    (select count(*)::integer from public.vehicles where shuttle_request_id = v_request.id),
+    public.shuttle_request_job_window(v_request),
+    v_request.id
+  );
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
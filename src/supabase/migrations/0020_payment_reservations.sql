@@ -0,0 +1,180 @@
+-- Payments are reserved before the card is charged. The reservation is checked
+-- against the request's quote and what is already paid or reserved, so a stale
+-- amount from the browser, or two tabs paying at once, is refused before any
+-- money moves. The checkout then charges exactly the reserved amount and
+-- records the outcome against the reservation; a charge it can't record is
+-- voided with the provider and the reservation marked 'voided'.
+-- Mirrors lib/data/payments.local.ts.
+
+alter table public.payments drop constraint if exists payments_status_check;
+alter table public.payments
+  add constraint payments_status_check check (status in ('pending', 'succeeded', 'failed', 'voided'));
+
+-- PAYMENT_HOLD_MINUTES in lib/domain/payments.ts: how long a reservation
+-- holds its share of the balance if the checkout never comes back to it
+create or replace function public.payment_hold_minutes()
+returns integer
+language sql
+immutable
+as $$
+  select 15;
+$$;
+
+-- Paid plus still-held reservations on a request, leaving out p_exclude
+create or replace function public.shuttle_request_committed_cents(p_id uuid, p_exclude uuid)
+returns integer
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(amount_cents), 0)::integer
+  from public.payments
+  where shuttle_request_id = p_id
+    and id is distinct from p_exclude
+    and (
+      status = 'succeeded'
+      or (status = 'pending' and created_at > now() - make_interval(mins => public.payment_hold_minutes()))
+    );
+$$;
+
+create or replace function public.reserve_shuttle_request_payment(p_reference text, p_email text, p_payment jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.find_tracked_request(p_reference, p_email);
+  v_payment public.payments;
+  v_total integer;
+  v_committed integer;
+  v_amount integer := (p_payment->>'amount_cents')::integer;
+begin
+  if v_request.id is null then
+    raise exception 'No request % was booked with %', p_reference, p_email using errcode = 'P0002';
+  end if;
+
+  -- Locked so two reservations at once can't both fit under the balance
+  select * into v_request from public.shuttle_requests where id = v_request.id for update;
+  if v_request.quote is null then
+    raise exception 'Request % has no quote to pay against', v_request.reference using errcode = '23514';
+  end if;
+  if v_request.status not in ('pending', 'confirmed', 'in_progress', 'completed') then
+    raise exception 'Request % is % and can''t take payments', v_request.reference, v_request.status
+      using errcode = '40001';
+  end if;
+  if p_payment->>'currency' is distinct from v_request.quote->>'currency' then
+    raise exception 'Request % is paid in %', v_request.reference, v_request.quote->>'currency' using errcode = '23514';
+  end if;
+
+  v_total := (v_request.quote->>'totalCents')::integer;
+  v_committed := public.shuttle_request_committed_cents(v_request.id, null);
+  if v_amount is null or v_amount <= 0 or v_amount > v_total - v_committed then
+    raise exception 'Request % only has % % left to pay',
+      v_request.reference, to_char(greatest(v_total - v_committed, 0) / 100.0, 'FM999999990.00'), v_request.quote->>'currency'
+      using errcode = '23514';
+  end if;
+
+  insert into public.payments (shuttle_request_id, kind, status, amount_cents, currency, provider)
+  values (v_request.id, p_payment->>'kind', 'pending', v_amount, v_request.quote->>'currency', p_payment->>'provider')
+  returning * into v_payment;
+
+  return to_jsonb(v_payment);
+end;
+$$;
+
+grant execute on function public.reserve_shuttle_request_payment(text, text, jsonb) to anon, authenticated;
+
+drop function if exists public.record_shuttle_request_payment(text, text, jsonb);
+
+-- Records how the charge for reservation p_payment_id went: 'succeeded' issues
+-- the invoice, 'failed' is a decline and 'voided' a charge given back. The
+-- amount is checked again, in case the reservation's hold ran out meanwhile.
+-- As in 0014 it takes the caller's word for the outcome; with a real provider,
+-- have its webhook call this with the service role instead.
+create or replace function public.record_shuttle_request_payment(
+  p_reference text,
+  p_email text,
+  p_payment_id uuid,
+  p_outcome jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.find_tracked_request(p_reference, p_email);
+  v_payment public.payments;
+  v_invoice public.invoices;
+  v_status text := p_outcome->>'status';
+  v_total integer;
+  v_paid integer;
+begin
+  if v_request.id is null then
+    raise exception 'No request % was booked with %', p_reference, p_email using errcode = 'P0002';
+  end if;
+  if v_status not in ('succeeded', 'failed', 'voided') then
+    raise exception 'A payment can''t be recorded as %', v_status using errcode = '23514';
+  end if;
+
+  select * into v_request from public.shuttle_requests where id = v_request.id for update;
+  select * into v_payment from public.payments
+  where id = p_payment_id and shuttle_request_id = v_request.id
+  for update;
+
+  if v_payment.id is null then
+    raise exception 'Payment % is not on request %', p_payment_id, v_request.reference using errcode = 'P0002';
+  end if;
+  if v_payment.status <> 'pending' then
+    raise exception 'Payment % was already recorded as %', p_payment_id, v_payment.status using errcode = '40001';
+  end if;
+
+  v_total := (v_request.quote->>'totalCents')::integer;
+  if v_status = 'succeeded' then
+    v_paid := public.shuttle_request_committed_cents(v_request.id, v_payment.id);
+    if v_payment.amount_cents > v_total - v_paid then
+      raise exception 'Request % only has % % left to pay',
+        v_request.reference, to_char(greatest(v_total - v_paid, 0) / 100.0, 'FM999999990.00'), v_payment.currency
+        using errcode = '23514';
+    end if;
+  end if;
+
+  update public.payments
+  set
+    status = v_status,
+    provider_reference = p_outcome->>'provider_reference',
+    card_last4 = p_outcome->>'card_last4',
+    failure_message = p_outcome->>'failure_message'
+  where id = v_payment.id
+  returning * into v_payment;
+
+  update public.shuttle_requests set updated_at = now() where id = v_request.id;
+
+  if v_payment.status = 'succeeded' then
+    -- Only what is actually paid counts on the invoice, not other tabs' reservations
+    select coalesce(sum(amount_cents), 0) into v_paid
+    from public.payments
+    where shuttle_request_id = v_request.id and status = 'succeeded';
+
+    insert into public.invoices (shuttle_request_id, payment_id, currency, lines, total_cents, paid_cents, balance_cents)
+    values (
+      v_request.id,
+      v_payment.id,
+      v_request.quote->>'currency',
+      v_request.quote->'lines',
+      v_total,
+      v_paid,
+      v_total - v_paid
+    )
+    returning * into v_invoice;
+  end if;
+
+  return jsonb_build_object(
+    'payment', to_jsonb(v_payment),
+    'invoice', case when v_invoice.id is null then null else to_jsonb(v_invoice) end
+  );
+end;
+$$;
+
+grant execute on function public.record_shuttle_request_payment(text, text, uuid, jsonb) to anon, authenticated;
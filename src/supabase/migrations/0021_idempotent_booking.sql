@@ -0,0 +1,87 @@
+-- Booking is safe to retry. The app sends each booking with an id it made up
+-- itself, and sends the same id again when it retries, e.g. from the offline
+-- queue after a reply was lost on a weak signal. create_shuttle_request now
+-- uses that id, and when a request with it already exists for the same email
+-- it returns that request instead of booking the job twice.
+
+-- Same as 0019, keeping the id sent in p_request
+create or replace function public.create_shuttle_request(
+  p_user jsonb,
+  p_request jsonb,
+  p_vehicles jsonb,
+  p_waitlist boolean default false
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(trim(p_user->>'email'));
+  v_user public.users;
+  v_request public.shuttle_requests;
+  v_existing public.shuttle_requests;
+begin
+  if jsonb_array_length(p_vehicles) not between 1 and 10 then
+    raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+  end if;
+
+  select * into v_user from public.users where email = v_email;
+
+  if v_user.id is null then
+    insert into public.users (id, email, full_name, phone)
+    values (gen_random_uuid(), v_email, p_user->>'full_name', p_user->>'phone')
+    returning * into v_user;
+  elsif v_user.id = auth.uid() or not exists (select 1 from auth.users where id = v_user.id) then
+    update public.users
+    set full_name = p_user->>'full_name', phone = p_user->>'phone', updated_at = now()
+    where id = v_user.id;
+  end if;
+
+  v_request := jsonb_populate_record(null::public.shuttle_requests, p_request);
+  v_request.id := coalesce(v_request.id, gen_random_uuid());
+
+  -- Two retries at once wait for each other here, and the second finds the first's booking
+  perform pg_advisory_xact_lock(hashtextextended(v_request.id::text, 0));
+  select * into v_existing from public.shuttle_requests where id = v_request.id;
+  if v_existing.id is not null then
+    if v_existing.user_id is distinct from v_user.id then
+      raise exception 'Shuttle request % already exists', v_request.id using errcode = '23505';
+    end if;
+    return public.shuttle_request_record(v_existing.id);
+  end if;
+
+  v_request.user_id := v_user.id;
+  v_request.reference := public.generate_request_reference();
+  -- Customers cannot book straight into a later status
+  v_request.status := 'pending';
+  v_request.quote := public.calculate_quote(
+    v_request.parking_lat, v_request.parking_lng, v_request.dropoff_lat, v_request.dropoff_lng,
+    array(select v->>'transmission' from jsonb_array_elements(p_vehicles) v)
+  );
+  v_request.created_at := now();
+  v_request.updated_at := now();
+
+  -- Decided before the insert so the initial status event records the right status
+  begin
+    perform public.check_day_capacity(
+      v_request.dropoff_day,
+      jsonb_array_length(p_vehicles),
+      public.shuttle_request_job_window(v_request),
+      null
+    );
+  exception when sqlstate 'SF001' then
+    if not p_waitlist then
+      raise;
+    end if;
+    v_request.status := 'waitlisted';
+  end;
+
+  insert into public.shuttle_requests select v_request.*;
+
+  -- Customers can't pick their own drivers
+  perform public.replace_request_vehicles(v_request.id, p_vehicles, false);
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
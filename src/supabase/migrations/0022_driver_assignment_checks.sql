@@ -0,0 +1,239 @@
+-- Driver assignments stay valid when a job changes. A driver was checked by
+-- assign_vehicle_driver (0007) when assigned, but moving the job to another
+-- day or time, or swapping in a manual car, could leave them unqualified,
+-- off work or double booked. Now every driver is written through
+-- assign_vehicle_driver, and when a job's window or vehicles change its
+-- assignments are checked again, taking off any driver who no longer fits.
+-- Mirrors lib/data/shuttleRequests.local.ts.
+
+-- Runs each of the request's assignments through assign_vehicle_driver again,
+-- clearing the ones it refuses. Returns how many were cleared. Finished jobs
+-- keep the drivers who drove them.
+create or replace function public.recheck_request_drivers(p_request_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v public.vehicles;
+  v_cleared integer := 0;
+begin
+  if not exists (
+    select 1 from public.shuttle_requests
+    where id = p_request_id and status in ('pending', 'confirmed', 'in_progress')
+  ) then
+    return 0;
+  end if;
+
+  for v in
+    select * from public.vehicles where shuttle_request_id = p_request_id and driver_id is not null
+  loop
+    begin
+      perform public.assign_vehicle_driver(v.id, v.driver_id);
+    exception when sqlstate '23514' or sqlstate '40001' or sqlstate 'P0002' then
+      update public.vehicles set driver_id = null where id = v.id;
+      v_cleared := v_cleared + 1;
+    end;
+  end loop;
+  return v_cleared;
+end;
+$$;
+
+revoke execute on function public.recheck_request_drivers(uuid) from public, anon, authenticated;
+
+-- Same as 0011, with drivers assigned through assign_vehicle_driver
+create or replace function public.replace_request_vehicles(
+  p_request_id uuid,
+  p_vehicles jsonb,
+  p_with_drivers boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v jsonb;
+  v_id uuid;
+  v_driver uuid;
+  v_assign_ids uuid[] := '{}';
+  v_assign_drivers uuid[] := '{}';
+begin
+  if jsonb_array_length(p_vehicles) not between 1 and 10 then
+    raise exception 'A shuttle request needs between 1 and 10 vehicles' using errcode = '23514';
+  end if;
+
+  delete from public.vehicles
+  where shuttle_request_id = p_request_id
+    and id::text not in (select coalesce(e->>'id', '') from jsonb_array_elements(p_vehicles) as e);
+
+  for v in select * from jsonb_array_elements(p_vehicles) loop
+    select id, driver_id into v_id, v_driver
+    from public.vehicles
+    where shuttle_request_id = p_request_id and id::text = v->>'id';
+
+    if v_id is null then
+      insert into public.vehicles (
+        shuttle_request_id, make, model, year, transmission, license_plate, color, drivetrain,
+        equipment_notes, key_location, key_return_location
+      )
+      values (
+        p_request_id, v->>'make', v->>'model', v->>'year', v->>'transmission',
+        v->>'license_plate', v->>'color', coalesce(v->>'drivetrain', '2wd'),
+        v->>'equipment_notes', v->>'key_location', v->>'key_return_location'
+      )
+      returning id into v_id;
+    else
+      update public.vehicles
+      set
+        make = v->>'make',
+        model = v->>'model',
+        year = v->>'year',
+        transmission = v->>'transmission',
+        license_plate = v->>'license_plate',
+        color = v->>'color',
+        drivetrain = coalesce(v->>'drivetrain', '2wd'),
+        equipment_notes = v->>'equipment_notes',
+        key_location = v->>'key_location',
+        key_return_location = v->>'key_return_location'
+      where id = v_id;
+    end if;
+
+    if p_with_drivers and (v->>'driver_id')::uuid is distinct from v_driver then
+      v_assign_ids := v_assign_ids || v_id;
+      v_assign_drivers := v_assign_drivers || (v->>'driver_id')::uuid;
+    end if;
+
+    if v ? 'lockbox_code' then
+      if nullif(trim(v->>'lockbox_code'), '') is null then
+        delete from public.vehicle_lockbox_codes where vehicle_id = v_id;
+      else
+        insert into public.vehicle_lockbox_codes (vehicle_id, code)
+        values (v_id, trim(v->>'lockbox_code'))
+        on conflict (vehicle_id) do update set code = excluded.code, updated_at = now();
+      end if;
+    end if;
+  end loop;
+
+  -- Changed drivers go through assign_vehicle_driver's checks, after their
+  -- vehicles are cleared so two of them can swap drivers
+  update public.vehicles set driver_id = null where id = any (v_assign_ids);
+  for i in 1 .. coalesce(array_length(v_assign_ids, 1), 0) loop
+    if v_assign_drivers[i] is not null then
+      perform public.assign_vehicle_driver(v_assign_ids[i], v_assign_drivers[i]);
+    end if;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.replace_request_vehicles(uuid, jsonb, boolean) from public, anon, authenticated;
+
+-- Same as 0011, checking the drivers again when the job's window or vehicles change
+create or replace function public.update_shuttle_request(p_id uuid, p_request jsonb, p_vehicles jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before public.shuttle_requests;
+  v_request public.shuttle_requests;
+begin
+  if not public.is_staff() then
+    raise exception 'Only staff can change a shuttle request' using errcode = '42501';
+  end if;
+
+  select * into v_before from public.shuttle_requests where id = p_id for update;
+
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    quote = case when p_request ? 'quote' then p_request->'quote' else r.quote end,
+    updated_at = now()
+  where r.id = p_id
+  returning * into v_request;
+
+  if v_request.id is null then
+    raise exception 'Shuttle request % not found', p_id using errcode = 'P0002';
+  end if;
+
+  if p_vehicles is not null then
+    perform public.replace_request_vehicles(p_id, p_vehicles, true);
+  end if;
+
+  if p_vehicles is not null
+    or public.shuttle_request_job_window(v_request) is distinct from public.shuttle_request_job_window(v_before) then
+    perform public.recheck_request_drivers(p_id);
+  end if;
+end;
+$$;
+
+-- Same as 0019, checking the drivers again when the job's window or vehicles change
+create or replace function public.update_tracked_shuttle_request(
+  p_reference text,
+  p_email text,
+  p_request jsonb,
+  p_vehicles jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.lock_tracked_request(p_reference, p_email);
+  v_before public.shuttle_requests := v_request;
+begin
+  update public.shuttle_requests r
+  set
+    parking_location_name = coalesce(p_request->>'parking_location_name', r.parking_location_name),
+    parking_lat = case when p_request ? 'parking_lat' then (p_request->>'parking_lat')::double precision else r.parking_lat end,
+    parking_lng = case when p_request ? 'parking_lng' then (p_request->>'parking_lng')::double precision else r.parking_lng end,
+    dropoff_location_name = coalesce(p_request->>'dropoff_location_name', r.dropoff_location_name),
+    dropoff_lat = case when p_request ? 'dropoff_lat' then (p_request->>'dropoff_lat')::double precision else r.dropoff_lat end,
+    dropoff_lng = case when p_request ? 'dropoff_lng' then (p_request->>'dropoff_lng')::double precision else r.dropoff_lng end,
+    dropoff_day = coalesce((p_request->>'dropoff_day')::date, r.dropoff_day),
+    arrival_time = coalesce(p_request->>'arrival_time', r.arrival_time),
+    notes = case when p_request ? 'notes' then p_request->>'notes' else r.notes end,
+    updated_at = now()
+  where r.id = v_request.id
+  returning * into v_request;
+
+  -- Customers can't pick their own drivers
+  if p_vehicles is not null then
+    perform public.replace_request_vehicles(v_request.id, p_vehicles, false);
+  end if;
+
+  if p_vehicles is not null
+    or (v_request.parking_lat, v_request.parking_lng, v_request.dropoff_lat, v_request.dropoff_lng)
+      is distinct from (v_before.parking_lat, v_before.parking_lng, v_before.dropoff_lat, v_before.dropoff_lng) then
+    update public.shuttle_requests
+    set quote = public.shuttle_request_quote(v_request.id)
+    where id = v_request.id
+    returning * into v_request;
+  end if;
+
+  if p_vehicles is not null
+    or public.shuttle_request_job_window(v_request) is distinct from public.shuttle_request_job_window(v_before) then
+    perform public.recheck_request_drivers(v_request.id);
+  end if;
+
+  perform public.check_day_capacity(
+    v_request.dropoff_day,
+    (select count(*)::integer from public.vehicles where shuttle_request_id = v_request.id),
+    public.shuttle_request_job_window(v_request),
+    v_request.id
+  );
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
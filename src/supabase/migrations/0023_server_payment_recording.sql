@@ -0,0 +1,9 @@
+-- Payment outcomes are recorded by the server that holds the provider's key,
+-- not the browser. Until now anyone with a reference and booking email could
+-- call record_shuttle_request_payment and mark their reservation 'succeeded'
+-- without paying. Now only the service role may: the payment relay (or the
+-- provider's webhook) records each charge after making it. The browser still
+-- reserves the amount with reserve_shuttle_request_payment (0020).
+
+revoke execute on function public.record_shuttle_request_payment(text, text, uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.record_shuttle_request_payment(text, text, uuid, jsonb) to service_role;
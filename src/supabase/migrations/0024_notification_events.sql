@@ -0,0 +1,78 @@
+-- Notifications are triggered by the database. Each status change, the first
+-- one included, queues the messages it calls for in notification_events,
+-- whichever client or job made it. The notification relay is called for each
+-- new row by a Database Webhook (Dashboard > Database > Webhooks: insert on
+-- notification_events) and is sent only the event, never an address or text:
+-- it loads the request with the service role, works out the recipients and
+-- renders the message with lib/notifications/templates.ts. The browser no
+-- longer sends anything with this backend.
+-- The kinds mirror kindsForEvent in lib/notifications/templates.ts.
+
+create table if not exists public.notification_events (
+  id uuid primary key default gen_random_uuid(),
+  shuttle_request_id uuid not null references public.shuttle_requests (id) on delete cascade,
+  -- The change that called for it, for its note (the reason for a cancellation)
+  status_event_id uuid not null references public.request_status_events (id) on delete cascade,
+  kind text not null check (kind in (
+    'booking_received', 'new_booking', 'request_accepted', 'driver_en_route',
+    'request_completed', 'request_cancelled', 'request_declined', 'customer_cancelled'
+  )),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_events_request_idx
+  on public.notification_events (shuttle_request_id, created_at);
+
+-- Only ever written by the trigger below; staff can see what was queued
+alter table public.notification_events enable row level security;
+
+drop policy if exists notification_events_select on public.notification_events;
+create policy notification_events_select on public.notification_events
+  for select using (public.is_staff());
+
+-- The messages a status change calls for, in sending order. A customer
+-- cancelling tells the owner as well.
+create or replace function public.request_notification_kinds(p_from text, p_to text, p_by_customer boolean)
+returns text[]
+language sql
+immutable
+as $$
+  select case
+    when p_from is null then array['booking_received', 'new_booking']
+    when p_to = 'confirmed' then array['request_accepted']
+    when p_to = 'in_progress' then array['driver_en_route']
+    when p_to = 'completed' then array['request_completed']
+    when p_to = 'cancelled' and p_by_customer then array['request_cancelled', 'customer_cancelled']
+    when p_to = 'cancelled' then array['request_cancelled']
+    when p_to = 'rejected' then array['request_declined']
+    else array[]::text[]
+  end;
+$$;
+
+-- Changes by the customer carry their booking email as the actor (see
+-- cancel_tracked_shuttle_request in 0010)
+create or replace function public.queue_request_notifications()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_by_customer boolean;
+begin
+  select u.email = lower(trim(new.actor)) into v_by_customer
+  from public.shuttle_requests r
+  join public.users u on u.id = r.user_id
+  where r.id = new.shuttle_request_id;
+
+  insert into public.notification_events (shuttle_request_id, status_event_id, kind)
+  select new.shuttle_request_id, new.id, kind
+  from unnest(public.request_notification_kinds(new.from_status, new.to_status, coalesce(v_by_customer, false))) as kind;
+  return new;
+end;
+$$;
+
+drop trigger if exists request_status_events_queue_notifications on public.request_status_events;
+create trigger request_status_events_queue_notifications
+  after insert on public.request_status_events
+  for each row execute function public.queue_request_notifications();
@@ -0,0 +1,121 @@
+-- The database now enforces the request lifecycle itself. Until now
+-- transition_shuttle_request (0002, 0008) only checked the status hadn't
+-- changed underneath the caller, and the staff update policy (0005) let a
+-- plain `update shuttle_requests set status = ...` skip the history, the
+-- capacity check and the lifecycle altogether. Now every status change must
+-- be one lib/domain/lifecycle.ts allows, with a reason where it asks for one,
+-- and must go through transition_shuttle_request, which records it.
+-- Mirrors transitionStatus in lib/data/shuttleRequests.local.ts.
+
+-- TRANSITIONS from lib/domain/lifecycle.ts
+create or replace function public.can_transition_shuttle_request(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select (p_from, p_to) in (
+    ('pending', 'confirmed'), ('pending', 'rejected'), ('pending', 'cancelled'),
+    ('waitlisted', 'pending'), ('waitlisted', 'rejected'), ('waitlisted', 'cancelled'),
+    ('confirmed', 'in_progress'), ('confirmed', 'cancelled'),
+    ('in_progress', 'completed')
+  );
+$$;
+
+create or replace function public.transition_shuttle_request(
+  p_id uuid,
+  p_from text,
+  p_to text,
+  p_actor text,
+  p_note text
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_request public.shuttle_requests;
+begin
+  if not public.can_transition_shuttle_request(p_from, p_to) then
+    raise exception 'Cannot move a % request to %', p_from, p_to using errcode = '23514';
+  end if;
+  if p_to in ('rejected', 'cancelled') and nullif(trim(p_note), '') is null then
+    raise exception 'A reason is required to mark a request %', p_to using errcode = '23514';
+  end if;
+
+  select * into v_request from public.shuttle_requests where id = p_id;
+  if v_request.id is null then
+    raise exception 'Shuttle request % not found', p_id using errcode = 'P0002';
+  end if;
+
+  if p_to in ('pending', 'confirmed') then
+    perform public.check_day_capacity(
+      v_request.dropoff_day,
+      (select count(*)::integer from public.vehicles where shuttle_request_id = p_id),
+      public.shuttle_request_job_window(v_request),
+      p_id
+    );
+  end if;
+
+  -- Lets this one update past shuttle_requests_guard_status below
+  perform set_config('shuttle_forge.transitioning', 'on', true);
+  update public.shuttle_requests
+  set status = p_to, updated_at = now()
+  where id = p_id and status = p_from;
+
+  if not found then
+    raise exception 'Shuttle request % is no longer %', p_id, p_from using errcode = '40001';
+  end if;
+  perform set_config('shuttle_forge.transitioning', 'off', true);
+
+  insert into public.request_status_events (shuttle_request_id, from_status, to_status, actor, note)
+  values (p_id, p_from, p_to, p_actor, nullif(trim(p_note), ''));
+end;
+$$;
+
+-- Refuses any status change made outside transition_shuttle_request, and any
+-- the lifecycle doesn't allow. New requests are inserted, so they aren't affected.
+create or replace function public.guard_shuttle_request_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status then
+    if coalesce(current_setting('shuttle_forge.transitioning', true), 'off') <> 'on' then
+      raise exception 'Change a request''s status with transition_shuttle_request' using errcode = '42501';
+    end if;
+    if not public.can_transition_shuttle_request(old.status, new.status) then
+      raise exception 'Cannot move a % request to %', old.status, new.status using errcode = '23514';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists shuttle_requests_guard_status on public.shuttle_requests;
+create trigger shuttle_requests_guard_status
+  before update of status on public.shuttle_requests
+  for each row execute function public.guard_shuttle_request_status();
+
+-- Same as 0010, cancelling through transition_shuttle_request
+create or replace function public.cancel_tracked_shuttle_request(
+  p_reference text,
+  p_email text,
+  p_from text,
+  p_note text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests := public.lock_tracked_request(p_reference, p_email);
+begin
+  if v_request.status <> p_from then
+    raise exception 'Shuttle request % is no longer %', v_request.reference, p_from using errcode = '40001';
+  end if;
+
+  perform public.transition_shuttle_request(v_request.id, p_from, 'cancelled', lower(trim(p_email)), p_note);
+
+  return public.shuttle_request_record(v_request.id);
+end;
+$$;
@@ -0,0 +1,287 @@
+-- Drivers sign in with their own accounts and see only their own jobs. Until
+-- now the driver view was open to any staff account, which picked a driver
+-- from a list, and check-ins took the driver id and name on trust. Now a
+-- driver record is linked to a sign-in account, accounts can have the
+-- `driver` role, and row level security gives a driver session only the jobs
+-- they have a vehicle on. Check-ins and key handoffs work out the driver from
+-- the session. Mirrors checkIn() in lib/data/shuttleRequests.local.ts.
+--
+-- Like roles, links are made by an owner in the SQL editor:
+--   update public.drivers set user_id = '<auth user id>' where id = '<driver id>';
+--   update public.users set role = 'driver' where id = '<auth user id>';
+
+alter table public.users drop constraint if exists users_role_check;
+alter table public.users add constraint users_role_check
+  check (role in ('customer', 'owner', 'staff', 'driver'));
+
+alter table public.drivers
+  add column if not exists user_id uuid unique references auth.users (id) on delete set null;
+
+-- Drivers already using the driver view signed in with a staff account under their roster email
+update public.drivers d
+set user_id = u.id
+from public.users u
+join auth.users a on a.id = u.id
+where d.user_id is null
+  and u.email = lower(trim(d.email))
+  and u.role in ('owner', 'staff');
+
+-- The active driver record of whoever is signed in, if any
+create or replace function public.current_driver_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.drivers where user_id = auth.uid() and active;
+$$;
+
+-- Whether the signed-in driver has a vehicle on the request. Reads vehicles
+-- as definer, so policies on vehicles can use it without recursing.
+create or replace function public.is_request_driver(p_request_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.vehicles
+    where shuttle_request_id = p_request_id and driver_id = public.current_driver_id()
+  );
+$$;
+
+drop policy if exists drivers_self on public.drivers;
+create policy drivers_self on public.drivers
+  for select using (user_id = auth.uid());
+
+-- A driver reads their jobs, with the customer's name and number and the job's history
+drop policy if exists shuttle_requests_select on public.shuttle_requests;
+create policy shuttle_requests_select on public.shuttle_requests
+  for select using (user_id = auth.uid() or public.is_staff() or public.is_request_driver(id));
+
+drop policy if exists users_select on public.users;
+create policy users_select on public.users
+  for select using (
+    id = auth.uid() or public.is_staff() or exists (
+      select 1 from public.shuttle_requests r
+      where r.user_id = users.id and public.is_request_driver(r.id)
+    )
+  );
+
+drop policy if exists vehicles_select on public.vehicles;
+create policy vehicles_select on public.vehicles
+  for select using (
+    public.is_staff() or public.is_request_driver(shuttle_request_id) or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists request_status_events_select on public.request_status_events;
+create policy request_status_events_select on public.request_status_events
+  for select using (
+    public.is_staff() or public.is_request_driver(shuttle_request_id) or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists job_check_ins_select on public.job_check_ins;
+create policy job_check_ins_select on public.job_check_ins
+  for select using (
+    public.is_staff() or public.is_request_driver(shuttle_request_id) or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+-- Only the codes for the driver's own vehicles, not the rest of the job's
+drop policy if exists vehicle_lockbox_codes_driver on public.vehicle_lockbox_codes;
+create policy vehicle_lockbox_codes_driver on public.vehicle_lockbox_codes
+  for select using (
+    exists (select 1 from public.vehicles v where v.id = vehicle_id and v.driver_id = public.current_driver_id())
+  );
+
+drop policy if exists vehicle_inspections_select on public.vehicle_inspections;
+create policy vehicle_inspections_select on public.vehicle_inspections
+  for select using (
+    public.is_staff() or public.is_request_driver(shuttle_request_id) or exists (
+      select 1 from public.shuttle_requests r
+      where r.id = shuttle_request_id and r.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists vehicle_inspections_insert on public.vehicle_inspections;
+create policy vehicle_inspections_insert on public.vehicle_inspections
+  for insert with check (public.is_staff() or public.is_request_driver(shuttle_request_id));
+
+drop policy if exists vehicle_inspection_photos_select on storage.objects;
+create policy vehicle_inspection_photos_select on storage.objects
+  for select using (
+    bucket_id = 'vehicle-inspections' and (
+      public.is_staff() or exists (
+        select 1 from public.shuttle_requests r
+        where r.id::text = (storage.foldername(name))[1]
+          and (r.user_id = auth.uid() or public.is_request_driver(r.id))
+      )
+    )
+  );
+
+drop policy if exists vehicle_inspection_photos_insert on storage.objects;
+create policy vehicle_inspection_photos_insert on storage.objects
+  for insert with check (
+    bucket_id = 'vehicle-inspections' and (
+      public.is_staff() or exists (
+        select 1 from public.shuttle_requests r
+        where r.id::text = (storage.foldername(name))[1] and public.is_request_driver(r.id)
+      )
+    )
+  );
+
+drop policy if exists vehicle_inspection_photos_delete on storage.objects;
+create policy vehicle_inspection_photos_delete on storage.objects
+  for delete using (
+    bucket_id = 'vehicle-inspections' and (
+      public.is_staff() or exists (
+        select 1 from public.shuttle_requests r
+        where r.id::text = (storage.foldername(name))[1] and public.is_request_driver(r.id)
+      )
+    )
+  );
+
+-- Now runs as definer so a driver can move their job along, and returns
+-- nothing: the caller reads the request back through row level security
+drop function if exists public.confirm_key_handoff(uuid, uuid, text, text);
+create function public.confirm_key_handoff(
+  p_request_id uuid,
+  p_vehicle_id uuid,
+  p_step text,
+  p_actor text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.shuttle_requests;
+  v_vehicle public.vehicles;
+  v_actor text := trim(p_actor);
+begin
+  if not public.is_staff() then
+    -- A driver confirms only their own vehicles, under their own name
+    select full_name into v_actor
+    from public.drivers d
+    join public.vehicles v on v.driver_id = d.id
+    where v.id = p_vehicle_id and d.id = public.current_driver_id();
+    if v_actor is null then
+      raise exception 'Only staff or the vehicle''s driver can confirm a key handoff' using errcode = '42501';
+    end if;
+  end if;
+
+  select * into v_request from public.shuttle_requests where id = p_request_id for update;
+  select * into v_vehicle from public.vehicles where id = p_vehicle_id and shuttle_request_id = p_request_id;
+  if v_request.id is null or v_vehicle.id is null then
+    raise exception 'Vehicle % on shuttle request % not found', p_vehicle_id, p_request_id using errcode = 'P0002';
+  end if;
+
+  if v_request.status not in ('confirmed', 'in_progress') then
+    raise exception 'Keys can''t be handed over on a % request', v_request.status using errcode = '23514';
+  end if;
+
+  if p_step = 'pickup' then
+    if v_vehicle.key_picked_up_at is not null then
+      raise exception 'Keys picked up was already confirmed by %', v_vehicle.key_picked_up_by using errcode = '40001';
+    end if;
+    update public.vehicles
+    set key_picked_up_at = now(), key_picked_up_by = v_actor
+    where id = p_vehicle_id;
+  elsif p_step = 'dropoff' then
+    if v_vehicle.key_dropped_off_at is not null then
+      raise exception 'Keys dropped off was already confirmed by %', v_vehicle.key_dropped_off_by using errcode = '40001';
+    end if;
+    if v_vehicle.key_picked_up_at is null then
+      raise exception 'Confirm the key pickup first' using errcode = '23514';
+    end if;
+    update public.vehicles
+    set key_dropped_off_at = now(), key_dropped_off_by = v_actor
+    where id = p_vehicle_id;
+  else
+    raise exception 'Unknown key handoff step %', p_step using errcode = '23514';
+  end if;
+
+  update public.shuttle_requests set updated_at = now() where id = p_request_id;
+end;
+$$;
+
+revoke execute on function public.confirm_key_handoff(uuid, uuid, text, text) from public, anon;
+grant execute on function public.confirm_key_handoff(uuid, uuid, text, text) to authenticated;
+
+-- The driver and the name recorded come from the session, and only a driver
+-- on the job may check it in. Returns nothing, like confirm_key_handoff.
+drop function if exists public.check_in_shuttle_request(
+  uuid, text, text, uuid, text, double precision, double precision, double precision
+);
+create function public.check_in_shuttle_request(
+  p_request_id uuid,
+  p_from text,
+  p_step text,
+  p_lat double precision,
+  p_lng double precision,
+  p_accuracy_m double precision
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_driver public.drivers;
+  v_request public.shuttle_requests;
+  v_done public.job_check_ins;
+  v_to text := case p_step when 'picked_up' then 'in_progress' when 'delivered' then 'completed' end;
+begin
+  select * into v_driver from public.drivers where id = public.current_driver_id();
+  if v_driver.id is null or not public.is_request_driver(p_request_id) then
+    raise exception 'Only a driver on this job can check it in' using errcode = '42501';
+  end if;
+  if v_to is null then
+    raise exception 'Unknown check-in step %', p_step using errcode = '23514';
+  end if;
+
+  select * into v_request from public.shuttle_requests where id = p_request_id for update;
+  if v_request.status <> p_from then
+    raise exception 'Shuttle request % is %, not %', p_request_id, v_request.status, p_from using errcode = '40001';
+  end if;
+
+  select * into v_done from public.job_check_ins where shuttle_request_id = p_request_id and step = p_step;
+  if v_done.id is not null then
+    raise exception '% was already recorded by %',
+      case p_step when 'picked_up' then 'Picked up' else 'Delivered' end, v_done.actor
+      using errcode = '40001';
+  end if;
+  if v_request.status not in ('confirmed', 'in_progress') then
+    raise exception 'A % job can''t be checked in', v_request.status using errcode = '23514';
+  end if;
+  if p_step = 'delivered'
+    and not exists (select 1 from public.job_check_ins where shuttle_request_id = p_request_id and step = 'picked_up') then
+    raise exception 'Mark the job picked up first' using errcode = '23514';
+  end if;
+
+  insert into public.job_check_ins (shuttle_request_id, step, driver_id, actor, lat, lng, accuracy_m)
+  values (p_request_id, p_step, v_driver.id, v_driver.full_name, p_lat, p_lng, p_accuracy_m);
+
+  if v_request.status <> v_to then
+    perform public.transition_shuttle_request(p_request_id, p_from, v_to, v_driver.full_name, null);
+  else
+    update public.shuttle_requests set updated_at = now() where id = p_request_id;
+  end if;
+end;
+$$;
+
+revoke execute on function public.check_in_shuttle_request(uuid, text, text, double precision, double precision, double precision)
+  from public, anon;
+grant execute on function public.check_in_shuttle_request(uuid, text, text, double precision, double precision, double precision)
+  to authenticated;
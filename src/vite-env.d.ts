@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string
+  readonly VITE_SUPABASE_ANON_KEY?: string
+  readonly VITE_MAP_TILE_URL?: string
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string
+  readonly VITE_GEOCODER_URL?: string
+  readonly VITE_OWNER_EMAIL?: string
+  readonly VITE_OWNER_PHONE?: string
+  readonly VITE_SITE_URL?: string
+  readonly VITE_PAYMENT_RELAY_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}